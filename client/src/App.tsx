@@ -4,6 +4,7 @@ import NotFound from "@/pages/NotFound";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { MoneyBasisProvider } from "./contexts/MoneyBasisContext";
 import Portfolios from "./pages/Portfolios";
 import Home from "./pages/Home";
 import PortfolioDetail from "./pages/PortfolioDetail";
@@ -27,10 +28,12 @@ function App() {
       <ThemeProvider
         defaultTheme="light"
       >
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <MoneyBasisProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </MoneyBasisProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
@@ -1,7 +1,7 @@
 /*
  * AI Financial Planner — slide-in chat panel from the right.
  * Auto-triggers analysis on calculate. Shows recommendation chips after each response.
- * Includes goal-based reverse planner mode.
+ * Includes a goal planner that searches for engine-verified plans and loads them into the inputs.
  * Exposed via ref so parent can trigger analysis externally.
  * Reports loading/ready status to parent via onStatusChange callback.
  * Integrates both property AND stock portfolio data for comprehensive analysis.
@@ -22,9 +22,32 @@ import type {
   StockSimulationResult,
   StockInputs,
 } from "@/lib/calculator";
-import { formatNumber, calculateTenure } from "@/lib/calculator";
+import {
+  formatNumber,
+  calculateTenure,
+  getHorizonResult,
+  getHorizonYears,
+  getInterestRateForYear,
+  getMilestones,
+  getStockMilestones,
+} from "@/lib/calculator";
+import { isRefinanceEnabled } from "@/lib/refinance";
+import { getBankPolicy, isDsrEnabled } from "@/lib/dsr";
+import { isCashAccountEnabled } from "@/lib/cashAccount";
+import { DEFAULT_CONSTRUCTION, isConstructionEnabled } from "@/lib/construction";
+import type { ShortTermRentalSettings } from "@/lib/shortTermRental";
+import { DEFAULT_LEASEHOLD, type LeaseholdSettings } from "@/lib/leasehold";
+import { DEFAULT_PERSONAL_RELIEF } from "@/lib/incomeTax";
+import {
+  isHoldingCostsEnabled,
+  type HoldingCostItem,
+  type HoldingCostSettings,
+} from "@/lib/holdingCosts";
+import { toRealResults, toRealStockResults, type MoneyBasis } from "@/lib/inflation";
+import { useMoneyBasis } from "@/contexts/MoneyBasisContext";
 import { Sparkles, Send, RotateCcw, Target } from "lucide-react";
 import { Streamdown } from "streamdown";
+import GoalPlanner from "@/components/GoalPlanner";
 
 type Message = {
   role: "system" | "user" | "assistant";
@@ -48,17 +71,110 @@ interface AIChatPanelProps {
   stockResults?: StockSimulationResult | null;
   stockInputs?: StockInputs | null;
   onStatusChange?: (status: AIStatus) => void;
+  onLoadInputs?: (inputs: CalculatorInputs, stockInputs: StockInputs | null) => void;
   isSlideIn?: boolean;
 }
 
+function describeRatePath(inputs: CalculatorInputs): string {
+  const schedule = inputs.rateSchedule;
+  if (!schedule || schedule.type === "fixed" || schedule.steps.length === 0) {
+    return `${inputs.interestRate}% fixed for the whole tenure`;
+  }
+  const steps = [...schedule.steps]
+    .sort((a, b) => a.year - b.year)
+    .map((s) => `year ${s.year}: ${getInterestRateForYear(inputs, s.year)}%`)
+    .join(", ");
+  return schedule.type === "baseSpread"
+    ? `floating — SBR ${schedule.baseRate ?? 0}% + spread (${steps}); instalments re-amortised on each change`
+    : `floating — ${inputs.interestRate}% then ${steps}; instalments re-amortised on each change`;
+}
+
+function describeRentAssumptions(inputs: CalculatorInputs): string {
+  const growth = inputs.rentBasis === "marketValue"
+    ? "rent follows market value"
+    : (inputs.rentGrowthRate ?? 0) > 0 ? `rent grows ${inputs.rentGrowthRate}% p.a.` : "rent flat throughout";
+  const vacancy = (inputs.vacancyValue ?? 0) > 0
+    ? `vacancy ${inputs.vacancyValue}${(inputs.vacancyType ?? "months") === "months" ? " month(s) a year" : "% of rent"}`
+    : "no vacancy";
+  return `${growth}, reviewed every ${inputs.rentReviewYears ?? 1} year(s), ${vacancy}`;
+}
+
+function describeRefinance(inputs: CalculatorInputs): string {
+  const plan = inputs.refinance;
+  if (!isRefinanceEnabled(plan)) return "none";
+  const trigger = plan.trigger === "scheduled"
+    ? `every ${plan.afterYears} years of a loan`
+    : `once LTV falls to ${plan.ltvThreshold}% (after lock-in)`;
+  return `${trigger}, up to ${plan.maxRefinances}× per unit, new loan ${plan.targetLtv}% of market value${plan.interestRate !== undefined ? ` at ${plan.interestRate}%` : ""}, ${plan.lockInYears}-year lock-in with ${plan.lockInPenaltyRate}% penalty, cash-out ${plan.cashOutTo === "stock" ? "invested in stocks" : "kept as cash"}`;
+}
+
+function describeHoldingCosts(
+  costs: HoldingCostSettings,
+  firstYearCost: number,
+  usesPropertyList: boolean
+): string {
+  const item = (label: string, { amount, growth }: HoldingCostItem, per: string) =>
+    `${label} RM ${formatNumber(amount)}/${per} (+${growth}% p.a.)`;
+  return `itemised — ${[
+    item("maintenance and sinking fund", costs.maintenance, "month"),
+    item("quit rent and assessment", costs.quitRent, "year"),
+    item("fire insurance", costs.insurance, "year"),
+    `${item("MRTA", costs.mrta, "year")} while a loan is owed, not tax-deductible`,
+    item("repair reserve", costs.repairs, "year"),
+    `management ${costs.managementRate}% of rent`,
+  ].join(", ")}; RM ${formatNumber(firstYearCost.toFixed(0))} in the first property's first year${usesPropertyList ? ", scaled to each listed property's price" : ""}`;
+}
+
+function describeShortTermRental(settings: ShortTermRentalSettings, units: string): string {
+  return `${units} let by the night at RM ${formatNumber(settings.nightlyRate)} (today's money, rising with rent), occupancy ${settings.occupancy.join("/")}% Jan–Dec, ${settings.averageStayNights}-night stays with RM ${formatNumber(settings.cleaningPerStay)} cleaning each, utilities RM ${formatNumber(settings.utilities)}/month, platform fee ${settings.platformFeeRate}% and operator fee ${settings.operatorFeeRate}% of bookings, RM ${formatNumber(settings.furnishingCost)} furnishing replaced every ${settings.furnitureLifeYears} year(s); bookings replace the rental yield and vacancy`;
+}
+
+function describeLeasehold(settings: LeaseholdSettings, results: FullSimulationResult): string {
+  const units = results.properties.filter((p) => p.lease);
+  const year = (y: number) => results.yearlyData[0].calendarYear + y;
+  const limited = units.filter(
+    (p) =>
+      (p.lease!.loanTenure > 0 && p.lease!.loanTenure < results.loanTenure) ||
+      p.lease!.unfinanceableYear !== null ||
+      p.lease!.expiryYear !== null
+  );
+  const notBought = results.shortLeasePurchases ?? [];
+  return [
+    `${results.usesPropertyList ? `${units.length} listed unit(s)` : `every unit, ${settings.leaseYears} years left at purchase`}; value = market value × lease-decay curve (${settings.curve.map((c) => `${c.years}y ${c.value}%`).join(", ")} of freehold) relative to the lease at purchase; banks lend over at most the lease left less ${settings.leaseAtMaturityYears} years and not on under ${settings.minFinanceableYears} years; a unit reverts to the state, without proceeds, when its lease runs out`,
+    ...(limited.length > 0
+      ? [`Limited by the lease: ${limited.map((p) => `${p.name} (${p.lease!.loanTenure > 0 ? `loan ${p.lease!.loanTenure} years` : "no loan"}${p.lease!.unfinanceableYear !== null ? `, unfinanceable from ${year(p.lease!.unfinanceableYear)}` : ""}${p.lease!.expiryYear !== null ? `, reverts in ${year(p.lease!.expiryYear)}` : ""})`).join(", ")}`]
+      : []),
+    ...(notBought.length > 0
+      ? [`Not bought, lease too short: ${notBought.map((u) => `${u.name} (${Math.floor(u.leaseYears)} years left)`).join(", ")}`]
+      : []),
+  ].join(". ");
+}
+
+/** How the results quoted to the planner are expressed */
+function describeMoneyBasis(
+  basis: MoneyBasis,
+  inflationRate: number,
+  startingYear: number
+): string {
+  return basis === "real"
+    ? `today's ringgit — year-by-year and milestone figures are deflated to ${startingYear} at ${inflationRate}% inflation a year; per-property purchase figures are as entered`
+    : "nominal ringgit (not adjusted for inflation)";
+}
+
 function buildContextMessage(
   inputs: CalculatorInputs,
-  results: FullSimulationResult,
-  stockInputs?: StockInputs | null,
-  stockResults?: StockSimulationResult | null
+  nominalResults: FullSimulationResult,
+  stockInputs: StockInputs | null | undefined,
+  nominalStockResults: StockSimulationResult | null | undefined,
+  moneyBasis: { basis: MoneyBasis; inflationRate: number }
 ): string {
+  const { basis, inflationRate } = moneyBasis;
+  const results = basis === "real" ? toRealResults(nominalResults, inflationRate) : nominalResults;
+  const stockResults = nominalStockResults && basis === "real"
+    ? toRealStockResults(nominalStockResults, inflationRate)
+    : nominalStockResults;
   const loanTenure = calculateTenure(inputs.age);
-  const monthlyRate = (inputs.interestRate / 100) / 12;
+  const monthlyRate = (getInterestRateForYear(inputs, 1) / 100) / 12;
   const numPayments = loanTenure * 12;
   const monthlyInstalment = monthlyRate === 0
     ? inputs.loanAmount / numPayments
@@ -69,6 +185,10 @@ function buildContextMessage(
   const cashback = Math.max(0, inputs.loanAmount - inputs.purchasePrice);
   const belowMV = inputs.currentMarketValue > inputs.purchasePrice;
   const discountPct = belowMV ? ((1 - inputs.purchasePrice / inputs.currentMarketValue) * 100).toFixed(1) : "0";
+  // Figures are quoted at the milestones the user asked for, ending at the horizon
+  const horizon = getHorizonYears(results);
+  const atHorizon = getHorizonResult(results);
+  const milestones = getMilestones(results);
 
   let msg = `Here is my current investment simulation:
 
@@ -78,27 +198,121 @@ function buildContextMessage(
 - Below Market Value: ${belowMV ? `Yes (${discountPct}% discount)` : "No"}
 - Loan Amount: RM ${formatNumber(inputs.loanAmount)} (LTV: ${((inputs.loanAmount / inputs.currentMarketValue) * 100).toFixed(0)}%)
 - Cashback per Property: RM ${formatNumber(cashback)}
+- Deposit per Property: RM ${formatNumber(Math.max(0, inputs.purchasePrice - inputs.loanAmount))}
+- Margin of Financing: ${inputs.applyLtvLimits ? "BNM limits applied — loans capped at 90% of market value, 70% from the third outstanding housing loan" : "loans taken as entered"}
 - Max Properties: ${inputs.maxProperties}
 - Annual Appreciation: ${inputs.appreciationRate}%
-- Gross Rental Yield: ${inputs.rentalYield}%
-- Loan Interest Rate: ${inputs.interestRate}%
+- Gross Rental Yield: ${inputs.rentalYield}% of ${inputs.rentBasis === "marketValue" ? "market value, re-set at each rent review" : "purchase price"}
+- Rent Growth & Vacancy: ${describeRentAssumptions(inputs)}
+- Income Tax on Rent: ${inputs.includeIncomeTax ? `resident rates on net rent (after interest and expenses), on top of RM ${formatNumber(inputs.employmentIncome ?? 0)}/year employment income with RM ${formatNumber(inputs.taxReliefs ?? DEFAULT_PERSONAL_RELIEF)} reliefs — RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.incomeTax ?? 0), 0).toFixed(0))} over ${horizon} years; all cash flow figures are after tax` : "not modelled (cash flow figures are pre-tax)"}
+- Loan Interest Rate: ${describeRatePath(inputs)}
 - Purchase Interval: Every ${inputs.buyInterval} year(s)
 - Starting Year: ${inputs.startingYear}
+- Completion Month: ${inputs.purchaseMonth ?? 1} (1 = January); rent starts ${inputs.rentStartDelayMonths ?? 0} month(s) after completion
+- Under Construction: ${isConstructionEnabled(inputs.construction) && !inputs.properties?.length ? `every unit bought off-plan in its purchase month, vacant possession ${inputs.construction.constructionMonths} months later and let after ${inputs.construction.fitOutMonths} month(s) of fit-out; the loan is drawn down under Schedule H with interest only on what is drawn${inputs.construction.dibs ? ", paid by the developer (DIBS)" : ""} until handover` : results.properties.some((p) => p.vacantPossession) ? `per the property list; let after ${inputs.construction?.fitOutMonths ?? DEFAULT_CONSTRUCTION.fitOutMonths} month(s) of fit-out` : "no — every unit is bought completed"}
+- Short-Term Rental: ${results.shortTermRental ? describeShortTermRental(results.shortTermRental, results.usesPropertyList ? `${results.properties.filter((p) => p.shortTermRental).length} listed unit(s)` : "every unit") : "no — every unit is let to a tenant"}
+- Leasehold: ${results.leasehold || (results.shortLeasePurchases ?? []).length > 0 ? describeLeasehold(results.leasehold ?? inputs.leasehold ?? DEFAULT_LEASEHOLD, results) : "no — every unit is freehold"}
+- Acquisition Costs: ${inputs.includeAcquisitionCosts ? `included — RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.acquisitionCost ?? 0), 0).toFixed(0))} stamp duty, legal and valuation fees over all purchases${inputs.firstHomeExemption ? " (first-home stamp duty exemption on the first purchase)" : ""}` : "not included"}
+- Exit Strategy: ${(inputs.sellAfterYears ?? 0) > 0 ? `sell each unit after ${inputs.sellAfterYears} years (agent ${inputs.agentCommissionRate ?? 3}%, RPGT as ${inputs.rpgtCategory ?? "citizen"}), net proceeds ${inputs.saleProceedsTo === "stock" ? "invested in stocks" : "kept as cash"}` : "hold every unit"}
+- Refinancing: ${describeRefinance(inputs)}
+- Later Purchases: ${inputs.indexFuturePurchases ? `priced at market — price, loan and rent grow ${inputs.priceGrowthRate ?? inputs.appreciationRate}% p.a. from year 1` : "same price, loan and rent as today"}
 - Age: ${inputs.age} → Loan Tenure: ${loanTenure} years
-- Monthly Expense/Property: RM ${formatNumber(monthlyExpense.toFixed(0))} (${inputs.expenseType === "fixed" ? "fixed" : `${inputs.expenseValue}% of instalment`})
+- Horizon: ${horizon} years, to ${inputs.startingYear + horizon} (age ${inputs.age + horizon}); milestones at ${milestones.map((m) => `year ${m.year} (age ${inputs.age + m.year})`).join(", ")}
+- ${isHoldingCostsEnabled(inputs.holdingCosts) ? `Holding Costs/Property: ${describeHoldingCosts(inputs.holdingCosts, results.annualExpensePerProperty, results.usesPropertyList)}` : `Monthly Expense/Property: RM ${formatNumber(monthlyExpense.toFixed(0))} (${inputs.expenseType === "fixed" ? "fixed" : `${inputs.expenseValue}% of instalment`})`}
 
 **Property Key Results:**
-- 10-Year Net Equity: RM ${formatNumber(results.results10.netEquity.toFixed(0))}
-- 20-Year Net Equity: RM ${formatNumber(results.results20.netEquity.toFixed(0))}
-- 30-Year Net Equity: RM ${formatNumber(results.results30.netEquity.toFixed(0))}
-- Properties Owned (30Y): ${results.results30.propertiesOwned}
+- Money Basis: ${describeMoneyBasis(basis, inflationRate, inputs.startingYear)}
+${milestones.map((m) => `- ${m.year}-Year Net Equity: RM ${formatNumber(m.result.netEquity.toFixed(0))}`).join("\n")}
+- Properties Owned (${horizon}Y): ${atHorizon.propertiesOwned}
 - Monthly Mortgage Payment: RM ${formatNumber(results.monthlyPayment.toFixed(0))}
 - Annual Rental Income/Property: RM ${formatNumber(results.annualRentalIncome.toFixed(0))}
 - Loan Amount/Property: RM ${formatNumber(results.loanAmount.toFixed(0))}
 - Market Value/Property: RM ${formatNumber(results.marketValue.toFixed(0))}
-- 30-Year Cumulative Cash Flow: RM ${formatNumber(results.results30.cumulativeCashFlow.toFixed(0))}
-- 30-Year Total Asset Value: RM ${formatNumber(results.results30.totalAssetValue.toFixed(0))}
-- 30-Year Total Loan Balance: RM ${formatNumber(results.results30.totalLoanBalance.toFixed(0))}`;
+- ${horizon}-Year Cumulative Cash Flow: RM ${formatNumber(atHorizon.cumulativeCashFlow.toFixed(0))}
+- ${horizon}-Year Total Asset Value: RM ${formatNumber(atHorizon.totalAssetValue.toFixed(0))}
+- ${horizon}-Year Total Loan Balance: RM ${formatNumber(atHorizon.totalLoanBalance.toFixed(0))}`;
+
+  // Returns on own cash compare plans that net equity alone can't
+  if (results.returns) {
+    const { irr, npv, discountRate, cashInvested, equityMultiple } = results.returns;
+    msg += `
+- IRR on Own Cash: ${irr !== null ? `${irr.toFixed(1)}% a year` : "not defined (no single rate)"}
+- NPV at ${discountRate}%: RM ${formatNumber(npv.toFixed(0))}
+- Own Cash Invested (${horizon}Y): RM ${formatNumber(cashInvested.toFixed(0))}${equityMultiple !== null ? `, equity multiple ${equityMultiple.toFixed(2)}×` : ""}`;
+  }
+
+  // Sales split net equity into realised gains and equity still held
+  const final = results.yearlyData[results.yearlyData.length - 1];
+  if ((final?.propertiesSold ?? 0) > 0) {
+    msg += `
+- Properties Sold (${horizon}Y): ${final.propertiesSold}
+- Realised Gains after Sale Costs & RPGT (${horizon}Y): RM ${formatNumber(final.cumulativeRealisedGain.toFixed(0))}
+- RPGT Paid (${horizon}Y): RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + d.rpgt, 0).toFixed(0))}
+- Unrealised Equity in Held Units (${horizon}Y): RM ${formatNumber((final.totalAssetValue - final.totalLoanBalance).toFixed(0))}`;
+  }
+
+  // Refinancing releases equity at the cost of a larger loan
+  const refinanceCount = results.yearlyData.reduce((sum, d) => sum + (d.refinances ?? 0), 0);
+  if (refinanceCount > 0) {
+    msg += `
+- Refinances (${horizon}Y): ${refinanceCount}, releasing RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.refinanceCashOut ?? 0), 0).toFixed(0))} after RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.refinanceCosts ?? 0), 0).toFixed(0))} of fees and penalties`;
+  }
+
+  // Bank DSR limits can stop the plan short of its target unit count
+  if (isDsrEnabled(inputs.dsr)) {
+    const blocked = results.blockedPurchases ?? [];
+    msg += `
+- Loan Eligibility: RM ${formatNumber(inputs.dsr.netMonthlyIncome)}/month net income growing ${inputs.dsr.incomeGrowthRate}% p.a., RM ${formatNumber(inputs.dsr.existingCommitments)}/month other commitments, ${getBankPolicy(inputs.dsr).label} DSR rules — ${blocked.length > 0
+      ? `${blocked.length} purchase(s) declined, first ${blocked[0].name} in ${inputs.startingYear + blocked[0].year} at ${blocked[0].dsr.toFixed(1)}% DSR vs ${blocked[0].limit}% limit`
+      : "every purchase approved"}`;
+  }
+
+  // Flexi loans trade a rate premium for interest saved on parked surplus
+  if (results.flexiLoan && inputs.flexiLoan) {
+    const { debtFreeYear, scheduledDebtFreeYear } = results.flexiLoan;
+    msg += `
+- Loan Type: ${inputs.flexiLoan.loanType === "flexi" ? "full flexi" : "semi-flexi"} (+${inputs.flexiLoan.ratePremium}% rate premium), ${inputs.flexiLoan.prepayShare}% of monthly surplus prepaid${inputs.flexiLoan.redrawForShortfalls ? ", shortfalls redrawn" : ""} — RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.interestSaved ?? 0), 0).toFixed(0))} interest saved over ${horizon} years; debt-free in ${debtFreeYear != null ? inputs.startingYear + debtFreeYear : "n/a"} vs ${scheduledDebtFreeYear != null ? inputs.startingYear + scheduledDebtFreeYear : "n/a"} on schedule`;
+  }
+
+  // Islamic financing caps the profit rate; BBA rebates unearned profit on settlement
+  if (results.islamicFinancing) {
+    const { type, ceilingRate } = results.islamicFinancing;
+    msg += `
+- Financing: ${type === "bba" ? "BBA (Bai' Bithaman Ajil)" : "Musharakah Mutanaqisah"}, ${ceilingRate}% ceiling profit rate${type === "bba"
+      ? ` — RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.ibra ?? 0), 0).toFixed(0))} ibra' rebated on early settlements over ${horizon} years`
+      : ""}`;
+  }
+
+  // Deposits, costs and shortfalls the investor pays in; purchases they couldn't fund
+  const unfunded = results.unfundedPurchases ?? [];
+  msg += `
+- Total Cash Injected (${horizon}Y): RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.cashInjected ?? 0), 0).toFixed(0))}, of which deposits RM ${formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.deposits ?? 0), 0).toFixed(0))}${unfunded.length > 0
+    ? `; ${unfunded.length} purchase(s) skipped because the cash account could not pay the deposit and costs, first ${unfunded[0].name} in ${inputs.startingYear + unfunded[0].year}`
+    : results.liquidity
+      ? ""
+      : "; deposits are not checked against savings without a cash account"}`;
+
+  // The investor's own cash funds deposits and shortfalls
+  if (isCashAccountEnabled(inputs.cashAccount) && results.liquidity) {
+    const { firstBelowFloor, firstInsolvency } = results.liquidity;
+    const when = (p: { year: number; month: number }) => `${p.month}/${inputs.startingYear + p.year}`;
+    msg += `
+- Cash Account: starts RM ${formatNumber(inputs.cashAccount.startingBalance)}, saves RM ${formatNumber(inputs.cashAccount.monthlySavings)}/month, FD ${inputs.cashAccount.fdRate}%, emergency floor RM ${formatNumber(inputs.cashAccount.emergencyFloor)} — ${firstBelowFloor
+      ? `below the floor from ${when(firstBelowFloor)}${firstInsolvency ? `, runs out in ${when(firstInsolvency)}` : ", never runs out"}`
+      : "stays above the floor throughout"}`;
+  }
+
+  // Custom property list — the interval fields above only seed the list
+  if (inputs.properties && inputs.properties.length > 0) {
+    msg += `
+
+**Custom Property List** (overrides the purchase price, loan, yield, expense and interval above; figures "per property" refer to the first one):
+${inputs.properties.map((p) => `- ${p.name}: completes ${p.purchaseMonth}/${inputs.startingYear + p.purchaseYear}, price RM ${formatNumber(p.purchasePrice)}, market value RM ${formatNumber(p.marketValue)}, loan RM ${formatNumber(p.loanAmount)}, rate ${p.interestRate !== undefined ? `${p.interestRate}%` : "per plan"}, yield ${p.rentalYield}%, expense ${p.expenseType === "fixed" ? `RM ${formatNumber(p.expenseValue)}/month` : `${p.expenseValue}% of instalment`}${(p.constructionMonths ?? 0) > 0 ? `, under construction — SPA on that date, vacant possession ${p.constructionMonths} months later${p.dibs ? ", DIBS" : ""}` : ""}${p.shortTermRental ? ", let short term" : ""}${p.tenure === "leasehold" ? `, leasehold with ${p.leaseYears ?? 0} years left` : ""}`).join("\n")}`;
+    if (results.properties) {
+      msg += `
+- ${horizon}-Year Net Equity by Property: ${results.properties.map((p) => `${p.name} RM ${formatNumber((p.netEquity[horizon] ?? 0).toFixed(0))}`).join(", ")}`;
+    }
+  }
 
   // Append stock portfolio data if available
   if (stockInputs && stockResults) {
@@ -122,15 +336,10 @@ The user is also reinvesting property cash flow and mortgage cashback into high-
 - Cashback per Property: RM ${formatNumber(cashback)} (invested as lump sum when each property is purchased)
 
 **Stock Portfolio Results:**
-- 10-Year Stock Portfolio Value: RM ${formatNumber(stockResults.stock10Year.portfolioValue.toFixed(0))}
-- 10-Year Total Dividends: RM ${formatNumber(stockResults.stock10Year.totalDividends.toFixed(0))}
-- 10-Year Total Invested: RM ${formatNumber(stockResults.stock10Year.totalInvested.toFixed(0))}
-- 20-Year Stock Portfolio Value: RM ${formatNumber(stockResults.stock20Year.portfolioValue.toFixed(0))}
-- 20-Year Total Dividends: RM ${formatNumber(stockResults.stock20Year.totalDividends.toFixed(0))}
-- 20-Year Total Invested: RM ${formatNumber(stockResults.stock20Year.totalInvested.toFixed(0))}
-- 30-Year Stock Portfolio Value: RM ${formatNumber(stockResults.stock30Year.portfolioValue.toFixed(0))}
-- 30-Year Total Dividends: RM ${formatNumber(stockResults.stock30Year.totalDividends.toFixed(0))}
-- 30-Year Total Invested: RM ${formatNumber(stockResults.stock30Year.totalInvested.toFixed(0))}`;
+${getStockMilestones(stockResults).map(({ year, milestone: m }) => `- ${year}-Year Stock Portfolio Value: RM ${formatNumber(m.portfolioValue.toFixed(0))}
+- ${year}-Year Total Dividends: RM ${formatNumber(m.totalDividends.toFixed(0))}
+- ${year}-Year Total Invested: RM ${formatNumber(m.totalInvested.toFixed(0))}`).join("\n")}${stockResults.timeWeightedReturn != null ? `
+- Stock Time-Weighted Return: ${stockResults.timeWeightedReturn.toFixed(1)}% a year` : ""}`;
 
     // Add combined net worth from the last available year
     const lastYear = stockResults.yearlyData[stockResults.yearlyData.length - 1];
@@ -138,22 +347,19 @@ The user is also reinvesting property cash flow and mortgage cashback into high-
       msg += `
 
 **Combined Net Worth (Property + Stock):**
-- 30-Year Combined Net Worth: RM ${formatNumber(lastYear.combinedNetWorth.toFixed(0))}
-- 30-Year Property Net Equity: RM ${formatNumber(lastYear.propertyNetEquity.toFixed(0))}
-- 30-Year Stock Portfolio Value: RM ${formatNumber(lastYear.stockPortfolioValue.toFixed(0))}
-- 30-Year Unrealized Stock Gain: RM ${formatNumber(lastYear.stockUnrealizedGain.toFixed(0))}
-- 30-Year Cumulative Dividends: RM ${formatNumber(lastYear.cumulativeDividends.toFixed(0))}`;
-
-      // Add 10-year and 20-year combined snapshots
-      const year10 = stockResults.yearlyData.find(d => d.year === 10);
-      const year20 = stockResults.yearlyData.find(d => d.year === 20);
-      if (year10) {
-        msg += `
-- 10-Year Combined Net Worth: RM ${formatNumber(year10.combinedNetWorth.toFixed(0))}`;
-      }
-      if (year20) {
-        msg += `
-- 20-Year Combined Net Worth: RM ${formatNumber(year20.combinedNetWorth.toFixed(0))}`;
+- ${lastYear.year}-Year Combined Net Worth: RM ${formatNumber(lastYear.combinedNetWorth.toFixed(0))}
+- ${lastYear.year}-Year Property Net Equity: RM ${formatNumber(lastYear.propertyNetEquity.toFixed(0))}
+- ${lastYear.year}-Year Stock Portfolio Value: RM ${formatNumber(lastYear.stockPortfolioValue.toFixed(0))}
+- ${lastYear.year}-Year Unrealized Stock Gain: RM ${formatNumber(lastYear.stockUnrealizedGain.toFixed(0))}
+- ${lastYear.year}-Year Cumulative Dividends: RM ${formatNumber(lastYear.cumulativeDividends.toFixed(0))}`;
+
+      // Combined snapshots at the earlier milestones
+      for (const { year } of milestones.filter((m) => m.year < lastYear.year)) {
+        const snapshot = stockResults.yearlyData.find((d) => d.year === year);
+        if (snapshot) {
+          msg += `
+- ${year}-Year Combined Net Worth: RM ${formatNumber(snapshot.combinedNetWorth.toFixed(0))}`;
+        }
       }
     }
 
@@ -169,21 +375,14 @@ Please analyze my property investment plan and provide your professional assessm
   return msg;
 }
 
-// Goal-based reverse planner quick prompts
-const GOAL_PROMPTS = [
-  "I want RM 5M net equity in 15 years",
-  "I want RM 10M net equity in 20 years",
-  "I want positive cash flow from year 1",
-];
-
 const AIChatPanel = forwardRef<AIChatPanelRef, AIChatPanelProps>(
-  ({ results, inputs, stockResults, stockInputs, onStatusChange, isSlideIn = false }, ref) => {
+  ({ results, inputs, stockResults, stockInputs, onStatusChange, onLoadInputs, isSlideIn = false }, ref) => {
     const [messages, setMessages] = useState<Message[]>([]);
     const [suggestions, setSuggestions] = useState<string[]>([]);
     const [input, setInput] = useState("");
     const [status, setStatus] = useState<AIStatus>("idle");
     const [showGoalPlanner, setShowGoalPlanner] = useState(false);
-    const [goalInput, setGoalInput] = useState("");
+    const moneyBasis = useMoneyBasis();
     const scrollRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -226,7 +425,7 @@ const AIChatPanel = forwardRef<AIChatPanelRef, AIChatPanelProps>(
         newStockInputs?: StockInputs | null,
         newStockResults?: StockSimulationResult | null
       ) => {
-        const contextMsg = buildContextMessage(newInputs, newResults, newStockInputs, newStockResults);
+        const contextMsg = buildContextMessage(newInputs, newResults, newStockInputs, newStockResults, moneyBasis);
         const userMessage: Message = { role: "user", content: contextMsg };
         setMessages([userMessage]);
         setSuggestions([]);
@@ -281,37 +480,14 @@ const AIChatPanel = forwardRef<AIChatPanelRef, AIChatPanelProps>(
 
     const handleNewAnalysis = useCallback(() => {
       if (!results || !inputs) return;
-      const contextMsg = buildContextMessage(inputs, results, stockInputs, stockResults);
+      const contextMsg = buildContextMessage(inputs, results, stockInputs, stockResults, moneyBasis);
       const userMessage: Message = { role: "user", content: contextMsg };
       setMessages([userMessage]);
       setSuggestions([]);
       setShowGoalPlanner(false);
       updateStatus("loading");
       chatMutation.mutate({ messages: [userMessage] });
-    }, [results, inputs, stockInputs, stockResults, chatMutation, updateStatus]);
-
-    const handleGoalSubmit = useCallback(
-      (goal: string) => {
-        if (!goal.trim() || !results || !inputs) return;
-        const contextMsg = buildContextMessage(inputs, results, stockInputs, stockResults);
-        const goalMessage = `${contextMsg}
-
----
-
-**MY GOAL:** ${goal.trim()}
-
-Based on my current simulation above, please reverse-engineer and suggest the optimal input parameters I should use to achieve this goal. Tell me specifically what I should change (purchase price, number of properties, appreciation rate, rental yield, loan amount, purchase interval, stock allocation, dividend yield targets, etc.) and explain why. Show me the expected outcome with your suggested changes.${stockResults ? " Consider both property and stock portfolio adjustments." : ""}`;
-
-        const userMessage: Message = { role: "user", content: goalMessage };
-        setMessages([userMessage]);
-        setSuggestions([]);
-        setShowGoalPlanner(false);
-        setGoalInput("");
-        updateStatus("loading");
-        chatMutation.mutate({ messages: [userMessage] });
-      },
-      [results, inputs, stockInputs, stockResults, chatMutation, updateStatus]
-    );
+    }, [results, inputs, stockInputs, stockResults, moneyBasis, chatMutation, updateStatus]);
 
     const displayMessages = messages.filter((m) => m.role !== "system");
     // Hide the first user message (context dump) — show AI response directly
@@ -411,73 +587,10 @@ Based on my current simulation above, please reverse-engineer and suggest the op
               </div>
             )}
 
-            {/* Goal-Based Reverse Planner */}
-            {showGoalPlanner && (
+            {/* Goal Planner */}
+            {showGoalPlanner && inputs && onLoadInputs && (
               <div className="pt-2 animate-in fade-in slide-in-from-bottom-2 duration-200">
-                <div className="bg-gradient-to-br from-[#0071e3]/5 to-[#5856d6]/5 rounded-[14px] p-5 border border-[#0071e3]/10">
-                  <div className="flex items-center gap-2 mb-3">
-                    <Target className="w-4 h-4 text-[#0071e3]" />
-                    <h4 className="text-[14px] font-semibold text-[#1d1d1f]">
-                      Goal-Based Reverse Planner
-                    </h4>
-                  </div>
-                  <p className="text-[12px] text-[#86868b] mb-4 leading-relaxed">
-                    Tell me your investment goal and I'll suggest the optimal parameters to achieve it.
-                  </p>
-
-                  {/* Quick goal presets */}
-                  <div className="flex flex-col gap-2 mb-4">
-                    {GOAL_PROMPTS.map((goal, i) => (
-                      <button
-                        key={i}
-                        onClick={() => handleGoalSubmit(goal)}
-                        disabled={chatMutation.isPending}
-                        className="
-                          text-left text-[13px] font-medium text-[#0071e3]
-                          bg-white hover:bg-[#0071e3]/5
-                          border border-[#0071e3]/15 hover:border-[#0071e3]/25
-                          rounded-[10px] px-4 py-2.5
-                          transition-all duration-200
-                          disabled:opacity-50
-                        "
-                      >
-                        {goal}
-                      </button>
-                    ))}
-                  </div>
-
-                  {/* Custom goal input */}
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      value={goalInput}
-                      onChange={(e) => setGoalInput(e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter") handleGoalSubmit(goalInput);
-                      }}
-                      placeholder="Or type your own goal..."
-                      className="
-                        flex-1 text-[13px] text-[#1d1d1f] placeholder-[#86868b]
-                        bg-white border border-[#d2d2d7] rounded-[10px]
-                        px-3.5 py-2.5
-                        focus:outline-none focus:ring-2 focus:ring-[#0071e3]/30 focus:border-[#0071e3]
-                        transition-all duration-200
-                      "
-                    />
-                    <button
-                      onClick={() => handleGoalSubmit(goalInput)}
-                      disabled={!goalInput.trim() || chatMutation.isPending}
-                      className="
-                        px-4 py-2.5 text-[13px] font-medium text-white
-                        bg-[#0071e3] hover:bg-[#0077ed]
-                        disabled:opacity-40 disabled:cursor-not-allowed
-                        rounded-[10px] transition-all duration-200
-                      "
-                    >
-                      Go
-                    </button>
-                  </div>
-                </div>
+                <GoalPlanner inputs={inputs} stockInputs={stockInputs} onLoad={onLoadInputs} />
               </div>
             )}
           </div>
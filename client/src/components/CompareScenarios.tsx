@@ -5,8 +5,18 @@
  */
 
 import { useMemo } from "react";
-import type { SavedScenario } from "@/hooks/useScenarios";
-import { calculatePropertyPlan, formatNumber } from "@/lib/calculator";
+import { getScenarioMilestones, type SavedScenario } from "@/hooks/useScenarios";
+import {
+  calculatePropertyPlan,
+  formatNumber,
+  getHorizonYears,
+  getRentPolicy,
+  type FullSimulationResult,
+} from "@/lib/calculator";
+import { isRefinanceEnabled } from "@/lib/refinance";
+import { getDeflator } from "@/lib/inflation";
+import { useDisplayResults, useMoneyBasis } from "@/contexts/MoneyBasisContext";
+import { MoneyBasisNote } from "@/components/MoneyBasisToggle";
 import { X, TrendingUp, TrendingDown, Minus } from "lucide-react";
 import {
   Chart as ChartJS,
@@ -33,6 +43,22 @@ interface CompareScenariosProps {
   onClose: () => void;
 }
 
+/** A compared metric: ringgit unless it is a count or carries a unit; null when undefined */
+interface MetricRow {
+  label: string;
+  a: number | null;
+  b: number | null;
+  isCount?: boolean;
+  unit?: "%" | "×";
+}
+
+function formatMetric(row: MetricRow, value: number | null): string {
+  if (value === null) return "—";
+  if (row.isCount) return String(value);
+  if (row.unit) return `${value.toFixed(row.unit === "%" ? 1 : 2)}${row.unit}`;
+  return `RM ${formatNumber(value.toFixed(0))}`;
+}
+
 function DeltaIndicator({ a, b }: { a: number; b: number }) {
   const diff = b - a;
   const pct = a !== 0 ? ((diff / Math.abs(a)) * 100) : 0;
@@ -57,34 +83,66 @@ function DeltaIndicator({ a, b }: { a: number; b: number }) {
 }
 
 export default function CompareScenarios({ scenarioA, scenarioB, onClose }: CompareScenariosProps) {
-  // Recalculate full results for chart data
-  const fullA = useMemo(() => calculatePropertyPlan(scenarioA.inputs), [scenarioA]);
-  const fullB = useMemo(() => calculatePropertyPlan(scenarioB.inputs), [scenarioB]);
+  // Recalculate full results for chart data, on the selected money basis
+  const fullA = useDisplayResults(useMemo(() => calculatePropertyPlan(scenarioA.inputs), [scenarioA]));
+  const fullB = useDisplayResults(useMemo(() => calculatePropertyPlan(scenarioB.inputs), [scenarioB]));
+
+  // Saved milestone equity is nominal; deflate it alongside the charts
+  const { basis, inflationRate } = useMoneyBasis();
+  const atYear = (value: number, years: number) =>
+    basis === "real" ? value * getDeflator(inflationRate, years) : value;
+
+  // Milestones saved with either scenario; a year only one of them reports
+  // is read from the other's recalculated run
+  const equityAt = (scenario: SavedScenario, full: FullSimulationResult, year: number) => {
+    const saved = getScenarioMilestones(scenario).find((m) => m.year === year);
+    return saved ? atYear(saved.equity, year) : full.yearlyData[year]?.netEquity ?? 0;
+  };
+  const milestoneYears = Array.from(
+    new Set([...getScenarioMilestones(scenarioA), ...getScenarioMilestones(scenarioB)].map((m) => m.year))
+  ).sort((x, y) => x - y);
+
+  const horizonA = getHorizonYears(fullA);
+  const horizonB = getHorizonYears(fullB);
+  const horizonLabel = horizonA === horizonB ? `${horizonA}Y` : "Horizon";
 
   const fontFamily = "-apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
 
   // Metric rows
-  const metricRows = useMemo(() => [
+  const metricRows = useMemo((): MetricRow[] => [
+    ...milestoneYears.map((year) => ({
+      label: `${year}-Year Net Equity`,
+      a: equityAt(scenarioA, fullA, year),
+      b: equityAt(scenarioB, fullB, year),
+    })),
     {
-      label: "10-Year Net Equity",
-      a: scenarioA.results.equity10,
-      b: scenarioB.results.equity10,
+      label: "Properties Owned",
+      a: scenarioA.results.propertiesOwned,
+      b: scenarioB.results.propertiesOwned,
+      isCount: true,
     },
     {
-      label: "20-Year Net Equity",
-      a: scenarioA.results.equity20,
-      b: scenarioB.results.equity20,
+      label: "IRR",
+      a: fullA.returns?.irr ?? null,
+      b: fullB.returns?.irr ?? null,
+      unit: "%",
     },
     {
-      label: "30-Year Net Equity",
-      a: scenarioA.results.equity30,
-      b: scenarioB.results.equity30,
+      label: "NPV",
+      a: fullA.returns?.npv ?? null,
+      b: fullB.returns?.npv ?? null,
     },
     {
-      label: "Properties Owned",
-      a: scenarioA.results.propertiesOwned,
-      b: scenarioB.results.propertiesOwned,
-      isCount: true,
+      label: "Equity Multiple",
+      a: fullA.returns?.equityMultiple ?? null,
+      b: fullB.returns?.equityMultiple ?? null,
+      unit: "×",
+    },
+    {
+      label: `Return on Cash (${horizonLabel})`,
+      a: fullA.returns?.returnOnCash ?? null,
+      b: fullB.returns?.returnOnCash ?? null,
+      unit: "%",
     },
     {
       label: "Monthly Payment",
@@ -101,7 +159,27 @@ export default function CompareScenarios({ scenarioA, scenarioB, onClose }: Comp
       a: fullA.annualExpensePerProperty,
       b: fullB.annualExpensePerProperty,
     },
-  ], [scenarioA, scenarioB, fullA, fullB]);
+    {
+      label: `Realised Gains (${horizonLabel})`,
+      a: fullA.yearlyData[horizonA]?.cumulativeRealisedGain ?? 0,
+      b: fullB.yearlyData[horizonB]?.cumulativeRealisedGain ?? 0,
+    },
+    {
+      label: "Total Acquisition Costs",
+      a: fullA.yearlyData.reduce((sum, d) => sum + d.acquisitionCost, 0),
+      b: fullB.yearlyData.reduce((sum, d) => sum + d.acquisitionCost, 0),
+    },
+    {
+      label: `Income Tax on Rent (${horizonLabel})`,
+      a: fullA.yearlyData.reduce((sum, d) => sum + (d.incomeTax ?? 0), 0),
+      b: fullB.yearlyData.reduce((sum, d) => sum + (d.incomeTax ?? 0), 0),
+    },
+    {
+      label: `Refinance Cash-Out (${horizonLabel})`,
+      a: fullA.yearlyData.reduce((sum, d) => sum + (d.refinanceCashOut ?? 0), 0),
+      b: fullB.yearlyData.reduce((sum, d) => sum + (d.refinanceCashOut ?? 0), 0),
+    },
+  ], [scenarioA, scenarioB, fullA, fullB, basis, inflationRate]);
 
   // Input comparison rows
   const inputRows = useMemo(() => [
@@ -109,10 +187,17 @@ export default function CompareScenarios({ scenarioA, scenarioB, onClose }: Comp
     { label: "Market Value", a: scenarioA.inputs.currentMarketValue ?? 0, b: scenarioB.inputs.currentMarketValue ?? 0, prefix: "RM " },
     { label: "Loan Amount", a: scenarioA.inputs.loanAmount ?? 0, b: scenarioB.inputs.loanAmount ?? 0, prefix: "RM " },
     { label: "Max Properties", a: scenarioA.inputs.maxProperties, b: scenarioB.inputs.maxProperties, isCount: true },
+    { label: "Custom List Properties", a: scenarioA.inputs.properties?.length ?? 0, b: scenarioB.inputs.properties?.length ?? 0, isCount: true },
     { label: "Appreciation Rate", a: scenarioA.inputs.appreciationRate, b: scenarioB.inputs.appreciationRate, suffix: "%" },
     { label: "Rental Yield", a: scenarioA.inputs.rentalYield, b: scenarioB.inputs.rentalYield, suffix: "%" },
+    { label: "Rent Growth", a: scenarioA.inputs.rentGrowthRate ?? 0, b: scenarioB.inputs.rentGrowthRate ?? 0, suffix: "%" },
+    { label: "Vacancy", a: getRentPolicy(scenarioA.inputs).vacancyRate * 100, b: getRentPolicy(scenarioB.inputs).vacancyRate * 100, suffix: "%" },
     { label: "Interest Rate", a: scenarioA.inputs.interestRate, b: scenarioB.inputs.interestRate, suffix: "%" },
     { label: "Buy Interval", a: scenarioA.inputs.buyInterval, b: scenarioB.inputs.buyInterval, suffix: " yr", isCount: true },
+    { label: "Later Purchase Price Growth", a: scenarioA.inputs.indexFuturePurchases ? scenarioA.inputs.priceGrowthRate ?? scenarioA.inputs.appreciationRate : 0, b: scenarioB.inputs.indexFuturePurchases ? scenarioB.inputs.priceGrowthRate ?? scenarioB.inputs.appreciationRate : 0, suffix: "%" },
+    { label: "Sell Each Unit After", a: scenarioA.inputs.sellAfterYears ?? 0, b: scenarioB.inputs.sellAfterYears ?? 0, suffix: " yr", isCount: true },
+    { label: "Refinances per Unit", a: isRefinanceEnabled(scenarioA.inputs.refinance) ? scenarioA.inputs.refinance.maxRefinances : 0, b: isRefinanceEnabled(scenarioB.inputs.refinance) ? scenarioB.inputs.refinance.maxRefinances : 0, isCount: true },
+    { label: "Employment Income", a: scenarioA.inputs.includeIncomeTax ? scenarioA.inputs.employmentIncome ?? 0 : 0, b: scenarioB.inputs.includeIncomeTax ? scenarioB.inputs.employmentIncome ?? 0 : 0, prefix: "RM " },
     { label: "Age", a: scenarioA.inputs.age ?? 30, b: scenarioB.inputs.age ?? 30, suffix: " yr", isCount: true },
     { label: "Annual Expense/Property", a: fullA.annualExpensePerProperty, b: fullB.annualExpensePerProperty, prefix: "RM " },
   ], [scenarioA, scenarioB, fullA, fullB]);
@@ -285,9 +370,12 @@ export default function CompareScenarios({ scenarioA, scenarioB, onClose }: Comp
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-3 duration-300">
       {/* Header */}
       <div className="flex items-center justify-between">
-        <h2 className="text-[22px] font-semibold text-[#1d1d1f] tracking-tight">
-          Scenario Comparison
-        </h2>
+        <div>
+          <h2 className="text-[22px] font-semibold text-[#1d1d1f] tracking-tight">
+            Scenario Comparison
+          </h2>
+          <MoneyBasisNote startingYear={fullA.yearlyData[0].calendarYear} />
+        </div>
         <button
           onClick={onClose}
           className="p-2 rounded-[8px] text-[#86868b] hover:bg-[#f5f5f7] hover:text-[#1d1d1f] transition-colors"
@@ -327,14 +415,20 @@ export default function CompareScenarios({ scenarioA, scenarioB, onClose }: Comp
               <tr key={i} className="border-b border-[#f5f5f7] last:border-b-0 hover:bg-[#f5f5f7]/40 transition-colors">
                 <td className="py-3 px-5 text-[13px] text-[#1d1d1f] font-medium">{row.label}</td>
                 <td className="py-3 px-4 text-[13px] text-right text-[#1d1d1f]">
-                  {row.isCount ? row.a : `RM ${formatNumber(row.a.toFixed(0))}`}
+                  {formatMetric(row, row.a)}
                 </td>
                 <td className="py-3 px-4 text-[13px] text-right text-[#1d1d1f]">
-                  {row.isCount ? row.b : `RM ${formatNumber(row.b.toFixed(0))}`}
+                  {formatMetric(row, row.b)}
                 </td>
                 <td className="py-3 px-5 text-right">
-                  {row.isCount ? (
-                    <span className="text-[12px] text-[#86868b]">{row.b - row.a === 0 ? "Same" : `${row.b - row.a > 0 ? "+" : ""}${row.b - row.a}`}</span>
+                  {row.a === null || row.b === null ? (
+                    <span className="text-[12px] text-[#86868b]">—</span>
+                  ) : row.isCount || row.unit ? (
+                    <span className="text-[12px] text-[#86868b]">
+                      {Math.abs(row.b - row.a) < 0.005
+                        ? "Same"
+                        : `${row.b - row.a > 0 ? "+" : ""}${row.unit === "%" ? `${(row.b - row.a).toFixed(1)} pp` : formatMetric(row, row.b - row.a)}`}
+                    </span>
                   ) : (
                     <DeltaIndicator a={row.a} b={row.b} />
                   )}
@@ -0,0 +1,179 @@
+/*
+ * Loan eligibility: the borrower's DSR year by year against the bank's
+ * limit, and which scheduled purchases the bank would have declined —
+ * i.e. when and why the plan stalls.
+ */
+
+import { useMemo } from "react";
+import type { FullSimulationResult } from "@/lib/calculator";
+import { formatNumber } from "@/lib/calculator";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip as ChartTooltip,
+  Legend,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, ChartTooltip, Legend);
+
+const MONTH_SHORT = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const fontFamily = "-apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
+
+const pct = (value: number) => (Number.isFinite(value) ? `${value.toFixed(1)}%` : "—");
+
+export default function EligibilityPanel({ results }: { results: FullSimulationResult }) {
+  const blocked = results.blockedPurchases ?? [];
+  const tracked = results.yearlyData.filter((d) => d.dsr != null && Number.isFinite(d.dsr));
+  const startingYear = results.yearlyData[0].calendarYear;
+  const scheduled = (results.properties?.length ?? 0) + blocked.length;
+
+  const peak = tracked.reduce<(typeof tracked)[number] | null>(
+    (max, d) => (!max || d.dsr! > max.dsr! ? d : max),
+    null
+  );
+  const first = blocked[0];
+
+  const chartData = useMemo(() => ({
+    labels: tracked.map((d) => String(d.calendarYear)),
+    datasets: [
+      {
+        label: "DSR",
+        data: tracked.map((d) => d.dsr),
+        borderColor: "#0071e3",
+        backgroundColor: "#0071e3",
+        borderWidth: 2.5,
+        tension: 0.3,
+        pointRadius: 0,
+        pointHoverRadius: 5,
+      },
+      {
+        label: "Bank Limit",
+        data: tracked.map((d) => d.dsrLimit),
+        borderColor: "#ff3b30",
+        backgroundColor: "#ff3b30",
+        borderWidth: 1.5,
+        borderDash: [6, 4],
+        stepped: true,
+        pointRadius: 0,
+      },
+    ],
+  }), [tracked]);
+
+  const chartOptions = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: "top" as const,
+        labels: {
+          font: { family: fontFamily, size: 12, weight: "500" as const },
+          color: "#86868b",
+          padding: 20,
+          usePointStyle: true,
+          pointStyleWidth: 8,
+          boxHeight: 8,
+        },
+      },
+      tooltip: {
+        mode: "index" as const,
+        intersect: false,
+        backgroundColor: "rgba(29, 29, 31, 0.95)",
+        titleFont: { family: fontFamily, size: 13, weight: "600" as const },
+        bodyFont: { family: fontFamily, size: 12 },
+        padding: 14,
+        cornerRadius: 10,
+        callbacks: {
+          label: (ctx: any) => `${ctx.dataset.label}: ${pct(ctx.raw)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        border: { display: false },
+        ticks: { font: { family: fontFamily, size: 11 }, color: "#86868b", maxRotation: 45 },
+      },
+      y: {
+        beginAtZero: true,
+        grid: { color: "rgba(0,0,0,0.04)" },
+        border: { display: false },
+        ticks: {
+          font: { family: fontFamily, size: 11 },
+          color: "#86868b",
+          callback: (v: any) => `${v}%`,
+        },
+      },
+    },
+  }), []);
+
+  if (tracked.length === 0) return null;
+
+  return (
+    <div className="apple-card p-5 md:p-6 space-y-5">
+      <div>
+        <h3 className="text-[17px] font-semibold text-[#1d1d1f]">Loan Eligibility</h3>
+        <p className="text-[13px] text-[#86868b]">
+          Debt service ratio at each year end — every instalment and other commitment over net income plus recognised rent
+        </p>
+      </div>
+
+      {first ? (
+        <div className="bg-[#fff4f2] rounded-[10px] px-4 py-3">
+          <p className="text-[14px] font-semibold text-[#ff3b30]">
+            The plan stalls in {MONTH_SHORT[first.month - 1]} {startingYear + first.year}
+          </p>
+          <p className="text-[13px] text-[#424245] leading-relaxed mt-1">
+            {first.name}'s RM {formatNumber(first.loanAmount.toFixed(0))} loan would take your DSR to {pct(first.dsr)}, above the bank's {first.limit}% limit, so it is not bought.{" "}
+            {blocked.length > 1
+              ? `${blocked.length} of ${scheduled} scheduled purchases are declined in total.`
+              : `It is the only one of ${scheduled} scheduled purchases declined.`}{" "}
+            More income, fewer other commitments, smaller loans or a longer buy interval would keep the plan going.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-[#f0faf3] rounded-[10px] px-4 py-3">
+          <p className="text-[14px] font-semibold text-[#34c759]">Every purchase passes the bank's DSR check</p>
+          {peak && (
+            <p className="text-[13px] text-[#424245] mt-1">
+              DSR peaks at {pct(peak.dsr!)} in {peak.calendarYear}, against a {peak.dsrLimit}% limit.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="h-[260px] md:h-[300px]">
+        <Line data={chartData} options={chartOptions as any} />
+      </div>
+
+      {blocked.length > 0 && (
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr className="text-left text-[#86868b] border-b border-[#e5e5ea]">
+              <th className="py-2 font-medium">Declined Purchase</th>
+              <th className="py-2 font-medium">When</th>
+              <th className="py-2 font-medium text-right">Loan</th>
+              <th className="py-2 font-medium text-right">DSR with Loan</th>
+              <th className="py-2 font-medium text-right">Limit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {blocked.map((b) => (
+              <tr key={b.id} className="border-b border-[#f5f5f7] text-[#1d1d1f]">
+                <td className="py-2">{b.name}</td>
+                <td className="py-2">{MONTH_SHORT[b.month - 1]} {startingYear + b.year}</td>
+                <td className="py-2 text-right">RM {formatNumber(b.loanAmount.toFixed(0))}</td>
+                <td className="py-2 text-right text-[#ff3b30]">{pct(b.dsr)}</td>
+                <td className="py-2 text-right">{b.limit}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
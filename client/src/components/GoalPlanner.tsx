@@ -0,0 +1,233 @@
+/*
+ * Goal planner — searches price, unit count and buying pace for plans that
+ * reach a net-worth target by a chosen year, within the owner's bounds and
+ * cash-flow constraint. Each plan shown has been run through the calculator;
+ * "Load" sends it to the input panel.
+ */
+
+import { useEffect, useState } from "react";
+import type { CalculatorInputs, StockInputs } from "@/lib/calculator";
+import { formatNumber } from "@/lib/calculator";
+import { getDefaultBounds, type GoalCandidate, type GoalMetric, type GoalSpec } from "@/lib/goalSeek";
+import { getDeflator } from "@/lib/inflation";
+import { useGoalSeek } from "@/hooks/useGoalSeek";
+import { useMoneyBasis } from "@/contexts/MoneyBasisContext";
+import { Target } from "lucide-react";
+
+interface GoalPlannerProps {
+  inputs: CalculatorInputs;
+  stockInputs?: StockInputs | null; // given = combined net worth can be targeted
+  onLoad: (inputs: CalculatorInputs, stockInputs: StockInputs | null) => void;
+}
+
+// Quick goals: target in RM, reached this many years from the start
+const GOAL_PRESETS: { label: string; target: number; years: number }[] = [
+  { label: "RM 5M in 15 years", target: 5_000_000, years: 15 },
+  { label: "RM 10M in 20 years", target: 10_000_000, years: 20 },
+  { label: "RM 20M in 30 years", target: 20_000_000, years: 30 },
+];
+
+const rm = (value: number) => `RM ${formatNumber(value.toFixed(0))}`;
+
+const fieldClass = `
+  w-full text-[13px] text-[#1d1d1f] bg-white border border-[#d2d2d7] rounded-[10px]
+  px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#0071e3]/30 focus:border-[#0071e3]
+  transition-all duration-200
+`;
+
+function NumberField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="block text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">{label}</span>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className={fieldClass}
+      />
+    </label>
+  );
+}
+
+export default function GoalPlanner({ inputs, stockInputs = null, onLoad }: GoalPlannerProps) {
+  const moneyBasis = useMoneyBasis();
+  const { result, progress, running, error, solve, reset } = useGoalSeek();
+  const [goal, setGoal] = useState<GoalSpec>(() => ({
+    metric: stockInputs ? "combinedNetWorth" : "netEquity",
+    target: 10_000_000,
+    byYear: inputs.startingYear + 24,
+    neverNegativeCashFlow: true,
+    bounds: getDefaultBounds(inputs),
+  }));
+
+  // A different plan invalidates the bounds and the last search
+  useEffect(() => {
+    setGoal((prev) => ({
+      ...prev,
+      metric: stockInputs ? prev.metric : "netEquity",
+      bounds: getDefaultBounds(inputs),
+    }));
+    reset();
+  }, [inputs, stockInputs, reset]);
+
+  const update = (patch: Partial<GoalSpec>) => setGoal((prev) => ({ ...prev, ...patch }));
+  const updateBounds = (patch: Partial<GoalSpec["bounds"]>) =>
+    setGoal((prev) => ({ ...prev, bounds: { ...prev.bounds, ...patch } }));
+
+  // In today's-ringgit view the target is read in today's money
+  const real = moneyBasis.basis === "real";
+  const deflator = real ? getDeflator(moneyBasis.inflationRate, goal.byYear - inputs.startingYear) : 1;
+  const metricLabel = goal.metric === "combinedNetWorth" ? "combined net worth" : "net equity";
+
+  const handleSolve = () => solve(inputs, stockInputs, { ...goal, target: goal.target / deflator });
+
+  const describe = (c: GoalCandidate) => ({
+    title: `${c.propertiesBought} × ${rm(c.inputs.purchasePrice)}, one every ${c.inputs.buyInterval} year${c.inputs.buyInterval > 1 ? "s" : ""}`,
+    detail: `${rm(c.achieved * deflator)} ${metricLabel} in ${goal.byYear} · borrows ${rm(c.totalBorrowed)} · leanest month ${rm(c.lowestMonthlyCashFlow)}`,
+  });
+
+  return (
+    <div className="bg-gradient-to-br from-[#0071e3]/5 to-[#5856d6]/5 rounded-[14px] p-5 border border-[#0071e3]/10 space-y-4">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Target className="w-4 h-4 text-[#0071e3]" />
+          <h4 className="text-[14px] font-semibold text-[#1d1d1f]">Goal Planner</h4>
+        </div>
+        <p className="text-[12px] text-[#86868b] leading-relaxed">
+          Searches purchase price, number of units and buying pace for plans that reach your target. Every plan is checked with the calculator.
+        </p>
+      </div>
+
+      {/* Quick goal presets */}
+      <div className="flex flex-wrap gap-2">
+        {GOAL_PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => update({ target: preset.target, byYear: inputs.startingYear + preset.years })}
+            className="
+              text-[12px] font-medium text-[#0071e3]
+              bg-white hover:bg-[#0071e3]/5
+              border border-[#0071e3]/15 hover:border-[#0071e3]/25
+              rounded-[10px] px-3 py-1.5 transition-all duration-200
+            "
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {stockInputs && (
+        <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+          {([
+            { key: "combinedNetWorth", label: "Combined Net Worth" },
+            { key: "netEquity", label: "Property Net Equity" },
+          ] as { key: GoalMetric; label: string }[]).map((m) => (
+            <button
+              key={m.key}
+              onClick={() => update({ metric: m.key })}
+              className={`flex-1 px-3 py-1.5 text-[12px] font-medium rounded-[6px] transition-all duration-200 ${
+                goal.metric === m.key
+                  ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                  : "text-[#86868b] hover:text-[#1d1d1f]"
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <NumberField label={real ? "Target (today's RM)" : "Target (RM)"} value={goal.target} onChange={(v) => update({ target: v })} />
+        <NumberField label="By Year" value={goal.byYear} onChange={(v) => update({ byYear: Math.round(v) })} />
+        <NumberField label="Min Price (RM)" value={goal.bounds.minPrice} onChange={(v) => updateBounds({ minPrice: v })} />
+        <NumberField label="Max Price (RM)" value={goal.bounds.maxPrice} onChange={(v) => updateBounds({ maxPrice: v })} />
+        <NumberField label="Buy Every (min yrs)" value={goal.bounds.minBuyInterval} onChange={(v) => updateBounds({ minBuyInterval: v })} />
+        <NumberField label="Buy Every (max yrs)" value={goal.bounds.maxBuyInterval} onChange={(v) => updateBounds({ maxBuyInterval: v })} />
+        <NumberField label="At Most (units)" value={goal.bounds.maxProperties} onChange={(v) => updateBounds({ maxProperties: Math.max(1, Math.round(v)) })} />
+      </div>
+
+      <label className="flex items-start gap-2.5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={goal.neverNegativeCashFlow}
+          onChange={(e) => update({ neverNegativeCashFlow: e.target.checked })}
+          className="mt-0.5 w-4 h-4 accent-[#0071e3]"
+        />
+        <span>
+          <span className="block text-[13px] font-medium text-[#1d1d1f]">Never-negative monthly cash flow</span>
+          <span className="block text-[12px] text-[#86868b]">Rent covers instalments, expenses and tax every month; deposits and one-off purchase costs aside</span>
+        </span>
+      </label>
+
+      {inputs.properties && inputs.properties.length > 0 && (
+        <p className="text-[12px] text-[#ff9500]">
+          Your plan uses a property list — the plans found repeat one property at the interval instead.
+        </p>
+      )}
+
+      <button
+        onClick={handleSolve}
+        disabled={running || goal.target <= 0}
+        className="
+          w-full py-2.5 text-[13px] font-medium text-white
+          bg-[#0071e3] hover:bg-[#0077ed]
+          disabled:opacity-40 disabled:cursor-not-allowed
+          rounded-[10px] transition-all duration-200
+        "
+      >
+        {running ? `Searching… ${Math.round(progress * 100)}%` : "Find Plans"}
+      </button>
+
+      {error && <p className="text-[13px] text-[#ff3b30]">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider">
+            {result.feasible.length > 0
+              ? `${result.feasible.length} plan${result.feasible.length > 1 ? "s" : ""} reach the goal · ${formatNumber(result.evaluated)} tried · least borrowing first`
+              : `No plan reaches the goal · ${formatNumber(result.evaluated)} tried`}
+          </p>
+
+          {result.feasible.map((c, i) => {
+            const { title, detail } = describe(c);
+            return (
+              <div key={i} className="flex items-center gap-3 bg-white rounded-[10px] border border-[#e5e5ea] px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-[13px] font-semibold text-[#1d1d1f]">{title}</p>
+                  <p className="text-[12px] text-[#86868b]">{detail}</p>
+                </div>
+                <button
+                  onClick={() => onLoad(c.inputs, c.stockInputs)}
+                  className="shrink-0 text-[12px] font-medium text-[#0071e3] bg-[#0071e3]/5 hover:bg-[#0071e3]/10 rounded-[8px] px-3 py-1.5 transition-colors"
+                >
+                  Load
+                </button>
+              </div>
+            );
+          })}
+
+          {result.closest && (
+            <p className="text-[12px] text-[#86868b] leading-relaxed">
+              Closest: {describe(result.closest).title} reaches {rm(result.closest.achieved * deflator)} —{" "}
+              {rm(goal.target - result.closest.achieved * deflator)} short. Try a later year, a wider price range or more units.
+            </p>
+          )}
+          {!result.closest && result.feasible.length === 0 && (
+            <p className="text-[12px] text-[#86868b]">
+              Every plan in range has a negative month. Widen the bounds or allow negative months.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
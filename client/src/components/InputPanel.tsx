@@ -3,18 +3,107 @@
  * refined typography hierarchy, tactile button with hover lift.
  * Supports external inputs (for loading saved scenarios).
  * Includes monthly expense input (fixed RM or % of instalment).
+ * Includes completion month and rent start delay for the monthly engine.
+ * Includes a floating interest-rate path (year overrides or SBR + spread).
+ * Includes an editable property list for mixed portfolios (condo, terrace, shoplot…).
+ * Includes market-indexed pricing for later purchases.
+ * Includes Malaysian acquisition costs with the first-home stamp duty exemption.
+ * Includes an exit strategy: sell after N years with sale costs and RPGT.
+ * Includes scheduled or LTV-triggered refinancing with cash-out.
+ * Includes rent escalation, vacancy and rent reviews, with the effective yield over time.
+ * Includes income tax on net rental income at the owner's marginal rate.
+ * Includes Monte Carlo settings: volatility, correlation and tails of each market driver.
+ * Includes bank loan eligibility: net income, commitments and each bank's DSR rules.
+ * Includes a personal cash account: savings, FD interest and an emergency-fund floor.
+ * Includes the loan as an amount or an LTV, with BNM's margin-of-financing limits.
+ * Includes flexi and semi-flexi loans: how much surplus is prepaid, and redraws.
+ * Includes Islamic financing (BBA or MM) with its ceiling profit rate.
+ * Includes the simulation horizon and the milestone years results report.
+ * Includes the discount rate that values the plan's cash flows (NPV).
+ * Includes itemised holding costs, each with its own yearly increase.
+ * Includes under-construction purchases: build period, DIBS and fit-out.
+ * Includes short-term letting: nightly rate, occupancy by month, fees and furnishing.
+ * Includes leasehold tenure: lease left, the lease-decay curve and banks' lease limits.
  */
 
 import { useState, useCallback, useEffect, useImperativeHandle, forwardRef } from "react";
-import type { CalculatorInputs } from "@/lib/calculator";
-import { calculateTenure } from "@/lib/calculator";
+import type { CalculatorInputs, PropertySpec, RateSchedule } from "@/lib/calculator";
+import {
+  calculateTenure,
+  DEFAULT_HORIZON_YEARS,
+  DEFAULT_MILESTONE_YEARS,
+  generatePropertyList,
+  getInputErrors,
+  getInterestRateForYear,
+  getPurchasePriceIndex,
+  getRentPolicy,
+  MAX_HORIZON_YEARS,
+  resolveHorizon,
+} from "@/lib/calculator";
+import { calculateAcquisitionCosts, FIRST_HOME_PRICE_CAP } from "@/lib/acquisitionCosts";
+import { getRpgtRate, RPGT_CATEGORY_LABELS, type RpgtCategory } from "@/lib/disposal";
+import { DEFAULT_REFINANCE_PLAN, type RefinancePlan } from "@/lib/refinance";
+import { getEffectiveYield } from "@/lib/rent";
+import { DEFAULT_PERSONAL_RELIEF, getMarginalRate } from "@/lib/incomeTax";
+import {
+  DEFAULT_MONTE_CARLO,
+  MAX_TRIALS,
+  type MarketCorrelations,
+  type MonteCarloSettings,
+} from "@/lib/monteCarlo";
+import {
+  BANK_POLICIES,
+  DEFAULT_DSR_SETTINGS,
+  getBankPolicy,
+  getDsrLimit,
+  type BankKey,
+  type DsrSettings,
+} from "@/lib/dsr";
+import { DEFAULT_CASH_ACCOUNT, type CashAccountSettings } from "@/lib/cashAccount";
+import { DEFAULT_DISCOUNT_RATE } from "@/lib/returns";
+import {
+  DEFAULT_FLEXI_LOAN,
+  LOAN_TYPE_DEFAULTS,
+  LOAN_TYPE_LABELS,
+  type FlexiLoanSettings,
+  type LoanType,
+} from "@/lib/flexiLoan";
+import {
+  DEFAULT_ISLAMIC_FINANCING,
+  FINANCING_TYPE_LABELS,
+  type FinancingType,
+  type IslamicFinancingSettings,
+} from "@/lib/islamicFinancing";
+import {
+  DEFAULT_HOLDING_COSTS,
+  type HoldingCostCategory,
+  type HoldingCostItem,
+  type HoldingCostSettings,
+} from "@/lib/holdingCosts";
+import { DEFAULT_CONSTRUCTION, isConstructionEnabled, type ConstructionSettings } from "@/lib/construction";
+import { DEFAULT_LEASEHOLD, type LeaseholdSettings } from "@/lib/leasehold";
+import {
+  DAYS_IN_MONTH,
+  DEFAULT_SHORT_TERM_RENTAL,
+  getShortTermRentalErrors,
+  type ShortTermRentalSettings,
+} from "@/lib/shortTermRental";
+import {
+  DEFAULT_LTV,
+  getDeposit,
+  getLoanFromLtv,
+  STANDARD_MARGIN,
+  THIRD_LOAN_MARGIN,
+  type LoanInputMode,
+} from "@/lib/financing";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { Info, AlertCircle } from "lucide-react";
+import { Info, AlertCircle, Plus, X, RefreshCw } from "lucide-react";
 
 interface InputPanelProps {
   onCalculate: (inputs: CalculatorInputs) => void;
@@ -41,10 +130,1272 @@ function FieldLabel({ children, tip }: { children: React.ReactNode; tip?: string
   );
 }
 
+const RATE_MODES: { key: RateSchedule["type"]; label: string }[] = [
+  { key: "fixed", label: "Fixed" },
+  { key: "overrides", label: "By Year" },
+  { key: "baseSpread", label: "SBR + Spread" },
+];
+
+/** Editor for the floating-rate path: year-indexed rates, or SBR plus spread steps */
+function RateScheduleEditor({
+  schedule,
+  startingYear,
+  onChange,
+}: {
+  schedule: RateSchedule;
+  startingYear: number;
+  onChange: (schedule: RateSchedule) => void;
+}) {
+  const isSpread = schedule.type === "baseSpread";
+
+  const updateStep = (index: number, key: "year" | "rate", value: number) => {
+    onChange({
+      ...schedule,
+      steps: schedule.steps.map((s, i) => (i === index ? { ...s, [key]: value } : s)),
+    });
+  };
+
+  const addStep = () => {
+    const lastYear = schedule.steps.reduce((max, s) => Math.max(max, s.year), 0);
+    const lastRate = schedule.steps[schedule.steps.length - 1]?.rate ?? (isSpread ? 1.25 : 4);
+    onChange({
+      ...schedule,
+      steps: [...schedule.steps, { year: Math.min(30, lastYear + 3), rate: lastRate }],
+    });
+  };
+
+  const removeStep = (index: number) => {
+    onChange({ ...schedule, steps: schedule.steps.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="mt-3 space-y-2.5">
+      <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+        {RATE_MODES.map((mode) => (
+          <button
+            key={mode.key}
+            type="button"
+            onClick={() => onChange({
+              ...schedule,
+              type: mode.key,
+              baseRate: schedule.baseRate ?? 2.75,
+              steps: mode.key === schedule.type ? schedule.steps : [{ year: 1, rate: mode.key === "baseSpread" ? 1.25 : 4 }],
+            })}
+            className={`
+              flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+              ${schedule.type === mode.key
+                ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                : "text-[#86868b] hover:text-[#1d1d1f]"
+              }
+            `}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {isSpread && (
+        <div className="flex items-center gap-2">
+          <span className="text-[12px] text-[#86868b] w-[92px] shrink-0">Base Rate (SBR)</span>
+          <input
+            type="number"
+            value={schedule.baseRate ?? 0}
+            onChange={(e) => onChange({ ...schedule, baseRate: parseFloat(e.target.value) || 0 })}
+            min={0} max={10} step={0.05}
+            className="apple-input w-full py-1.5 text-[13px]"
+          />
+          <span className="text-[12px] text-[#86868b]">%</span>
+        </div>
+      )}
+
+      {schedule.type !== "fixed" && (
+        <>
+          {schedule.steps.map((step, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="text-[12px] text-[#86868b] shrink-0">From year</span>
+              <input
+                type="number"
+                value={step.year}
+                onChange={(e) => updateStep(i, "year", parseInt(e.target.value) || 1)}
+                min={1} max={30} step={1}
+                className="apple-input w-[64px] py-1.5 text-[13px]"
+              />
+              <span className="text-[12px] text-[#86868b] shrink-0">{isSpread ? "spread" : "rate"}</span>
+              <input
+                type="number"
+                value={step.rate}
+                onChange={(e) => updateStep(i, "rate", parseFloat(e.target.value) || 0)}
+                min={0} max={10} step={0.05}
+                className="apple-input w-full py-1.5 text-[13px]"
+              />
+              <span className="text-[12px] text-[#86868b]">%</span>
+              <button
+                type="button"
+                onClick={() => removeStep(i)}
+                className="text-[#86868b] hover:text-[#ff3b30] transition-colors"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addStep}
+            className="flex items-center gap-1 text-[12px] font-medium text-[#0071e3] hover:text-[#0077ed]"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add rate step
+          </button>
+          <p className="text-[11px] text-[#86868b]">
+            Year 1 = {startingYear + 1}. Instalments are re-amortised over the remaining tenure whenever the rate changes.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+const MONTH_SHORT = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Numeric columns of the property list, in display order */
+const PROPERTY_COLUMNS: { key: keyof PropertySpec; label: string; width: string; step: number }[] = [
+  { key: "purchasePrice", label: "Price (RM)", width: "w-[112px]", step: 10000 },
+  { key: "marketValue", label: "Market Value (RM)", width: "w-[112px]", step: 10000 },
+  { key: "loanAmount", label: "Loan (RM)", width: "w-[112px]", step: 10000 },
+  { key: "rentalYield", label: "Yield (%)", width: "w-[72px]", step: 0.5 },
+];
+
+/** Editor for an explicit list of properties, each with its own price, loan and timing */
+function PropertyListEditor({
+  properties,
+  startingYear,
+  onChange,
+  onRegenerate,
+}: {
+  properties: PropertySpec[];
+  startingYear: number;
+  onChange: (properties: PropertySpec[]) => void;
+  onRegenerate: () => void;
+}) {
+  const update = (index: number, patch: Partial<PropertySpec>) => {
+    onChange(properties.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const addProperty = () => {
+    const last = properties[properties.length - 1];
+    const nextId = properties.reduce((max, p) => Math.max(max, parseInt(p.id.replace(/\D/g, "")) || 0), 0) + 1;
+    onChange([
+      ...properties,
+      {
+        ...(last ?? {
+          purchasePrice: 500000,
+          marketValue: 500000,
+          loanAmount: 450000,
+          rentalYield: 5,
+          expenseType: "fixed",
+          expenseValue: 300,
+          purchaseMonth: 1,
+        }),
+        id: `p${nextId}`,
+        name: `Property #${nextId}`,
+        purchaseYear: Math.min(30, (last?.purchaseYear ?? 0) + 1),
+      },
+    ]);
+  };
+
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight">
+          Property List
+        </h3>
+        <button
+          type="button"
+          onClick={onRegenerate}
+          className="flex items-center gap-1 text-[12px] font-medium text-[#0071e3] hover:text-[#0077ed]"
+        >
+          <RefreshCw className="w-3.5 h-3.5" /> Generate from plan
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr className="text-left text-[12px] text-[#86868b]">
+              <th className="pb-2 pr-2 font-medium">Name</th>
+              <th className="pb-2 pr-2 font-medium">Year</th>
+              <th className="pb-2 pr-2 font-medium">Month</th>
+              {PROPERTY_COLUMNS.map((col) => (
+                <th key={col.key} className="pb-2 pr-2 font-medium whitespace-nowrap">{col.label}</th>
+              ))}
+              <th className="pb-2 pr-2 font-medium whitespace-nowrap">Rate (%)</th>
+              <th className="pb-2 pr-2 font-medium whitespace-nowrap">Expense / Month</th>
+              <th className="pb-2 pr-2 font-medium whitespace-nowrap">Sell After (yrs)</th>
+              <th className="pb-2 pr-2 font-medium whitespace-nowrap">Build (months)</th>
+              <th className="pb-2 pr-2 font-medium">DIBS</th>
+              <th className="pb-2 pr-2 font-medium">Short-Let</th>
+              <th className="pb-2 pr-2 font-medium whitespace-nowrap">Lease (yrs)</th>
+              <th className="pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {properties.map((p, i) => (
+              <tr key={p.id} className="border-t border-[#f5f5f7]">
+                <td className="py-1.5 pr-2">
+                  <input
+                    type="text"
+                    value={p.name}
+                    onChange={(e) => update(i, { name: e.target.value })}
+                    className="apple-input w-[120px] py-1.5 text-[13px]"
+                  />
+                </td>
+                <td className="py-1.5 pr-2">
+                  <input
+                    type="number"
+                    value={p.purchaseYear}
+                    onChange={(e) => update(i, { purchaseYear: Math.min(30, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    min={1} max={30} step={1}
+                    title={`${(p.constructionMonths ?? 0) > 0 ? "SPA signed" : "Completes"} in ${startingYear + p.purchaseYear}`}
+                    className="apple-input w-[60px] py-1.5 text-[13px]"
+                  />
+                </td>
+                <td className="py-1.5 pr-2">
+                  <select
+                    value={p.purchaseMonth}
+                    onChange={(e) => update(i, { purchaseMonth: parseInt(e.target.value) || 1 })}
+                    className="apple-input w-[72px] py-1.5 text-[13px]"
+                  >
+                    {MONTH_SHORT.map((name, m) => (
+                      <option key={name} value={m + 1}>{name}</option>
+                    ))}
+                  </select>
+                </td>
+                {PROPERTY_COLUMNS.map((col) => (
+                  <td key={col.key} className="py-1.5 pr-2">
+                    <input
+                      type="number"
+                      value={p[col.key] as number}
+                      onChange={(e) => update(i, { [col.key]: parseFloat(e.target.value) || 0 })}
+                      min={0} step={col.step}
+                      className={`apple-input ${col.width} py-1.5 text-[13px]`}
+                    />
+                  </td>
+                ))}
+                <td className="py-1.5 pr-2">
+                  <input
+                    type="number"
+                    value={p.interestRate ?? ""}
+                    placeholder="Plan"
+                    onChange={(e) => update(i, { interestRate: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0 })}
+                    min={0} max={10} step={0.05}
+                    className="apple-input w-[72px] py-1.5 text-[13px]"
+                  />
+                </td>
+                <td className="py-1.5 pr-2">
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      value={p.expenseValue}
+                      onChange={(e) => update(i, { expenseValue: parseFloat(e.target.value) || 0 })}
+                      min={0} step={p.expenseType === "percentage" ? 1 : 50}
+                      className="apple-input w-[80px] py-1.5 text-[13px]"
+                    />
+                    <select
+                      value={p.expenseType}
+                      onChange={(e) => update(i, { expenseType: e.target.value as PropertySpec["expenseType"] })}
+                      className="apple-input w-[92px] py-1.5 text-[13px]"
+                    >
+                      <option value="fixed">RM</option>
+                      <option value="percentage">% instal.</option>
+                    </select>
+                  </div>
+                </td>
+                <td className="py-1.5 pr-2">
+                  <input
+                    type="number"
+                    value={p.sellAfterYears ?? ""}
+                    placeholder="Plan"
+                    onChange={(e) => update(i, { sellAfterYears: e.target.value === "" ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                    min={0} max={30} step={1}
+                    className="apple-input w-[72px] py-1.5 text-[13px]"
+                  />
+                </td>
+                <td className="py-1.5 pr-2">
+                  <input
+                    type="number"
+                    value={p.constructionMonths || ""}
+                    placeholder="Done"
+                    onChange={(e) => update(i, { constructionMonths: Math.max(0, parseInt(e.target.value) || 0) || undefined })}
+                    min={0} max={72} step={6}
+                    className="apple-input w-[72px] py-1.5 text-[13px]"
+                  />
+                </td>
+                <td className="py-1.5 pr-2 text-center">
+                  <Checkbox
+                    checked={!!p.dibs}
+                    disabled={!p.constructionMonths}
+                    onCheckedChange={(checked) => update(i, { dibs: !!checked || undefined })}
+                  />
+                </td>
+                <td className="py-1.5 pr-2 text-center">
+                  <Checkbox
+                    checked={!!p.shortTermRental}
+                    onCheckedChange={(checked) => update(i, { shortTermRental: !!checked || undefined })}
+                  />
+                </td>
+                <td className="py-1.5 pr-2">
+                  <input
+                    type="number"
+                    value={p.tenure === "leasehold" ? p.leaseYears ?? "" : ""}
+                    placeholder="Free"
+                    onChange={(e) =>
+                      update(
+                        i,
+                        e.target.value === ""
+                          ? { tenure: undefined, leaseYears: undefined }
+                          : { tenure: "leasehold", leaseYears: Math.min(999, Math.max(1, parseFloat(e.target.value) || 1)) }
+                      )
+                    }
+                    min={1} max={999} step={1}
+                    className="apple-input w-[72px] py-1.5 text-[13px]"
+                  />
+                </td>
+                <td className="py-1.5">
+                  <button
+                    type="button"
+                    onClick={() => onChange(properties.filter((_, j) => j !== i))}
+                    className="text-[#86868b] hover:text-[#ff3b30] transition-colors"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        type="button"
+        onClick={addProperty}
+        className="mt-3 flex items-center gap-1 text-[12px] font-medium text-[#0071e3] hover:text-[#0077ed]"
+      >
+        <Plus className="w-3.5 h-3.5" /> Add property
+      </button>
+      <p className="text-[11px] text-[#86868b] mt-2">
+        Year 1 = {startingYear + 1}. Leave Rate blank to follow the loan interest rate path; a custom rate applies in the purchase year and then moves with the path. Leave Sell After blank to follow the plan's exit strategy (0 = hold). For a unit under construction, Year and Month are the SPA signing and Build is the months to vacant possession; leave it blank for a completed unit. A short-let unit earns nightly bookings in place of its yield. Give a leasehold unit the years left on its lease when bought; leave Lease blank for freehold. Appreciation, rent delay, fit-out and loan tenure come from the plan settings.
+      </p>
+    </div>
+  );
+}
+
+const VOLATILITY_FIELDS: { key: keyof MonteCarloSettings; label: string; tip: string; step: number }[] = [
+  { key: "appreciationVolatility", label: "Appreciation ± (%)", tip: "Standard deviation of yearly property appreciation around your appreciation rate", step: 0.5 },
+  { key: "rateVolatility", label: "Rate Shock ± (pp)", tip: "Standard deviation of the yearly move in interest rates, in percentage points. Shocks persist and fade back to your rate path.", step: 0.25 },
+  { key: "rentGrowthVolatility", label: "Rent Growth ± (%)", tip: "Standard deviation of yearly rent growth around your rent growth rate", step: 0.5 },
+  { key: "stockVolatility", label: "Stock Return ± (%)", tip: "Standard deviation of yearly stock price returns around your stock appreciation rate", step: 1 },
+];
+
+const CORRELATION_FIELDS: { key: keyof MarketCorrelations; label: string }[] = [
+  { key: "appreciationRate", label: "Appreciation ↔ Rates" },
+  { key: "appreciationRent", label: "Appreciation ↔ Rent" },
+  { key: "appreciationStock", label: "Appreciation ↔ Stocks" },
+  { key: "rateRent", label: "Rates ↔ Rent" },
+  { key: "rateStock", label: "Rates ↔ Stocks" },
+  { key: "rentStock", label: "Rent ↔ Stocks" },
+];
+
+/** Stochastic mode: how widely, and how jointly, each market driver varies */
+function MonteCarloEditor({
+  settings,
+  onChange,
+}: {
+  settings: MonteCarloSettings;
+  onChange: (patch: Partial<MonteCarloSettings>) => void;
+}) {
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="monteCarloEnabled"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ enabled: !!checked })}
+          className="mt-0.5"
+        />
+        <div>
+          <label htmlFor="monteCarloEnabled" className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight cursor-pointer">
+            Monte Carlo Simulation
+          </label>
+          <p className="text-[12px] text-[#86868b] mt-0.5">
+            Re-run the plan over many random market paths and show the P10–P90 range of outcomes
+          </p>
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <div className="mt-5 grid grid-cols-1 md:grid-cols-3 gap-5">
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <FieldLabel tip={`Number of random paths, up to ${MAX_TRIALS.toLocaleString("en-MY")}. More trials give smoother bands but take longer.`}>Trials</FieldLabel>
+                <input
+                  type="number"
+                  value={settings.trials}
+                  onChange={(e) => onChange({ trials: Math.min(MAX_TRIALS, Math.max(100, parseInt(e.target.value) || 100)) })}
+                  min={100} max={MAX_TRIALS} step={500}
+                  className="apple-input w-full"
+                />
+              </div>
+              <div>
+                <FieldLabel tip="The same seed always produces the same trials">Seed</FieldLabel>
+                <input
+                  type="number"
+                  value={settings.seed}
+                  onChange={(e) => onChange({ seed: parseInt(e.target.value) || 0 })}
+                  step={1}
+                  className="apple-input w-full"
+                />
+              </div>
+            </div>
+            <div>
+              <FieldLabel tip="Student-t degrees of freedom for the yearly shocks. Lower values give more extreme years (fat tails); 0 uses a normal distribution.">Tail Thickness (df)</FieldLabel>
+              <input
+                type="number"
+                value={settings.degreesOfFreedom}
+                onChange={(e) => {
+                  const df = Math.max(0, parseInt(e.target.value) || 0);
+                  onChange({ degreesOfFreedom: df > 0 && df < 3 ? 3 : df });
+                }}
+                min={0} max={30} step={1}
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 content-start">
+            {VOLATILITY_FIELDS.map((field) => (
+              <div key={field.key}>
+                <FieldLabel tip={field.tip}>{field.label}</FieldLabel>
+                <input
+                  type="number"
+                  value={settings[field.key] as number}
+                  onChange={(e) => onChange({ [field.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  min={0} step={field.step}
+                  className="apple-input w-full"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <FieldLabel tip="Correlation between the yearly shocks of two drivers, from −1 to 1. For example, a negative Appreciation ↔ Rates value makes prices weaker in years when rates rise.">Correlations</FieldLabel>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+              {CORRELATION_FIELDS.map((field) => (
+                <div key={field.key} className="flex items-center gap-2">
+                  <span className="text-[12px] text-[#86868b] flex-1">{field.label}</span>
+                  <input
+                    type="number"
+                    value={settings.correlations[field.key]}
+                    onChange={(e) => onChange({
+                      correlations: {
+                        ...settings.correlations,
+                        [field.key]: Math.max(-0.95, Math.min(0.95, parseFloat(e.target.value) || 0)),
+                      },
+                    })}
+                    min={-0.95} max={0.95} step={0.1}
+                    className="apple-input w-[64px] py-1.5 px-2 text-[13px]"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const BANK_OPTIONS: { key: BankKey; label: string }[] = [
+  ...(Object.keys(BANK_POLICIES) as Exclude<BankKey, "custom">[]).map((key) => ({
+    key,
+    label: BANK_POLICIES[key].label,
+  })),
+  { key: "custom", label: "Custom" },
+];
+
+/** Borrower income and commitments, and the bank whose DSR rules gate each purchase */
+function DsrEditor({
+  settings,
+  onChange,
+}: {
+  settings: DsrSettings;
+  onChange: (patch: Partial<DsrSettings>) => void;
+}) {
+  const policy = getBankPolicy(settings);
+  const limit = getDsrLimit(policy, settings.netMonthlyIncome);
+  const tiers = policy.tiers
+    .map((t, i) =>
+      t.maxIncome === null
+        ? `${t.limit}%${i > 0 ? " above" : ""}`
+        : `${t.limit}% up to RM ${t.maxIncome.toLocaleString("en-MY")}`
+    )
+    .join(", ");
+
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="dsrEnabled"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ enabled: !!checked })}
+          className="mt-0.5"
+        />
+        <div>
+          <label htmlFor="dsrEnabled" className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight cursor-pointer">
+            Loan Eligibility (DSR)
+          </label>
+          <p className="text-[12px] text-[#86868b] mt-0.5">
+            Only buy when the bank would approve the loan: commitments over net income plus recognised rent must stay within its limit
+          </p>
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <div className="mt-5 grid grid-cols-1 md:grid-cols-2 gap-5">
+          <div className="grid grid-cols-2 gap-3 content-start">
+            <div>
+              <FieldLabel tip="Take-home pay after EPF, SOCSO and PCB — the figure banks assess">Net Income (RM/mo)</FieldLabel>
+              <input
+                type="number"
+                value={settings.netMonthlyIncome}
+                onChange={(e) => onChange({ netMonthlyIncome: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min={0} step={500}
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <FieldLabel tip="Yearly raise, applied each January">Income Growth (% p.a.)</FieldLabel>
+              <input
+                type="number"
+                value={settings.incomeGrowthRate}
+                onChange={(e) => onChange({ incomeGrowthRate: parseFloat(e.target.value) || 0 })}
+                step={0.5}
+                className="apple-input w-full"
+              />
+            </div>
+            <div className="col-span-2">
+              <FieldLabel tip="Monthly repayments outside this plan: car loan, PTPTN, personal loans, credit cards">Existing Commitments (RM/mo)</FieldLabel>
+              <input
+                type="number"
+                value={settings.existingCommitments}
+                onChange={(e) => onChange({ existingCommitments: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min={0} step={100}
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <FieldLabel tip="Each bank caps DSR by income band and counts only part of the rent, typically with a stamped tenancy agreement">Bank</FieldLabel>
+              <select
+                value={settings.bank}
+                onChange={(e) => onChange({ bank: e.target.value as BankKey })}
+                className="apple-input w-full"
+              >
+                {BANK_OPTIONS.map((b) => (
+                  <option key={b.key} value={b.key}>{b.label}</option>
+                ))}
+              </select>
+            </div>
+            {settings.bank === "custom" ? (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <FieldLabel>DSR Limit (%)</FieldLabel>
+                  <input
+                    type="number"
+                    value={settings.customLimit}
+                    onChange={(e) => onChange({ customLimit: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    min={0} max={100} step={5}
+                    className="apple-input w-full"
+                  />
+                </div>
+                <div>
+                  <FieldLabel tip="Share of rent the bank counts as income">Rent Recognised (%)</FieldLabel>
+                  <input
+                    type="number"
+                    value={settings.customRentalRecognition}
+                    onChange={(e) => onChange({ customRentalRecognition: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                    min={0} max={100} step={5}
+                    className="apple-input w-full"
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-[12px] text-[#86868b]">
+                DSR limit {tiers} · {policy.rentalRecognition}% of rent recognised. Typical published terms; check with the bank.
+              </p>
+            )}
+            <div className="bg-[#f0f5ff] rounded-[8px] px-3 py-2">
+              <p className="text-[12px] text-[#86868b]">Today's DSR before any purchase:</p>
+              <p className="text-[15px] font-semibold text-[#0071e3]">
+                {settings.netMonthlyIncome > 0
+                  ? `${((settings.existingCommitments / settings.netMonthlyIncome) * 100).toFixed(1)}%`
+                  : "—"}{" "}
+                <span className="text-[12px] font-normal text-[#86868b]">of {limit}% allowed</span>
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const CASH_ACCOUNT_FIELDS: {
+  key: Exclude<keyof CashAccountSettings, "enabled">;
+  label: string;
+  tip: string;
+  step: number;
+}[] = [
+  { key: "startingBalance", label: "Starting Balance (RM)", tip: "Cash you have today for deposits, fees and any shortfall", step: 10000 },
+  { key: "monthlySavings", label: "Salary Savings (RM/mo)", tip: "What you put aside from salary each month", step: 500 },
+  { key: "savingsGrowthRate", label: "Savings Growth (% p.a.)", tip: "Yearly increase in monthly savings, applied each January", step: 0.5 },
+  { key: "fdRate", label: "FD Rate (% p.a.)", tip: "Fixed-deposit interest earned on the balance, credited monthly", step: 0.25 },
+  { key: "emergencyFloor", label: "Emergency Floor (RM)", tip: "Balance you never want to dip below. Stocks are only bought from cash above it.", step: 5000 },
+];
+
+/** The investor's own cash: what pays deposits and shortfalls, and what surpluses flow into */
+function CashAccountEditor({
+  settings,
+  onChange,
+}: {
+  settings: CashAccountSettings;
+  onChange: (patch: Partial<CashAccountSettings>) => void;
+}) {
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="cashAccountEnabled"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ enabled: !!checked })}
+          className="mt-0.5"
+        />
+        <div>
+          <label htmlFor="cashAccountEnabled" className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight cursor-pointer">
+            Cash Account
+          </label>
+          <p className="text-[12px] text-[#86868b] mt-0.5">
+            Track your own cash: it pays deposits, costs and shortfalls, receives surpluses and cashback, and flags the first month it falls below your emergency floor. Purchases it cannot fund are skipped; without it, every purchase is assumed affordable
+          </p>
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <div className="mt-5 grid grid-cols-2 md:grid-cols-5 gap-3">
+          {CASH_ACCOUNT_FIELDS.map((field) => (
+            <div key={field.key}>
+              <FieldLabel tip={field.tip}>{field.label}</FieldLabel>
+              <input
+                type="number"
+                value={settings[field.key]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value) || 0;
+                  onChange({ [field.key]: field.key === "savingsGrowthRate" ? value : Math.max(0, value) });
+                }}
+                step={field.step}
+                className="apple-input w-full"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Loan type and how much of each month's surplus is parked against the loans */
+function FlexiLoanEditor({
+  settings,
+  onChange,
+}: {
+  settings: FlexiLoanSettings;
+  onChange: (patch: Partial<FlexiLoanSettings>) => void;
+}) {
+  const flexible = settings.loanType !== "term";
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <h3 className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight">Loan Type</h3>
+      <p className="text-[12px] text-[#86868b] mt-0.5 mb-4">
+        Flexi loans take prepayments: money parked in the loan is not charged interest and can be redrawn, so the same instalment clears the debt sooner
+      </p>
+      <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+        {(Object.keys(LOAN_TYPE_LABELS) as LoanType[]).map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onChange({ loanType: type, ...LOAN_TYPE_DEFAULTS[type] })}
+            className={`
+              flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+              ${settings.loanType === type
+                ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                : "text-[#86868b] hover:text-[#1d1d1f]"
+              }
+            `}
+          >
+            {LOAN_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {flexible && (
+        <div className="mt-5 space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <FieldLabel tip="Share of each month's positive cash flow parked in the loans, dearest loan first. The rest stays as cash and can go to the stock portfolio.">
+                Surplus Prepaid (%)
+              </FieldLabel>
+              <input
+                type="number"
+                value={settings.prepayShare}
+                onChange={(e) => onChange({ prepayShare: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                min={0} max={100} step={10}
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <FieldLabel tip="Added to every loan's rate. Banks usually price flexi loans a little above term loans.">
+                Rate Premium (%)
+              </FieldLabel>
+              <input
+                type="number"
+                value={settings.ratePremium}
+                onChange={(e) => onChange({ ratePremium: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min={0} step={0.05}
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <FieldLabel tip="Charged in each month money is taken back out of the loans">Redraw Fee (RM)</FieldLabel>
+              <input
+                type="number"
+                value={settings.redrawFee}
+                onChange={(e) => onChange({ redrawFee: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min={0} step={10}
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="redrawForShortfalls"
+              checked={settings.redrawForShortfalls}
+              onCheckedChange={(checked) => onChange({ redrawForShortfalls: !!checked })}
+              className="mt-0.5"
+            />
+            <div>
+              <label htmlFor="redrawForShortfalls" className="text-[14px] font-medium text-[#1d1d1f] cursor-pointer">
+                Redraw to cover shortfalls
+              </label>
+              <p className="text-[12px] text-[#86868b] mt-0.5">
+                Months the portfolio runs short are paid from parked money first, cheapest loan first
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Conventional loan or Islamic financing, and the ceiling profit rate */
+function IslamicFinancingEditor({
+  settings,
+  onChange,
+}: {
+  settings: IslamicFinancingSettings;
+  onChange: (patch: Partial<IslamicFinancingSettings>) => void;
+}) {
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <h3 className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight">Financing</h3>
+      <p className="text-[12px] text-[#86868b] mt-0.5 mb-4">
+        Islamic home financing charges the floating profit rate up to a ceiling fixed at signing. A BBA's selling price is set at the ceiling, and the unearned profit is rebated (ibra') when it is settled early
+      </p>
+      <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+        {(Object.keys(FINANCING_TYPE_LABELS) as FinancingType[]).map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onChange({ type })}
+            className={`
+              flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+              ${settings.type === type
+                ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                : "text-[#86868b] hover:text-[#1d1d1f]"
+              }
+            `}
+          >
+            {FINANCING_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {settings.type !== "conventional" && (
+        <div className="mt-5 space-y-3">
+          <div>
+            <FieldLabel tip="Highest profit rate the bank may charge, fixed in the contract. Rates on the rate path above it are capped.">
+              Ceiling Profit Rate (%)
+            </FieldLabel>
+            <input
+              type="number"
+              value={settings.ceilingRate}
+              onChange={(e) => onChange({ ceilingRate: Math.max(0, parseFloat(e.target.value) || 0) })}
+              min={0} step={0.5}
+              className="apple-input w-full"
+            />
+          </div>
+          <p className="text-[12px] text-[#86868b]">
+            {settings.type === "bba"
+              ? "Bai' Bithaman Ajil: the bank sells you the property at a deferred price. Selling, refinancing or settling from parked money earns ibra' on the profit not yet due."
+              : "Musharakah Mutanaqisah: you and the bank co-own the property and you buy out its share. Settlement simply buys the remaining units."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type HoldingCostItemKey = Exclude<HoldingCostCategory, "management">;
+
+const HOLDING_COST_FIELDS: { key: HoldingCostItemKey; label: string; tip: string; step: number }[] = [
+  { key: "maintenance", label: "Maintenance (RM/month)", tip: "Strata maintenance charges and sinking fund", step: 50 },
+  { key: "quitRent", label: "Quit Rent (RM/year)", tip: "Quit rent to the state plus assessment to the local council", step: 100 },
+  { key: "insurance", label: "Insurance (RM/year)", tip: "Fire or houseowner policy on the building", step: 50 },
+  { key: "mrta", label: "MRTA (RM/year)", tip: "Annual mortgage reducing term assurance premium, paid while a loan is owed. Leave at 0 if a single premium is financed into the loan. Not deductible from rent.", step: 100 },
+  { key: "repairs", label: "Repair Reserve (RM/year)", tip: "Set aside for repairs, repainting and replacing fittings", step: 100 },
+];
+
+/** Itemised running costs per unit, each with its own yearly increase */
+function HoldingCostsEditor({
+  settings,
+  onChange,
+}: {
+  settings: HoldingCostSettings;
+  onChange: (patch: Partial<HoldingCostSettings>) => void;
+}) {
+  const updateItem = (key: HoldingCostItemKey, patch: Partial<HoldingCostItem>) =>
+    onChange({ [key]: { ...settings[key], ...patch } });
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="holdingCostsEnabled"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ enabled: !!checked })}
+          className="mt-0.5"
+        />
+        <div>
+          <label htmlFor="holdingCostsEnabled" className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight cursor-pointer">
+            Itemised Holding Costs
+          </label>
+          <p className="text-[12px] text-[#86868b] mt-0.5">
+            Replace the single monthly expense with each running cost and its own yearly increase. Amounts are in today's ringgit for a unit at the purchase price above
+          </p>
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <div className="mt-5 space-y-3">
+          {HOLDING_COST_FIELDS.map((field) => (
+            <div key={field.key} className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <FieldLabel tip={field.tip}>{field.label}</FieldLabel>
+                <input
+                  type="number"
+                  value={settings[field.key].amount}
+                  onChange={(e) => updateItem(field.key, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  min={0} step={field.step}
+                  className="apple-input w-full"
+                />
+              </div>
+              <div>
+                <FieldLabel tip="Increase applied every January">Growth (%)</FieldLabel>
+                <input
+                  type="number"
+                  value={settings[field.key].growth}
+                  onChange={(e) => updateItem(field.key, { growth: parseFloat(e.target.value) || 0 })}
+                  step={0.5}
+                  className="apple-input w-full"
+                />
+              </div>
+            </div>
+          ))}
+          <div>
+            <FieldLabel tip="Property manager's or agent's cut of the rent actually collected">
+              Management Fee (% of rent)
+            </FieldLabel>
+            <input
+              type="number"
+              value={settings.managementRate}
+              onChange={(e) => onChange({ managementRate: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              min={0} max={100} step={1}
+              className="apple-input w-full"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** New-launch purchases: build period, who pays interest until handover, and fit-out */
+function ConstructionEditor({
+  settings,
+  usesPropertyList,
+  onChange,
+}: {
+  settings: ConstructionSettings;
+  usesPropertyList: boolean;
+  onChange: (patch: Partial<ConstructionSettings>) => void;
+}) {
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="constructionEnabled"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ enabled: !!checked })}
+          disabled={usesPropertyList}
+          className="mt-0.5"
+        />
+        <div>
+          <label htmlFor="constructionEnabled" className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight cursor-pointer">
+            Under Construction
+          </label>
+          <p className="text-[12px] text-[#86868b] mt-0.5">
+            {usesPropertyList
+              ? "Set each listed property's build period in the list above. The fit-out below applies to all of them"
+              : "Buy each unit off-plan in its purchase month. Your deposit pays the first Schedule H billings and the loan is drawn down for the rest, with interest only on what is drawn; full instalments, expenses and rent wait for vacant possession"}
+          </p>
+        </div>
+      </div>
+
+      {(settings.enabled || usesPropertyList) && (
+        <div className="mt-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {!usesPropertyList && (
+              <div>
+                <FieldLabel tip="Months from signing the SPA to vacant possession. Schedule H allows 36 months for strata units.">
+                  Build Period (months)
+                </FieldLabel>
+                <input
+                  type="number"
+                  value={settings.constructionMonths}
+                  onChange={(e) => onChange({ constructionMonths: Math.min(72, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  min={1} max={72} step={6}
+                  className="apple-input w-full"
+                />
+              </div>
+            )}
+            <div>
+              <FieldLabel tip="Months after vacant possession spent on renovation and furnishing before the unit can be let. The rent start delay comes on top.">
+                Fit-Out (months)
+              </FieldLabel>
+              <input
+                type="number"
+                value={settings.fitOutMonths}
+                onChange={(e) => onChange({ fitOutMonths: Math.min(24, Math.max(0, parseInt(e.target.value) || 0)) })}
+                min={0} max={24} step={1}
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+          {!usesPropertyList && (
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="constructionDibs"
+                checked={settings.dibs}
+                onCheckedChange={(checked) => onChange({ dibs: !!checked })}
+                className="mt-0.5"
+              />
+              <div>
+                <label htmlFor="constructionDibs" className="text-[14px] font-medium text-[#1d1d1f] cursor-pointer">
+                  Developer interest-bearing scheme (DIBS)
+                </label>
+                <p className="text-[12px] text-[#86868b] mt-0.5">
+                  The developer pays the progressive interest until vacant possession, so nothing is paid on the loan before handover
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Leasehold titles: lease left, how value decays with it, and the banks' lease limits */
+function LeaseholdEditor({
+  settings,
+  usesPropertyList,
+  onChange,
+}: {
+  settings: LeaseholdSettings;
+  usesPropertyList: boolean;
+  onChange: (patch: Partial<LeaseholdSettings>) => void;
+}) {
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="leaseholdEnabled"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ enabled: !!checked })}
+          disabled={usesPropertyList}
+          className="mt-0.5"
+        />
+        <div>
+          <label htmlFor="leaseholdEnabled" className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight cursor-pointer">
+            Leasehold Tenure
+          </label>
+          <p className="text-[12px] text-[#86868b] mt-0.5">
+            {usesPropertyList
+              ? "Set the lease left on each leasehold property in the list above. The curve and bank limits below apply to all of them"
+              : "Buy every unit on a leasehold title. Its value follows the market scaled by the curve below as the lease runs down, and banks shorten or refuse loans on a short lease. When the lease runs out the unit reverts to the state"}
+          </p>
+        </div>
+      </div>
+
+      {(settings.enabled || usesPropertyList) && (
+        <div className="mt-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {!usesPropertyList && (
+              <div>
+                <FieldLabel tip="Years left on each unit's lease when it is bought. A new leasehold title usually runs 99 years.">
+                  Lease Left (years)
+                </FieldLabel>
+                <input
+                  type="number"
+                  value={settings.leaseYears}
+                  onChange={(e) => onChange({ leaseYears: Math.min(999, Math.max(1, parseFloat(e.target.value) || 1)) })}
+                  min={1} max={999} step={1}
+                  className="apple-input w-full"
+                />
+              </div>
+            )}
+            <div>
+              <FieldLabel tip="Banks will not lend on a unit with less lease left than this. A purchase that needs a loan on a shorter lease does not go ahead, and a unit held past this point can no longer be financed by a buyer.">
+                Min. Financeable Lease (years)
+              </FieldLabel>
+              <input
+                type="number"
+                value={settings.minFinanceableYears}
+                onChange={(e) => onChange({ minFinanceableYears: Math.min(99, Math.max(0, parseInt(e.target.value) || 0)) })}
+                min={0} max={99} step={1}
+                className="apple-input w-full"
+              />
+            </div>
+            <div>
+              <FieldLabel tip="Lease banks want left when the loan matures. The loan tenure is cut to the lease left less this.">
+                Lease at Maturity (years)
+              </FieldLabel>
+              <input
+                type="number"
+                value={settings.leaseAtMaturityYears}
+                onChange={(e) => onChange({ leaseAtMaturityYears: Math.min(99, Math.max(0, parseInt(e.target.value) || 0)) })}
+                min={0} max={99} step={1}
+                className="apple-input w-full"
+              />
+            </div>
+          </div>
+          <div>
+            <FieldLabel tip="Value of a lease with this many years left, as a share of the same unit held freehold. Values between the points are interpolated.">
+              Lease-Decay Curve (% of freehold)
+            </FieldLabel>
+            <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+              {settings.curve.map((point, k) => (
+                <div key={point.years}>
+                  <span className="block text-[11px] text-[#86868b] mb-0.5">{point.years} yrs</span>
+                  <input
+                    type="number"
+                    value={point.value}
+                    onChange={(e) =>
+                      onChange({
+                        curve: settings.curve.map((c, j) =>
+                          j === k ? { ...c, value: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) } : c
+                        ),
+                      })
+                    }
+                    min={0} max={100} step={1}
+                    className="apple-input w-full py-1.5 text-[13px]"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const SHORT_TERM_RENTAL_FIELDS: {
+  key: Exclude<keyof ShortTermRentalSettings, "enabled" | "occupancy">;
+  label: string;
+  tip: string;
+  step: number;
+}[] = [
+  { key: "nightlyRate", label: "Nightly Rate (RM)", tip: "Average rate a night booked, before the platform's fee", step: 10 },
+  { key: "averageStayNights", label: "Average Stay (nights)", tip: "Nights per booking; sets how often the unit is cleaned", step: 0.5 },
+  { key: "cleaningPerStay", label: "Cleaning (RM/stay)", tip: "Cleaning and laundry at each turnover", step: 10 },
+  { key: "utilities", label: "Utilities (RM/month)", tip: "Electricity, water, internet and streaming, which a tenant would otherwise pay", step: 50 },
+  { key: "platformFeeRate", label: "Platform Fee (%)", tip: "Share of each booking kept by Airbnb, Booking.com or similar", step: 1 },
+  { key: "operatorFeeRate", label: "Operator Fee (%)", tip: "Share of each booking kept by a co-host or management operator. 0 if you run it yourself. Replaces the management fee of itemised holding costs.", step: 1 },
+  { key: "furnishingCost", label: "Furnishing (RM)", tip: "Furniture, appliances and linen bought before the first guest, and again at the end of each furniture life", step: 1000 },
+  { key: "furnitureLifeYears", label: "Furniture Life (years)", tip: "Years before the furnishing is replaced. For tax it is written off over this life", step: 1 },
+];
+
+/** Letting by the night: rate, seasonal occupancy and the host's costs */
+function ShortTermRentalEditor({
+  settings,
+  usesPropertyList,
+  onChange,
+}: {
+  settings: ShortTermRentalSettings;
+  usesPropertyList: boolean;
+  onChange: (patch: Partial<ShortTermRentalSettings>) => void;
+}) {
+  const nightsBooked = DAYS_IN_MONTH.reduce(
+    (total, days, m) => total + days * ((settings.occupancy[m] ?? 0) / 100),
+    0
+  );
+  const errors = getShortTermRentalErrors(settings);
+  return (
+    <div className="apple-card p-6 md:p-7">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="shortTermRentalEnabled"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ enabled: !!checked })}
+          disabled={usesPropertyList}
+          className="mt-0.5"
+        />
+        <div>
+          <label htmlFor="shortTermRentalEnabled" className="text-[17px] font-semibold text-[#1d1d1f] tracking-tight cursor-pointer">
+            Short-Term Rental
+          </label>
+          <p className="text-[12px] text-[#86868b] mt-0.5">
+            {usesPropertyList
+              ? "Tick Short-Let on the listed properties above. They all earn the bookings and pay the costs below"
+              : "Let every unit by the night instead of to a tenant. Bookings replace the rental yield and vacancy, and the host pays fees, cleaning, utilities and furnishing. Amounts are in today's ringgit for a unit at the purchase price above"}
+          </p>
+        </div>
+      </div>
+
+      {(settings.enabled || usesPropertyList) && (
+        <div className="mt-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {SHORT_TERM_RENTAL_FIELDS.map((field) => (
+              <div key={field.key}>
+                <FieldLabel tip={field.tip}>{field.label}</FieldLabel>
+                <input
+                  type="number"
+                  value={settings[field.key]}
+                  onChange={(e) => onChange({ [field.key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  min={0} step={field.step}
+                  className="apple-input w-full"
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <FieldLabel tip="Share of the nights in each month that are booked. Set the peaks and troughs of your area's seasons and school holidays.">
+              Occupancy by Month (%)
+            </FieldLabel>
+            <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+              {MONTH_SHORT.map((name, m) => (
+                <div key={name}>
+                  <span className="block text-[11px] text-[#86868b] mb-0.5">{name}</span>
+                  <input
+                    type="number"
+                    value={settings.occupancy[m] ?? 0}
+                    onChange={(e) =>
+                      onChange({
+                        occupancy: settings.occupancy.map((o, j) =>
+                          j === m ? Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) : o
+                        ),
+                      })
+                    }
+                    min={0} max={100} step={5}
+                    className="apple-input w-full py-1.5 text-[13px]"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          {errors.length > 0 && (
+            <div className="bg-[#fff4f2] rounded-[10px] px-4 py-3">
+              <p className="text-[14px] font-semibold text-[#ff3b30]">These settings cannot be simulated</p>
+              {errors.map((error) => (
+                <p key={error} className="text-[13px] text-[#424245] leading-relaxed mt-1">{error}</p>
+              ))}
+            </div>
+          )}
+          <div className="bg-[#f5f5f7] rounded-[8px] px-3 py-2">
+            <p className="text-[12px] text-[#86868b]">
+              Nights Booked: <span className="font-semibold text-[#1d1d1f]">{Math.round(nightsBooked)} a year ({((nightsBooked / 365) * 100).toFixed(0)}%)</span>
+            </p>
+            <p className="text-[11px] text-[#86868b] mt-0.5">
+              Gross bookings today: RM {(nightsBooked * settings.nightlyRate).toLocaleString("en-MY", { maximumFractionDigits: 0 })} a year
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Milestone years typed as a comma list; applied when the field loses focus */
+function MilestoneYearsInput({
+  value,
+  onChange,
+}: {
+  value: number[];
+  onChange: (years: number[]) => void;
+}) {
+  const [text, setText] = useState(value.join(", "));
+  useEffect(() => setText(value.join(", ")), [value]);
+
+  const commit = () => {
+    const years = text
+      .split(/[,\s]+/)
+      .map((t) => parseInt(t))
+      .filter((y) => Number.isFinite(y) && y > 0);
+    onChange(years);
+    setText(years.join(", "));
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+      placeholder="e.g. 10, 20"
+      className="apple-input w-full"
+    />
+  );
+}
+
 const DEFAULT_INPUTS: CalculatorInputs = {
   purchasePrice: 500000,
   currentMarketValue: 600000,
-  loanAmount: 600000,
+  loanAmount: 540000,
+  loanInputMode: "ltv",
+  ltv: DEFAULT_LTV,
+  applyLtvLimits: true,
   maxProperties: 10,
   appreciationRate: 3,
   rentalYield: 8,
@@ -54,8 +1405,57 @@ const DEFAULT_INPUTS: CalculatorInputs = {
   age: 30,
   expenseType: "percentage",
   expenseValue: 0,
+  purchaseMonth: 1,
+  rentStartDelayMonths: 0,
+  rateSchedule: { type: "fixed", steps: [] },
+  indexFuturePurchases: false,
+  includeAcquisitionCosts: true,
+  firstHomeExemption: false,
+  sellAfterYears: 0,
+  agentCommissionRate: 3,
+  rpgtCategory: "citizen",
+  saleProceedsTo: "cash",
+  refinance: DEFAULT_REFINANCE_PLAN,
+  rentGrowthRate: 0,
+  vacancyType: "months",
+  vacancyValue: 0,
+  rentBasis: "purchasePrice",
+  rentReviewYears: 1,
+  includeIncomeTax: true,
+  employmentIncome: 0,
+  taxReliefs: DEFAULT_PERSONAL_RELIEF,
+  monteCarlo: DEFAULT_MONTE_CARLO,
+  dsr: DEFAULT_DSR_SETTINGS,
+  cashAccount: DEFAULT_CASH_ACCOUNT,
+  flexiLoan: DEFAULT_FLEXI_LOAN,
+  islamicFinancing: DEFAULT_ISLAMIC_FINANCING,
+  holdingCosts: DEFAULT_HOLDING_COSTS,
+  construction: DEFAULT_CONSTRUCTION,
+  shortTermRental: DEFAULT_SHORT_TERM_RENTAL,
+  leasehold: DEFAULT_LEASEHOLD,
+  horizonYears: DEFAULT_HORIZON_YEARS,
+  milestoneYears: DEFAULT_MILESTONE_YEARS,
+  discountRate: DEFAULT_DISCOUNT_RATE,
 };
 
+const EFFECTIVE_YIELD_YEARS = [1, 10, 30];
+
+const LOAN_INPUT_MODES: { key: LoanInputMode; label: string }[] = [
+  { key: "amount", label: "Amount" },
+  { key: "ltv", label: "LTV %" },
+];
+
+const REFINANCE_TRIGGERS: { key: RefinancePlan["trigger"]; label: string }[] = [
+  { key: "none", label: "None" },
+  { key: "scheduled", label: "Scheduled" },
+  { key: "ltv", label: "LTV Target" },
+];
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
 const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
   ({ onCalculate, externalInputs }, ref) => {
     const [inputs, setInputs] = useState<CalculatorInputs>(DEFAULT_INPUTS);
@@ -78,26 +1478,156 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
 
     const updateInput = useCallback(
       (key: keyof CalculatorInputs, value: number | boolean | string) => {
-        setInputs((prev) => ({ ...prev, [key]: value }));
+        setInputs((prev) => {
+          const next = { ...prev, [key]: value };
+          // In LTV mode the loan follows the market value
+          return next.loanInputMode === "ltv"
+            ? { ...next, loanAmount: getLoanFromLtv(next.currentMarketValue, next.ltv ?? DEFAULT_LTV) }
+            : next;
+        });
       },
       []
     );
 
+    const updateRateSchedule = useCallback((rateSchedule: RateSchedule) => {
+      setInputs((prev) => ({ ...prev, rateSchedule }));
+    }, []);
+
+    const updateProperties = useCallback((properties: PropertySpec[]) => {
+      setInputs((prev) => ({ ...prev, properties }));
+    }, []);
+
+    const updateRefinance = useCallback((patch: Partial<RefinancePlan>) => {
+      setInputs((prev) => ({
+        ...prev,
+        refinance: { ...DEFAULT_REFINANCE_PLAN, ...prev.refinance, ...patch },
+      }));
+    }, []);
+    const refinance = inputs.refinance ?? DEFAULT_REFINANCE_PLAN;
+
+    const updateMonteCarlo = useCallback((patch: Partial<MonteCarloSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        monteCarlo: { ...DEFAULT_MONTE_CARLO, ...prev.monteCarlo, ...patch },
+      }));
+    }, []);
+
+    const updateDsr = useCallback((patch: Partial<DsrSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        dsr: { ...DEFAULT_DSR_SETTINGS, ...prev.dsr, ...patch },
+      }));
+    }, []);
+
+    const updateCashAccount = useCallback((patch: Partial<CashAccountSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        cashAccount: { ...DEFAULT_CASH_ACCOUNT, ...prev.cashAccount, ...patch },
+      }));
+    }, []);
+
+    const updateFlexiLoan = useCallback((patch: Partial<FlexiLoanSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        flexiLoan: { ...DEFAULT_FLEXI_LOAN, ...prev.flexiLoan, ...patch },
+      }));
+    }, []);
+
+    const updateIslamicFinancing = useCallback((patch: Partial<IslamicFinancingSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        islamicFinancing: { ...DEFAULT_ISLAMIC_FINANCING, ...prev.islamicFinancing, ...patch },
+      }));
+    }, []);
+
+    const updateHoldingCosts = useCallback((patch: Partial<HoldingCostSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        holdingCosts: { ...DEFAULT_HOLDING_COSTS, ...prev.holdingCosts, ...patch },
+      }));
+    }, []);
+
+    const updateConstruction = useCallback((patch: Partial<ConstructionSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        construction: { ...DEFAULT_CONSTRUCTION, ...prev.construction, ...patch },
+      }));
+    }, []);
+
+    const updateShortTermRental = useCallback((patch: Partial<ShortTermRentalSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        shortTermRental: { ...DEFAULT_SHORT_TERM_RENTAL, ...prev.shortTermRental, ...patch },
+      }));
+    }, []);
+
+    const updateLeasehold = useCallback((patch: Partial<LeaseholdSettings>) => {
+      setInputs((prev) => ({
+        ...prev,
+        leasehold: { ...DEFAULT_LEASEHOLD, ...prev.leasehold, ...patch },
+      }));
+    }, []);
+
+    // Custom list mode starts from the interval plan so nothing changes until edited
+    const usesPropertyList = (inputs.properties?.length ?? 0) > 0;
+    const setListMode = useCallback((custom: boolean) => {
+      setInputs((prev) => ({ ...prev, properties: custom ? generatePropertyList(prev) : [] }));
+    }, []);
+
+    // Settings that cannot be simulated hold back the calculation
+    const inputErrors = getInputErrors(inputs);
     const handleCalculate = useCallback(() => {
+      if (inputErrors.length > 0) return;
       onCalculate(inputs);
-    }, [inputs, onCalculate]);
+    }, [inputs, inputErrors, onCalculate]);
 
     // Derived values
     const loanTenure = calculateTenure(inputs.age);
     const cashback = Math.max(0, inputs.loanAmount - inputs.purchasePrice);
+    const deposit = getDeposit(inputs.purchasePrice, inputs.loanAmount);
+    const loanInputMode = inputs.loanInputMode ?? "amount";
 
-    // Estimate monthly payment for expense preview
-    const monthlyRate = (inputs.interestRate / 100) / 12;
+    // Estimate monthly payment for expense preview (at the year-1 rate)
+    const monthlyRate = (getInterestRateForYear(inputs, 1) / 100) / 12;
     const numPayments = loanTenure * 12;
     const estimatedMonthlyPayment = monthlyRate === 0
       ? inputs.loanAmount / numPayments
       : (inputs.loanAmount * monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / (Math.pow(1 + monthlyRate, numPayments) - 1);
 
+    // Sale settings matter once any unit is sold, by the plan rule or in the list
+    const hasSales = (inputs.sellAfterYears ?? 0) > 0
+      || (usesPropertyList && (inputs.properties ?? []).some((p) => (p.sellAfterYears ?? 0) > 0));
+
+    // One-off costs on completion of a property with the entered price and loan
+    const acquisitionCosts = calculateAcquisitionCosts({
+      purchasePrice: inputs.purchasePrice,
+      marketValue: inputs.currentMarketValue,
+      loanAmount: inputs.loanAmount,
+      isFirstHome: false,
+    });
+    // Collected rent as a % of market value, with letting starting after the rent delay
+    const rentPolicy = getRentPolicy(inputs);
+    const effectiveYields = EFFECTIVE_YIELD_YEARS.map((year) => ({
+      year,
+      yield: getEffectiveYield(
+        { purchasePrice: inputs.purchasePrice, marketValue: inputs.currentMarketValue, rentalYield: inputs.rentalYield },
+        rentPolicy,
+        inputs.appreciationRate / 100,
+        year,
+        Math.max(0, inputs.rentStartDelayMonths ?? 0)
+      ),
+    }));
+
+    // Rent is taxed on top of employment income, so it starts at this rate
+    const rentTaxRate = getMarginalRate(
+      Math.max(0, (inputs.employmentIncome ?? 0) - (inputs.taxReliefs ?? DEFAULT_PERSONAL_RELIEF))
+    );
+
+    const rm = (n: number) => n.toLocaleString("en-MY", { maximumFractionDigits: 0 });
+
+    // Latest interval purchase, for the market-indexed price preview (listed properties keep their own prices)
+    const lastPurchase = usesPropertyList ? undefined : generatePropertyList(inputs).pop();
+
     const monthlyExpense = inputs.expenseType === "fixed"
       ? inputs.expenseValue
       : estimatedMonthlyPayment * (inputs.expenseValue / 100);
@@ -108,7 +1638,11 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
         <div className="flex items-start gap-3 bg-[#f0f5ff] border border-[#0071e3]/10 rounded-[12px] px-5 py-4">
           <AlertCircle className="w-5 h-5 text-[#0071e3] mt-0.5 shrink-0" />
           <p className="text-[13px] text-[#424245] leading-relaxed">
-            This simulator assumes you purchase multiple properties with the <strong>same purchase price</strong>, <strong>same market value</strong>, and <strong>same financial assumptions</strong> as defined below. Each property follows an identical loan, rental, and expense structure.
+            {usesPropertyList ? (
+              <>Each property in the <strong>Property List</strong> below has its own price, market value, loan, rate, yield, expense and purchase date. Appreciation, rent start delay and loan tenure are shared across the portfolio.</>
+            ) : (
+              <>This simulator assumes you purchase multiple properties with the <strong>same purchase price</strong>, <strong>same market value</strong>, and <strong>same financial assumptions</strong> as defined below. Each property follows an identical loan, rental, and expense structure. Switch to <strong>Custom List</strong> in the Purchase Plan to mix property types.</>
+            )}
           </p>
         </div>
 
@@ -156,6 +1690,53 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
                   </p>
                 )}
               </div>
+
+              {/* Acquisition costs */}
+              <div className="pt-2 border-t border-[#f5f5f7] space-y-3">
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id="includeAcquisitionCosts"
+                    checked={inputs.includeAcquisitionCosts ?? false}
+                    onCheckedChange={(checked) => updateInput("includeAcquisitionCosts", !!checked)}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <label htmlFor="includeAcquisitionCosts" className="text-[14px] font-medium text-[#1d1d1f] cursor-pointer">
+                      Include acquisition costs
+                    </label>
+                    <p className="text-[12px] text-[#86868b] mt-0.5">
+                      Stamp duty, legal and valuation fees, paid when each purchase completes
+                    </p>
+                  </div>
+                </div>
+                {inputs.includeAcquisitionCosts && (
+                  <>
+                    <div className="bg-[#f5f5f7] rounded-[8px] px-3 py-2 space-y-0.5 text-[12px] text-[#86868b]">
+                      <p className="flex justify-between"><span>MOT stamp duty</span><span>RM {rm(acquisitionCosts.motStampDuty)}</span></p>
+                      <p className="flex justify-between"><span>Loan stamp duty (0.5%)</span><span>RM {rm(acquisitionCosts.loanStampDuty)}</span></p>
+                      <p className="flex justify-between"><span>Legal fees (SPA + loan)</span><span>RM {rm(acquisitionCosts.legalFees)}</span></p>
+                      <p className="flex justify-between"><span>Valuation fee</span><span>RM {rm(acquisitionCosts.valuationFee)}</span></p>
+                      <p className="flex justify-between pt-1 border-t border-[#e5e5ea] font-semibold text-[#1d1d1f]"><span>Per purchase</span><span>RM {rm(acquisitionCosts.total)}</span></p>
+                    </div>
+                    <div className="flex items-start gap-3">
+                      <Checkbox
+                        id="firstHomeExemption"
+                        checked={inputs.firstHomeExemption ?? false}
+                        onCheckedChange={(checked) => updateInput("firstHomeExemption", !!checked)}
+                        className="mt-0.5"
+                      />
+                      <div>
+                        <label htmlFor="firstHomeExemption" className="text-[14px] font-medium text-[#1d1d1f] cursor-pointer">
+                          First-home exemption
+                        </label>
+                        <p className="text-[12px] text-[#86868b] mt-0.5">
+                          Waives MOT and loan stamp duty on your first purchase if priced up to RM {rm(FIRST_HOME_PRICE_CAP)}
+                        </p>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
             </div>
           </div>
 
@@ -166,35 +1747,98 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
             </h3>
             <div className="space-y-5">
               <div>
-                <FieldLabel tip="Total loan amount from the bank per property">Loan Amount (RM)</FieldLabel>
-                <input
-                  type="number"
-                  value={inputs.loanAmount}
-                  onChange={(e) => updateInput("loanAmount", parseFloat(e.target.value) || 0)}
-                  min={0}
-                  step={50000}
-                  className="apple-input w-full"
-                />
+                <FieldLabel tip="Loan per property, entered as an amount or as a margin of financing (LTV) on the market value">
+                  {loanInputMode === "ltv" ? "Loan-to-Value (%)" : "Loan Amount (RM)"}
+                </FieldLabel>
+                <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5 mb-2.5">
+                  {LOAN_INPUT_MODES.map((mode) => (
+                    <button
+                      key={mode.key}
+                      type="button"
+                      onClick={() => updateInput("loanInputMode", mode.key)}
+                      className={`
+                        flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+                        ${loanInputMode === mode.key
+                          ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                          : "text-[#86868b] hover:text-[#1d1d1f]"
+                        }
+                      `}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                {loanInputMode === "ltv" ? (
+                  <input
+                    type="number"
+                    value={inputs.ltv ?? DEFAULT_LTV}
+                    onChange={(e) => updateInput("ltv", Math.max(0, parseFloat(e.target.value) || 0))}
+                    min={0} max={100} step={5}
+                    className="apple-input w-full"
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    value={inputs.loanAmount}
+                    onChange={(e) => updateInput("loanAmount", parseFloat(e.target.value) || 0)}
+                    min={0}
+                    step={50000}
+                    className="apple-input w-full"
+                  />
+                )}
                 {cashback > 0 && (
                   <p className="text-[12px] text-[#34c759] mt-1.5 font-medium">
                     Cashback: RM {cashback.toLocaleString("en-MY")} per property (Loan &gt; Purchase Price)
                   </p>
                 )}
+                {deposit > 0 && (
+                  <p className="text-[12px] text-[#ff9500] mt-1.5 font-medium">
+                    Deposit: RM {deposit.toLocaleString("en-MY")} per property, paid from your own cash {isConstructionEnabled(inputs.construction) ? "with the first Schedule H billings" : "on completion"}
+                  </p>
+                )}
                 {inputs.loanAmount > 0 && (
                   <p className="text-[12px] text-[#86868b] mt-1">
-                    LTV: {((inputs.loanAmount / inputs.currentMarketValue) * 100).toFixed(0)}% of market value
+                    {loanInputMode === "ltv"
+                      ? `Loan: RM ${rm(inputs.loanAmount)} per property`
+                      : `LTV: ${((inputs.loanAmount / inputs.currentMarketValue) * 100).toFixed(0)}% of market value`}
                   </p>
                 )}
               </div>
 
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="applyLtvLimits"
+                  checked={inputs.applyLtvLimits ?? false}
+                  onCheckedChange={(checked) => updateInput("applyLtvLimits", !!checked)}
+                  className="mt-0.5"
+                />
+                <div>
+                  <label htmlFor="applyLtvLimits" className="text-[14px] font-medium text-[#1d1d1f] cursor-pointer">
+                    Apply BNM margin-of-financing limits
+                  </label>
+                  <p className="text-[12px] text-[#86868b] mt-0.5">
+                    Each loan is capped at {STANDARD_MARGIN}% of market value, and {THIRD_LOAN_MARGIN}% once you already owe two housing loans; the buyer pays the rest of the price
+                  </p>
+                </div>
+              </div>
+
               <div>
-                <FieldLabel tip="Average mortgage interest rate">Loan Interest Rate (%)</FieldLabel>
-                <input
-                  type="number"
-                  value={inputs.interestRate}
-                  onChange={(e) => updateInput("interestRate", parseFloat(e.target.value) || 0)}
-                  min={0} max={10} step={0.1}
-                  className="apple-input w-full"
+                <FieldLabel tip="Mortgage interest rate. Malaysian loans float with the bank's standardised base rate (SBR) — choose By Year or SBR + Spread to model rate changes.">
+                  Loan Interest Rate (%)
+                </FieldLabel>
+                {inputs.rateSchedule?.type !== "baseSpread" && (
+                  <input
+                    type="number"
+                    value={inputs.interestRate}
+                    onChange={(e) => updateInput("interestRate", parseFloat(e.target.value) || 0)}
+                    min={0} max={10} step={0.1}
+                    className="apple-input w-full"
+                  />
+                )}
+                <RateScheduleEditor
+                  schedule={inputs.rateSchedule ?? { type: "fixed", steps: [] }}
+                  startingYear={inputs.startingYear}
+                  onChange={updateRateSchedule}
                 />
               </div>
 
@@ -210,7 +1854,7 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
               </div>
 
               <div>
-                <FieldLabel tip="Annual rental income as percentage of ORIGINAL purchase price (fixed, no inflation)">
+                <FieldLabel tip="Annual rent as a percentage of the purchase price, or of the market value at each rent review">
                   Gross Rental Yield (%)
                 </FieldLabel>
                 <input
@@ -220,6 +1864,100 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
                   min={0} max={20} step={0.5}
                   className="apple-input w-full"
                 />
+                <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5 mt-3">
+                  {([
+                    { key: "purchasePrice", label: "On Purchase Price" },
+                    { key: "marketValue", label: "On Market Value" },
+                  ] as const).map((mode) => (
+                    <button
+                      key={mode.key}
+                      type="button"
+                      onClick={() => updateInput("rentBasis", mode.key)}
+                      className={`
+                        flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+                        ${(inputs.rentBasis ?? "purchasePrice") === mode.key
+                          ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                          : "text-[#86868b] hover:text-[#1d1d1f]"
+                        }
+                      `}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-3 mt-3">
+                  {(inputs.rentBasis ?? "purchasePrice") === "purchasePrice" ? (
+                    <div>
+                      <FieldLabel tip="Annual rent escalation, applied at each rent review">Rent Growth (%)</FieldLabel>
+                      <input
+                        type="number"
+                        value={inputs.rentGrowthRate ?? 0}
+                        onChange={(e) => updateInput("rentGrowthRate", parseFloat(e.target.value) || 0)}
+                        min={0} max={10} step={0.5}
+                        className="apple-input w-full"
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex items-end">
+                      <p className="text-[12px] text-[#86868b] pb-2">Rent follows the market value at each review.</p>
+                    </div>
+                  )}
+                  <div>
+                    <FieldLabel tip="Rent is re-set every N years of a tenancy (1 = every year)">Review Every (Yrs)</FieldLabel>
+                    <input
+                      type="number"
+                      value={inputs.rentReviewYears ?? 1}
+                      onChange={(e) => updateInput("rentReviewYears", Math.max(1, parseInt(e.target.value) || 1))}
+                      min={1} max={10} step={1}
+                      className="apple-input w-full"
+                    />
+                  </div>
+                </div>
+                <div className="mt-3">
+                  <FieldLabel tip="Rent lost between tenants, as vacant months per year or a percentage of rent">Vacancy</FieldLabel>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      value={inputs.vacancyValue ?? 0}
+                      onChange={(e) => updateInput("vacancyValue", Math.max(0, parseFloat(e.target.value) || 0))}
+                      min={0} max={(inputs.vacancyType ?? "months") === "months" ? 12 : 100}
+                      step={(inputs.vacancyType ?? "months") === "months" ? 0.5 : 1}
+                      className="apple-input w-full"
+                    />
+                    <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5 shrink-0">
+                      {([
+                        { key: "months", label: "Months/yr" },
+                        { key: "percentage", label: "%" },
+                      ] as const).map((mode) => (
+                        <button
+                          key={mode.key}
+                          type="button"
+                          onClick={() => updateInput("vacancyType", mode.key)}
+                          className={`
+                            px-3 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+                            ${(inputs.vacancyType ?? "months") === mode.key
+                              ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                              : "text-[#86868b] hover:text-[#1d1d1f]"
+                            }
+                          `}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <div className="mt-3 bg-[#f5f5f7] rounded-[8px] px-3 py-2">
+                  <p className="text-[12px] text-[#86868b] mb-1">Effective yield on market value (after vacancy)</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {effectiveYields.map((y) => (
+                      <div key={y.year}>
+                        <p className="text-[11px] text-[#86868b]">Year {y.year}</p>
+                        <p className="text-[14px] font-semibold text-[#1d1d1f]">{y.yield.toFixed(2)}%</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
 
               {/* Monthly Expense */}
@@ -266,13 +2004,66 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
                   placeholder={inputs.expenseType === "fixed" ? "e.g. 500" : "e.g. 10"}
                   className="apple-input w-full"
                 />
-                {inputs.expenseValue > 0 && (
+                {inputs.holdingCosts?.enabled ? (
+                  <p className="text-[12px] text-[#86868b] mt-1.5">
+                    Not used while holding costs are itemised below
+                  </p>
+                ) : inputs.expenseValue > 0 && (
                   <p className="text-[12px] text-[#86868b] mt-1.5">
                     = RM {monthlyExpense.toLocaleString("en-MY", { maximumFractionDigits: 0 })}/month
                     {" "}(RM {(monthlyExpense * 12).toLocaleString("en-MY", { maximumFractionDigits: 0 })}/year) per property
                   </p>
                 )}
               </div>
+
+              {/* Income tax on rent */}
+              <div className="pt-2 border-t border-[#f5f5f7] space-y-3">
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id="includeIncomeTax"
+                    checked={inputs.includeIncomeTax ?? false}
+                    onCheckedChange={(checked) => updateInput("includeIncomeTax", !!checked)}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <label htmlFor="includeIncomeTax" className="text-[14px] font-medium text-[#1d1d1f] cursor-pointer">
+                      Tax rental income
+                    </label>
+                    <p className="text-[12px] text-[#86868b] mt-0.5">
+                      Resident rates on rent less loan interest and expenses (quit rent, assessment, maintenance)
+                    </p>
+                  </div>
+                </div>
+                {inputs.includeIncomeTax && (
+                  <>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <FieldLabel tip="Your yearly employment income. Rent is added on top of it, so it sets the rate your rent is taxed at.">Employment (RM/yr)</FieldLabel>
+                        <input
+                          type="number"
+                          value={inputs.employmentIncome ?? 0}
+                          onChange={(e) => updateInput("employmentIncome", Math.max(0, parseFloat(e.target.value) || 0))}
+                          min={0} step={1000}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <FieldLabel tip={`Total reliefs claimed each year, including the RM ${rm(DEFAULT_PERSONAL_RELIEF)} individual relief`}>Reliefs (RM/yr)</FieldLabel>
+                        <input
+                          type="number"
+                          value={inputs.taxReliefs ?? DEFAULT_PERSONAL_RELIEF}
+                          onChange={(e) => updateInput("taxReliefs", Math.max(0, parseFloat(e.target.value) || 0))}
+                          min={0} step={500}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-[12px] text-[#86868b]">
+                      Your first ringgit of net rent is taxed at <span className="font-semibold text-[#1d1d1f]">{(rentTaxRate * 100).toFixed(0)}%</span>. A loss on one unit reduces the net rent taxed on the others, but never your salary.
+                    </p>
+                  </>
+                )}
+              </div>
             </div>
           </div>
 
@@ -282,6 +2073,35 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
               Purchase Plan
             </h3>
             <div className="space-y-5">
+              <div>
+                <FieldLabel tip="Identical: buy the same property every interval. Custom List: enter each property separately (e.g. a condo, a terrace house and a shoplot).">
+                  Portfolio
+                </FieldLabel>
+                <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+                  {[
+                    { custom: false, label: "Identical (Interval)" },
+                    { custom: true, label: "Custom List" },
+                  ].map((mode) => (
+                    <button
+                      key={mode.label}
+                      type="button"
+                      onClick={() => mode.custom !== usesPropertyList && setListMode(mode.custom)}
+                      className={`
+                        flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+                        ${usesPropertyList === mode.custom
+                          ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                          : "text-[#86868b] hover:text-[#1d1d1f]"
+                        }
+                      `}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {!usesPropertyList && (
+              <>
               <div>
                 <FieldLabel tip="Maximum number of properties you plan to acquire">Maximum Properties</FieldLabel>
                 <input
@@ -303,6 +2123,8 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
                   className="apple-input w-full"
                 />
               </div>
+              </>
+              )}
 
               <div>
                 <FieldLabel>Starting Year</FieldLabel>
@@ -315,6 +2137,332 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
                 />
               </div>
 
+              <div>
+                <FieldLabel tip="How many years the plan is simulated. Results, charts and the stock comparison all run to this year.">
+                  Horizon (Years)
+                </FieldLabel>
+                <input
+                  type="number"
+                  value={inputs.horizonYears ?? DEFAULT_HORIZON_YEARS}
+                  onChange={(e) => updateInput("horizonYears", parseInt(e.target.value) || DEFAULT_HORIZON_YEARS)}
+                  min={1} max={MAX_HORIZON_YEARS} step={1}
+                  className="apple-input w-full"
+                />
+                <p className="text-[11px] text-[#86868b] mt-1">
+                  Until {inputs.startingYear + resolveHorizon(inputs)}, age {inputs.age + resolveHorizon(inputs)}
+                </p>
+              </div>
+
+              <div>
+                <FieldLabel tip="Years reported alongside the horizon in the result cards and summaries, separated by commas. Years beyond the horizon are ignored.">
+                  Milestone Years
+                </FieldLabel>
+                <MilestoneYearsInput
+                  value={inputs.milestoneYears ?? DEFAULT_MILESTONE_YEARS}
+                  onChange={(milestoneYears) => setInputs((prev) => ({ ...prev, milestoneYears }))}
+                />
+              </div>
+
+              <div>
+                <FieldLabel tip="The yearly return you could earn elsewhere. NPV discounts every ringgit the plan takes from or gives back to you at this rate; a positive NPV beats that alternative.">
+                  Discount Rate (%)
+                </FieldLabel>
+                <input
+                  type="number"
+                  value={inputs.discountRate ?? DEFAULT_DISCOUNT_RATE}
+                  onChange={(e) => updateInput("discountRate", parseFloat(e.target.value) || 0)}
+                  min={0} max={20} step={0.5}
+                  className="apple-input w-full"
+                />
+              </div>
+
+              <div>
+                <FieldLabel tip="Month of the year each purchase completes. Instalments and expenses start in this month, so a mid-year purchase only counts part of its first year. In Custom List mode each property sets its own month.">
+                  Completion Month
+                </FieldLabel>
+                <select
+                  value={inputs.purchaseMonth ?? 1}
+                  onChange={(e) => updateInput("purchaseMonth", parseInt(e.target.value) || 1)}
+                  className="apple-input w-full"
+                >
+                  {MONTHS.map((name, i) => (
+                    <option key={name} value={i + 1}>{name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <FieldLabel tip="Months after completion before the first rent is received (e.g. time to find a tenant or renovate)">
+                  Rent Starts After (Months)
+                </FieldLabel>
+                <input
+                  type="number"
+                  value={inputs.rentStartDelayMonths ?? 0}
+                  onChange={(e) => updateInput("rentStartDelayMonths", parseInt(e.target.value) || 0)}
+                  min={0} max={24} step={1}
+                  className="apple-input w-full"
+                />
+              </div>
+
+              {/* Market-indexed later purchases */}
+              <div className="pt-2 border-t border-[#f5f5f7]">
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id="indexFuturePurchases"
+                    checked={inputs.indexFuturePurchases ?? false}
+                    onCheckedChange={(checked) => updateInput("indexFuturePurchases", !!checked)}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <label htmlFor="indexFuturePurchases" className="text-[14px] font-medium text-[#1d1d1f] cursor-pointer">
+                      Price later purchases at market
+                    </label>
+                    <p className="text-[12px] text-[#86868b] mt-0.5">
+                      {inputs.indexFuturePurchases
+                        ? "Price, market value, loan and rent of each later purchase grow to the market level of its purchase month"
+                        : "Every purchase uses today's price, loan and rent"}
+                    </p>
+                  </div>
+                </div>
+                {inputs.indexFuturePurchases && (
+                  <div className="mt-3">
+                    <FieldLabel tip="Annual growth of property prices used to price later purchases. Leave blank to use the capital appreciation rate.">
+                      Price Growth (%)
+                    </FieldLabel>
+                    <input
+                      type="number"
+                      value={inputs.priceGrowthRate ?? ""}
+                      placeholder={`${inputs.appreciationRate} (appreciation)`}
+                      onChange={(e) => setInputs((prev) => ({
+                        ...prev,
+                        priceGrowthRate: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      }))}
+                      min={0} max={20} step={0.5}
+                      className="apple-input w-full"
+                    />
+                    {lastPurchase && lastPurchase.purchaseYear > 1 && (
+                      <p className="text-[12px] text-[#86868b] mt-1.5">
+                        {lastPurchase.name} ({inputs.startingYear + lastPurchase.purchaseYear}) costs RM {(lastPurchase.purchasePrice * getPurchasePriceIndex(inputs, lastPurchase.purchaseYear, lastPurchase.purchaseMonth)).toLocaleString("en-MY", { maximumFractionDigits: 0 })}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Exit strategy */}
+              <div className="pt-2 border-t border-[#f5f5f7]">
+                <FieldLabel tip="Sell each unit after it has been held this many years (0 = hold to the end). The loan is redeemed from the sale price, and agent commission, legal fees and RPGT are deducted.">
+                  Sell Each Unit After (Years)
+                </FieldLabel>
+                <input
+                  type="number"
+                  value={inputs.sellAfterYears ?? 0}
+                  onChange={(e) => updateInput("sellAfterYears", Math.max(0, parseInt(e.target.value) || 0))}
+                  min={0} max={30} step={1}
+                  className="apple-input w-full"
+                />
+                {hasSales && (
+                  <div className="mt-3 space-y-3">
+                    {(inputs.sellAfterYears ?? 0) > 0 && (
+                      <p className="text-[12px] text-[#86868b]">
+                        RPGT on a sale after {inputs.sellAfterYears} year(s): <span className="font-semibold text-[#1d1d1f]">{(getRpgtRate(inputs.rpgtCategory ?? "citizen", (inputs.sellAfterYears ?? 0) * 12) * 100).toFixed(0)}%</span>
+                      </p>
+                    )}
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <FieldLabel tip="Real estate agent commission as % of the sale price">Agent (%)</FieldLabel>
+                        <input
+                          type="number"
+                          value={inputs.agentCommissionRate ?? 3}
+                          onChange={(e) => updateInput("agentCommissionRate", parseFloat(e.target.value) || 0)}
+                          min={0} max={5} step={0.25}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <FieldLabel tip="RPGT rates depend on who disposes of the property">Seller</FieldLabel>
+                        <select
+                          value={inputs.rpgtCategory ?? "citizen"}
+                          onChange={(e) => updateInput("rpgtCategory", e.target.value as RpgtCategory)}
+                          className="apple-input w-full"
+                        >
+                          {(Object.keys(RPGT_CATEGORY_LABELS) as RpgtCategory[]).map((key) => (
+                            <option key={key} value={key}>{RPGT_CATEGORY_LABELS[key]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    <div>
+                      <FieldLabel tip="Keep net proceeds as cash in your property cash flow, or invest them in the stock portfolio">Net Proceeds</FieldLabel>
+                      <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+                        {([
+                          { key: "cash", label: "Keep as Cash" },
+                          { key: "stock", label: "Invest in Stocks" },
+                        ] as const).map((mode) => (
+                          <button
+                            key={mode.key}
+                            type="button"
+                            onClick={() => updateInput("saleProceedsTo", mode.key)}
+                            className={`
+                              flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+                              ${(inputs.saleProceedsTo ?? "cash") === mode.key
+                                ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                                : "text-[#86868b] hover:text-[#1d1d1f]"
+                              }
+                            `}
+                          >
+                            {mode.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Refinancing */}
+              <div className="pt-2 border-t border-[#f5f5f7]">
+                <FieldLabel tip="Refinance each unit on a schedule, or once its loan-to-value ratio falls to a threshold. The new loan borrows the target LTV of the current market value, and the cash released after fees and penalties is taken out.">
+                  Refinancing
+                </FieldLabel>
+                <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+                  {REFINANCE_TRIGGERS.map((mode) => (
+                    <button
+                      key={mode.key}
+                      type="button"
+                      onClick={() => updateRefinance({ trigger: mode.key })}
+                      className={`
+                        flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+                        ${refinance.trigger === mode.key
+                          ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                          : "text-[#86868b] hover:text-[#1d1d1f]"
+                        }
+                      `}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                {refinance.trigger !== "none" && (
+                  <div className="mt-3 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      {refinance.trigger === "scheduled" ? (
+                        <div>
+                          <FieldLabel tip="Years into each loan before it is refinanced; repeats on the new loan up to the maximum count">Every (Years)</FieldLabel>
+                          <input
+                            type="number"
+                            value={refinance.afterYears}
+                            onChange={(e) => updateRefinance({ afterYears: Math.max(1, parseInt(e.target.value) || 1) })}
+                            min={1} max={30} step={1}
+                            className="apple-input w-full"
+                          />
+                        </div>
+                      ) : (
+                        <div>
+                          <FieldLabel tip="Refinance once the loan balance falls to this % of market value (checked after the lock-in period)">When LTV ≤ (%)</FieldLabel>
+                          <input
+                            type="number"
+                            value={refinance.ltvThreshold}
+                            onChange={(e) => updateRefinance({ ltvThreshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            min={0} max={100} step={5}
+                            className="apple-input w-full"
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <FieldLabel tip="New loan as % of the market value at refinancing. It never falls below the balance being redeemed.">New LTV (%)</FieldLabel>
+                        <input
+                          type="number"
+                          value={refinance.targetLtv}
+                          onChange={(e) => updateRefinance({ targetLtv: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          min={0} max={90} step={5}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <FieldLabel tip="Rate of the new loan in the year it starts; later years follow the rate path's moves. Leave blank to keep the plan's rate.">New Rate (%)</FieldLabel>
+                        <input
+                          type="number"
+                          value={refinance.interestRate ?? ""}
+                          placeholder="Plan"
+                          onChange={(e) => updateRefinance({ interestRate: e.target.value === "" ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                          min={0} max={15} step={0.05}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <FieldLabel tip="Tenure of the new loan. Leave blank to use min(70 − age at refinancing, 35).">New Tenure (Years)</FieldLabel>
+                        <input
+                          type="number"
+                          value={refinance.tenureYears ?? ""}
+                          placeholder="Age-based"
+                          onChange={(e) => updateRefinance({ tenureYears: e.target.value === "" ? undefined : Math.max(5, parseInt(e.target.value) || 5) })}
+                          min={5} max={35} step={1}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <FieldLabel tip="Redeeming a loan within its lock-in period incurs the penalty below">Lock-in (Years)</FieldLabel>
+                        <input
+                          type="number"
+                          value={refinance.lockInYears}
+                          onChange={(e) => updateRefinance({ lockInYears: Math.max(0, parseInt(e.target.value) || 0) })}
+                          min={0} max={10} step={1}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <FieldLabel tip="Early settlement penalty as % of the balance redeemed within the lock-in period">Penalty (%)</FieldLabel>
+                        <input
+                          type="number"
+                          value={refinance.lockInPenaltyRate}
+                          onChange={(e) => updateRefinance({ lockInPenaltyRate: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          min={0} max={5} step={0.5}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                      <div>
+                        <FieldLabel tip="Most refinances of any one unit over the horizon">Max per Unit</FieldLabel>
+                        <input
+                          type="number"
+                          value={refinance.maxRefinances}
+                          onChange={(e) => updateRefinance({ maxRefinances: Math.max(0, parseInt(e.target.value) || 0) })}
+                          min={0} max={10} step={1}
+                          className="apple-input w-full"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-[12px] text-[#86868b]">
+                      Each refinance pays stamp duty, legal and valuation fees on the new loan.
+                    </p>
+                    <div>
+                      <FieldLabel tip="Keep cash released by refinancing in your property cash flow, or invest it in the stock portfolio">Cash-Out</FieldLabel>
+                      <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+                        {([
+                          { key: "cash", label: "Keep as Cash" },
+                          { key: "stock", label: "Invest in Stocks" },
+                        ] as const).map((mode) => (
+                          <button
+                            key={mode.key}
+                            type="button"
+                            onClick={() => updateRefinance({ cashOutTo: mode.key })}
+                            className={`
+                              flex-1 py-1.5 text-[13px] font-medium rounded-[7px] transition-all duration-200
+                              ${refinance.cashOutTo === mode.key
+                                ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                                : "text-[#86868b] hover:text-[#1d1d1f]"
+                              }
+                            `}
+                          >
+                            {mode.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Age-based tenure */}
               <div className="pt-2 border-t border-[#f5f5f7]">
                 <FieldLabel tip="Loan tenure is auto-calculated: min(70 - your age, 35 years), minimum 5 years">
@@ -352,10 +2500,77 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
           </div>
         </div>
 
+        {usesPropertyList && (
+          <PropertyListEditor
+            properties={inputs.properties ?? []}
+            startingYear={inputs.startingYear}
+            onChange={updateProperties}
+            onRegenerate={() => setListMode(true)}
+          />
+        )}
+
+        <ConstructionEditor
+          settings={inputs.construction ?? DEFAULT_CONSTRUCTION}
+          usesPropertyList={usesPropertyList}
+          onChange={updateConstruction}
+        />
+
+        <LeaseholdEditor
+          settings={inputs.leasehold ?? DEFAULT_LEASEHOLD}
+          usesPropertyList={usesPropertyList}
+          onChange={updateLeasehold}
+        />
+
+        <DsrEditor
+          settings={inputs.dsr ?? DEFAULT_DSR_SETTINGS}
+          onChange={updateDsr}
+        />
+
+        <CashAccountEditor
+          settings={inputs.cashAccount ?? DEFAULT_CASH_ACCOUNT}
+          onChange={updateCashAccount}
+        />
+
+        <FlexiLoanEditor
+          settings={inputs.flexiLoan ?? DEFAULT_FLEXI_LOAN}
+          onChange={updateFlexiLoan}
+        />
+
+        <IslamicFinancingEditor
+          settings={inputs.islamicFinancing ?? DEFAULT_ISLAMIC_FINANCING}
+          onChange={updateIslamicFinancing}
+        />
+
+        <HoldingCostsEditor
+          settings={inputs.holdingCosts ?? DEFAULT_HOLDING_COSTS}
+          onChange={updateHoldingCosts}
+        />
+
+        <ShortTermRentalEditor
+          settings={inputs.shortTermRental ?? DEFAULT_SHORT_TERM_RENTAL}
+          usesPropertyList={usesPropertyList}
+          onChange={updateShortTermRental}
+        />
+
+        <MonteCarloEditor
+          settings={inputs.monteCarlo ?? DEFAULT_MONTE_CARLO}
+          onChange={updateMonteCarlo}
+        />
+
+        {inputErrors.length > 0 && (
+          <div className="bg-[#fff4f2] rounded-[10px] px-4 py-3">
+            <p className="text-[14px] font-semibold text-[#ff3b30]">Fix these settings to calculate</p>
+            {inputErrors.map((error) => (
+              <p key={error} className="text-[13px] text-[#424245] leading-relaxed mt-1">{error}</p>
+            ))}
+          </div>
+        )}
+
         {/* Calculate Button — Apple-style tactile */}
         <div className="flex justify-center">
           <button
             onClick={handleCalculate}
+            disabled={inputErrors.length > 0}
             className="
               px-12 py-3.5 text-[17px] font-medium text-white
               bg-[#0071e3] hover:bg-[#0077ed]
@@ -365,6 +2580,7 @@ const InputPanel = forwardRef<InputPanelRef, InputPanelProps>(
               hover:-translate-y-[1px]
               active:translate-y-0 active:shadow-[0_1px_4px_rgba(0,113,227,0.2)]
               focus:outline-none focus:ring-4 focus:ring-[#0071e3]/20
+              disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:translate-y-0
             "
           >
             Calculate My Property Plan
@@ -0,0 +1,109 @@
+/*
+ * Long- vs short-term letting: the plan's first unit run on its own, let to
+ * a tenant and let by the night, with the rest of the plan unchanged.
+ */
+
+import { useMemo } from "react";
+import type { CalculatorInputs } from "@/lib/calculator";
+import { formatNumber, resolveHorizon } from "@/lib/calculator";
+import { compareLetting, summariseLetting, type LettingOutcome } from "@/lib/lettingComparison";
+import { useDisplayResults } from "@/contexts/MoneyBasisContext";
+
+interface LettingComparisonPanelProps {
+  inputs: CalculatorInputs;
+}
+
+const rm = (value: number) => `${value < 0 ? "−" : ""}RM ${formatNumber(Math.abs(value).toFixed(0))}`;
+const percent = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)}%`);
+
+interface Row {
+  label: string;
+  pick: (o: LettingOutcome) => number | null;
+  kind: "money" | "percent";
+  higherIsBetter: boolean;
+  note?: string;
+}
+
+export default function LettingComparisonPanel({ inputs }: LettingComparisonPanelProps) {
+  const horizon = resolveHorizon(inputs);
+  const comparison = useMemo(() => compareLetting(inputs), [inputs]);
+  const longTermResults = useDisplayResults(comparison?.longTerm ?? null);
+  const shortTermResults = useDisplayResults(comparison?.shortTerm ?? null);
+  if (!comparison || !longTermResults || !shortTermResults) return null;
+
+  const longTerm = summariseLetting(longTermResults);
+  const shortTerm = summariseLetting(shortTermResults);
+  if (!longTerm || !shortTerm) return null;
+
+  const format = (row: Row, value: number | null) =>
+    row.kind === "percent" ? percent(value) : rm(value ?? 0);
+  const rows: Row[] = [
+    { label: "First-Year Income", pick: (o) => o.firstYearIncome, kind: "money", higherIsBetter: true, note: "12 months from handover" },
+    { label: "First-Year Expenses", pick: (o) => o.firstYearExpense, kind: "money", higherIsBetter: false, note: "including furnishing when let short term" },
+    { label: `Income over ${horizon} Years`, pick: (o) => o.grossIncome, kind: "money", higherIsBetter: true },
+    { label: "Expenses", pick: (o) => o.expense, kind: "money", higherIsBetter: false },
+    { label: "Income Tax", pick: (o) => o.incomeTax, kind: "money", higherIsBetter: false },
+    { label: "Net Income", pick: (o) => o.netIncome, kind: "money", higherIsBetter: true, note: "before the loan" },
+    { label: "Cumulative Cash Flow", pick: (o) => o.cashFlow, kind: "money", higherIsBetter: true, note: "after instalments, deposit and costs" },
+    { label: `${horizon}-Year Net Equity`, pick: (o) => o.netEquity, kind: "money", higherIsBetter: true },
+    { label: "IRR", pick: (o) => o.irr, kind: "percent", higherIsBetter: true, note: "on the unit's own cash" },
+  ];
+
+  const difference = (row: Row) => {
+    const a = row.pick(longTerm);
+    const b = row.pick(shortTerm);
+    if (a === null || b === null) return { text: "—", color: "text-[#86868b]" };
+    const delta = b - a;
+    const better = row.higherIsBetter ? delta > 0 : delta < 0;
+    const text =
+      row.kind === "percent"
+        ? `${delta >= 0 ? "+" : "−"}${Math.abs(delta).toFixed(1)} pp`
+        : `${delta >= 0 ? "+" : "−"}RM ${formatNumber(Math.abs(delta).toFixed(0))}`;
+    return { text, color: Math.abs(delta) < 0.5 ? "text-[#86868b]" : better ? "text-[#34c759]" : "text-[#ff3b30]" };
+  };
+
+  const headerCell = "py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]";
+
+  return (
+    <div className="apple-card p-5 md:p-6 space-y-4">
+      <div>
+        <h3 className="text-[17px] font-semibold text-[#1d1d1f]">Long- vs Short-Term Letting</h3>
+        <p className="text-[13px] text-[#86868b]">
+          {comparison.unit.name} let to a tenant at a {comparison.unit.rentalYield}% yield, or by the night, over {horizon} years with its own loan, costs and tax
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr>
+              <th className={`text-left ${headerCell}`} />
+              <th className={`text-right ${headerCell}`}>Long-Term</th>
+              <th className={`text-right ${headerCell}`}>Short-Term</th>
+              <th className={`text-right ${headerCell}`}>Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const diff = difference(row);
+              return (
+                <tr key={row.label} className="border-b border-[#f5f5f7] hover:bg-[#f5f5f7]/60 transition-colors">
+                  <td className="py-2.5 px-3 text-[13px] text-[#1d1d1f]">
+                    {row.label}
+                    {row.note && <span className="block text-[11px] text-[#86868b]">{row.note}</span>}
+                  </td>
+                  <td className="py-2.5 px-3 text-[13px] text-right text-[#1d1d1f]">{format(row, row.pick(longTerm))}</td>
+                  <td className="py-2.5 px-3 text-[13px] text-right text-[#1d1d1f]">{format(row, row.pick(shortTerm))}</td>
+                  <td className={`py-2.5 px-3 text-[13px] text-right font-semibold ${diff.color}`}>{diff.text}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[12px] text-[#86868b]">
+        Green favours letting short term, red letting to a tenant. The long-term run uses the plan's rent growth, vacancy and reviews; the short-term run uses the bookings, fees and furnishing of the short-term rental settings.
+      </p>
+    </div>
+  );
+}
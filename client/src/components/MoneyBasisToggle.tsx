@@ -0,0 +1,63 @@
+/*
+ * Global switch between nominal ringgit and today's ringgit, with the
+ * inflation rate used to deflate every chart and table.
+ */
+
+import { useMoneyBasis } from "@/contexts/MoneyBasisContext";
+import type { MoneyBasis } from "@/lib/inflation";
+
+const BASES: { key: MoneyBasis; label: string }[] = [
+  { key: "nominal", label: "Nominal RM" },
+  { key: "real", label: "Today's RM" },
+];
+
+export default function MoneyBasisToggle() {
+  const { basis, inflationRate, setBasis, setInflationRate } = useMoneyBasis();
+
+  return (
+    <div className="flex items-center gap-2 shrink-0">
+      <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+        {BASES.map((b) => (
+          <button
+            key={b.key}
+            type="button"
+            onClick={() => setBasis(b.key)}
+            className={`
+              px-3 py-1 text-[12px] font-medium rounded-[7px] transition-all duration-200 whitespace-nowrap
+              ${basis === b.key
+                ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                : "text-[#86868b] hover:text-[#1d1d1f]"
+              }
+            `}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+      {basis === "real" && (
+        <label className="flex items-center gap-1.5 text-[12px] text-[#86868b]" title="Inflation used to convert future ringgit into today's ringgit">
+          Inflation
+          <input
+            type="number"
+            value={inflationRate}
+            onChange={(e) => setInflationRate(Math.max(0, parseFloat(e.target.value) || 0))}
+            min={0} max={20} step={0.5}
+            className="apple-input w-[64px] py-1 px-2 text-[12px]"
+          />
+          %
+        </label>
+      )}
+    </div>
+  );
+}
+
+/** Caption for results shown in today's ringgit; nothing on the nominal basis */
+export function MoneyBasisNote({ startingYear }: { startingYear: number }) {
+  const { basis, inflationRate } = useMoneyBasis();
+  if (basis !== "real") return null;
+  return (
+    <p className="text-[13px] text-[#86868b]">
+      In today's ringgit ({startingYear}), deflated at {inflationRate}% a year
+    </p>
+  );
+}
@@ -0,0 +1,220 @@
+/*
+ * Range of outcomes from the Monte Carlo run: P10–P90 fan charts with the
+ * median path, and the chance that cumulative cash flow goes negative.
+ * Trials run in a web worker; the panel shows progress while they do.
+ */
+
+import { useMemo, useState } from "react";
+import type { CalculatorInputs, StockInputs } from "@/lib/calculator";
+import { formatNumber, resolveHorizon } from "@/lib/calculator";
+import type { PercentileBand } from "@/lib/monteCarlo";
+import { useMonteCarlo } from "@/hooks/useMonteCarlo";
+import { useDisplayMonteCarlo } from "@/contexts/MoneyBasisContext";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip as ChartTooltip,
+  Legend,
+  Filler,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, ChartTooltip, Legend, Filler);
+
+interface MonteCarloPanelProps {
+  inputs: CalculatorInputs;
+  stockInputs?: StockInputs | null; // given = fan of combined net worth
+}
+
+type FanKey = "netEquity" | "annualCashFlow" | "cumulativeCashFlow" | "combinedNetWorth";
+
+const FANS: { key: FanKey; label: string; color: string; fill: string }[] = [
+  { key: "combinedNetWorth", label: "Combined Net Worth", color: "#34c759", fill: "rgba(52, 199, 89, 0.14)" },
+  { key: "netEquity", label: "Net Equity", color: "#0071e3", fill: "rgba(0, 113, 227, 0.12)" },
+  { key: "annualCashFlow", label: "Annual Cash Flow", color: "#ff9500", fill: "rgba(255, 149, 0, 0.14)" },
+  { key: "cumulativeCashFlow", label: "Cumulative Cash", color: "#af52de", fill: "rgba(175, 82, 222, 0.12)" },
+];
+
+const fontFamily = "-apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
+
+const rm = (value: number) => `RM ${formatNumber(value.toFixed(0))}`;
+
+export default function MonteCarloPanel({ inputs, stockInputs = null }: MonteCarloPanelProps) {
+  const { result: nominalResult, progress, running, error } = useMonteCarlo(inputs, stockInputs);
+  const result = useDisplayMonteCarlo(nominalResult);
+  const fans = FANS.filter((f) =>
+    stockInputs ? f.key === "combinedNetWorth" || f.key === "netEquity" : f.key !== "combinedNetWorth"
+  );
+  const [activeFan, setActiveFan] = useState<FanKey>(stockInputs ? "combinedNetWorth" : "netEquity");
+  const fan = fans.find((f) => f.key === activeFan) ?? fans[0];
+
+  const bands: PercentileBand[] = (result && result[fan.key]) ?? [];
+  const headline = (result && (stockInputs ? result.combinedNetWorth : result.netEquity)) ?? [];
+  const final = headline[headline.length - 1];
+
+  const chartData = useMemo(() => ({
+    labels: bands.map((b) => String(inputs.startingYear + b.year)),
+    datasets: [
+      {
+        label: "P10",
+        data: bands.map((b) => b.p10),
+        borderColor: fan.fill,
+        backgroundColor: fan.fill,
+        borderWidth: 1,
+        fill: false,
+        tension: 0.4,
+        pointRadius: 0,
+      },
+      {
+        label: "P90",
+        data: bands.map((b) => b.p90),
+        borderColor: fan.fill,
+        backgroundColor: fan.fill,
+        borderWidth: 1,
+        fill: "-1",
+        tension: 0.4,
+        pointRadius: 0,
+      },
+      {
+        label: "Median (P50)",
+        data: bands.map((b) => b.p50),
+        borderColor: fan.color,
+        backgroundColor: fan.color,
+        borderWidth: 2.5,
+        fill: false,
+        tension: 0.4,
+        pointRadius: 0,
+        pointHoverRadius: 5,
+      },
+    ],
+  }), [bands, fan, inputs.startingYear]);
+
+  const chartOptions = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: "top" as const,
+        labels: {
+          font: { family: fontFamily, size: 12, weight: "500" as const },
+          color: "#86868b",
+          padding: 20,
+          usePointStyle: true,
+          pointStyleWidth: 8,
+          boxHeight: 8,
+        },
+      },
+      tooltip: {
+        mode: "index" as const,
+        intersect: false,
+        backgroundColor: "rgba(29, 29, 31, 0.95)",
+        titleFont: { family: fontFamily, size: 13, weight: "600" as const },
+        bodyFont: { family: fontFamily, size: 12 },
+        padding: 14,
+        cornerRadius: 10,
+        callbacks: {
+          label: (ctx: any) => `${ctx.dataset.label}: ${rm(ctx.raw)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        border: { display: false },
+        ticks: { font: { family: fontFamily, size: 11 }, color: "#86868b", maxRotation: 45 },
+      },
+      y: {
+        grid: { color: "rgba(0,0,0,0.04)" },
+        border: { display: false },
+        ticks: {
+          font: { family: fontFamily, size: 11 },
+          color: "#86868b",
+          callback: (v: any) => "RM " + formatNumber(Number(v)),
+        },
+      },
+    },
+  }), []);
+
+  return (
+    <div className="apple-card p-5 md:p-6 space-y-5">
+      <div>
+        <h3 className="text-[17px] font-semibold text-[#1d1d1f]">Range of Outcomes</h3>
+        <p className="text-[13px] text-[#86868b]">
+          {result
+            ? `${formatNumber(result.trials)} random market paths — the band runs from the 10th to the 90th percentile`
+            : "Random appreciation, interest-rate, rent-growth and stock-return paths"}
+        </p>
+      </div>
+
+      {running && (
+        <div className="space-y-2">
+          <div className="h-1.5 rounded-full bg-[#f5f5f7] overflow-hidden">
+            <div
+              className="h-full bg-[#0071e3] transition-all duration-200"
+              style={{ width: `${Math.round(progress * 100)}%` }}
+            />
+          </div>
+          <p className="text-[12px] text-[#86868b]">Running trials… {Math.round(progress * 100)}%</p>
+        </div>
+      )}
+
+      {error && <p className="text-[13px] text-[#ff3b30]">{error}</p>}
+
+      {result && final && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            {[
+              { label: "Pessimistic (P10)", value: final.p10, color: "text-[#ff3b30]" },
+              { label: "Median (P50)", value: final.p50, color: "text-[#1d1d1f]" },
+              { label: "Optimistic (P90)", value: final.p90, color: "text-[#34c759]" },
+            ].map((m) => (
+              <div key={m.label}>
+                <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">{m.label}</p>
+                <p className={`text-[20px] font-semibold ${m.color}`}>{rm(m.value)}</p>
+                <p className="text-[11px] text-[#86868b]">{resolveHorizon(inputs)}-year {stockInputs ? "combined net worth" : "net equity"}</p>
+              </div>
+            ))}
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Cash Goes Negative</p>
+              <p className={`text-[20px] font-semibold ${result.probabilityNegativeCash > 0.5 ? "text-[#ff3b30]" : "text-[#ff9500]"}`}>
+                {(result.probabilityNegativeCash * 100).toFixed(0)}%
+              </p>
+              <p className="text-[11px] text-[#86868b]">
+                of trials, at any month · {(result.negativeCashByYear[result.negativeCashByYear.length - 1] * 100).toFixed(0)}% still negative at year {resolveHorizon(inputs)}
+              </p>
+            </div>
+          </div>
+
+          <div className="inline-flex flex-wrap gap-1 bg-[#f5f5f7] p-1 rounded-[10px]">
+            {fans.map((f) => (
+              <button
+                key={f.key}
+                onClick={() => setActiveFan(f.key)}
+                className={`
+                  px-4 py-2 text-[13px] font-medium rounded-[8px] transition-all duration-200
+                  ${fan.key === f.key
+                    ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+                    : "text-[#86868b] hover:text-[#1d1d1f]"
+                  }
+                `}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="h-[320px] md:h-[380px]">
+            <Line data={chartData} options={chartOptions as any} />
+          </div>
+
+          <p className="text-[12px] text-[#86868b]">
+            Cumulative cash is the running total of property cash flow (rent less instalments, expenses, acquisition costs and tax, plus any sale or refinance cash kept). The chance of it going negative counts every trial in which it dips below zero in any month.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
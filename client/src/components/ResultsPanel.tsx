@@ -5,8 +5,17 @@
 
 import { useMemo, useRef, useEffect, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { FullSimulationResult } from "@/lib/calculator";
-import { formatNumber } from "@/lib/calculator";
+import type { CalculatorInputs, FullSimulationResult } from "@/lib/calculator";
+import type { RentPolicy } from "@/lib/rent";
+import { HOLDING_COST_CATEGORIES, HOLDING_COST_LABELS } from "@/lib/holdingCosts";
+import { isShortTermRentalEnabled } from "@/lib/shortTermRental";
+import { useDisplayResults } from "@/contexts/MoneyBasisContext";
+import { MoneyBasisNote } from "@/components/MoneyBasisToggle";
+import MonteCarloPanel from "@/components/MonteCarloPanel";
+import SensitivityPanel from "@/components/SensitivityPanel";
+import LettingComparisonPanel from "@/components/LettingComparisonPanel";
+import EligibilityPanel from "@/components/EligibilityPanel";
+import { formatNumber, getHorizonYears, getMilestones } from "@/lib/calculator";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -28,36 +37,100 @@ ChartJS.register(
 
 interface ResultsPanelProps {
   results: FullSimulationResult;
+  inputs?: CalculatorInputs; // needed for the Monte Carlo run
   purchasePrice?: number;
   loanAmount?: number;
   onReinvestToStock?: () => void;
 }
 
-type TabKey = "equity" | "timeline" | "cashflow" | "summary" | "assumptions" | "calculations";
+type TabKey = "equity" | "timeline" | "cashflow" | "properties" | "summary" | "assumptions" | "calculations";
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+/** Colours cycled across properties in the per-property chart */
+const PROPERTY_COLORS = ["#0071e3", "#34c759", "#ff9500", "#af52de", "#ff3b30", "#5ac8fa", "#ffcc00", "#ff2d55"];
 
 const TABS: { key: TabKey; label: string }[] = [
   { key: "equity", label: "Equity Growth" },
   { key: "timeline", label: "Purchase Timeline" },
   { key: "cashflow", label: "Cash Flow" },
+  { key: "properties", label: "Per Property" },
   { key: "summary", label: "Yearly Summary" },
   { key: "assumptions", label: "Assumptions" },
   { key: "calculations", label: "Calculations" },
 ];
 
-export default function ResultsPanel({ results, purchasePrice, loanAmount, onReinvestToStock }: ResultsPanelProps) {
+/** One-line description of how rent evolves; results saved before rent options have no policy */
+function describeRent(policy?: RentPolicy): string {
+  if (!policy) return "Rental income is FIXED at original property price × rental yield (no inflation adjustment)";
+  const review = policy.reviewYears === 1 ? "every year" : `every ${policy.reviewYears} years`;
+  const level = policy.basis === "marketValue"
+    ? `Rent = rental yield × market value, re-set ${review} of letting`
+    : policy.growthRate > 0
+      ? `Rent = rental yield × purchase price, escalating ${(policy.growthRate * 100).toFixed(1)}% p.a. and re-set ${review} of letting`
+      : "Rental income is FIXED at original property price × rental yield (no escalation)";
+  return policy.vacancyRate > 0
+    ? `${level}; ${(policy.vacancyRate * 100).toFixed(1)}% of rent is lost to vacancy`
+    : level;
+}
+
+export default function ResultsPanel({ results: nominalResults, inputs, purchasePrice, loanAmount, onReinvestToStock }: ResultsPanelProps) {
+  // Every figure below is on the selected basis (nominal or today's ringgit)
+  const results = useDisplayResults(nominalResults);
   const resultsRef = useRef<HTMLDivElement>(null);
   const [activeTab, setActiveTab] = useState<TabKey>("equity");
 
   useEffect(() => {
     resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
-  }, [results]);
+  }, [nominalResults]);
+
+  // One card per requested milestone, the horizon last, dated by year and age
+  const horizon = getHorizonYears(results);
+  const milestones = useMemo(() => getMilestones(results), [results]);
+  const metrics = useMemo(() => {
+    const when = (year: number) =>
+      `${results.yearlyData[0].calendarYear + year}${inputs ? ` · age ${inputs.age + year}` : ""}`;
+    return [
+      ...milestones.map(({ year, result }) => ({
+        label: `${year}-Year Net Equity`,
+        value: formatNumber(result.netEquity.toFixed(0)),
+        prefix: "RM",
+        note: when(year),
+      })),
+      {
+        label: "Properties Owned",
+        value: String(milestones[milestones.length - 1]?.result.propertiesOwned ?? 0),
+        prefix: "",
+        note: `at ${when(horizon)}`,
+      },
+    ];
+  }, [results, milestones, horizon, inputs]);
 
-  const metrics = useMemo(() => [
-    { label: "10-Year Net Equity", value: formatNumber(results.results10.netEquity.toFixed(0)), prefix: "RM" },
-    { label: "20-Year Net Equity", value: formatNumber(results.results20.netEquity.toFixed(0)), prefix: "RM" },
-    { label: "30-Year Net Equity", value: formatNumber(results.results30.netEquity.toFixed(0)), prefix: "RM" },
-    { label: "Properties Owned", value: String(results.results30.propertiesOwned), prefix: "" },
-  ], [results]);
+  // Floating-rate range across the simulation (for assumptions text)
+  const rates = results.yearlyData.slice(1).map((d) => d.interestRate ?? 0);
+  const minRate = rates.length > 0 ? Math.min(...rates) : 0;
+  const maxRate = rates.length > 0 ? Math.max(...rates) : 0;
+  const hasRatePath = maxRate !== minRate;
+
+  const totalAcquisitionCosts = results.yearlyData.reduce((sum, d) => sum + (d.acquisitionCost ?? 0), 0);
+  const totalIncomeTax = results.yearlyData.reduce((sum, d) => sum + (d.incomeTax ?? 0), 0);
+
+  // Own cash: deposits on completion and every month the portfolio doesn't pay for itself
+  const totalDeposits = results.yearlyData.reduce((sum, d) => sum + (d.deposits ?? 0), 0);
+  const totalCashInjected = results.yearlyData.reduce((sum, d) => sum + (d.cashInjected ?? 0), 0);
+  const unfunded = results.unfundedPurchases ?? [];
+  const cappedLoans = (results.properties ?? []).filter(
+    (p) => p.requestedLoan !== undefined && p.loanAmount < p.requestedLoan - 1
+  );
+
+  // Cash account: the first year it runs dry is marked on the charts
+  const liquidity = results.liquidity ?? null;
+  const insolvencyYear = liquidity?.firstInsolvency?.year ?? null;
+  const monthYear = (p: { year: number; month: number }) =>
+    `${MONTH_NAMES[p.month - 1]} ${results.yearlyData[0].calendarYear + p.year}`;
 
   const fontFamily = "-apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
   const sansFont = "-apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
@@ -102,20 +175,127 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
         pointHoverRadius: 5,
         pointHoverBackgroundColor: "#34c759",
       },
+      ...(liquidity
+        ? [{
+            label: "Cash Account",
+            data: results.yearlyData.map((d) => d.cashBalance ?? 0),
+            borderColor: "#af52de",
+            backgroundColor: "#af52de",
+            borderWidth: 2,
+            fill: false,
+            tension: 0.4,
+            pointRadius: results.yearlyData.map((d) => (d.year === insolvencyYear ? 7 : 0)),
+            pointBackgroundColor: "#ff3b30",
+            pointBorderColor: "#ff3b30",
+            pointHoverRadius: 5,
+          }]
+        : []),
     ],
   }), [results]);
 
+  // Sales: realised gains are reported apart from the equity still tied up in held units
+  const finalYear = results.yearlyData[results.yearlyData.length - 1];
+  const propertiesSold = finalYear.propertiesSold ?? 0;
+  const saleTotals = results.yearlyData.reduce(
+    (sum, d) => ({
+      proceeds: sum.proceeds + (d.saleProceeds ?? 0),
+      costs: sum.costs + (d.saleCosts ?? 0),
+      rpgt: sum.rpgt + (d.rpgt ?? 0),
+    }),
+    { proceeds: 0, costs: 0, rpgt: 0 }
+  );
+
+  // Refinancing: equity released from held units, net of fees and lock-in penalties
+  const refinanceTotals = results.yearlyData.reduce(
+    (sum, d) => ({
+      count: sum.count + (d.refinances ?? 0),
+      cashOut: sum.cashOut + (d.refinanceCashOut ?? 0),
+      costs: sum.costs + (d.refinanceCosts ?? 0),
+    }),
+    { count: 0, cashOut: 0, costs: 0 }
+  );
+
+  // Flexi loans: interest saved by parked surplus, and how much sooner the debt is gone
+  const flexiLoan = results.flexiLoan ?? null;
+  const flexiTotals = results.yearlyData.reduce(
+    (sum, d) => ({
+      prepaid: sum.prepaid + (d.prepayment ?? 0),
+      redrawn: sum.redrawn + (d.redraw ?? 0),
+      interestSaved: sum.interestSaved + (d.interestSaved ?? 0),
+    }),
+    { prepaid: 0, redrawn: 0, interestSaved: 0 }
+  );
+  const startYear = results.yearlyData[0].calendarYear;
+  const yearsEarlier =
+    flexiLoan?.debtFreeYear != null && flexiLoan.scheduledDebtFreeYear != null
+      ? flexiLoan.scheduledDebtFreeYear - flexiLoan.debtFreeYear
+      : 0;
+
+  // Islamic financing: years the ceiling bites, and ibra' earned on early settlement
+  const islamic = results.islamicFinancing ?? null;
+  const cappedYears = results.yearlyData.filter(
+    (d) => d.year > 0 && d.effectiveRate != null && d.effectiveRate < d.interestRate - 1e-9
+  ).length;
+  const totalIbra = results.yearlyData.reduce((sum, d) => sum + (d.ibra ?? 0), 0);
+  const firstFinancing = results.properties?.find((p) => p.sellingPrice != null);
+
+  // Off-plan purchases: handovers, and the progressive interest developers bore under DIBS
+  const offPlan = (results.properties ?? []).filter((p) => p.vacantPossession);
+  const firstHandover = offPlan
+    .map((p) => p.vacantPossession!)
+    .sort((a, b) => a.year - b.year || a.month - b.month)[0];
+  const totalDeveloperInterest = results.yearlyData.reduce((sum, d) => sum + (d.developerInterest ?? 0), 0);
+  const shortLets = (results.properties ?? []).filter((p) => p.shortTermRental);
+
+  // Leasehold purchases the lease ruled out, and units whose lease limits a loan, turns
+  // unfinanceable or runs out while held
+  const leasehold = results.leasehold ?? null;
+  const leaseholds = (results.properties ?? []).filter((p) => p.lease);
+  const shortLeases = results.shortLeasePurchases ?? [];
+  const leaseWarnings = leaseholds.filter(
+    (p) =>
+      (p.lease!.loanTenure > 0 && p.lease!.loanTenure < results.loanTenure) ||
+      p.lease!.unfinanceableYear !== null ||
+      p.lease!.expiryYear !== null
+  );
+
+  // Returns on own cash; results saved before they were measured have none
+  const returns = results.returns ?? null;
+  const percent = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)}%`);
+
   // Timeline Chart
   const timelineChartData = useMemo(() => ({
     labels: results.yearlyData.map((d) => String(d.calendarYear)),
-    datasets: [{
-      label: "Properties Owned",
-      data: results.yearlyData.map((d) => d.propertiesOwned),
-      backgroundColor: "rgba(255, 149, 0, 0.7)",
-      borderColor: "#ff9500",
-      borderWidth: 0,
-      borderRadius: 6,
-    }],
+    datasets: [
+      {
+        label: "Properties Owned",
+        data: results.yearlyData.map((d) => d.propertiesOwned),
+        backgroundColor: "rgba(255, 149, 0, 0.7)",
+        borderColor: "#ff9500",
+        borderWidth: 0,
+        borderRadius: 6,
+      },
+      ...(propertiesSold > 0
+        ? [{
+            label: "Properties Sold",
+            data: results.yearlyData.map((d) => d.propertiesSold ?? 0),
+            backgroundColor: "rgba(134, 134, 139, 0.5)",
+            borderColor: "#86868b",
+            borderWidth: 0,
+            borderRadius: 6,
+          }]
+        : []),
+      ...(refinanceTotals.count > 0
+        ? [{
+            label: "Refinances",
+            data: results.yearlyData.map((d) => d.refinances ?? 0),
+            backgroundColor: "rgba(175, 82, 222, 0.6)",
+            borderColor: "#af52de",
+            borderWidth: 0,
+            borderRadius: 6,
+          }]
+        : []),
+    ],
   }), [results]);
 
   // Cash Flow Chart
@@ -150,10 +330,42 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
         borderRadius: 4,
       });
     }
+    if (yearlySlice.some((d) => (d.deposits ?? 0) > 0)) {
+      datasets.push({
+        label: "Deposits",
+        data: yearlySlice.map((d) => d.deposits ?? 0),
+        backgroundColor: "rgba(88, 86, 214, 0.7)",
+        borderColor: "#5856d6",
+        borderWidth: 0,
+        borderRadius: 4,
+      });
+    }
+    if (yearlySlice.some((d) => (d.acquisitionCost ?? 0) > 0)) {
+      datasets.push({
+        label: "Acquisition Costs",
+        data: yearlySlice.map((d) => d.acquisitionCost ?? 0),
+        backgroundColor: "rgba(175, 82, 222, 0.7)",
+        borderColor: "#af52de",
+        borderWidth: 0,
+        borderRadius: 4,
+      });
+    }
+    if (yearlySlice.some((d) => (d.incomeTax ?? 0) > 0)) {
+      datasets.push({
+        label: "Income Tax",
+        data: yearlySlice.map((d) => d.incomeTax ?? 0),
+        backgroundColor: "rgba(134, 134, 139, 0.7)",
+        borderColor: "#86868b",
+        borderWidth: 0,
+        borderRadius: 4,
+      });
+    }
     datasets.push({
       label: "Net Cash Flow",
       data: yearlySlice.map((d) => d.annualCashFlow),
-      backgroundColor: "rgba(0, 113, 227, 0.7)",
+      backgroundColor: yearlySlice.map((d) =>
+        d.year === insolvencyYear ? "rgba(255, 59, 48, 0.9)" : "rgba(0, 113, 227, 0.7)"
+      ),
       borderColor: "#0071e3",
       borderWidth: 0,
       borderRadius: 4,
@@ -164,6 +376,22 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
     };
   }, [results]);
 
+  // Per-property net equity contribution (stacked). Results saved before the
+  // property list have no per-property breakdown.
+  const propertyContributions = results.properties ?? [];
+  const perPropertyChartData = useMemo(() => ({
+    labels: results.yearlyData.map((d) => String(d.calendarYear)),
+    datasets: propertyContributions.map((p, i) => ({
+      label: p.name,
+      data: p.netEquity,
+      backgroundColor: PROPERTY_COLORS[i % PROPERTY_COLORS.length] + "b3",
+      borderColor: PROPERTY_COLORS[i % PROPERTY_COLORS.length],
+      borderWidth: 0,
+      borderRadius: 2,
+      stack: "equity",
+    })),
+  }), [results]);
+
   const makeChartOptions = (title: string, yLabel: string, isBar = false) => ({
     responsive: true,
     maintainAspectRatio: false,
@@ -223,13 +451,26 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
   const lineOpts = useMemo(() => makeChartOptions("Equity Growth", "Value (RM)"), []);
   const timelineOpts = useMemo(() => makeChartOptions("Purchase Timeline", "Properties", true), []);
   const cashflowOpts = useMemo(() => makeChartOptions("Cash Flow", "Amount (RM)", true), []);
+  const perPropertyOpts = useMemo(() => {
+    const opts = makeChartOptions("Per Property", "Net Equity (RM)", true);
+    return {
+      ...opts,
+      scales: {
+        x: { ...opts.scales.x, stacked: true },
+        y: { ...opts.scales.y, stacked: true },
+      },
+    };
+  }, []);
 
   return (
     <div ref={resultsRef} className="space-y-6">
       {/* Section Title */}
-      <h2 className="text-[22px] font-semibold text-[#1d1d1f] tracking-tight">
-        Your Property Investment Plan
-      </h2>
+      <div>
+        <h2 className="text-[22px] font-semibold text-[#1d1d1f] tracking-tight">
+          Your Property Investment Plan
+        </h2>
+        <MoneyBasisNote startingYear={results.yearlyData[0].calendarYear} />
+      </div>
 
       {/* Metric Cards — bold hero numbers */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -245,16 +486,308 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
               {m.prefix && <span className="text-[18px] md:text-[20px] font-medium text-[#86868b] mr-1">{m.prefix}</span>}
               {m.value}
             </p>
+            <p className="text-[11px] text-[#86868b] mt-2">{m.note}</p>
           </div>
         ))}
       </div>
 
+      {/* Returns on your own cash — what net equity alone can't compare */}
+      {returns && (
+        <div className="apple-card p-5 md:p-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">IRR</p>
+              <p className="text-[20px] font-semibold text-[#0071e3]">{percent(returns.irr)}</p>
+              <p className="text-[11px] text-[#86868b]">
+                {returns.irr !== null
+                  ? "a year, on your own cash"
+                  : returns.cashInvested > 0
+                    ? "cash flows give no single rate"
+                    : "none of your own cash put in"}
+              </p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">NPV</p>
+              <p className={`text-[20px] font-semibold ${returns.npv >= 0 ? "text-[#34c759]" : "text-[#ff3b30]"}`}>RM {formatNumber(returns.npv.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">at {returns.discountRate}% a year, in {startYear} ringgit</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Equity Multiple</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">{returns.equityMultiple !== null ? `${returns.equityMultiple.toFixed(2)}×` : "—"}</p>
+              <p className="text-[11px] text-[#86868b]">RM {formatNumber(returns.cashReturned.toFixed(0))} back on RM {formatNumber(returns.cashInvested.toFixed(0))} put in</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Return on Cash</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">{percent(returns.returnOnCash)}</p>
+              <p className="text-[11px] text-[#86868b]">profit over cash invested, {horizon} years</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Realised vs unrealised — only when units are sold */}
+      {propertiesSold > 0 && (
+        <div className="apple-card p-5 md:p-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Realised Gains</p>
+              <p className="text-[20px] font-semibold text-[#34c759]">RM {formatNumber((finalYear.cumulativeRealisedGain ?? 0).toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">after sale costs and RPGT, {propertiesSold} unit(s) sold</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Unrealised Equity</p>
+              <p className="text-[20px] font-semibold text-[#0071e3]">RM {formatNumber((finalYear.totalAssetValue - finalYear.totalLoanBalance).toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">value − loans of units still held</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Net Sale Proceeds</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">RM {formatNumber(saleTotals.proceeds.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">{results.saleProceedsTo === "stock" ? "invested in stocks" : "kept as cash"}, after loan redemption</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">RPGT & Sale Costs</p>
+              <p className="text-[20px] font-semibold text-[#ff3b30]">RM {formatNumber((saleTotals.rpgt + saleTotals.costs).toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">RPGT RM {formatNumber(saleTotals.rpgt.toFixed(0))} · fees RM {formatNumber(saleTotals.costs.toFixed(0))}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Refinancing — only when any unit is refinanced */}
+      {refinanceTotals.count > 0 && (
+        <div className="apple-card p-5 md:p-6">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Refinances</p>
+              <p className="text-[20px] font-semibold text-[#af52de]">{refinanceTotals.count}</p>
+              <p className="text-[11px] text-[#86868b]">across all units</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Cash Released</p>
+              <p className={`text-[20px] font-semibold ${refinanceTotals.cashOut >= 0 ? "text-[#34c759]" : "text-[#ff3b30]"}`}>RM {formatNumber(refinanceTotals.cashOut.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">{results.refinanceCashOutTo === "stock" ? "invested in stocks" : "kept as cash"}, after fees and penalties</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Fees & Penalties</p>
+              <p className="text-[20px] font-semibold text-[#ff3b30]">RM {formatNumber(refinanceTotals.costs.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">stamp duty, legal, valuation, lock-in</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Flexi loans — only when surplus can be parked against the loans */}
+      {flexiLoan && (
+        <div className="apple-card p-5 md:p-6">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Interest Saved</p>
+              <p className={`text-[20px] font-semibold ${flexiTotals.interestSaved >= 0 ? "text-[#34c759]" : "text-[#ff3b30]"}`}>RM {formatNumber(flexiTotals.interestSaved.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">vs paying each loan on schedule</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Parked in Loans</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">RM {formatNumber(flexiTotals.prepaid.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">RM {formatNumber(flexiTotals.redrawn.toFixed(0))} taken back, incl. loans closed</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Debt-Free</p>
+              <p className="text-[20px] font-semibold text-[#0071e3]">{flexiLoan.debtFreeYear != null ? startYear + flexiLoan.debtFreeYear : "—"}</p>
+              <p className="text-[11px] text-[#86868b]">
+                {yearsEarlier > 0
+                  ? `${yearsEarlier} year(s) before the ${startYear + flexiLoan.scheduledDebtFreeYear!} schedule`
+                  : "same as the instalment schedule"}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Islamic financing — ceiling rate, and the BBA selling price and ibra' */}
+      {islamic && (
+        <div className="apple-card p-5 md:p-6">
+          <div className={`grid ${islamic.type === "bba" ? "grid-cols-3" : "grid-cols-1"} gap-4 text-center`}>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Ceiling Profit Rate</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">{islamic.ceilingRate}%</p>
+              <p className="text-[11px] text-[#86868b]">
+                {cappedYears > 0 ? `caps the rate path in ${cappedYears} year(s)` : "never reached by the rate path"}
+              </p>
+            </div>
+            {islamic.type === "bba" && (
+              <>
+                <div>
+                  <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Selling Price</p>
+                  <p className="text-[20px] font-semibold text-[#1d1d1f]">{firstFinancing ? `RM ${formatNumber(firstFinancing.sellingPrice!.toFixed(0))}` : "—"}</p>
+                  <p className="text-[11px] text-[#86868b]">
+                    {firstFinancing ? `${firstFinancing.name}, on RM ${formatNumber(firstFinancing.loanAmount.toFixed(0))} financed` : "no financing signed"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Ibra' on Settlement</p>
+                  <p className="text-[20px] font-semibold text-[#34c759]">RM {formatNumber(totalIbra.toFixed(0))}</p>
+                  <p className="text-[11px] text-[#86868b]">unearned profit rebated on sales, refinancing and early payoff</p>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Under-construction purchases — handover and interest before it */}
+      {offPlan.length > 0 && (
+        <div className="apple-card p-5 md:p-6">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Bought Off-Plan</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">{offPlan.length}</p>
+              <p className="text-[11px] text-[#86868b]">drawn down under Schedule H, interest only until handover</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">First Handover</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">{monthYear(firstHandover)}</p>
+              <p className="text-[11px] text-[#86868b]">
+                {(results.fitOutMonths ?? 0) > 0 ? `let after ${results.fitOutMonths} month(s) of fit-out` : "let straight after vacant possession"}
+              </p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Developer-Paid Interest</p>
+              <p className="text-[20px] font-semibold text-[#34c759]">RM {formatNumber(totalDeveloperInterest.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">
+                {totalDeveloperInterest > 0 ? "progressive interest borne under DIBS" : "no unit is on DIBS"}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Leasehold units whose lease limits bank financing */}
+      {(shortLeases.length > 0 || (leasehold && leaseWarnings.length > 0)) && (
+        <div className="apple-card p-5 md:p-6">
+          <div className="bg-[#fff4f2] rounded-[10px] px-4 py-3">
+            <p className="text-[14px] font-semibold text-[#ff3b30]">
+              {shortLeases.length + leaseWarnings.length} leasehold unit{shortLeases.length + leaseWarnings.length > 1 ? "s" : ""} limited by the lease left
+            </p>
+            <ul className="text-[13px] text-[#424245] leading-relaxed mt-1 space-y-1">
+              {shortLeases.map((u) => (
+                <li key={u.id}>
+                  {u.name} in {monthYear(u)} is not bought: {u.leaseYears > 0
+                    ? `only ${Math.floor(u.leaseYears)} years of lease would be left at drawdown, under the ${u.minFinanceableYears} years banks finance.`
+                    : "its lease would have run out by drawdown."}
+                </li>
+              ))}
+              {leasehold && leaseWarnings.map((p) => {
+                const lease = p.lease!;
+                const calendarYear = (year: number) => results.yearlyData[0].calendarYear + year;
+                return (
+                  <li key={p.id}>
+                    {lease.loanTenure === 0
+                      ? `${p.name} is bought without a loan.`
+                      : lease.loanTenure < results.loanTenure
+                        ? `${p.name}'s loan runs ${lease.loanTenure} years instead of ${results.loanTenure}, so the lease still has ${leasehold.leaseAtMaturityYears} years left when it matures.`
+                        : `${p.name} is financed over the full ${lease.loanTenure} years.`}
+                    {lease.unfinanceableYear !== null &&
+                      ` Its lease falls below ${leasehold.minFinanceableYears} years in ${calendarYear(lease.unfinanceableYear)}, after which a buyer cannot get a loan on it and it cannot be refinanced.`}
+                    {lease.expiryYear !== null &&
+                      ` The lease runs out in ${calendarYear(lease.expiryYear)}: the unit reverts to the state without proceeds, and its rent and expenses stop.`}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Own cash put into the plan — deposits, costs and shortfalls */}
+      {finalYear.cashInjected !== undefined && (
+        <div className="apple-card p-5 md:p-6 space-y-4">
+          {unfunded.length > 0 && (
+            <div className="bg-[#fff4f2] rounded-[10px] px-4 py-3">
+              <p className="text-[14px] font-semibold text-[#ff3b30]">
+                {unfunded.length} purchase{unfunded.length > 1 ? "s" : ""} skipped for lack of cash
+              </p>
+              <p className="text-[13px] text-[#424245] leading-relaxed mt-1">
+                {unfunded[0].name} in {monthYear(unfunded[0])} needs RM {formatNumber(unfunded[0].cashNeeded.toFixed(0))} for its deposit and costs, but your cash account holds RM {formatNumber(unfunded[0].cashAvailable.toFixed(0))}.
+                {unfunded.length > 1 && ` Also skipped: ${unfunded.slice(1).map((u) => `${u.name} (${monthYear(u)})`).join(", ")}.`}
+              </p>
+            </div>
+          )}
+          {!liquidity && totalDeposits + totalAcquisitionCosts > 0 && (
+            <div className="bg-[#f5f5f7] rounded-[10px] px-4 py-3">
+              <p className="text-[13px] text-[#424245] leading-relaxed">
+                Deposits and costs are not checked against your savings, so every purchase goes ahead. Turn on the cash account to skip the ones you cannot fund.
+              </p>
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Total Cash Injected</p>
+              <p className="text-[20px] font-semibold text-[#ff9500]">RM {formatNumber(totalCashInjected.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">every month the portfolio needed your money</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Deposits</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">RM {formatNumber(totalDeposits.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">price above the loan, on completion{offPlan.length > 0 ? " or with the first billings" : ""}</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Loans Capped</p>
+              <p className="text-[20px] font-semibold text-[#1d1d1f]">{cappedLoans.length}</p>
+              <p className="text-[11px] text-[#86868b]">cut to BNM's margin of financing</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Cash account — only when own cash is tracked */}
+      {liquidity && (
+        <div className="apple-card p-5 md:p-6 space-y-4">
+          {liquidity.firstBelowFloor ? (
+            <div className="bg-[#fff4f2] rounded-[10px] px-4 py-3">
+              <p className="text-[14px] font-semibold text-[#ff3b30]">
+                Funding gap from {monthYear(liquidity.firstBelowFloor)}
+              </p>
+              <p className="text-[13px] text-[#424245] leading-relaxed mt-1">
+                Your cash account falls below the RM {formatNumber(liquidity.emergencyFloor.toFixed(0))} emergency floor that month
+                {liquidity.firstInsolvency
+                  ? ` and runs out in ${monthYear(liquidity.firstInsolvency)} (marked in red on the charts) — deposits, costs and shortfalls after that have nothing to pay them.`
+                  : ", though it never runs out."}
+              </p>
+            </div>
+          ) : (
+            <div className="bg-[#f0faf3] rounded-[10px] px-4 py-3">
+              <p className="text-[14px] font-semibold text-[#34c759]">Your cash account stays above the emergency floor throughout</p>
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Cash at {horizon} Years</p>
+              <p className={`text-[20px] font-semibold ${(finalYear.cashBalance ?? 0) >= 0 ? "text-[#1d1d1f]" : "text-[#ff3b30]"}`}>RM {formatNumber((finalYear.cashBalance ?? 0).toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">before any stock purchases</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Lowest Balance</p>
+              <p className={`text-[20px] font-semibold ${liquidity.lowestBalance.balance >= liquidity.emergencyFloor ? "text-[#34c759]" : "text-[#ff3b30]"}`}>RM {formatNumber(liquidity.lowestBalance.balance.toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">{monthYear(liquidity.lowestBalance)}</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">FD Interest</p>
+              <p className="text-[20px] font-semibold text-[#34c759]">RM {formatNumber(results.yearlyData.reduce((sum, d) => sum + (d.cashInterest ?? 0), 0).toFixed(0))}</p>
+              <p className="text-[11px] text-[#86868b]">earned over {horizon} years</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Loan eligibility — only when purchases are checked against DSR */}
+      <EligibilityPanel results={results} />
+
       {/* Charts & Data — Apple pill tabs */}
       <div className="apple-card overflow-hidden">
         {/* Pill Tabs (Segmented Control) */}
         <div className="p-5 md:p-6 pb-0">
           <div className="inline-flex flex-wrap gap-1 bg-[#f5f5f7] p-1 rounded-[10px]">
-            {TABS.map((tab) => (
+            {TABS.filter((tab) => tab.key !== "properties" || propertyContributions.length > 0).map((tab) => (
               <button
                 key={tab.key}
                 onClick={() => setActiveTab(tab.key)}
@@ -294,6 +827,69 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
             </div>
           )}
 
+          {/* Per-Property Contribution */}
+          {activeTab === "properties" && (
+            <div className="space-y-5">
+              <div className="h-[320px] md:h-[400px]">
+                <Bar data={perPropertyChartData} options={perPropertyOpts as any} />
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-[13px]">
+                  <thead>
+                    <tr>
+                      <th className="text-left py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Property</th>
+                      <th className="text-left py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Completes</th>
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Price</th>
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Loan</th>
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Instalment</th>
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Exit</th>
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">{horizon}-Year Equity</th>
+                      {returns && (
+                        <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">IRR</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {propertyContributions.map((p, i) => (
+                      <tr key={p.id} className="border-b border-[#f5f5f7] hover:bg-[#f5f5f7]/60 transition-colors">
+                        <td className="py-2.5 px-3 text-[13px] text-[#1d1d1f]">
+                          <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: PROPERTY_COLORS[i % PROPERTY_COLORS.length] }} />
+                          {p.name}
+                        </td>
+                        <td className="py-2.5 px-3 text-[13px] text-[#86868b]">
+                          {p.vacantPossession
+                            ? <>{MONTH_NAMES[p.vacantPossession.month - 1].slice(0, 3)} {results.yearlyData[0].calendarYear + p.vacantPossession.year}<span className="block text-[11px]">SPA {MONTH_NAMES[p.purchaseMonth - 1].slice(0, 3)} {results.yearlyData[0].calendarYear + p.purchaseYear}</span></>
+                            : <>{MONTH_NAMES[p.purchaseMonth - 1].slice(0, 3)} {results.yearlyData[0].calendarYear + p.purchaseYear}</>}
+                        </td>
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#1d1d1f]">RM {formatNumber(p.purchasePrice.toFixed(0))}</td>
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#ff3b30]">
+                          RM {formatNumber(p.loanAmount.toFixed(0))}
+                          {cappedLoans.includes(p) && (
+                            <span className="block text-[11px] text-[#86868b]">capped from RM {formatNumber(p.requestedLoan.toFixed(0))}</span>
+                          )}
+                        </td>
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#1d1d1f]">RM {formatNumber(p.monthlyPayment.toFixed(0))}</td>
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#86868b]">
+                          {p.sale && p.saleYear
+                            ? `Sold ${results.yearlyData[0].calendarYear + p.saleYear} · gain RM ${formatNumber(p.sale.realisedGain.toFixed(0))} · RPGT ${(p.sale.rpgtRate * 100).toFixed(0)}%`
+                            : "Held"}
+                          {(p.refinances?.length ?? 0) > 0 && ` · refinanced ${p.refinances.map((r) => results.yearlyData[0].calendarYear + r.year).join(", ")}`}
+                        </td>
+                        <td className="py-2.5 px-3 text-[13px] text-right font-semibold text-[#0071e3]">RM {formatNumber((p.netEquity[horizon] ?? 0).toFixed(0))}</td>
+                        {returns && (
+                          <td className="py-2.5 px-3 text-[13px] text-right text-[#1d1d1f]">{percent(p.returns?.irr ?? null)}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[12px] text-[#86868b]">
+                Each property's contribution = its market value − its loan balance + the cash flow it has generated so far. The bars stack to the portfolio's net equity.
+              </p>
+            </div>
+          )}
+
           {/* Yearly Summary Table */}
           {activeTab === "summary" && (
             <ScrollArea className="h-[420px]">
@@ -302,11 +898,26 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
                   <tr>
                     <th className="text-left py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Year</th>
                     <th className="text-left py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Properties</th>
+                    <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Rate</th>
+                    <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Purchase Cost</th>
                     <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Asset Value</th>
                     <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Loan Balance</th>
                     <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Net Equity</th>
                     <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Expenses</th>
+                    <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Acquisition Costs</th>
+                    {totalIncomeTax > 0 && (
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Income Tax</th>
+                    )}
                     <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Annual Cash Flow</th>
+                    {returns && (
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Cash-on-Cash</th>
+                    )}
+                    {propertiesSold > 0 && (
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Realised Gain</th>
+                    )}
+                    {refinanceTotals.count > 0 && (
+                      <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Refinance Cash-Out</th>
+                    )}
                   </tr>
                 </thead>
                 <tbody>
@@ -314,13 +925,28 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
                     <tr key={i} className="border-b border-[#f5f5f7] hover:bg-[#f5f5f7]/60 transition-colors">
                       <td className="py-2.5 px-3 text-[13px] text-[#1d1d1f]">{row.calendarYear}</td>
                       <td className="py-2.5 px-3 text-[13px] text-[#1d1d1f]">{row.propertiesOwned}</td>
+                      <td className="py-2.5 px-3 text-[13px] text-right text-[#86868b]">{(row.interestRate ?? 0).toFixed(2)}%</td>
+                      <td className="py-2.5 px-3 text-[13px] text-right text-[#86868b]">{row.purchaseCost ? `RM ${formatNumber(row.purchaseCost.toFixed(0))}` : "—"}</td>
                       <td className="py-2.5 px-3 text-[13px] text-right text-[#1d1d1f]">RM {formatNumber(row.totalAssetValue.toFixed(0))}</td>
                       <td className="py-2.5 px-3 text-[13px] text-right text-[#ff3b30]">RM {formatNumber(row.totalLoanBalance.toFixed(0))}</td>
                       <td className="py-2.5 px-3 text-[13px] text-right font-semibold text-[#0071e3]">RM {formatNumber(row.netEquity.toFixed(0))}</td>
                       <td className="py-2.5 px-3 text-[13px] text-right text-[#ff9500]">RM {formatNumber(row.annualExpense.toFixed(0))}</td>
+                      <td className="py-2.5 px-3 text-[13px] text-right text-[#af52de]">{row.acquisitionCost ? `RM ${formatNumber(row.acquisitionCost.toFixed(0))}` : "—"}</td>
+                      {totalIncomeTax > 0 && (
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#86868b]">{row.incomeTax ? `RM ${formatNumber(row.incomeTax.toFixed(0))}` : "—"}</td>
+                      )}
                       <td className={`py-2.5 px-3 text-[13px] text-right ${row.annualCashFlow >= 0 ? "text-[#34c759]" : "text-[#ff3b30]"}`}>
                         RM {formatNumber(row.annualCashFlow.toFixed(0))}
                       </td>
+                      {returns && (
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#86868b]">{percent(row.cashOnCash ?? null)}</td>
+                      )}
+                      {propertiesSold > 0 && (
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#34c759]">{row.realisedGain ? `RM ${formatNumber(row.realisedGain.toFixed(0))}` : "—"}</td>
+                      )}
+                      {refinanceTotals.count > 0 && (
+                        <td className="py-2.5 px-3 text-[13px] text-right text-[#af52de]">{row.refinances ? `RM ${formatNumber(row.refinanceCashOut.toFixed(0))}` : "—"}</td>
+                      )}
                     </tr>
                   ))}
                 </tbody>
@@ -333,14 +959,65 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
             <div className="bg-[#f5f5f7] rounded-[12px] p-6">
               <h3 className="text-[15px] font-semibold text-[#1d1d1f] mb-4">Calculation Assumptions</h3>
               <ul className="space-y-2.5 text-[14px] text-[#424245] leading-relaxed">
-                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Rental income is FIXED at original property price × rental yield (no inflation adjustment)</li>
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{describeRent(results.rentPolicy)}</li>
                 <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Property appreciation is compounded annually</li>
-                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Loan interest rate remains constant throughout the loan tenure</li>
-                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Annual expenses per property{results.annualExpensePerProperty > 0 ? `: RM ${formatNumber(results.annualExpensePerProperty.toFixed(0))}/year` : " not included (set to 0)"}</li>
-                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Properties are purchased at regular intervals until maximum is reached</li>
-                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>All properties have the same price and characteristics</li>
-                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>No property sales during the investment period</li>
-                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Cash flow = Rental Income − Mortgage Installment − Annual Expenses (per property)</li>
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{hasRatePath ? `Loan interest rate floats between ${minRate}% and ${maxRate}% and applies to all outstanding loans` : "Loan interest rate remains constant throughout the loan tenure"}</li>
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{results.holdingCosts ? `Holding costs are itemised (maintenance and sinking fund, quit rent and assessment, insurance, MRTA, ${results.holdingCosts.managementRate}% management fee and a repair reserve), each rising at its own rate every January${results.usesPropertyList ? " and charged in proportion to each property's price" : `: RM ${formatNumber(results.annualExpensePerProperty.toFixed(0))} in the first property's first year`}` : results.usesPropertyList ? "Annual expenses are set individually for each property in the list" : <>Annual expenses per property{results.annualExpensePerProperty > 0 ? `: RM ${formatNumber(results.annualExpensePerProperty.toFixed(0))}/year` : " not included (set to 0)"}</>}</li>
+                {results.usesPropertyList ? (
+                  <>
+                    <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Properties follow your custom list, each with its own price, loan, rate, yield, expense and completion date</li>
+                    <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Instalments and expenses start in each property's completion month{(results.rentStartDelayMonths ?? 0) > 0 ? ` and rent starts ${results.rentStartDelayMonths} month(s) later` : " together with rent"}</li>
+                  </>
+                ) : (
+                  <>
+                    <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Properties are purchased at regular intervals until maximum is reached</li>
+                    <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Each purchase completes in {MONTH_NAMES[(results.purchaseMonth ?? 1) - 1]}; instalments and expenses start that month{(results.rentStartDelayMonths ?? 0) > 0 ? ` and rent starts ${results.rentStartDelayMonths} month(s) later` : " together with rent"}</li>
+                    <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>All properties have the same price and characteristics</li>
+                  </>
+                )}
+                {offPlan.length > 0 && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`${offPlan.length} unit(s) are bought under construction: the costs are paid at the SPA and the deposit with the first Schedule H billings, then the loan is drawn down at each later stage with interest only on what is drawn${totalDeveloperInterest > 0 ? " (paid by the developer under DIBS)" : ""}, and full instalments, expenses and any cashback start at vacant possession. Rent starts after ${results.fitOutMonths ?? 0} month(s) of fit-out${(results.rentStartDelayMonths ?? 0) > 0 ? `, plus the ${results.rentStartDelayMonths}-month rent start delay` : ""}. Interest before handover is not deducted from rent for tax`}</li>
+                )}
+                {results.shortTermRental && shortLets.length > 0 && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`${shortLets.length} unit(s) are let by the night at RM ${formatNumber(results.shortTermRental.nightlyRate.toFixed(0))} in today's money, rising with rent, and booked ${Math.min(...results.shortTermRental.occupancy)}–${Math.max(...results.shortTermRental.occupancy)}% of nights depending on the month, in place of the rental yield and vacancy. Platform (${results.shortTermRental.platformFeeRate}%) and operator (${results.shortTermRental.operatorFeeRate}%) fees, cleaning, utilities and furnishing every ${results.shortTermRental.furnitureLifeYears} year(s) are added to expenses; for tax the furniture is written off over its life`}</li>
+                )}
+                {leasehold && leaseholds.length > 0 && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`${leaseholds.length} unit(s) are leasehold. Each follows the market as a freehold would, scaled by the lease-decay curve as its lease runs down; rent is unaffected. Banks lend over at most the lease left less ${leasehold.leaseAtMaturityYears} years, refinance on the same terms, and do not lend at all on less than ${leasehold.minFinanceableYears} years, so a purchase needing a loan on a shorter lease does not go ahead. When a lease runs out the unit reverts to the state with nothing paid back`}</li>
+                )}
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{results.priceGrowthRate != null ? `Later interval purchases are priced at the market level of their purchase month (${results.priceGrowthRate}% p.a. price growth) — price, market value, loan and rent all scale together (see the Purchase Cost column)` : "Every purchase is priced at today's price, loan and rent, however late it is bought"}</li>
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{propertiesSold > 0 ? `${propertiesSold} unit(s) are sold at market value; the loan is redeemed from the sale price and agent commission, legal fees and RPGT are deducted. Net proceeds are ${results.saleProceedsTo === "stock" ? "invested in the stock portfolio" : "kept as cash"}` : "No property sales during the investment period"}</li>
+                {refinanceTotals.count > 0 && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`Units are refinanced ${refinanceTotals.count} time(s) in total. Each new loan replaces the old one from the following month, and the cash released after fees and penalties is ${results.refinanceCashOutTo === "stock" ? "invested in the stock portfolio" : "kept as cash"}`}</li>
+                )}
+                {liquidity && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Your cash account receives salary savings, FD interest, cash-flow surpluses, cashback and cash kept from sales and refinancing, and pays deposits and every shortfall. It is tracked beside net equity, not added to it</li>
+                )}
+                {flexiLoan && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`Loans are ${flexiLoan.loanType === "flexi" ? "full flexi" : "semi-flexi"}: part of each month's surplus is parked against the dearest loan and not charged interest, and the instalment stays as scheduled, so loans clear early. Parked money counts against the loan balance, and is redrawn for shortfalls or released when a loan closes or the unit is sold`}</li>
+                )}
+                {islamic && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{islamic.type === "bba"
+                    ? `Financing is BBA: instalments follow the profit rate capped at the ${islamic.ceilingRate}% ceiling, while the selling price is fixed at the ceiling. Ibra' is the gap between the outstanding selling price and the balance owed, so settling early costs only the balance — it is reported, not added to cash`
+                    : `Financing is Musharakah Mutanaqisah: the bank's share is bought out with each instalment at the profit rate, capped at the ${islamic.ceilingRate}% ceiling. Settlement buys the remaining share at the balance`}</li>
+                )}
+                {returns && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`Returns are measured on your own cash each year: deposits, costs and shortfalls in; surpluses, cashback, sale proceeds and cash-out back, wherever they are then invested. Equity still held at ${startYear + horizon} counts as cashed in. Cash-on-cash is the year's rent less instalments, expenses and tax over the cash put in so far. These use nominal ringgit`}</li>
+                )}
+                {cappedLoans.length > 0 && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`Each loan is capped at BNM's margin of financing on completion: 90% of market value, or 70% once two housing loans are outstanding. ${cappedLoans.length} loan(s) are cut and the buyer pays the rest of the price as a deposit`}</li>
+                )}
+                {unfunded.length > 0 && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`A purchase goes ahead only if the cash account can pay its deposit and acquisition costs; ${unfunded.length} purchase(s) are skipped`}</li>
+                )}
+                {!liquidity && totalDeposits + totalAcquisitionCosts > 0 && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Without a cash account, deposits and acquisition costs are assumed paid from your own money whenever they fall due, and no purchase is skipped for lack of cash</li>
+                )}
+                {results.yearlyData[0].dsr != null && (
+                  <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{`Each purchase goes ahead only if the bank's DSR limit still holds with its instalment added; ${(results.blockedPurchases ?? []).length > 0 ? `${results.blockedPurchases.length} purchase(s) are declined and skipped` : "none are declined"}`}</li>
+                )}
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{totalAcquisitionCosts > 0 ? `Acquisition costs (stamp duty, legal and valuation fees) totalling RM ${formatNumber(totalAcquisitionCosts.toFixed(0))} are paid from cash flow when each purchase completes` : "No acquisition costs (stamp duty, legal or valuation fees) are included"}</li>
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>{totalIncomeTax > 0 ? `Net rental income is taxed at resident rates on top of your other income — RM ${formatNumber(totalIncomeTax.toFixed(0))} over the period, paid each December` : "Rental income is not taxed"}</li>
+                <li className="flex gap-2.5"><span className="text-[#0071e3] shrink-0">•</span>Cash flow = Rental Income − Mortgage Installment − Annual Expenses (per property){totalDeposits > 0 ? " − Deposits" : ""}{totalAcquisitionCosts > 0 ? " − Acquisition Costs in the purchase year" : ""}{totalIncomeTax > 0 ? " − Income Tax" : ""}</li>
               </ul>
             </div>
           )}
@@ -351,10 +1028,29 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
               <h3 className="text-[15px] font-semibold text-[#1d1d1f] mb-4">How Calculations Work</h3>
               <div className="space-y-3 text-[14px] text-[#424245] leading-relaxed">
                 <p><strong className="text-[#1d1d1f]">Property Value Growth:</strong> Each property appreciates annually at the specified rate.</p>
-                <p><strong className="text-[#1d1d1f]">Rental Income:</strong> FIXED at Original Price × Rental Yield (does not increase with property value)</p>
-                <p><strong className="text-[#1d1d1f]">Mortgage Calculation:</strong> Fixed monthly payments calculated using standard amortization formula.</p>
+                {leasehold && leaseholds.length > 0 && (
+                  <p><strong className="text-[#1d1d1f]">Leasehold Value:</strong> Value = freehold-basis market value × curve(lease left) ÷ curve(lease at purchase), where the curve gives a lease's value as a share of freehold and is interpolated linearly between its points. Loan tenure = the lesser of the age-based tenure and the lease left at drawdown less the lease banks want at maturity; with less than the minimum financeable lease there is no loan, and a purchase that needs one is not made. The unit leaves the portfolio at the end of its lease's last month.</p>
+                )}
+                <p><strong className="text-[#1d1d1f]">Rental Income:</strong> {results.rentPolicy && (results.rentPolicy.basis === "marketValue" || results.rentPolicy.growthRate > 0 || results.rentPolicy.vacancyRate > 0)
+                  ? `Annual rent = rental yield × ${results.rentPolicy.basis === "marketValue" ? "market value at the last review" : "purchase price × (1 + rent growth)^(years from purchase to the last review)"} × (1 − vacancy). Reviews fall every ${results.rentPolicy.reviewYears} year(s) from the start of letting.`
+                  : "FIXED at Original Price × Rental Yield (does not increase with property value)"}</p>
+                {results.shortTermRental && shortLets.length > 0 && (
+                  <p><strong className="text-[#1d1d1f]">Short-Term Rental:</strong> Monthly bookings = nightly rate × days in the month × that month's occupancy. Cleaning = nights booked ÷ average stay × cost per stay. Fees are a share of the bookings; utilities are a monthly amount. Rates and costs grow with the rent index and scale with each unit's price. Furnishing is paid in the first month let and at the end of each furniture life, and written off evenly over that life for tax.</p>
+                )}
+                <p><strong className="text-[#1d1d1f]">Monthly Simulation:</strong> The portfolio is simulated month by month. Yearly figures sum the rent, instalments and expenses paid within each year, and take asset values and loan balances at year end.</p>
+                <p><strong className="text-[#1d1d1f]">Mortgage Calculation:</strong> Monthly payments calculated using standard amortization formula, stopping once the loan tenure is fully paid.{hasRatePath ? " Whenever the rate changes, each outstanding loan is re-amortised over its remaining tenure, so instalments rise or fall with the rate." : ""}</p>
                 <p><strong className="text-[#1d1d1f]">Cash Flow:</strong> Annual rental income minus annual mortgage payments minus annual expenses (per property).</p>
-                <p><strong className="text-[#1d1d1f]">Annual Expense:</strong> {results.annualExpensePerProperty > 0 ? `RM ${formatNumber(results.annualExpensePerProperty.toFixed(0))} per property per year (covers maintenance, tax, insurance, management fees).` : "Not included (set to 0)."}</p>
+                <p><strong className="text-[#1d1d1f]">Annual Expense:</strong> {results.usesPropertyList ? "Set per property — a fixed RM amount or a percentage of that property's first instalment." : results.annualExpensePerProperty > 0 ? `RM ${formatNumber(results.annualExpensePerProperty.toFixed(0))} per property per year (covers maintenance, tax, insurance, management fees).` : "Not included (set to 0)."}</p>
+                <p><strong className="text-[#1d1d1f]">Acquisition Costs:</strong> MOT stamp duty on the higher of price and market value (1% on the first RM 100k, 2% to RM 500k, 3% to RM 1m, 4% above), 0.5% stamp duty on the loan agreement, scale legal fees on the SPA and the loan agreement (1.25% on the first RM 500k, 1% above) and a bank valuation fee. The first-home exemption waives both stamp duties on a first home up to RM 500k.</p>
+                {propertiesSold > 0 && (
+                  <p><strong className="text-[#1d1d1f]">Property Sales:</strong> Sale price = market value in the month of sale. RPGT = rate × (sale price − sale costs − purchase price − acquisition costs − exemption of the higher of RM 10,000 or 10% for individuals). Citizens pay 30% within 3 years, 20% in year 4, 15% in year 5 and nothing from year 6. Realised gain = sale price − sale costs − RPGT − purchase price − acquisition costs.</p>
+                )}
+                {totalIncomeTax > 0 && (
+                  <p><strong className="text-[#1d1d1f]">Income Tax:</strong> Each unit's net rental income = rent − loan interest − expenses for the year{results.holdingCosts ? " (MRTA premiums are not deductible)" : ""}. Rent from all units is assessed as a single source, so a loss on one unit offsets the others' profit; a net loss for the year counts as zero. Tax = tax on (employment income + net rental income − reliefs) − tax on (employment income − reliefs), using the resident rates from 0% up to 30%. Cash flow, and the surplus reinvested in stocks, are after this tax.</p>
+                )}
+                {refinanceTotals.count > 0 && (
+                  <p><strong className="text-[#1d1d1f]">Refinancing:</strong> New loan = the higher of the target LTV × market value and the balance redeemed. Cash-out = new loan − balance redeemed − fees (0.5% stamp duty, scale legal fees on the new loan, valuation fee) − lock-in penalty on the balance when redeemed early. The new loan is amortised over its own tenure at its own rate.</p>
+                )}
                 <p><strong className="text-[#1d1d1f]">Net Equity:</strong> Total property values minus total loan balances plus cumulative cash flow. Since cash flow already deducts expenses, net equity naturally reflects the impact of all costs.</p>
                 <p><strong className="text-[#1d1d1f]">Below Market Value:</strong> When enabled, you purchase at a discount but properties appreciate from full market value.</p>
               </div>
@@ -363,6 +1059,17 @@ export default function ResultsPanel({ results, purchasePrice, loanAmount, onRei
         </div>
       </div>
 
+      {/* Range of outcomes — only in stochastic mode */}
+      {inputs?.monteCarlo?.enabled && <MonteCarloPanel inputs={inputs} />}
+
+      {/* Which assumptions drive the result at the horizon */}
+      {inputs && <SensitivityPanel inputs={inputs} />}
+
+      {/* Same unit let to a tenant and by the night */}
+      {inputs && (isShortTermRentalEnabled(inputs.shortTermRental) || inputs.properties?.some((p) => p.shortTermRental)) && (
+        <LettingComparisonPanel inputs={inputs} />
+      )}
+
       {/* ===== Cash Flow & Cashback Summary ===== */}
       <CashFlowSummaryTable
         results={results}
@@ -389,18 +1096,71 @@ function CashFlowSummaryTable({
   const cashbackPerProperty = Math.max(0, (loanAmount ?? 0) - (purchasePrice ?? 0));
   const yearlyData = results.yearlyData;
 
-  // Build summary rows for milestone years
-  const milestoneYears = [1, 5, 10, 15, 20, 25, 30];
+  // Build summary rows: year 1, every fifth year and the plan's milestones
+  const horizon = getHorizonYears(results);
+  const milestoneYears = Array.from(
+    new Set([
+      1,
+      ...Array.from({ length: Math.floor(horizon / 5) }, (_, i) => (i + 1) * 5),
+      ...getMilestones(results).map((m) => m.year),
+    ])
+  ).sort((a, b) => a - b);
   const rows = milestoneYears
     .map((yr) => yearlyData.find((d) => d.year === yr))
     .filter(Boolean) as typeof yearlyData;
 
-  // Calculate cumulative cashback: each time a new property is purchased, cashback is received
+  // Calculate cumulative cashback: each time a new property is purchased, cashback is received.
+  // Per-property results carry each purchase's cashback in its ledger, or its own loan and price.
+  const purchasedBy = (year: number) =>
+    (results.properties ?? []).filter((p) => p.purchaseYear <= year);
   const getCumulativeCashback = (year: number) => {
+    if (results.properties) {
+      return purchasedBy(year).reduce(
+        (sum, p) =>
+          sum +
+          (p.ledger
+            ? p.ledger.slice(0, year + 1).reduce((total, e) => total + e.cashback, 0)
+            : Math.max(0, p.loanAmount - p.purchasePrice)),
+        0
+      );
+    }
     const row = yearlyData.find((d) => d.year === year);
     if (!row) return 0;
     return row.propertiesOwned * cashbackPerProperty;
   };
+  // Averaged over every purchase so far, including units since sold
+  const getCashbackPerProperty = (year: number) => {
+    const purchased = purchasedBy(year).length;
+    return results.properties && purchased > 0
+      ? getCumulativeCashback(year) / purchased
+      : cashbackPerProperty;
+  };
+
+  // Acquisition costs paid up to a year, and their breakdown across all purchases
+  const getCumulativeAcquisitionCost = (year: number) =>
+    yearlyData
+      .filter((d) => d.year <= year)
+      .reduce((sum, d) => sum + (d.acquisitionCost ?? 0), 0);
+  const costBreakdown = (results.properties ?? []).reduce(
+    (sum, p) => ({
+      motStampDuty: sum.motStampDuty + (p.acquisitionCosts?.motStampDuty ?? 0),
+      loanStampDuty: sum.loanStampDuty + (p.acquisitionCosts?.loanStampDuty ?? 0),
+      legalFees: sum.legalFees + (p.acquisitionCosts?.legalFees ?? 0),
+      valuationFee: sum.valuationFee + (p.acquisitionCosts?.valuationFee ?? 0),
+    }),
+    { motStampDuty: 0, loanStampDuty: 0, legalFees: 0, valuationFee: 0 }
+  );
+  const totalAcquisitionCost = getCumulativeAcquisitionCost(horizon);
+  const exemptProperty = results.properties?.find((p) => p.acquisitionCosts?.firstHomeExempt);
+
+  // Itemised holding costs: a column for each item charged, and totals over the horizon
+  const costCategories = results.holdingCosts
+    ? HOLDING_COST_CATEGORIES.filter((key) => yearlyData.some((d) => (d.holdingCosts?.[key] ?? 0) > 0))
+    : [];
+  const costTotals = costCategories.map((key) => ({
+    key,
+    total: yearlyData.reduce((sum, d) => sum + (d.holdingCosts?.[key] ?? 0), 0),
+  }));
 
   return (
     <div className="apple-card overflow-hidden">
@@ -420,6 +1180,12 @@ function CashFlowSummaryTable({
                 <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Properties</th>
                 <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Annual Cash Flow</th>
                 <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Cumulative Cash Flow</th>
+                {costCategories.map((key) => (
+                  <th key={key} className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">{HOLDING_COST_LABELS[key]}</th>
+                ))}
+                {totalAcquisitionCost > 0 && (
+                  <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Acquisition Costs Paid</th>
+                )}
                 <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Cashback / Property</th>
                 <th className="text-right py-3 px-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider border-b-2 border-[#e5e5ea]">Total Cashback</th>
               </tr>
@@ -435,11 +1201,21 @@ function CashFlowSummaryTable({
                   <td className={`py-2.5 px-3 text-[13px] text-right ${row.cumulativeCashFlow >= 0 ? "text-[#34c759]" : "text-[#ff3b30]"}`}>
                     RM {formatNumber(row.cumulativeCashFlow.toFixed(0))}
                   </td>
+                  {costCategories.map((key) => (
+                    <td key={key} className="py-2.5 px-3 text-[13px] text-right text-[#ff9500]">
+                      RM {formatNumber((row.holdingCosts?.[key] ?? 0).toFixed(0))}
+                    </td>
+                  ))}
+                  {totalAcquisitionCost > 0 && (
+                    <td className="py-2.5 px-3 text-[13px] text-right text-[#af52de]">
+                      RM {formatNumber(getCumulativeAcquisitionCost(row.year).toFixed(0))}
+                    </td>
+                  )}
                   <td className="py-2.5 px-3 text-[13px] text-right text-[#0071e3]">
-                    RM {formatNumber(cashbackPerProperty)}
+                    RM {formatNumber(getCashbackPerProperty(row.year).toFixed(0))}
                   </td>
                   <td className="py-2.5 px-3 text-[13px] text-right font-medium text-[#0071e3]">
-                    RM {formatNumber(getCumulativeCashback(row.year))}
+                    RM {formatNumber(getCumulativeCashback(row.year).toFixed(0))}
                   </td>
                 </tr>
               ))}
@@ -447,6 +1223,52 @@ function CashFlowSummaryTable({
           </table>
         </div>
 
+        {/* Acquisition cost explanation */}
+        {totalAcquisitionCost > 0 && (
+          <div className="mt-5 bg-[#f5f5f7] rounded-[12px] p-4 text-[13px] text-[#424245] leading-relaxed">
+            <p className="font-semibold text-[#1d1d1f] mb-2">
+              Acquisition costs: RM {formatNumber(totalAcquisitionCost.toFixed(0))} across {results.properties?.length ?? 0} purchase(s)
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-2">
+              {[
+                { label: "MOT Stamp Duty", value: costBreakdown.motStampDuty },
+                { label: "Loan Stamp Duty", value: costBreakdown.loanStampDuty },
+                { label: "Legal Fees", value: costBreakdown.legalFees },
+                { label: "Valuation Fees", value: costBreakdown.valuationFee },
+              ].map((item) => (
+                <div key={item.label}>
+                  <p className="text-[11px] text-[#86868b] uppercase tracking-wider">{item.label}</p>
+                  <p className="font-medium text-[#1d1d1f]">RM {formatNumber(item.value.toFixed(0))}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-[12px] text-[#86868b]">
+              Paid in cash when each purchase completes, so they reduce that year's cash flow and the cash available to reinvest.
+              {exemptProperty ? ` ${exemptProperty.name} is stamp-duty exempt as a first home.` : ""}
+            </p>
+          </div>
+        )}
+
+        {/* Holding cost explanation */}
+        {costTotals.length > 0 && (
+          <div className="mt-5 bg-[#f5f5f7] rounded-[12px] p-4 text-[13px] text-[#424245] leading-relaxed">
+            <p className="font-semibold text-[#1d1d1f] mb-2">
+              Holding costs: RM {formatNumber(costTotals.reduce((sum, c) => sum + c.total, 0).toFixed(0))} over {horizon} years
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-2">
+              {costTotals.map((item) => (
+                <div key={item.key}>
+                  <p className="text-[11px] text-[#86868b] uppercase tracking-wider">{HOLDING_COST_LABELS[item.key]}</p>
+                  <p className="font-medium text-[#1d1d1f]">RM {formatNumber(item.total.toFixed(0))}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-[12px] text-[#86868b]">
+              Columns above show each item for that year alone. Every item except MRTA is deducted from rent before income tax.
+            </p>
+          </div>
+        )}
+
         {/* Reinvest to Stock Button */}
         {onReinvestToStock && (
           <div className="mt-6 flex justify-center">
@@ -4,7 +4,7 @@
  */
 
 import { useState } from "react";
-import type { SavedScenario } from "@/hooks/useScenarios";
+import { getScenarioMilestones, type SavedScenario } from "@/hooks/useScenarios";
 import type { CalculatorInputs } from "@/lib/calculator";
 import { formatNumber } from "@/lib/calculator";
 import { Trash2, RotateCcw, Pencil, Check, X, Bookmark, GitCompareArrows } from "lucide-react";
@@ -190,15 +190,11 @@ export default function SavedScenarios({
                         {s.name}
                       </p>
                       <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1.5">
-                        <span className="text-[12px] text-[#86868b]">
-                          10Y: <span className="text-[#1d1d1f] font-medium">RM {formatNumber(s.results.equity10.toFixed(0))}</span>
-                        </span>
-                        <span className="text-[12px] text-[#86868b]">
-                          20Y: <span className="text-[#1d1d1f] font-medium">RM {formatNumber(s.results.equity20.toFixed(0))}</span>
-                        </span>
-                        <span className="text-[12px] text-[#86868b]">
-                          30Y: <span className="text-[#1d1d1f] font-medium">RM {formatNumber(s.results.equity30.toFixed(0))}</span>
-                        </span>
+                        {getScenarioMilestones(s).map(({ year, equity }) => (
+                          <span key={year} className="text-[12px] text-[#86868b]">
+                            {year}Y: <span className="text-[#1d1d1f] font-medium">RM {formatNumber(equity.toFixed(0))}</span>
+                          </span>
+                        ))}
                         <span className="text-[12px] text-[#86868b]">
                           {s.results.propertiesOwned} properties
                         </span>
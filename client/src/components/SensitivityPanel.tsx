@@ -0,0 +1,320 @@
+/*
+ * Sensitivity analysis: a tornado of how much the result at the horizon moves
+ * when each assumption is flexed on its own, and a two-input heatmap coloured
+ * by equity at the horizon or by the first year cash flow turns negative.
+ */
+
+import { useMemo, useState } from "react";
+import type { CalculatorInputs, StockInputs } from "@/lib/calculator";
+import { formatNumber, resolveHorizon } from "@/lib/calculator";
+import {
+  getActiveDrivers,
+  getDriverValue,
+  getExpenseType,
+  runHeatmap,
+  runTornado,
+  type PlanOutcome,
+  type SensitivityDriver,
+} from "@/lib/sensitivity";
+import { getDeflator } from "@/lib/inflation";
+import { useMoneyBasis } from "@/contexts/MoneyBasisContext";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip as ChartTooltip,
+  Legend,
+} from "chart.js";
+import { Bar } from "react-chartjs-2";
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, ChartTooltip, Legend);
+
+interface SensitivityPanelProps {
+  inputs: CalculatorInputs;
+  stockInputs?: StockInputs | null; // given = combined net worth and stock drivers
+}
+
+type MoneyMetric = "netEquity" | "combinedNetWorth";
+type HeatMetric = MoneyMetric | "firstNegativeCashFlowYear";
+
+const FLEX_OPTIONS = [5, 10, 20];
+
+const fontFamily = "-apple-system, BlinkMacSystemFont, 'Inter', sans-serif";
+
+const rm = (value: number) => `RM ${formatNumber(value.toFixed(0))}`;
+const rmShort = (value: number) =>
+  Math.abs(value) >= 1e6 ? `RM ${(value / 1e6).toFixed(1)}M` : `RM ${(value / 1e3).toFixed(0)}k`;
+
+/** A driver's value in its own unit, e.g. "3.3%", "2 yrs" or "RM 250" */
+function formatDriverValue(driver: SensitivityDriver, value: number, inputs: CalculatorInputs): string {
+  if (driver === "buyInterval") return `${value} yr${value === 1 ? "" : "s"}`;
+  if (driver === "expenseValue" && getExpenseType(inputs) === "fixed") return `RM ${formatNumber(value.toFixed(0))}`;
+  return `${Number(value.toFixed(2))}%`;
+}
+
+/** Red (worst) to green (best) for a position 0–1 */
+function heatColor(t: number): string {
+  const clamped = Math.max(0, Math.min(1, t));
+  const r = Math.round(255 + (52 - 255) * clamped);
+  const g = Math.round(59 + (199 - 59) * clamped);
+  const b = Math.round(48 + (89 - 48) * clamped);
+  return `rgba(${r}, ${g}, ${b}, 0.22)`;
+}
+
+function SegmentedControl<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { key: T; label: string }[];
+  value: T;
+  onChange: (key: T) => void;
+}) {
+  return (
+    <div className="flex rounded-[8px] bg-[#f5f5f7] p-0.5">
+      {options.map((o) => (
+        <button
+          key={String(o.key)}
+          type="button"
+          onClick={() => onChange(o.key)}
+          className={`
+            px-3 py-1.5 text-[12px] font-medium rounded-[7px] transition-all duration-200 whitespace-nowrap
+            ${value === o.key
+              ? "bg-white text-[#1d1d1f] shadow-[0_1px_3px_rgba(0,0,0,0.08)]"
+              : "text-[#86868b] hover:text-[#1d1d1f]"
+            }
+          `}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function SensitivityPanel({ inputs, stockInputs = null }: SensitivityPanelProps) {
+  const { basis, inflationRate } = useMoneyBasis();
+  // Every figure here is a value at the horizon
+  const horizon = resolveHorizon(inputs);
+  const deflate = basis === "real" ? getDeflator(inflationRate, horizon) : 1;
+
+  const [flexPct, setFlexPct] = useState(10);
+  const [metric, setMetric] = useState<MoneyMetric>(stockInputs ? "combinedNetWorth" : "netEquity");
+  const [xDriver, setXDriver] = useState<SensitivityDriver>("appreciationRate");
+  const [yDriver, setYDriver] = useState<SensitivityDriver>("interestRate");
+  const [heatMetric, setHeatMetric] = useState<HeatMetric>("netEquity");
+
+  const drivers = getActiveDrivers(inputs, stockInputs);
+  const moneyMetrics: { key: MoneyMetric; label: string }[] = [
+    { key: "netEquity", label: "Net Equity" },
+    ...(stockInputs ? [{ key: "combinedNetWorth" as const, label: "Combined Net Worth" }] : []),
+  ];
+
+  const tornado = useMemo(() => runTornado(inputs, stockInputs, flexPct), [inputs, stockInputs, flexPct]);
+  const heatmap = useMemo(
+    () => runHeatmap(inputs, stockInputs, xDriver, yDriver === xDriver ? drivers.find((d) => d.key !== xDriver)!.key : yDriver),
+    [inputs, stockInputs, xDriver, yDriver]
+  );
+
+  const value = (o: PlanOutcome, m: MoneyMetric) => (o[m] ?? 0) * deflate;
+  const baseValue = value(tornado.base, metric);
+  const rows = [...tornado.rows].sort(
+    (a, b) => Math.abs(value(b.high, metric) - value(b.low, metric)) - Math.abs(value(a.high, metric) - value(a.low, metric))
+  );
+
+  const tornadoData = useMemo(() => ({
+    labels: rows.map((r) => `${r.label} (${formatDriverValue(r.driver, r.lowValue, inputs)} / ${formatDriverValue(r.driver, r.highValue, inputs)})`),
+    datasets: [
+      {
+        label: `Low (−${flexPct}%)`,
+        data: rows.map((r) => value(r.low, metric) - baseValue),
+        backgroundColor: "rgba(255, 59, 48, 0.7)",
+        borderRadius: 4,
+      },
+      {
+        label: `High (+${flexPct}%)`,
+        data: rows.map((r) => value(r.high, metric) - baseValue),
+        backgroundColor: "rgba(52, 199, 89, 0.7)",
+        borderRadius: 4,
+      },
+    ],
+  }), [tornado, metric, deflate]);
+
+  const tornadoOptions = useMemo(() => ({
+    indexAxis: "y" as const,
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: "top" as const,
+        labels: {
+          font: { family: fontFamily, size: 12, weight: "500" as const },
+          color: "#86868b",
+          usePointStyle: true,
+          pointStyleWidth: 8,
+          boxHeight: 8,
+        },
+      },
+      tooltip: {
+        backgroundColor: "rgba(29, 29, 31, 0.95)",
+        titleFont: { family: fontFamily, size: 13, weight: "600" as const },
+        bodyFont: { family: fontFamily, size: 12 },
+        padding: 14,
+        cornerRadius: 10,
+        callbacks: {
+          label: (ctx: any) => `${ctx.dataset.label}: ${ctx.raw >= 0 ? "+" : "−"}${rm(Math.abs(ctx.raw))} → ${rm(baseValue + ctx.raw)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        stacked: true,
+        grid: { color: "rgba(0,0,0,0.04)" },
+        border: { display: false },
+        ticks: { font: { family: fontFamily, size: 11 }, color: "#86868b", callback: (v: any) => rmShort(Number(v)) },
+      },
+      y: {
+        stacked: true,
+        grid: { display: false },
+        border: { display: false },
+        ticks: { font: { family: fontFamily, size: 12 }, color: "#1d1d1f" },
+      },
+    },
+  }), [baseValue]);
+
+  // Heatmap colour range and the cell matching today's plan
+  const heatValues = heatmap.cells.flat().map((c) =>
+    heatMetric === "firstNegativeCashFlowYear" ? c.firstNegativeCashFlowYear : value(c, heatMetric)
+  );
+  const numeric = heatValues.filter((v): v is number => v !== null);
+  const heatMin = Math.min(...numeric);
+  const heatMax = Math.max(...numeric);
+  const baseX = getDriverValue({ inputs, stockInputs }, heatmap.xDriver);
+  const baseY = getDriverValue({ inputs, stockInputs }, heatmap.yDriver);
+  const labelOf = (d: SensitivityDriver) => drivers.find((x) => x.key === d)?.label ?? d;
+
+  const cellView = (c: PlanOutcome) => {
+    if (heatMetric === "firstNegativeCashFlowYear") {
+      const year = c.firstNegativeCashFlowYear;
+      return year === null
+        ? { text: "Never", color: heatColor(1) }
+        : { text: String(inputs.startingYear + year), color: heatColor(((year - 1) / Math.max(1, horizon - 1)) * 0.7) };
+    }
+    const v = value(c, heatMetric);
+    return { text: rmShort(v), color: heatColor(heatMax > heatMin ? (v - heatMin) / (heatMax - heatMin) : 0.5) };
+  };
+
+  return (
+    <div className="apple-card p-5 md:p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-[17px] font-semibold text-[#1d1d1f]">Sensitivity</h3>
+          <p className="text-[13px] text-[#86868b]">
+            How far the {horizon}-year result moves when each assumption changes on its own
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {moneyMetrics.length > 1 && (
+            <SegmentedControl options={moneyMetrics} value={metric} onChange={setMetric} />
+          )}
+          <SegmentedControl
+            options={FLEX_OPTIONS.map((f) => ({ key: f, label: `±${f}%` }))}
+            value={flexPct}
+            onChange={setFlexPct}
+          />
+        </div>
+      </div>
+
+      {/* Tornado */}
+      <div>
+        <p className="text-[12px] text-[#86868b] mb-2">
+          Change from the base case of {rm(baseValue)} ({moneyMetrics.find((m) => m.key === metric)?.label.toLowerCase()}). The buy interval moves by whole years.
+        </p>
+        <div style={{ height: `${Math.max(220, rows.length * 44 + 60)}px` }}>
+          <Bar data={tornadoData} options={tornadoOptions as any} />
+        </div>
+      </div>
+
+      {/* Two-input heatmap */}
+      <div className="pt-5 border-t border-[#f5f5f7] space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <h4 className="text-[15px] font-semibold text-[#1d1d1f] mr-auto">Two Assumptions Together</h4>
+          <select
+            value={heatmap.yDriver}
+            onChange={(e) => setYDriver(e.target.value as SensitivityDriver)}
+            className="apple-input w-auto py-1.5 text-[13px]"
+          >
+            {drivers.filter((d) => d.key !== heatmap.xDriver).map((d) => (
+              <option key={d.key} value={d.key}>{d.label}</option>
+            ))}
+          </select>
+          <span className="text-[13px] text-[#86868b]">×</span>
+          <select
+            value={heatmap.xDriver}
+            onChange={(e) => setXDriver(e.target.value as SensitivityDriver)}
+            className="apple-input w-auto py-1.5 text-[13px]"
+          >
+            {drivers.map((d) => (
+              <option key={d.key} value={d.key}>{d.label}</option>
+            ))}
+          </select>
+          <SegmentedControl
+            options={[
+              { key: "netEquity" as HeatMetric, label: `${horizon}Y Equity` },
+              ...(stockInputs ? [{ key: "combinedNetWorth" as HeatMetric, label: `${horizon}Y Combined` }] : []),
+              { key: "firstNegativeCashFlowYear" as HeatMetric, label: "Cash Flow < 0" },
+            ]}
+            value={heatMetric}
+            onChange={setHeatMetric}
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-[13px] border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="text-left text-[11px] font-semibold text-[#86868b] uppercase tracking-wider px-2">
+                  {labelOf(heatmap.yDriver)} ↓ / {labelOf(heatmap.xDriver)} →
+                </th>
+                {heatmap.xValues.map((x) => (
+                  <th key={x} className={`text-center text-[12px] font-medium px-2 ${x === baseX ? "text-[#0071e3]" : "text-[#86868b]"}`}>
+                    {formatDriverValue(heatmap.xDriver, x, inputs)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.cells.map((row, yi) => (
+                <tr key={heatmap.yValues[yi]}>
+                  <td className={`text-[12px] font-medium px-2 whitespace-nowrap ${heatmap.yValues[yi] === baseY ? "text-[#0071e3]" : "text-[#86868b]"}`}>
+                    {formatDriverValue(heatmap.yDriver, heatmap.yValues[yi], inputs)}
+                  </td>
+                  {row.map((cell, xi) => {
+                    const view = cellView(cell);
+                    const isBase = heatmap.xValues[xi] === baseX && heatmap.yValues[yi] === baseY;
+                    return (
+                      <td
+                        key={xi}
+                        className={`text-center py-2.5 px-2 rounded-[6px] font-medium text-[#1d1d1f] ${isBase ? "ring-2 ring-[#0071e3]" : ""}`}
+                        style={{ backgroundColor: view.color }}
+                      >
+                        {view.text}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[12px] text-[#86868b]">
+          {heatMetric === "firstNegativeCashFlowYear"
+            ? "First year in which rent no longer covers instalments, expenses and tax (one-off acquisition costs excluded)."
+            : "Green is the best outcome on the grid and red the worst."}{" "}
+          The outlined cell is your current plan.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,15 @@
  */
 
 import { useMemo, useRef, useEffect, useState } from "react";
-import type { StockSimulationResult, FullSimulationResult, StockInputs } from "@/lib/calculator";
-import { formatNumber } from "@/lib/calculator";
+import type { StockSimulationResult, FullSimulationResult, StockInputs, CalculatorInputs } from "@/lib/calculator";
+import { formatNumber, getHorizonYears, getStockMilestones } from "@/lib/calculator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Info } from "lucide-react";
+import { useDisplayResults, useDisplayStockResults } from "@/contexts/MoneyBasisContext";
+import { MoneyBasisNote } from "@/components/MoneyBasisToggle";
+import MonteCarloPanel from "@/components/MonteCarloPanel";
+import SensitivityPanel from "@/components/SensitivityPanel";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -32,6 +36,7 @@ interface StockResultsPanelProps {
   stockResults: StockSimulationResult;
   propertyResults: FullSimulationResult;
   stockInputs: StockInputs;
+  propertyInputs?: CalculatorInputs; // needed for the Monte Carlo run
   purchasePrice: number;
   loanAmount: number;
 }
@@ -47,13 +52,29 @@ const TABS: { key: TabKey; label: string }[] = [
   { key: "calculations", label: "Calculations" },
 ];
 
-export default function StockResultsPanel({ stockResults, propertyResults, stockInputs, purchasePrice, loanAmount }: StockResultsPanelProps) {
+export default function StockResultsPanel({
+  stockResults: nominalStockResults,
+  propertyResults: nominalPropertyResults,
+  stockInputs,
+  propertyInputs,
+  purchasePrice,
+  loanAmount,
+}: StockResultsPanelProps) {
+  const stockResults = useDisplayStockResults(nominalStockResults);
+  const propertyResults = useDisplayResults(nominalPropertyResults);
   const resultsRef = useRef<HTMLDivElement>(null);
   const [activeTab, setActiveTab] = useState<TabKey>("combined");
 
+  // Custom property lists mix prices and loans, so cashback differs per purchase
+  const mixedPortfolio = propertyResults.usesPropertyList ?? false;
+  const hasSaleProceeds = stockResults.yearlyData.some((d) => (d.saleProceedsInvested ?? 0) > 0);
+  const hasRefinanceCash = stockResults.yearlyData.some((d) => (d.refinanceCashInvested ?? 0) > 0);
+  // With a cash account, the first year end it is overdrawn once stock buys are paid
+  const cashGap = stockResults.yearlyData.find((d) => d.cashBalance != null && d.cashBalance < 0);
+
   useEffect(() => {
     resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
-  }, [stockResults]);
+  }, [nominalStockResults]);
 
   const labels = useMemo(() =>
     stockResults.yearlyData.map((d) => d.calendarYear.toString()),
@@ -71,7 +92,9 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
         backgroundColor: "rgba(88,86,214,0.08)",
         fill: true,
         tension: 0.3,
-        pointRadius: 0,
+        pointRadius: stockResults.yearlyData.map((d) => (d === cashGap ? 7 : 0)),
+        pointBackgroundColor: "#ff3b30",
+        pointBorderColor: "#ff3b30",
         pointHoverRadius: 5,
         borderWidth: 2.5,
       },
@@ -157,8 +180,28 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
         borderWidth: 1,
         borderRadius: 4,
       },
+      ...(hasSaleProceeds
+        ? [{
+            label: "Sale Proceeds Invested",
+            data: stockResults.yearlyData.slice(1).map((d) => Math.round(d.saleProceedsInvested ?? 0)),
+            backgroundColor: "rgba(175,82,222,0.5)",
+            borderColor: "#af52de",
+            borderWidth: 1,
+            borderRadius: 4,
+          }]
+        : []),
+      ...(hasRefinanceCash
+        ? [{
+            label: "Refinance Cash-Out Invested",
+            data: stockResults.yearlyData.slice(1).map((d) => Math.round(d.refinanceCashInvested ?? 0)),
+            backgroundColor: "rgba(88,86,214,0.5)",
+            borderColor: "#5856d6",
+            borderWidth: 1,
+            borderRadius: 4,
+          }]
+        : []),
     ],
-  }), [labels, stockResults]);
+  }), [labels, stockResults, hasSaleProceeds, hasRefinanceCash]);
 
   const lineOptions = useMemo(() => ({
     responsive: true,
@@ -236,29 +279,42 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
     },
   }), []);
 
-  const s10 = stockResults.stock10Year;
-  const s20 = stockResults.stock20Year;
-  const s30 = stockResults.stock30Year;
-
-  // Combined net worth at milestones
-  const combined10 = (propertyResults.yearlyData[10]?.netEquity ?? 0) + s10.portfolioValue;
-  const combined20 = (propertyResults.yearlyData[20]?.netEquity ?? 0) + s20.portfolioValue;
-  const combined30 = (propertyResults.yearlyData[30]?.netEquity ?? 0) + s30.portfolioValue;
+  // Stock value and combined net worth at each of the plan's milestones
+  const horizon = getHorizonYears(propertyResults);
+  const milestones = getStockMilestones(stockResults).map(({ year, milestone }) => ({
+    year,
+    ...milestone,
+    combined: (propertyResults.yearlyData[year]?.netEquity ?? 0) + milestone.portfolioValue,
+  }));
+  const milestoneYears = new Set(milestones.map((m) => m.year));
 
   return (
     <div ref={resultsRef} className="space-y-6">
       {/* Section Title */}
-      <h3 className="text-[22px] md:text-[28px] font-semibold text-[#1d1d1f] tracking-tight">
-        Your Stock Reinvestment Portfolio
-      </h3>
+      <div>
+        <h3 className="text-[22px] md:text-[28px] font-semibold text-[#1d1d1f] tracking-tight">
+          Your Stock Reinvestment Portfolio
+        </h3>
+        <MoneyBasisNote startingYear={stockResults.yearlyData[0]?.calendarYear ?? propertyResults.yearlyData[0].calendarYear} />
+      </div>
 
-      {/* Metric Cards — Stock Portfolio at 10/20/30 years */}
+      {cashGap && (
+        <div className="bg-[#fff4f2] rounded-[12px] px-4 py-3">
+          <p className="text-[13px] text-[#424245] leading-relaxed">
+            <span className="font-semibold text-[#ff3b30]">Funding gap in {cashGap.calendarYear}:</span>{" "}
+            your cash account ends the year at RM {formatNumber(cashGap.cashBalance!.toFixed(0))} (marked in red). No stock is bought with cash the property plan needs later, and the plan itself needs more cash than you have.
+          </p>
+        </div>
+      )}
+
+      {/* Metric Cards — Stock Portfolio at each milestone */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-        {[
-          { label: "10-Year Stock Portfolio", value: s10.portfolioValue, combined: combined10, dividends: s10.totalDividends },
-          { label: "20-Year Stock Portfolio", value: s20.portfolioValue, combined: combined20, dividends: s20.totalDividends },
-          { label: "30-Year Stock Portfolio", value: s30.portfolioValue, combined: combined30, dividends: s30.totalDividends },
-        ].map((m) => (
+        {milestones.map((m) => ({
+          label: `${m.year}-Year Stock Portfolio`,
+          value: m.portfolioValue,
+          combined: m.combined,
+          dividends: m.totalDividends,
+        })).map((m) => (
           <div key={m.label} className="apple-card p-5 md:p-6">
             <p className="text-[12px] font-medium text-[#86868b] uppercase tracking-wider mb-1">
               {m.label}
@@ -278,14 +334,32 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
         ))}
       </div>
 
+      {/* Stock sleeve return beside the property plan's, new money aside */}
+      {stockResults.timeWeightedReturn != null && (
+        <div className="apple-card p-5 md:p-6">
+          <div className="grid grid-cols-2 gap-4 text-center">
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Stock Time-Weighted Return</p>
+              <p className="text-[20px] font-semibold text-[#34c759]">{stockResults.timeWeightedReturn.toFixed(1)}%</p>
+              <p className="text-[11px] text-[#86868b]">a year, growth and dividends, ignoring when money was added</p>
+            </div>
+            <div>
+              <p className="text-[12px] font-medium text-[#86868b] tracking-wide uppercase mb-1">Property IRR</p>
+              <p className="text-[20px] font-semibold text-[#0071e3]">{propertyResults.returns?.irr != null ? `${propertyResults.returns.irr.toFixed(1)}%` : "—"}</p>
+              <p className="text-[11px] text-[#86868b]">a year, on your own cash put into the properties</p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Cashback Summary */}
       {stockResults.totalCashbackPerProperty > 0 && (
         <div className="apple-card p-5 bg-[#34c759]/5 border border-[#34c759]/15">
           <div className="flex flex-wrap items-center gap-4 text-[14px]">
-            <span className="text-[#86868b]">Cashback per property:</span>
+            <span className="text-[#86868b]">{mixedPortfolio ? "Average cashback per property:" : "Cashback per property:"}</span>
             <span className="font-semibold text-[#34c759]">RM {formatNumber(Math.round(stockResults.totalCashbackPerProperty))}</span>
             <span className="text-[#86868b]">×</span>
-            <span className="text-[#86868b]">{propertyResults.yearlyData[30]?.propertiesOwned ?? 0} properties</span>
+            <span className="text-[#86868b]">{propertyResults.properties?.length ?? propertyResults.yearlyData[horizon]?.propertiesOwned ?? 0} properties</span>
             <span className="text-[#86868b]">=</span>
             <span className="font-semibold text-[#34c759]">RM {formatNumber(Math.round(stockResults.totalCashbackAllProperties))} total cashback invested</span>
           </div>
@@ -343,7 +417,9 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
               <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span>Dividends are {stockInputs.reinvestDividends ? <strong>reinvested (DRIP active) — last year’s dividend is used to buy more shares this year at the discounted price</strong> : <strong>taken as cash (DRIP off) — dividends are not reinvested</strong>}</li>
               <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span><strong>Property Cash Flow</strong> column shows the positive annual cash flow from your property portfolio that is reinvested into stocks each year</li>
               <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span><strong>Dividend Reinvested</strong> column shows last year’s dividend income that is reinvested this year to buy more shares (only when DRIP is active)</li>
-              <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span>Cashback per property: <strong>RM {formatNumber(Math.round(stockResults.totalCashbackPerProperty))}</strong> (Loan Amount RM {formatNumber(Math.round(loanAmount))} − Purchase Price RM {formatNumber(Math.round(purchasePrice))})</li>
+              <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span>{mixedPortfolio
+                ? <>Cashback is calculated for each property in your list (its Loan Amount − its Purchase Price), averaging <strong>RM {formatNumber(Math.round(stockResults.totalCashbackPerProperty))}</strong> per property</>
+                : <>Cashback per property: <strong>RM {formatNumber(Math.round(stockResults.totalCashbackPerProperty))}</strong> (Loan Amount RM {formatNumber(Math.round(loanAmount))} − Purchase Price RM {formatNumber(Math.round(purchasePrice))})</>}</li>
               <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span>Only <strong>positive</strong> annual cash flow from properties is reinvested (negative cash flow is not covered)</li>
               <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span>All stock purchases (from cash flow, cashback, and DRIP) are made at the discounted price</li>
               <li className="flex gap-2.5"><span className="text-[#34c759] shrink-0">•</span>No stock sales during the investment period — buy and hold strategy</li>
@@ -359,7 +435,7 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
               <div>
                 <p className="font-semibold text-[#1d1d1f] mb-1">1. Cashback Calculation</p>
                 <p>Cashback = Mortgage Approved Amount − Property Purchase Price. If the bank approves a mortgage higher than the purchase price, the difference is your cashback. Each new property generates a cashback lump sum that is immediately invested into stocks.</p>
-                <p className="mt-1 text-[13px] text-[#86868b]">Example: Loan Amount RM {formatNumber(Math.round(loanAmount))} − Price RM {formatNumber(Math.round(purchasePrice))} = <span className="text-[#34c759] font-medium">RM {formatNumber(Math.round(stockResults.totalCashbackPerProperty))}</span> cashback per property</p>
+                {!mixedPortfolio && <p className="mt-1 text-[13px] text-[#86868b]">Example: Loan Amount RM {formatNumber(Math.round(loanAmount))} − Price RM {formatNumber(Math.round(purchasePrice))} = <span className="text-[#34c759] font-medium">RM {formatNumber(Math.round(stockResults.totalCashbackPerProperty))}</span> cashback per property</p>}
               </div>
               <div>
                 <p className="font-semibold text-[#1d1d1f] mb-1">2. Buy Price (Below Market Value)</p>
@@ -406,7 +482,7 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
                     <span className="inline-flex items-center gap-1 justify-end">
                       Property Cash Flow
                       <Tooltip><TooltipTrigger asChild><Info className="w-3 h-3 text-[#86868b] cursor-help shrink-0" /></TooltipTrigger>
-                      <TooltipContent side="top" className="max-w-[240px] text-xs"><p>Positive annual cash flow from your property portfolio (Rental Income − Mortgage − Expenses) reinvested into stocks.</p></TooltipContent></Tooltip>
+                      <TooltipContent side="top" className="max-w-[240px] text-xs"><p>Positive annual cash flow from your property portfolio (Rental Income − Mortgage − Expenses − Income Tax on rent) reinvested into stocks.</p></TooltipContent></Tooltip>
                     </span>
                   </th>
                   <th className="text-right py-2.5 px-2 text-[#86868b] font-medium">
@@ -416,6 +492,24 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
                       <TooltipContent side="top" className="max-w-[240px] text-xs"><p>Mortgage Approved − Purchase Price. Lump sum invested when each new property is purchased.</p></TooltipContent></Tooltip>
                     </span>
                   </th>
+                  {hasSaleProceeds && (
+                    <th className="text-right py-2.5 px-2 text-[#86868b] font-medium">
+                      <span className="inline-flex items-center gap-1 justify-end">
+                        Sale Proceeds
+                        <Tooltip><TooltipTrigger asChild><Info className="w-3 h-3 text-[#86868b] cursor-help shrink-0" /></TooltipTrigger>
+                        <TooltipContent side="top" className="max-w-[240px] text-xs"><p>Net proceeds from property sales (after loan redemption, sale costs and RPGT) invested as a lump sum.</p></TooltipContent></Tooltip>
+                      </span>
+                    </th>
+                  )}
+                  {hasRefinanceCash && (
+                    <th className="text-right py-2.5 px-2 text-[#86868b] font-medium">
+                      <span className="inline-flex items-center gap-1 justify-end">
+                        Refinance
+                        <Tooltip><TooltipTrigger asChild><Info className="w-3 h-3 text-[#86868b] cursor-help shrink-0" /></TooltipTrigger>
+                        <TooltipContent side="top" className="max-w-[240px] text-xs"><p>Cash released by refinancing (new loan − balance redeemed − fees and penalties) invested as a lump sum.</p></TooltipContent></Tooltip>
+                      </span>
+                    </th>
+                  )}
                   <th className="text-right py-2.5 px-2 text-[#86868b] font-medium">
                     <span className="inline-flex items-center gap-1 justify-end">
                       Div. Reinvested
@@ -465,7 +559,7 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
                   <tr
                     key={row.year}
                     className={`border-b border-[#f5f5f7] hover:bg-[#f5f5f7]/50 transition-colors
-                      ${row.year === 10 || row.year === 20 || row.year === 30 ? "bg-[#0071e3]/3 font-medium" : ""}
+                      ${milestoneYears.has(row.year) ? "bg-[#0071e3]/3 font-medium" : ""}
                     `}
                   >
                     <td className="py-2.5 px-2 text-[#1d1d1f]">{row.calendarYear}</td>
@@ -475,6 +569,16 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
                     <td className="py-2.5 px-2 text-right text-[#ff9500]">
                       {row.cashbackAmount > 0 ? `RM ${formatNumber(Math.round(row.cashbackAmount))}` : "—"}
                     </td>
+                    {hasSaleProceeds && (
+                      <td className="py-2.5 px-2 text-right text-[#af52de]">
+                        {(row.saleProceedsInvested ?? 0) > 0 ? `RM ${formatNumber(Math.round(row.saleProceedsInvested))}` : "—"}
+                      </td>
+                    )}
+                    {hasRefinanceCash && (
+                      <td className="py-2.5 px-2 text-right text-[#5856d6]">
+                        {(row.refinanceCashInvested ?? 0) > 0 ? `RM ${formatNumber(Math.round(row.refinanceCashInvested))}` : "—"}
+                      </td>
+                    )}
                     <td className="py-2.5 px-2 text-right text-[#5856d6]">
                       {row.dividendReinvested > 0 ? `RM ${formatNumber(Math.round(row.dividendReinvested))}` : "—"}
                     </td>
@@ -500,6 +604,14 @@ export default function StockResultsPanel({ stockResults, propertyResults, stock
           </ScrollArea>
         )}
       </div>
+
+      {/* Range of outcomes — only in stochastic mode */}
+      {propertyInputs?.monteCarlo?.enabled && (
+        <MonteCarloPanel inputs={propertyInputs} stockInputs={stockInputs} />
+      )}
+
+      {/* Which assumptions drive the result at the horizon */}
+      {propertyInputs && <SensitivityPanel inputs={propertyInputs} stockInputs={stockInputs} />}
     </div>
   );
 }
@@ -0,0 +1,89 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
+import type { FullSimulationResult, StockSimulationResult } from "@/lib/calculator";
+import type { MonteCarloResult } from "@/lib/monteCarlo";
+import {
+  DEFAULT_INFLATION_RATE,
+  toRealMonteCarlo,
+  toRealResults,
+  toRealStockResults,
+  type MoneyBasis,
+} from "@/lib/inflation";
+
+interface MoneyBasisContextType {
+  basis: MoneyBasis;
+  inflationRate: number; // % p.a.
+  setBasis: (basis: MoneyBasis) => void;
+  setInflationRate: (rate: number) => void;
+}
+
+const MoneyBasisContext = createContext<MoneyBasisContextType | undefined>(undefined);
+
+const STORAGE_KEY = "moneyBasis";
+
+export function MoneyBasisProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<{ basis: MoneyBasis; inflationRate: number }>(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+      if (stored && (stored.basis === "nominal" || stored.basis === "real")) {
+        return { basis: stored.basis, inflationRate: Number(stored.inflationRate) || 0 };
+      }
+    } catch {
+      // fall through to the defaults
+    }
+    return { basis: "nominal", inflationRate: DEFAULT_INFLATION_RATE };
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }, [state]);
+
+  const value = useMemo(
+    () => ({
+      ...state,
+      setBasis: (basis: MoneyBasis) => setState((prev) => ({ ...prev, basis })),
+      setInflationRate: (inflationRate: number) => setState((prev) => ({ ...prev, inflationRate })),
+    }),
+    [state]
+  );
+
+  return (
+    <MoneyBasisContext.Provider value={value}>
+      {children}
+    </MoneyBasisContext.Provider>
+  );
+}
+
+export function useMoneyBasis() {
+  const context = useContext(MoneyBasisContext);
+  if (!context) {
+    throw new Error("useMoneyBasis must be used within MoneyBasisProvider");
+  }
+  return context;
+}
+
+/** Property results on the selected basis (nominal results pass through unchanged) */
+export function useDisplayResults<T extends FullSimulationResult | null | undefined>(results: T): T {
+  const { basis, inflationRate } = useMoneyBasis();
+  return useMemo(
+    () => (results && basis === "real" ? (toRealResults(results, inflationRate) as T) : results),
+    [results, basis, inflationRate]
+  );
+}
+
+/** Stock results on the selected basis */
+export function useDisplayStockResults<T extends StockSimulationResult | null | undefined>(results: T): T {
+  const { basis, inflationRate } = useMoneyBasis();
+  return useMemo(
+    () => (results && basis === "real" ? (toRealStockResults(results, inflationRate) as T) : results),
+    [results, basis, inflationRate]
+  );
+}
+
+/** Monte Carlo bands on the selected basis */
+export function useDisplayMonteCarlo(result: MonteCarloResult | null): MonteCarloResult | null {
+  const { basis, inflationRate } = useMoneyBasis();
+  return useMemo(
+    () => (result && basis === "real" ? toRealMonteCarlo(result, inflationRate) : result),
+    [result, basis, inflationRate]
+  );
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CalculatorInputs, StockInputs } from "@/lib/calculator";
+import type { GoalSeekResult, GoalSpec } from "@/lib/goalSeek";
+import type { GoalSeekMessage, GoalSeekRequest } from "@/lib/goalSeek.worker";
+
+export interface GoalSeekState {
+  result: GoalSeekResult | null;
+  progress: number; // 0–1 while running
+  running: boolean;
+  error: string | null;
+}
+
+const IDLE: GoalSeekState = { result: null, progress: 0, running: false, error: null };
+
+/**
+ * Run the goal-seek search in a web worker on demand. Starting a new search
+ * abandons one still in flight; `reset` clears the last result.
+ */
+export function useGoalSeek() {
+  const [state, setState] = useState<GoalSeekState>(IDLE);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const solve = useCallback(
+    (inputs: CalculatorInputs, stockInputs: StockInputs | null, goal: GoalSpec) => {
+      stop();
+      const worker = new Worker(new URL("../lib/goalSeek.worker.ts", import.meta.url), {
+        type: "module",
+      });
+      workerRef.current = worker;
+      setState({ result: null, progress: 0, running: true, error: null });
+
+      worker.onmessage = (event: MessageEvent<GoalSeekMessage>) => {
+        const message = event.data;
+        if (message.type === "progress") {
+          setState((prev) => ({ ...prev, progress: message.done / message.total }));
+        } else if (message.type === "result") {
+          setState({ result: message.result, progress: 1, running: false, error: null });
+          stop();
+        } else {
+          setState({ result: null, progress: 0, running: false, error: message.message });
+          stop();
+        }
+      };
+      worker.onerror = (event) => {
+        setState({ result: null, progress: 0, running: false, error: event.message || "Search failed" });
+        stop();
+      };
+
+      const request: GoalSeekRequest = { inputs, stockInputs, goal };
+      worker.postMessage(request);
+    },
+    [stop]
+  );
+
+  const reset = useCallback(() => {
+    stop();
+    setState(IDLE);
+  }, [stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return { ...state, solve, reset };
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import type { CalculatorInputs, StockInputs } from "@/lib/calculator";
+import type { MonteCarloResult } from "@/lib/monteCarlo";
+import type { MonteCarloMessage, MonteCarloRequest } from "@/lib/monteCarlo.worker";
+
+export interface MonteCarloState {
+  result: MonteCarloResult | null;
+  progress: number; // 0–1 while running
+  running: boolean;
+  error: string | null;
+}
+
+const IDLE: MonteCarloState = { result: null, progress: 0, running: false, error: null };
+
+/**
+ * Run the Monte Carlo trials for a plan in a web worker whenever the inputs
+ * change and the stochastic mode is on. A run still in flight is abandoned
+ * when the inputs change again.
+ */
+export function useMonteCarlo(
+  inputs: CalculatorInputs | null | undefined,
+  stockInputs: StockInputs | null = null
+): MonteCarloState {
+  const [state, setState] = useState<MonteCarloState>(IDLE);
+  const settings = inputs?.monteCarlo;
+
+  useEffect(() => {
+    if (!inputs || !settings?.enabled) {
+      setState(IDLE);
+      return;
+    }
+
+    const worker = new Worker(new URL("../lib/monteCarlo.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    setState({ result: null, progress: 0, running: true, error: null });
+
+    worker.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        setState((prev) => ({ ...prev, progress: message.done / message.total }));
+      } else if (message.type === "result") {
+        setState({ result: message.result, progress: 1, running: false, error: null });
+        worker.terminate();
+      } else {
+        setState({ result: null, progress: 0, running: false, error: message.message });
+        worker.terminate();
+      }
+    };
+    worker.onerror = (event) => {
+      setState({ result: null, progress: 0, running: false, error: event.message || "Simulation failed" });
+      worker.terminate();
+    };
+
+    const request: MonteCarloRequest = { inputs, stockInputs, settings };
+    worker.postMessage(request);
+
+    return () => worker.terminate();
+  }, [inputs, stockInputs, settings]);
+
+  return state;
+}
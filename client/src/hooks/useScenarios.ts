@@ -1,19 +1,34 @@
 import { useState, useCallback, useEffect } from "react";
-import type { CalculatorInputs, FullSimulationResult } from "@/lib/calculator";
+import {
+  getHorizonResult,
+  getMilestones,
+  type CalculatorInputs,
+  type FullSimulationResult,
+} from "@/lib/calculator";
 
 export interface SavedScenario {
   id: string;
   name: string;
   inputs: CalculatorInputs;
   results: {
-    equity10: number;
-    equity20: number;
-    equity30: number;
+    milestones?: Record<number, number>; // net equity by milestone year
+    equity10?: number; // scenarios saved before milestones were configurable
+    equity20?: number;
+    equity30?: number;
     propertiesOwned: number;
   };
   savedAt: string; // ISO date string
 }
 
+/** Net equity at each saved milestone year, in year order */
+export function getScenarioMilestones(scenario: SavedScenario): { year: number; equity: number }[] {
+  const { milestones, equity10, equity20, equity30 } = scenario.results;
+  const byYear = milestones ?? { 10: equity10 ?? 0, 20: equity20 ?? 0, 30: equity30 ?? 0 };
+  return Object.entries(byYear)
+    .map(([year, equity]) => ({ year: Number(year), equity }))
+    .sort((a, b) => a.year - b.year);
+}
+
 const STORAGE_KEY = "propertylab_scenarios";
 
 function loadFromStorage(): SavedScenario[] {
@@ -45,10 +60,10 @@ export function useScenarios() {
         name: name.trim(),
         inputs,
         results: {
-          equity10: results.results10.netEquity,
-          equity20: results.results20.netEquity,
-          equity30: results.results30.netEquity,
-          propertiesOwned: results.results30.propertiesOwned,
+          milestones: Object.fromEntries(
+            getMilestones(results).map(({ year, result }) => [year, result.netEquity])
+          ),
+          propertiesOwned: getHorizonResult(results).propertiesOwned,
         },
         savedAt: new Date().toISOString(),
       };
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateAcquisitionCosts,
+  calculateLegalFees,
+  calculateLoanStampDuty,
+  calculateMotStampDuty,
+  calculateValuationFee,
+} from "./acquisitionCosts";
+
+describe("calculateMotStampDuty", () => {
+  it("charges 1% on the first RM 100k", () => {
+    expect(calculateMotStampDuty(100_000)).toBeCloseTo(1_000);
+  });
+
+  it("applies each band to its own slice", () => {
+    expect(calculateMotStampDuty(500_000)).toBeCloseTo(1_000 + 8_000);
+    expect(calculateMotStampDuty(1_000_000)).toBeCloseTo(1_000 + 8_000 + 15_000);
+    expect(calculateMotStampDuty(1_200_000)).toBeCloseTo(1_000 + 8_000 + 15_000 + 8_000);
+  });
+
+  it("is zero for no value", () => {
+    expect(calculateMotStampDuty(0)).toBe(0);
+    expect(calculateMotStampDuty(-1)).toBe(0);
+  });
+});
+
+describe("calculateLegalFees", () => {
+  it("follows the 1.25% / 1% scale", () => {
+    expect(calculateLegalFees(500_000)).toBeCloseTo(6_250);
+    expect(calculateLegalFees(1_000_000)).toBeCloseTo(6_250 + 5_000);
+  });
+
+  it("charges the minimum fee on small agreements, and nothing without one", () => {
+    expect(calculateLegalFees(10_000)).toBe(500);
+    expect(calculateLegalFees(0)).toBe(0);
+  });
+});
+
+describe("calculateAcquisitionCosts", () => {
+  const params = { purchasePrice: 500_000, marketValue: 550_000, loanAmount: 450_000, isFirstHome: false };
+
+  it("assesses MOT stamp duty on the higher of price and market value", () => {
+    const costs = calculateAcquisitionCosts(params);
+    expect(costs.motStampDuty).toBeCloseTo(calculateMotStampDuty(550_000));
+    expect(costs.loanStampDuty).toBeCloseTo(calculateLoanStampDuty(450_000));
+    expect(costs.legalFees).toBeCloseTo(calculateLegalFees(500_000) + calculateLegalFees(450_000));
+    expect(costs.valuationFee).toBeCloseTo(calculateValuationFee(550_000));
+    expect(costs.total).toBeCloseTo(
+      costs.motStampDuty + costs.loanStampDuty + costs.legalFees + costs.valuationFee
+    );
+  });
+
+  it("waives both stamp duties on a first home within the cap", () => {
+    const costs = calculateAcquisitionCosts({ ...params, isFirstHome: true });
+    expect(costs.firstHomeExempt).toBe(true);
+    expect(costs.motStampDuty).toBe(0);
+    expect(costs.loanStampDuty).toBe(0);
+  });
+
+  it("does not exempt a first home above the cap", () => {
+    const costs = calculateAcquisitionCosts({ ...params, purchasePrice: 600_000, isFirstHome: true });
+    expect(costs.firstHomeExempt).toBe(false);
+    expect(costs.motStampDuty).toBeGreaterThan(0);
+  });
+
+  it("charges no valuation fee on a cash purchase", () => {
+    expect(calculateAcquisitionCosts({ ...params, loanAmount: 0 }).valuationFee).toBe(0);
+  });
+});
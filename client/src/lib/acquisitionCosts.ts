@@ -0,0 +1,120 @@
+// ============================================================
+// PropertyLab - Malaysian Acquisition Costs
+// Stamp duty (MOT and loan agreement), legal fees and valuation fee
+// paid when a purchase completes. Rates follow the published scales;
+// disbursements and SST on professional fees are not included.
+// ============================================================
+
+/** A marginal band: `rate` applies to the slice of value up to `upTo` */
+interface Tier {
+  upTo: number; // upper bound of the band in RM (Infinity for the last band)
+  rate: number; // decimal
+}
+
+/** Memorandum of Transfer stamp duty, Stamp Act 1949 (from 1 July 2019) */
+const MOT_STAMP_DUTY_TIERS: Tier[] = [
+  { upTo: 100_000, rate: 0.01 },
+  { upTo: 500_000, rate: 0.02 },
+  { upTo: 1_000_000, rate: 0.03 },
+  { upTo: Infinity, rate: 0.04 },
+];
+
+/** Loan agreement stamp duty: flat 0.5% of the loan */
+const LOAN_STAMP_DUTY_RATE = 0.005;
+
+/**
+ * Solicitors' Remuneration (Amendment) Order 2023 scale, applied separately
+ * to the sale and purchase agreement and the loan agreement. Amounts above
+ * RM 7.5m are negotiable up to 1%; the cap is used here.
+ */
+const LEGAL_FEE_TIERS: Tier[] = [
+  { upTo: 500_000, rate: 0.0125 },
+  { upTo: Infinity, rate: 0.01 },
+];
+const LEGAL_FEE_MINIMUM = 500;
+
+/** Valuers' scale of fees for a bank valuation report, on market value */
+const VALUATION_FEE_TIERS: Tier[] = [
+  { upTo: 100_000, rate: 0.0025 },
+  { upTo: 2_000_000, rate: 0.002 },
+  { upTo: 10_000_000, rate: 1 / 600 },
+  { upTo: 25_000_000, rate: 0.00125 },
+  { upTo: Infinity, rate: 0.001 },
+];
+
+/**
+ * First-home stamp duty exemption (i-MILIKI): full MOT and loan agreement
+ * stamp duty exemption for a first residential home priced up to RM 500k.
+ */
+export const FIRST_HOME_PRICE_CAP = 500_000;
+
+export interface AcquisitionCostBreakdown {
+  motStampDuty: number;
+  loanStampDuty: number;
+  legalFees: number; // SPA + loan agreement
+  valuationFee: number;
+  total: number;
+  firstHomeExempt: boolean; // stamp duties waived under the first-home exemption
+}
+
+export interface AcquisitionCostParams {
+  purchasePrice: number;
+  marketValue: number;
+  loanAmount: number;
+  isFirstHome: boolean; // eligible for the first-home exemption if priced within the cap
+}
+
+function applyTiers(amount: number, tiers: Tier[]): number {
+  let total = 0;
+  let lower = 0;
+  for (const tier of tiers) {
+    if (amount <= lower) break;
+    total += (Math.min(amount, tier.upTo) - lower) * tier.rate;
+    lower = tier.upTo;
+  }
+  return total;
+}
+
+/** MOT stamp duty on the higher of price and market value, as assessed by LHDN */
+export function calculateMotStampDuty(value: number): number {
+  return applyTiers(Math.max(0, value), MOT_STAMP_DUTY_TIERS);
+}
+
+export function calculateLoanStampDuty(loanAmount: number): number {
+  return Math.max(0, loanAmount) * LOAN_STAMP_DUTY_RATE;
+}
+
+/** Scale fee for one agreement; nothing is charged when there is no agreement */
+export function calculateLegalFees(amount: number): number {
+  if (amount <= 0) return 0;
+  return Math.max(LEGAL_FEE_MINIMUM, applyTiers(amount, LEGAL_FEE_TIERS));
+}
+
+export function calculateValuationFee(marketValue: number): number {
+  return applyTiers(Math.max(0, marketValue), VALUATION_FEE_TIERS);
+}
+
+/** One-off costs paid on completion of a purchase */
+export function calculateAcquisitionCosts(
+  params: AcquisitionCostParams
+): AcquisitionCostBreakdown {
+  const { purchasePrice, marketValue, loanAmount, isFirstHome } = params;
+  const firstHomeExempt = isFirstHome && purchasePrice <= FIRST_HOME_PRICE_CAP;
+
+  const motStampDuty = firstHomeExempt
+    ? 0
+    : calculateMotStampDuty(Math.max(purchasePrice, marketValue));
+  const loanStampDuty = firstHomeExempt ? 0 : calculateLoanStampDuty(loanAmount);
+  const legalFees =
+    calculateLegalFees(purchasePrice) + calculateLegalFees(loanAmount);
+  const valuationFee = loanAmount > 0 ? calculateValuationFee(marketValue) : 0;
+
+  return {
+    motStampDuty,
+    loanStampDuty,
+    legalFees,
+    valuationFee,
+    total: motStampDuty + loanStampDuty + legalFees + valuationFee,
+    firstHomeExempt,
+  };
+}
@@ -0,0 +1,392 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePropertyPlan,
+  calculateStockReinvestment,
+  generatePropertyList,
+  getInputErrors,
+  getInterestRateForYear,
+  getPurchasePriceIndex,
+  type CalculatorInputs,
+  type StockInputs,
+} from "./calculator";
+import { DEFAULT_CASH_ACCOUNT } from "./cashAccount";
+import { DEFAULT_CONSTRUCTION } from "./construction";
+import { DEFAULT_DSR_SETTINGS } from "./dsr";
+import { DEFAULT_LEASEHOLD } from "./leasehold";
+import { calculateRentalIncomeTax, DEFAULT_PERSONAL_RELIEF } from "./incomeTax";
+import { evaluatePlan } from "./sensitivity";
+import { DEFAULT_SHORT_TERM_RENTAL } from "./shortTermRental";
+
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 3,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+describe("calculatePropertyPlan", () => {
+  it("rolls yearly totals up from the per-property ledgers", () => {
+    const result = calculatePropertyPlan({ ...BASE, includeAcquisitionCosts: true, includeIncomeTax: true, employmentIncome: 80_000 });
+    for (const d of result.yearlyData.slice(1)) {
+      const entries = result.properties.map((p) => p.ledger[d.year]);
+      expect(d.totalAssetValue).toBeCloseTo(sum(entries.map((e) => e.assetValue)), 2);
+      expect(d.totalLoanBalance).toBeCloseTo(sum(entries.map((e) => e.loanBalance)), 2);
+      expect(d.annualRentalIncome).toBeCloseTo(sum(entries.map((e) => e.rentalIncome)), 2);
+      expect(d.incomeTax).toBeCloseTo(sum(entries.map((e) => e.incomeTax)), 2);
+      expect(d.annualCashFlow).toBeCloseTo(sum(entries.map((e) => e.cashFlow)), 2);
+    }
+  });
+
+  it("keeps net equity = value − loan + cumulative cash flow", () => {
+    const result = calculatePropertyPlan({ ...BASE, sellAfterYears: 8 });
+    for (const d of result.yearlyData) {
+      expect(d.netEquity).toBeCloseTo(d.totalAssetValue - d.totalLoanBalance + d.cumulativeCashFlow, 2);
+    }
+  });
+
+  it("holds value at the purchase price with no appreciation", () => {
+    const result = calculatePropertyPlan({ ...BASE, appreciationRate: 0 });
+    for (const d of result.yearlyData) {
+      expect(d.totalAssetValue).toBeCloseTo(d.propertiesOwned * BASE.currentMarketValue, 2);
+    }
+  });
+
+  it("only ever pays loans down without refinancing", () => {
+    const result = calculatePropertyPlan(BASE);
+    for (const p of result.properties) {
+      for (let year = p.purchaseYear + 1; year < p.ledger.length; year++) {
+        expect(p.ledger[year].loanBalance).toBeLessThanOrEqual(p.ledger[year - 1].loanBalance + 1e-6);
+      }
+    }
+  });
+
+  it("collects a year's rent at the yield once let all year", () => {
+    const result = calculatePropertyPlan(BASE);
+    const first = result.properties[0];
+    expect(first.ledger[2].rentalIncome).toBeCloseTo(BASE.purchasePrice * 0.05, 2);
+  });
+
+  it("sets rent when letting starts and reviews it from then", () => {
+    const result = calculatePropertyPlan({ ...BASE, rentStartDelayMonths: 12, rentGrowthRate: 5, rentReviewYears: 2 });
+    const first = result.properties[0];
+    const rent = BASE.purchasePrice * 0.05;
+    expect(first.ledger[1].rentalIncome).toBe(0);
+    expect(first.ledger[2].rentalIncome).toBeCloseTo(rent * 1.05, 2);
+    expect(first.ledger[3].rentalIncome).toBeCloseTo(rent * 1.05, 2);
+    expect(first.ledger[4].rentalIncome).toBeCloseTo(rent * 1.05 ** 3, 2);
+  });
+
+  it("buys every scheduled unit within the horizon", () => {
+    const result = calculatePropertyPlan(BASE);
+    expect(result.properties).toHaveLength(BASE.maxProperties);
+    expect(result.yearlyData[result.horizonYears].propertiesOwned).toBe(BASE.maxProperties);
+  });
+});
+
+describe("monthly engine", () => {
+  it("rolls each year up from its twelve months", () => {
+    const result = calculatePropertyPlan({ ...BASE, purchaseMonth: 4, sellAfterYears: 7 });
+    const months = result.monthlyData!;
+    expect(months).toHaveLength(result.horizonYears * 12);
+    for (const d of result.yearlyData.slice(1)) {
+      const year = months.filter((m) => m.year === d.year);
+      expect(year).toHaveLength(12);
+      expect(sum(year.map((m) => m.rentalIncome))).toBeCloseTo(d.annualRentalIncome, 2);
+      expect(sum(year.map((m) => m.mortgagePayment))).toBeCloseTo(d.annualMortgagePayment, 2);
+      expect(sum(year.map((m) => m.interest))).toBeCloseTo(d.annualInterest, 2);
+      expect(sum(year.map((m) => m.expense))).toBeCloseTo(d.annualExpense, 2);
+      expect(sum(year.map((m) => m.cashFlow))).toBeCloseTo(d.annualCashFlow, 2);
+      const december = year[11];
+      expect(december.calendarMonth).toBe(12);
+      expect(december.totalAssetValue).toBeCloseTo(d.totalAssetValue, 2);
+      expect(december.totalLoanBalance).toBeCloseTo(d.totalLoanBalance, 2);
+      expect(december.propertiesOwned).toBe(d.propertiesOwned);
+    }
+  });
+
+  it("completes a purchase in its month and charges the first month's interest", () => {
+    const result = calculatePropertyPlan({ ...BASE, purchaseMonth: 7 });
+    const months = result.monthlyData!;
+    expect(months.slice(0, 6).every((m) => m.propertiesOwned === 0 && m.mortgagePayment === 0)).toBe(true);
+    expect(months[6].propertiesOwned).toBe(1);
+    expect(months[6].interest).toBeCloseTo((BASE.loanAmount * 0.04) / 12, 6);
+    expect(months[6].rentalIncome).toBeCloseTo((BASE.purchasePrice * 0.05) / 12, 6);
+    // Half a year of rent in the first year
+    expect(result.yearlyData[1].annualRentalIncome).toBeCloseTo(BASE.purchasePrice * 0.05 * 0.5, 6);
+  });
+
+  it("re-amortises instalments when the rate path moves", () => {
+    const rateSchedule = { type: "overrides" as const, steps: [{ year: 3, rate: 6 }] };
+    // At 40 the 30-year tenure ends with the horizon
+    const result = calculatePropertyPlan({ ...BASE, maxProperties: 1, age: 40, rateSchedule });
+    const months = result.monthlyData!;
+    expect(result.yearlyData.map((d) => d.interestRate).slice(1, 5)).toEqual([4, 4, 6, 6]);
+    expect(months[23].mortgagePayment).toBeCloseTo(months[12].mortgagePayment, 6);
+    expect(months[24].mortgagePayment).toBeGreaterThan(months[23].mortgagePayment);
+    expect(months[24].interest).toBeCloseTo((months[23].totalLoanBalance * 0.06) / 12, 6);
+    // The higher instalment still clears the loan by the end of the tenure
+    expect(result.yearlyData[30].totalLoanBalance).toBeCloseTo(0, 2);
+  });
+
+  it("simulates each listed property on its own terms", () => {
+    const properties = generatePropertyList(BASE).map((spec, i) => ({
+      ...spec,
+      purchasePrice: 300_000 + i * 100_000,
+      marketValue: 300_000 + i * 100_000,
+      loanAmount: 250_000 + i * 50_000,
+      rentalYield: 4 + i,
+    }));
+    const result = calculatePropertyPlan({ ...BASE, properties });
+    properties.forEach((spec, i) => {
+      const p = result.properties[i];
+      expect(p.purchasePrice).toBe(spec.purchasePrice);
+      expect(p.loanAmount).toBe(spec.loanAmount);
+      expect(result.yearlyData[spec.purchaseYear].purchaseCost).toBe(spec.purchasePrice);
+      expect(p.ledger[spec.purchaseYear + 1].rentalIncome).toBeCloseTo((spec.purchasePrice * spec.rentalYield) / 100, 2);
+    });
+  });
+});
+
+describe("getInterestRateForYear", () => {
+  it("applies the latest step at or before the year", () => {
+    const rateSchedule = { type: "overrides" as const, steps: [{ year: 6, rate: 5.5 }, { year: 3, rate: 4.5 }] };
+    expect([1, 3, 5, 6, 30].map((year) => getInterestRateForYear({ interestRate: 4, rateSchedule }, year))).toEqual([
+      4, 4.5, 4.5, 5.5, 5.5,
+    ]);
+  });
+
+  it("adds the spread to the base rate", () => {
+    const rateSchedule = { type: "baseSpread" as const, baseRate: 3, steps: [{ year: 1, rate: 1.2 }, { year: 4, rate: 0.8 }] };
+    expect(getInterestRateForYear({ interestRate: 4, rateSchedule }, 2)).toBeCloseTo(4.2, 10);
+    expect(getInterestRateForYear({ interestRate: 4, rateSchedule }, 4)).toBeCloseTo(3.8, 10);
+  });
+
+  it("keeps the single rate on a fixed schedule", () => {
+    const rateSchedule = { type: "fixed" as const, steps: [{ year: 2, rate: 9 }] };
+    expect(getInterestRateForYear({ interestRate: 4, rateSchedule }, 5)).toBe(4);
+  });
+});
+
+describe("market-indexed purchases", () => {
+  const INDEXED: CalculatorInputs = { ...BASE, indexFuturePurchases: true, priceGrowthRate: 4, purchaseMonth: 7 };
+
+  it("leaves a January year-1 purchase at today's price", () => {
+    expect(getPurchasePriceIndex(INDEXED, 1, 1)).toBe(1);
+    expect(getPurchasePriceIndex({ ...INDEXED, indexFuturePurchases: false }, 7, 7)).toBe(1);
+  });
+
+  it("prices interval units at the market level of their purchase month", () => {
+    const result = calculatePropertyPlan(INDEXED);
+    for (const p of result.properties) {
+      const months = (p.purchaseYear - 1) * 12 + 6;
+      expect(p.purchasePrice).toBeCloseTo(BASE.purchasePrice * 1.04 ** (months / 12), 2);
+      expect(p.requestedLoan).toBeCloseTo(BASE.loanAmount * 1.04 ** (months / 12), 2);
+    }
+  });
+
+  it("keeps the prices of listed properties as entered", () => {
+    const properties = generatePropertyList(INDEXED).map((spec, i) => ({ ...spec, purchasePrice: 400_000 + i * 50_000 }));
+    const result = calculatePropertyPlan({ ...INDEXED, properties });
+    expect(result.properties.map((p) => p.purchasePrice)).toEqual(properties.map((p) => p.purchasePrice));
+    expect(result.properties.map((p) => p.requestedLoan)).toEqual(properties.map((p) => p.loanAmount));
+  });
+});
+
+describe("margin of financing", () => {
+  const unit = {
+    purchasePrice: 500_000,
+    marketValue: 500_000,
+    loanAmount: 450_000,
+    rentalYield: 5,
+    expenseType: "fixed" as const,
+    expenseValue: 0,
+    purchaseYear: 1,
+    purchaseMonth: 1,
+  };
+  const inputs: CalculatorInputs = {
+    ...BASE,
+    applyLtvLimits: true,
+    dsr: { ...DEFAULT_DSR_SETTINGS, enabled: true, existingCommitments: 0, bank: "custom", customLimit: 70 },
+    properties: [
+      { ...unit, id: "a", name: "A" },
+      { ...unit, id: "b", name: "Too big", purchasePrice: 5_000_000, marketValue: 5_000_000, loanAmount: 4_500_000 },
+      { ...unit, id: "c", name: "C" },
+    ],
+  };
+
+  it("counts only the loans the bank approves toward the third-loan margin", () => {
+    const result = calculatePropertyPlan(inputs);
+    expect(result.blockedPurchases.map((b) => b.id)).toEqual(["b"]);
+    expect(result.properties.find((p) => p.id === "c")?.loanAmount).toBe(450_000);
+  });
+
+  it("cuts the third approved loan to 70%", () => {
+    const approved = { ...inputs, properties: inputs.properties!.map((p) => (p.id === "b" ? { ...unit, id: "b", name: "B" } : p)) };
+    const result = calculatePropertyPlan(approved);
+    expect(result.properties.map((p) => p.loanAmount)).toEqual([450_000, 450_000, 350_000]);
+  });
+});
+
+describe("off-plan purchases", () => {
+  const offPlan: CalculatorInputs = {
+    ...BASE,
+    maxProperties: 1,
+    loanAmount: 350_000,
+    construction: { ...DEFAULT_CONSTRUCTION, enabled: true, constructionMonths: 42 },
+  };
+
+  it("pays the deposit with the first Schedule H billings", () => {
+    const result = calculatePropertyPlan(offPlan);
+    // SPA and foundation in year 1, the structure's 15% in year 2 completes the 30% share
+    expect(result.yearlyData[1].deposits).toBeCloseTo(100_000, 2);
+    expect(result.yearlyData[2].deposits).toBeCloseTo(50_000, 2);
+    expect(sum(result.yearlyData.map((d) => d.deposits ?? 0))).toBeCloseTo(150_000, 2);
+  });
+
+  it("keeps staged deposits out of the first negative cash-flow year", () => {
+    // Under DIBS nothing but the deposit is paid before handover, and rent from handover covers the instalments
+    const construction = { ...offPlan.construction!, dibs: true, fitOutMonths: 0 };
+    const inputs = { ...offPlan, rentalYield: 8, construction };
+    expect(calculatePropertyPlan(inputs).yearlyData[2].deposits).toBeGreaterThan(0);
+    expect(evaluatePlan({ inputs, stockInputs: null }).firstNegativeCashFlowYear).toBeNull();
+  });
+});
+
+describe("calculateStockReinvestment", () => {
+  // Cashback on every purchase puts new money into stocks in several years
+  const inputs: CalculatorInputs = { ...BASE, loanAmount: 550_000, currentMarketValue: 650_000 };
+  const stock: StockInputs = {
+    enableStockReinvestment: true,
+    stockDividendYield: 0,
+    stockDiscount: 20,
+    stockAppreciation: 0,
+    reinvestDividends: true,
+  };
+
+  it("reports no time-weighted return when the price never moves", () => {
+    const result = calculateStockReinvestment(stock, inputs, calculatePropertyPlan(inputs));
+    expect(result.yearlyData.some((d) => d.cashbackAmount > 0 && d.stockPortfolioValue > d.cashbackAmount)).toBe(true);
+    expect(result.timeWeightedReturn).toBeCloseTo(0, 6);
+  });
+
+  it("reports the price growth as the time-weighted return", () => {
+    const result = calculateStockReinvestment({ ...stock, stockAppreciation: 5 }, inputs, calculatePropertyPlan(inputs));
+    expect(result.timeWeightedReturn).toBeCloseTo(5, 6);
+  });
+
+  it("leaves the cash later deposits need in the account", () => {
+    // Each unit's rent beats its instalments, but every purchase needs a RM 50k deposit
+    const cashAccount = { ...DEFAULT_CASH_ACCOUNT, enabled: true, startingBalance: 90_000, monthlySavings: 0 };
+    const withCash: CalculatorInputs = { ...BASE, rentalYield: 8, cashAccount };
+    const plan = calculatePropertyPlan(withCash);
+    expect(plan.unfundedPurchases).toHaveLength(0);
+    expect(plan.liquidity?.firstBelowFloor).toBeNull();
+
+    const result = calculateStockReinvestment(stock, withCash, plan);
+    expect(result.yearlyData.some((d) => d.cashFlowInvested > 0)).toBe(true);
+    // Each year's stock buys leave at year end and forgo FD interest from then on
+    const fdMonthly = 1 + cashAccount.fdRate / 100 / 12;
+    let drawn = 0;
+    for (const m of plan.monthlyData) {
+      drawn *= fdMonthly;
+      if (m.calendarMonth === 12) {
+        const d = result.yearlyData[m.year];
+        drawn += d.cashbackAmount + d.cashFlowInvested;
+      }
+      expect(m.cashBalance! - drawn).toBeGreaterThanOrEqual(cashAccount.emergencyFloor - 1e-6);
+    }
+  });
+});
+
+describe("leasehold units", () => {
+  const leasehold = (leaseYears: number) => ({ ...DEFAULT_LEASEHOLD, enabled: true, leaseYears });
+  const single: CalculatorInputs = { ...BASE, maxProperties: 1 };
+
+  it("reverts a unit to the state when its lease runs out", () => {
+    const result = calculatePropertyPlan({ ...single, loanAmount: 0, leasehold: leasehold(20) });
+    const [unit] = result.properties;
+    expect(unit.lease?.expiryYear).toBe(20);
+    expect(unit.ledger[20].rentalIncome).toBeGreaterThan(0);
+    expect(unit.ledger[21].owned).toBe(false);
+    expect(unit.ledger[21].rentalIncome).toBe(0);
+    expect(unit.ledger[21].expense).toBe(0);
+    expect(result.yearlyData[21].propertiesOwned).toBe(0);
+    expect(result.yearlyData[21].totalAssetValue).toBe(0);
+  });
+
+  it("does not buy a unit whose lease has run out", () => {
+    const result = calculatePropertyPlan({ ...single, leasehold: leasehold(0) });
+    expect(result.properties).toHaveLength(0);
+    expect(result.shortLeasePurchases).toHaveLength(1);
+  });
+
+  it("does not buy a unit that needs a loan on a lease banks will not finance", () => {
+    const result = calculatePropertyPlan({ ...single, leasehold: leasehold(DEFAULT_LEASEHOLD.minFinanceableYears - 1) });
+    expect(result.properties).toHaveLength(0);
+    expect(result.shortLeasePurchases[0].leaseYears).toBe(DEFAULT_LEASEHOLD.minFinanceableYears - 1);
+  });
+
+  it("cuts the loan tenure to leave the lease banks want at maturity", () => {
+    const result = calculatePropertyPlan({ ...single, leasehold: leasehold(40) });
+    expect(result.properties[0].lease?.loanTenure).toBe(40 - DEFAULT_LEASEHOLD.leaseAtMaturityYears);
+  });
+});
+
+describe("income tax on rent", () => {
+  const unit = {
+    purchasePrice: 500_000,
+    marketValue: 500_000,
+    expenseType: "fixed" as const,
+    expenseValue: 0,
+    purchaseYear: 1,
+    purchaseMonth: 1,
+  };
+  const inputs: CalculatorInputs = {
+    ...BASE,
+    includeIncomeTax: true,
+    employmentIncome: 100_000,
+    properties: [
+      { ...unit, id: "p1", name: "Paid off", loanAmount: 0, rentalYield: 6 },
+      { ...unit, id: "p2", name: "Geared", loanAmount: 450_000, rentalYield: 2 },
+    ],
+  };
+
+  it("sets one unit's loss against another's profit", () => {
+    const result = calculatePropertyPlan(inputs);
+    const [paidOff, geared] = result.properties.map((p) => p.ledger[2]);
+    expect(geared.rentalIncome - geared.interest).toBeLessThan(0);
+    const pooled = paidOff.rentalIncome + geared.rentalIncome - geared.interest;
+    expect(result.yearlyData[2].taxableRentalIncome).toBeCloseTo(pooled, 2);
+    expect(result.yearlyData[2].incomeTax).toBeCloseTo(
+      calculateRentalIncomeTax({ rentalIncome: pooled, employmentIncome: 100_000, reliefs: DEFAULT_PERSONAL_RELIEF }),
+      2
+    );
+    expect(geared.incomeTax).toBe(0);
+  });
+
+  it("charges nothing when the units lose money overall", () => {
+    const losing = { ...inputs, properties: inputs.properties!.map((p) => ({ ...p, rentalYield: 1, loanAmount: 450_000 })) };
+    const result = calculatePropertyPlan(losing);
+    expect(result.yearlyData[2].taxableRentalIncome).toBe(0);
+    expect(result.yearlyData[2].incomeTax).toBe(0);
+  });
+});
+
+describe("getInputErrors", () => {
+  it("checks the short-term rental settings only when a unit is let short term", () => {
+    const broken = { ...DEFAULT_SHORT_TERM_RENTAL, furnitureLifeYears: 0 };
+    expect(getInputErrors({ ...BASE, shortTermRental: broken })).toEqual([]);
+    expect(getInputErrors({ ...BASE, shortTermRental: { ...broken, enabled: true } })).toHaveLength(1);
+  });
+});
@@ -2,21 +2,386 @@
 // PropertyLab - Net Equity Calculator Engine
 // All formulas preserved from the original HTML version
 // + Monthly expense per property (fixed RM or % of instalment)
+// + Month-by-month simulation rolled up into yearly data
+// + Variable interest-rate path with re-amortised instalments
+// + Explicit list of heterogeneous properties (interval model as a generator)
+// + Optional indexing of later purchases to the market level of their year
+// + Malaysian acquisition costs (stamp duty, legal and valuation fees)
+// + Disposal events with sale costs and RPGT
+// + Scheduled or LTV-triggered refinancing with cash-out
+// + Rent escalation, vacancy and rent reviews on price or market value
+// + Malaysian income tax on net rental income
+// + Optional year-by-year market path (used by the Monte Carlo runner)
+// + Bank DSR check on each purchase; declined purchases are skipped
+// + Personal cash account paying deposits and shortfalls
+// + BNM margin-of-financing caps and deposits paid on completion
+// + Flexi loans: surplus parked against the loans, redrawn for shortfalls
+// + Islamic financing (BBA, MM): ceiling profit rate and ibra' on settlement
+// + Itemised holding costs, each escalating at its own rate
+// + Under-construction purchases: Schedule H drawdown, DIBS and deferred rent
+// + Short-term rental: nightly rate, seasonal occupancy, fees and furnishing
+// + Leasehold tenure: lease-decay valuation, loans limited by the lease left,
+//   and reversion to the state when the lease runs out
 // ============================================================
 
+import {
+  calculateAcquisitionCosts,
+  type AcquisitionCostBreakdown,
+} from "./acquisitionCosts";
+import { calculateSale, type RpgtCategory, type SaleBreakdown } from "./disposal";
+import {
+  calculateRefinanceFees,
+  isRefinanceEnabled,
+  type RefinanceEvent,
+  type RefinancePlan,
+} from "./refinance";
+import {
+  calculateRentalIncomeTax,
+  DEFAULT_PERSONAL_RELIEF,
+  getDeductibleHoldingCosts,
+} from "./incomeTax";
+import {
+  calculateDsr,
+  getBankPolicy,
+  getDsrLimit,
+  getNetIncomeForMonth,
+  isDsrEnabled,
+  type BankPolicy,
+  type BlockedPurchase,
+  type DsrSettings,
+} from "./dsr";
+import type { MonteCarloSettings } from "./monteCarlo";
+import {
+  getDeposit,
+  getMarginOfFinance,
+  type LoanInputMode,
+  type UnfundedPurchase,
+} from "./financing";
+import {
+  getMonthlyInterest,
+  getMonthlySavings,
+  getSpareCash,
+  isCashAccountEnabled,
+  summariseLiquidity,
+  type CashAccountSettings,
+  type LiquiditySummary,
+} from "./cashAccount";
+import {
+  isFlexiLoan,
+  type FlexiLoanSettings,
+  type FlexiLoanSummary,
+} from "./flexiLoan";
+import {
+  calculateIbra,
+  getEffectiveProfitRate,
+  isIslamicFinancing,
+  type IslamicFinancingSettings,
+} from "./islamicFinancing";
+import {
+  getMonthlyHoldingCosts,
+  getTotalHoldingCost,
+  isHoldingCostsEnabled,
+  NO_HOLDING_COSTS,
+  sumHoldingCosts,
+  type HoldingCostBreakdown,
+  type HoldingCostSettings,
+} from "./holdingCosts";
+import {
+  getBilledShare,
+  getDrawnLoan,
+  getOwnPayment,
+  isConstructionEnabled,
+  DEFAULT_CONSTRUCTION,
+  type ConstructionSettings,
+} from "./construction";
+import {
+  DEFAULT_SHORT_TERM_RENTAL,
+  getDeductibleShortTermRentalCosts,
+  getMonthlyShortTermRental,
+  getShortTermRentalCosts,
+  getShortTermRentalErrors,
+  isShortTermRentalEnabled,
+  sumShortTermRental,
+  type ShortTermRentalBreakdown,
+  type ShortTermRentalSettings,
+} from "./shortTermRental";
+import {
+  DEFAULT_LEASEHOLD,
+  getLeaseholdLoanTenure,
+  getLeaseValueFactor,
+  isLeaseholdEnabled,
+  type LeaseholdSettings,
+  type ShortLeasePurchase,
+  type TenureType,
+} from "./leasehold";
+import {
+  getCollectedAnnualRent,
+  getLastReviewYear,
+  getReviewedRent,
+  getVacancyRate,
+  type RentBasis,
+  type RentPolicy,
+  type VacancyType,
+} from "./rent";
+import {
+  calculateReturnMetrics,
+  calculateTimeWeightedReturn,
+  DEFAULT_DISCOUNT_RATE,
+  type ReturnMetrics,
+} from "./returns";
+
 export interface CalculatorInputs {
   purchasePrice: number;
   currentMarketValue: number; // user-entered market value
-  loanAmount: number; // user-entered loan amount
+  loanAmount: number; // user-entered loan amount, or derived from ltv in "ltv" mode
+  loanInputMode?: LoanInputMode; // how InputPanel takes the loan, default "amount"
+  ltv?: number; // % of market value, used in "ltv" mode
+  applyLtvLimits?: boolean; // cap each loan at BNM's margin of financing (90%, 70% from the third)
   maxProperties: number;
   appreciationRate: number; // e.g., 3 for 3%
   rentalYield: number; // e.g., 8 for 8%
-  interestRate: number; // e.g., 4 for 4%
+  interestRate: number; // e.g., 4 for 4% — used for every year unless rateSchedule says otherwise
+  rateSchedule?: RateSchedule; // floating-rate path applied to all outstanding loans
   buyInterval: number; // years between purchases
   startingYear: number;
   age: number; // user's current age — tenure = min(70 - age, 35)
   expenseType: "fixed" | "percentage"; // fixed RM or % of monthly instalment
   expenseValue: number; // RM amount (monthly) or percentage (e.g., 10 for 10% of instalment)
+  purchaseMonth?: number; // 1–12, month of the year each purchase completes (default January)
+  rentStartDelayMonths?: number; // months after completion before the first rent is received
+  properties?: PropertySpec[]; // explicit portfolio; when empty the interval model generates one
+  indexFuturePurchases?: boolean; // price, loan and rent of later purchases grow with the market
+  priceGrowthRate?: number; // % p.a. used for that indexing; defaults to appreciationRate
+  includeAcquisitionCosts?: boolean; // stamp duty, legal and valuation fees on each purchase
+  firstHomeExemption?: boolean; // first purchase qualifies for the first-home stamp duty exemption
+  sellAfterYears?: number; // sell every unit after this many years held; 0 / omitted = hold
+  agentCommissionRate?: number; // % of sale price, default 3
+  rpgtCategory?: RpgtCategory; // default "citizen"
+  saleProceedsTo?: "cash" | "stock"; // where net sale proceeds go, default "cash"
+  refinance?: RefinancePlan; // applied to every unit; omitted = never refinance
+  rentGrowthRate?: number; // % p.a. rent escalation on the purchase-price basis, default 0
+  vacancyType?: VacancyType; // how vacancyValue is read, default "months"
+  vacancyValue?: number; // vacant months per year, or % of rent lost; default 0
+  rentBasis?: RentBasis; // yield on purchase price (default) or current market value
+  rentReviewYears?: number; // rent is re-set every N years of letting, default 1
+  includeIncomeTax?: boolean; // tax net rental income at resident rates
+  employmentIncome?: number; // RM per year, sets the marginal rate on rent; default 0
+  taxReliefs?: number; // RM per year, default the RM 9,000 individual relief
+  monteCarlo?: MonteCarloSettings; // distributions for the stochastic run; omitted = off
+  dsr?: DsrSettings; // borrower income and bank DSR rules checked at each purchase; omitted = off
+  cashAccount?: CashAccountSettings; // investor's own cash funding deposits and shortfalls; omitted = not tracked, and no purchase is checked for funding
+  flexiLoan?: FlexiLoanSettings; // loan type and prepayment strategy; omitted = term loans
+  islamicFinancing?: IslamicFinancingSettings; // BBA or MM with a ceiling profit rate; omitted = conventional
+  holdingCosts?: HoldingCostSettings; // itemised running costs in place of expenseType/expenseValue; omitted = single expense
+  construction?: ConstructionSettings; // interval units bought off-plan, and every off-plan unit's fit-out; omitted = completed units
+  shortTermRental?: ShortTermRentalSettings; // interval units let by the night, and every short-let unit's bookings and costs; omitted = tenancies
+  leasehold?: LeaseholdSettings; // interval units held on a lease, and every leasehold unit's decay curve and bank limits; omitted = freehold
+  horizonYears?: number; // years simulated, default 30
+  milestoneYears?: number[]; // simulation years reported as milestones, default 10, 20 and 30
+  discountRate?: number; // % p.a. for NPV, default 6
+}
+
+/** One property in an explicit portfolio list */
+export interface PropertySpec {
+  id: string;
+  name: string; // e.g. "Condo", "Terrace", "Shoplot"
+  purchasePrice: number;
+  marketValue: number;
+  loanAmount: number;
+  interestRate?: number; // % p.a. in the purchase year; omitted = follow the portfolio rate path
+  rentalYield: number; // % of purchase price, e.g. 8 for 8%
+  expenseType: "fixed" | "percentage";
+  expenseValue: number; // RM per month or % of this property's instalment
+  purchaseYear: number; // simulation year (1 = first year)
+  purchaseMonth: number; // 1–12, completion, or the SPA signing for a unit under construction
+  sellAfterYears?: number; // overrides the portfolio sale rule; 0 = hold
+  constructionMonths?: number; // SPA to vacant possession; omitted / 0 = a completed unit
+  dibs?: boolean; // developer bears the interest during construction
+  shortTermRental?: boolean; // let by the night in place of rentalYield
+  tenure?: TenureType; // omitted = freehold
+  leaseYears?: number; // left on a leasehold title at purchase, or at the SPA off-plan
+}
+
+/** A rate (or spread) in % p.a. that applies from the start of `year` onwards */
+export interface RateStep {
+  year: number; // simulation year (1 = first year)
+  rate: number; // e.g., 4.25 for 4.25%
+}
+
+/**
+ * Interest-rate path for floating loans.
+ * - "fixed": interestRate for every year (the original behaviour)
+ * - "overrides": year-indexed rates; years before the first step use interestRate
+ * - "baseSpread": baseRate (e.g. the bank's SBR) plus a spread that steps by year
+ */
+export interface RateSchedule {
+  type: "fixed" | "overrides" | "baseSpread";
+  steps: RateStep[];
+  baseRate?: number; // % p.a., only used by "baseSpread"
+}
+
+/**
+ * Interest rate (in %) that applies in a given simulation year.
+ * Steps are applied in year order; the latest step at or before `year` wins.
+ */
+export function getInterestRateForYear(
+  inputs: Pick<CalculatorInputs, "interestRate" | "rateSchedule">,
+  year: number
+): number {
+  const schedule = inputs.rateSchedule;
+  if (!schedule || schedule.type === "fixed") return inputs.interestRate;
+
+  const step = [...schedule.steps]
+    .sort((a, b) => a.year - b.year)
+    .filter((s) => s.year <= year)
+    .pop();
+
+  if (schedule.type === "baseSpread") {
+    return (schedule.baseRate ?? 0) + (step?.rate ?? 0);
+  }
+  return step ? step.rate : inputs.interestRate;
+}
+
+/**
+ * Year-by-year market rates that replace the flat assumptions, e.g. one
+ * Monte Carlo trial. Decimal rates, index 0 = year 1.
+ */
+export interface MarketPath {
+  appreciation: number[]; // property value growth
+  interestRates: number[]; // portfolio rate path for floating loans
+  rentGrowth: number[]; // rent escalation on the purchase-price basis
+}
+
+/**
+ * The original interval model expressed as a property list: `maxProperties`
+ * identical units, one every `buyInterval` years, all completing (or, off
+ * plan, signed) in `purchaseMonth`. Purchases that would fall beyond the horizon are dropped.
+ */
+export function generatePropertyList(
+  inputs: Pick<
+    CalculatorInputs,
+    | "horizonYears"
+    | "purchasePrice"
+    | "currentMarketValue"
+    | "loanAmount"
+    | "maxProperties"
+    | "rentalYield"
+    | "buyInterval"
+    | "expenseType"
+    | "expenseValue"
+    | "purchaseMonth"
+    | "construction"
+    | "shortTermRental"
+    | "leasehold"
+  >
+): PropertySpec[] {
+  const purchaseMonth = Math.min(12, Math.max(1, inputs.purchaseMonth ?? 1));
+  const construction = isConstructionEnabled(inputs.construction) ? inputs.construction : null;
+  const shortTermRental = isShortTermRentalEnabled(inputs.shortTermRental);
+  const leasehold = isLeaseholdEnabled(inputs.leasehold) ? inputs.leasehold : null;
+  const horizon = resolveHorizon(inputs);
+  const list: PropertySpec[] = [];
+  for (let i = 0; i < inputs.maxProperties; i++) {
+    const purchaseYear = 1 + i * inputs.buyInterval;
+    if (purchaseYear > horizon) break;
+    list.push({
+      id: `p${i + 1}`,
+      name: `Property #${i + 1}`,
+      purchasePrice: inputs.purchasePrice,
+      marketValue: inputs.currentMarketValue,
+      loanAmount: inputs.loanAmount,
+      rentalYield: inputs.rentalYield,
+      expenseType: inputs.expenseType,
+      expenseValue: inputs.expenseValue,
+      purchaseYear,
+      purchaseMonth,
+      ...(construction
+        ? { constructionMonths: construction.constructionMonths, dibs: construction.dibs }
+        : {}),
+      ...(shortTermRental ? { shortTermRental } : {}),
+      ...(leasehold ? { tenure: "leasehold" as const, leaseYears: leasehold.leaseYears } : {}),
+    });
+  }
+  return list;
+}
+
+export const DEFAULT_HORIZON_YEARS = 30;
+export const MAX_HORIZON_YEARS = 70;
+export const DEFAULT_MILESTONE_YEARS = [10, 20, 30];
+
+/** Years the plan is simulated for, a whole number from 1 to MAX_HORIZON_YEARS */
+export function resolveHorizon(inputs: Pick<CalculatorInputs, "horizonYears">): number {
+  const years = Math.round(inputs.horizonYears ?? DEFAULT_HORIZON_YEARS);
+  return Math.min(MAX_HORIZON_YEARS, Math.max(1, years || DEFAULT_HORIZON_YEARS));
+}
+
+/**
+ * Milestone years within the horizon, in order and without repeats. The
+ * horizon itself is always the last milestone.
+ */
+export function resolveMilestoneYears(
+  inputs: Pick<CalculatorInputs, "horizonYears" | "milestoneYears">
+): number[] {
+  const horizon = resolveHorizon(inputs);
+  const years = (inputs.milestoneYears ?? DEFAULT_MILESTONE_YEARS)
+    .map((y) => Math.round(y))
+    .filter((y) => y >= 1 && y < horizon);
+  return [...Array.from(new Set(years)).sort((a, b) => a - b), horizon];
+}
+
+/** Properties the engine will simulate: the explicit list, or the generated one */
+export function resolveProperties(inputs: CalculatorInputs): PropertySpec[] {
+  return inputs.properties && inputs.properties.length > 0
+    ? inputs.properties
+    : generatePropertyList(inputs);
+}
+
+/** Settings the plan cannot be simulated with, as messages for the user; empty when sound */
+export function getInputErrors(inputs: CalculatorInputs): string[] {
+  const letsShortTerm = resolveProperties(inputs).some((p) => p.shortTermRental);
+  return letsShortTerm
+    ? getShortTermRentalErrors(inputs.shortTermRental ?? DEFAULT_SHORT_TERM_RENTAL)
+    : [];
+}
+
+/** Months from the start of the plan to a purchase in `purchaseYear` and `purchaseMonth` */
+function getMonthsToPurchase(purchaseYear: number, purchaseMonth: number): number {
+  const month = Math.min(12, Math.max(1, purchaseMonth || 1));
+  return Math.max(0, (purchaseYear - 1) * 12 + month - 1);
+}
+
+/**
+ * Market index applied to a purchase in `purchaseYear` and `purchaseMonth`:
+ * 1 for a purchase in January of year 1, compounding monthly at the
+ * price-growth rate up to the purchase month.
+ * Returns 1 for every purchase unless indexFuturePurchases is on.
+ */
+export function getPurchasePriceIndex(
+  inputs: Pick<
+    CalculatorInputs,
+    "indexFuturePurchases" | "priceGrowthRate" | "appreciationRate"
+  >,
+  purchaseYear: number,
+  purchaseMonth = 1
+): number {
+  if (!inputs.indexFuturePurchases) return 1;
+  const growth = (inputs.priceGrowthRate ?? inputs.appreciationRate) / 100;
+  return Math.pow(1 + growth, getMonthsToPurchase(purchaseYear, purchaseMonth) / 12);
+}
+
+/** Rent escalation, vacancy and review settings in decimal form */
+export function getRentPolicy(
+  inputs: Pick<
+    CalculatorInputs,
+    "rentGrowthRate" | "vacancyType" | "vacancyValue" | "rentBasis" | "rentReviewYears"
+  >
+): RentPolicy {
+  return {
+    growthRate: (inputs.rentGrowthRate ?? 0) / 100,
+    vacancyRate: getVacancyRate(inputs.vacancyType ?? "months", inputs.vacancyValue ?? 0),
+    basis: inputs.rentBasis ?? "purchasePrice",
+    reviewYears: Math.max(1, Math.round(inputs.rentReviewYears ?? 1)),
+  };
 }
 
 /** Derive loan tenure from age: min(70 - age, 35), minimum 5 */
@@ -27,15 +392,160 @@ export function calculateTenure(age: number): number {
 export interface YearlyData {
   year: number;
   calendarYear: number;
+  interestRate: number; // % p.a. applying to all loans this year
+  effectiveRate: number | null; // % p.a. profit rate charged under Islamic financing, after the ceiling
   propertiesOwned: number;
   totalAssetValue: number;
   totalLoanBalance: number;
   netEquity: number;
-  annualCashFlow: number;
-  cumulativeCashFlow: number;
+  annualCashFlow: number; // rent - instalments - expenses - deposits - acquisition costs - income tax
+  cumulativeCashFlow: number; // running cash flow plus net sale proceeds kept as cash
   annualRentalIncome: number;
   annualMortgagePayment: number;
+  annualInterest: number; // interest part of the instalments
   annualExpense: number;
+  holdingCosts: HoldingCostBreakdown | null; // the year's expense item by item, null on the single-expense model
+  taxableRentalIncome: number; // rent - interest - deductible expenses over every unit, 0 when a loss
+  incomeTax: number; // tax on rental income assessed for this year
+  purchaseCost: number; // total price paid for properties completing this year
+  purchaseLoan: number; // total loans drawn for properties completing this year
+  acquisitionCost: number; // stamp duty, legal and valuation fees paid this year
+  propertiesSold: number; // cumulative units sold
+  saleProceeds: number; // net cash released by sales this year (after costs, RPGT, redemption)
+  saleCosts: number; // agent commission and legal fees on sales this year
+  rpgt: number;
+  realisedGain: number; // after-tax gain on sales this year
+  cumulativeRealisedGain: number;
+  refinances: number; // refinance events this year
+  refinanceCashOut: number; // net cash released by refinancing this year (after fees and penalties)
+  refinanceCosts: number; // fees and lock-in penalties paid on refinancing this year
+  dsr: number | null; // % at year end, null when eligibility is not checked
+  dsrLimit: number | null; // % the bank allows at year-end income
+  purchasesBlocked: number; // scheduled purchases the bank declined this year
+  deposits: number; // price above the loan, paid from own cash on completion
+  cashback: number; // loan above the price, received on completion
+  cashInjected: number; // own cash put in: each month's shortfall, deposits and costs included
+  prepayment: number; // surplus parked against flexi loans this year
+  redraw: number; // parked money taken back this year, after redraw fees
+  interestSaved: number; // interest the instalment schedule would have charged, less what was paid
+  ibra: number; // unearned profit rebated on BBA financing settled early this year
+  cashInterest: number; // FD interest earned by the cash account this year
+  cashBalance: number | null; // cash account at year end, null when not tracked
+  cashOnCash: number | null; // % rent less instalments, expenses and tax over own cash put in so far
+  underConstruction: number; // units bought off-plan and not yet handed over at year end
+  developerInterest: number; // progressive interest borne by developers under DIBS this year
+  shortTermRental: ShortTermRentalBreakdown | null; // short-let bookings and costs this year, null when no unit is let short term
+}
+
+export interface MonthlyData {
+  month: number; // 0-based month index from the start of year 1
+  year: number; // simulation year this month rolls up into
+  calendarYear: number;
+  calendarMonth: number; // 1–12
+  propertiesOwned: number;
+  totalAssetValue: number;
+  totalLoanBalance: number;
+  netEquity: number;
+  rentalIncome: number;
+  mortgagePayment: number;
+  interest: number;
+  expense: number;
+  acquisitionCost: number;
+  taxableRentalIncome: number; // set in December, for the whole year
+  incomeTax: number; // paid in December, for the whole year
+  saleProceeds: number;
+  saleCosts: number;
+  rpgt: number;
+  realisedGain: number;
+  propertiesSold: number;
+  refinances: number;
+  refinanceCashOut: number;
+  refinanceCosts: number;
+  dsr: number | null; // commitments over recognised income, %
+  dsrLimit: number | null;
+  purchasesBlocked: number;
+  deposits: number;
+  cashback: number;
+  cashInjected: number;
+  prepayment: number;
+  redraw: number;
+  interestSaved: number;
+  ibra: number;
+  cashInterest: number;
+  cashBalance: number | null;
+  cashFlow: number;
+  cumulativeCashFlow: number;
+}
+
+/**
+ * One property's line in the ledger for a simulation year: values and
+ * balances at year end, flows summed over the year. Portfolio totals,
+ * per-property results and the stock engine are all read from it.
+ */
+export interface PropertyLedgerEntry {
+  year: number;
+  owned: boolean; // at year end
+  assetValue: number;
+  loanBalance: number; // net of money parked against a flexi loan
+  rentalIncome: number; // collected, after vacancy
+  interest: number;
+  principal: number; // instalments less interest
+  expense: number;
+  holdingCosts: HoldingCostBreakdown | null; // expense item by item, null on the single-expense model
+  acquisitionCost: number;
+  deposit: number;
+  cashback: number;
+  incomeTax: number;
+  cashFlow: number; // rent - instalments - expenses - deposit - acquisition costs - income tax
+  cashReleased: number; // sale proceeds and refinance cash-out kept as cash, plus redraws less prepayments
+  investorCash: number; // cash flow, cashback, sale proceeds, cash-out and redraws less prepayments, wherever they go
+  netEquity: number; // value - balance + cumulative cash flow and cash released
+  underConstruction: boolean; // at year end
+  developerInterest: number; // progressive interest borne by the developer under DIBS
+  shortTermRental: ShortTermRentalBreakdown | null; // bookings and costs, null unless let short term this year
+}
+
+/** A leasehold unit's lease over the simulation */
+export interface PropertyLease {
+  yearsAtPurchase: number;
+  yearsAtEnd: number; // at the horizon, or when the unit is sold
+  loanTenure: number; // years the bank lends over once the lease is taken into account, 0 when bought in cash
+  unfinanceableYear: number | null; // simulation year the lease falls below what banks finance while held, null if it never does
+  expiryYear: number | null; // simulation year the lease runs out and the unit reverts, null if not within the horizon
+}
+
+/** Yearly contribution of one property, indexed by simulation year (0 = start) */
+export interface PropertyContribution {
+  id: string;
+  name: string;
+  purchaseYear: number;
+  purchaseMonth: number;
+  purchasePrice: number;
+  loanAmount: number; // after any margin-of-financing cap
+  requestedLoan: number; // loan as entered, before the cap
+  monthlyPayment: number; // first instalment
+  sellingPrice: number | null; // BBA selling price of the first financing, null otherwise
+  ibra: number; // rebated on every early settlement of the unit's financing
+  vacantPossession: { year: number; month: number } | null; // handover of an off-plan unit, null when bought completed
+  shortTermRental: boolean; // let by the night rather than to a tenant
+  lease: PropertyLease | null; // null for freehold
+  acquisitionCosts: AcquisitionCostBreakdown;
+  saleYear: number | null; // simulation year the unit is sold in, null if held
+  sale: SaleBreakdown | null;
+  refinances: RefinanceEvent[];
+  flexi: {
+    prepaid: number; // parked against the loan over the horizon
+    interestSaved: number;
+    payoffYear: number | null; // simulation year the loan is cleared or sold
+    scheduledPayoffYear: number | null; // by instalments alone
+  } | null; // null for term loans
+  returns: ReturnMetrics; // on this unit's own cash stream
+  ledger: PropertyLedgerEntry[];
+  // Columns of the ledger, as results saved before it carried them
+  assetValue: number[];
+  loanBalance: number[];
+  annualCashFlow: number[];
+  netEquity: number[]; // value - balance + this property's cumulative cash flow
 }
 
 export interface SimulationResult {
@@ -47,17 +557,36 @@ export interface SimulationResult {
 }
 
 export interface FullSimulationResult {
-  results10: SimulationResult;
-  results20: SimulationResult;
-  results30: SimulationResult;
+  horizonYears: number; // years simulated; yearlyData runs from year 0 to here
+  milestones: Record<number, SimulationResult>; // keyed by simulation year, the horizon last
   yearlyData: YearlyData[];
-  monthlyPayment: number;
+  monthlyData: MonthlyData[];
+  monthlyPayment: number; // first instalment, at the year-1 rate
   loanAmount: number;
   marketValue: number;
-  annualRentalIncome: number;
+  annualRentalIncome: number; // first purchase's rent over its first 12 months from handover, after vacancy and any rent-free start
   annualExpensePerProperty: number;
   loanTenure: number;
   monthlyExpensePerProperty: number;
+  purchaseMonth: number;
+  rentStartDelayMonths: number;
+  properties: PropertyContribution[];
+  usesPropertyList: boolean; // true when inputs.properties drove the simulation
+  priceGrowthRate: number | null; // % p.a. indexing later purchases, null when not indexed
+  saleProceedsTo: "cash" | "stock";
+  refinanceCashOutTo: "cash" | "stock" | null; // null when refinancing is off
+  rentPolicy: RentPolicy;
+  blockedPurchases: BlockedPurchase[]; // empty when eligibility is not checked
+  unfundedPurchases: UnfundedPurchase[]; // purchases the cash account could not fund
+  shortLeasePurchases: ShortLeasePurchase[]; // leasehold purchases not made because the lease was too short
+  liquidity: LiquiditySummary | null; // null when no cash account is tracked
+  flexiLoan: FlexiLoanSummary | null; // null for term loans
+  islamicFinancing: IslamicFinancingSettings | null; // null for conventional loans
+  holdingCosts: HoldingCostSettings | null; // null on the single-expense model
+  fitOutMonths: number | null; // handover to letting of off-plan units, null when none is bought off-plan
+  shortTermRental: ShortTermRentalSettings | null; // null when no unit is let short term
+  leasehold: LeaseholdSettings | null; // null when every unit is freehold
+  returns: ReturnMetrics; // on the portfolio's cash stream, equity at the horizon cashed in
 }
 
 /**
@@ -85,287 +614,1750 @@ function calculateMonthlyPayment(
 }
 
 /**
- * Calculate remaining loan balance at a given point in time.
- * Uses the standard remaining balance formula for amortizing loans.
+ * A BBA contract as signed: the bank's selling price is every instalment at
+ * the ceiling rate over the full tenure, whatever rate is later charged.
+ */
+interface BbaContract {
+  sellingPrice: number;
+  ceilingPayment: number; // monthly instalment at the ceiling rate
+}
+
+function signBbaContract(
+  financingAmount: number,
+  ceilingRate: number,
+  years: number
+): BbaContract {
+  const ceilingPayment = calculateMonthlyPayment(financingAmount, ceilingRate / 100, years);
+  return { sellingPrice: ceilingPayment * years * 12, ceilingPayment };
+}
+
+/** Instalment and end-of-month balance for each payment of one loan */
+interface LoanSchedule {
+  payments: number[];
+  balances: number[];
+  interests: number[]; // interest part of each payment
+}
+
+/**
+ * Amortise a loan month by month against the yearly rate path.
+ * Whenever the rate changes, the instalment is re-amortised so the
+ * remaining balance is still repaid by the end of the original tenure.
+ */
+function buildLoanSchedule(
+  loanAmount: number,
+  loanTenureYears: number,
+  startMonth: number,
+  interestRates: number[]
+): LoanSchedule {
+  const tenureMonths = loanTenureYears * 12;
+  const payments: number[] = [];
+  const balances: number[] = [];
+  const interests: number[] = [];
+  let balance = loanAmount;
+  let rate = NaN;
+  let payment = 0;
+
+  for (let n = 0; n < tenureMonths; n++) {
+    const monthRate = rateForMonth(interestRates, startMonth + n);
+    if (monthRate !== rate) {
+      rate = monthRate;
+      payment = calculateMonthlyPayment(balance, rate, (tenureMonths - n) / 12);
+    }
+    const interest = (balance * rate) / 12;
+    balance = Math.max(0, balance + interest - payment);
+    payments.push(payment);
+    balances.push(balance);
+    interests.push(interest);
+  }
+
+  return { payments, balances, interests };
+}
+
+/**
+ * Calculate remaining loan balance after a given number of monthly payments,
+ * following the loan's (possibly re-amortised) schedule.
  */
 function calculateLoanBalance(
   loanAmount: number,
-  _monthlyPayment: number,
-  annualInterestRate: number,
-  yearsPaid: number,
-  loanTenureYears: number
+  schedule: LoanSchedule,
+  paymentsMade: number
 ): number {
-  const monthlyRate = annualInterestRate / 12;
-  const totalPayments = loanTenureYears * 12;
-  const paymentsMade = Math.min(yearsPaid, loanTenureYears) * 12;
+  if (paymentsMade <= 0) return loanAmount;
+  if (paymentsMade >= schedule.balances.length) return 0;
+  return schedule.balances[paymentsMade - 1];
+}
 
-  if (monthlyRate === 0) {
-    return Math.max(0, loanAmount - _monthlyPayment * paymentsMade);
+/** Annual rate (decimal) in force for a month; months past the horizon keep the last rate */
+function rateForMonth(interestRates: number[], month: number): number {
+  const yearIndex = Math.floor(month / 12);
+  return interestRates[Math.min(yearIndex, interestRates.length - 1)];
+}
+
+/**
+ * Cumulative growth index at each month boundary (index 0 = start of year 1)
+ * for yearly rates, compounding smoothly within each year.
+ */
+function buildGrowthIndex(rates: number[], years: number): number[] {
+  const index = [1];
+  for (let month = 0; month < years * 12; month++) {
+    const rate = rates[Math.min(Math.floor(month / 12), rates.length - 1)] ?? 0;
+    index.push(index[month] * Math.pow(1 + rate, 1 / 12));
   }
+  return index;
+}
 
-  const remainingBalance =
-    (loanAmount *
-      (Math.pow(1 + monthlyRate, totalPayments) -
-        Math.pow(1 + monthlyRate, paymentsMade))) /
-    (Math.pow(1 + monthlyRate, totalPayments) - 1);
+/** The loan currently secured on a property */
+interface ActiveLoan {
+  amount: number;
+  schedule: LoanSchedule;
+  startMonth: number; // month index of the first instalment
+  interestRates: number[]; // decimal rate for each simulation year
+  contract: BbaContract | null; // set for BBA financing
+}
+
+/**
+ * Ibra' when a loan is settled at the end of `month` with `balance` owed:
+ * the unearned part of a BBA selling price. Zero for other loans.
+ */
+function getSettlementIbra(loan: ActiveLoan, month: number, balance: number): number {
+  if (!loan.contract) return 0;
+  return calculateIbra({
+    ...loan.contract,
+    paymentsMade: Math.min(month - loan.startMonth + 1, loan.schedule.payments.length),
+    balance,
+  });
+}
 
-  return Math.max(0, remainingBalance);
+/** A loan's rate path with Islamic financing's ceiling applied */
+function capAtCeiling(rates: number[], islamic: IslamicFinancingSettings | null): number[] {
+  return islamic ? rates.map((r) => getEffectiveProfitRate(r, islamic.ceilingRate)) : rates;
+}
+
+/** A flexi loan's actual balance and the money parked against it */
+interface FlexiState {
+  balance: number; // owed on the current loan, before parked money
+  parked: number; // prepaid and not yet redrawn
+  closedMonth: number | null; // month the current loan was cleared
+  prepaid: number; // over every loan on the unit
+}
+
+/** One property ready to simulate, with rates and money already in decimal form */
+interface SimProperty {
+  spec: PropertySpec; // loan replaced when capped at the margin of financing
+  requestedLoan: number;
+  startMonth: number; // 0-based month index of completion, or of the SPA off-plan
+  handoverMonth: number; // vacant possession: instalments, expenses and the letting clock start
+  dibs: boolean; // developer bears the interest until handover
+  interestRates: number[]; // decimal rate for each simulation year, index 0 = year 1
+  schedule: LoanSchedule; // original loan
+  loan: ActiveLoan; // replaced on each refinance
+  sellingPrice: number | null; // BBA selling price of the original financing
+  refinances: RefinanceEvent[];
+  monthlyExpense: number; // single-expense model
+  priceScale: number; // itemised costs and short-let amounts relative to a unit at the plan's purchase price
+  loanTenure: number; // years of the original loan, shortened for a short lease
+  lease: { years: number; reversionMonth: number } | null; // left at the start month, and its last month; null for freehold
+  acquisitionCosts: AcquisitionCostBreakdown;
+  saleMonth: number | null; // month index in which the unit is sold (end of month)
+  sale: SaleBreakdown | null; // filled in when the sale month is simulated
+  blocked: BlockedPurchase | null; // set when the bank declines the loan
+  unfunded: UnfundedPurchase | null; // set when the deposit and costs can't be paid
+  shortLease: ShortLeasePurchase | null; // set when the lease is too short to buy
+  flexi: FlexiState | null; // null for term loans
+}
+
+interface PortfolioParams {
+  years: number;
+  startingYear: number;
+  valueIndex: number[]; // market value growth index by month boundary
+  rentIndex: number[]; // rent escalation index by month boundary
+  rentStartDelayMonths: number;
+  rentPolicy: RentPolicy;
+  properties: SimProperty[];
+  agentCommissionRate: number; // decimal
+  rpgtCategory: RpgtCategory;
+  proceedsToCash: boolean; // false = positive proceeds leave for the stock engine
+  refinance: RefinancePlan | null;
+  age: number; // borrower's age at the start, for the tenure of refinance loans
+  incomeTax: { employmentIncome: number; reliefs: number } | null; // null = rent untaxed
+  dsr: { settings: DsrSettings; policy: BankPolicy } | null; // null = every purchase goes ahead
+  cashAccount: CashAccountSettings | null; // null = own cash not tracked
+  ltvLimits: boolean; // cap each loan at the margin of financing on completion
+  flexiLoan: FlexiLoanSettings | null; // null = term loans, no prepayments
+  islamic: IslamicFinancingSettings | null; // null = conventional loans
+  holdingCosts: HoldingCostSettings | null; // null = each unit's single monthly expense
+  fitOutMonths: number; // between handover of an off-plan unit and the start of letting
+  shortTermRental: ShortTermRentalSettings; // bookings and costs of units let short term
+  leasehold: LeaseholdSettings; // decay curve, curve points in ascending years, and bank limits of leasehold units
 }
 
 /**
- * Simulate portfolio growth over a given number of years.
- * Cash flow = Rental Income - Mortgage Payment - Annual Expense (per property)
- * Net Equity = Total Asset Value - Total Loan Balance + Cumulative Cash Flow
+ * Rate path for one property. A property-specific rate replaces the portfolio
+ * rate in its purchase year and then moves with the portfolio path, so a
+ * floating-rate scenario shifts every loan by the same amount.
  */
-function simulatePortfolio(
+function propertyRatePath(
+  spec: PropertySpec,
+  portfolioRates: number[]
+): number[] {
+  if (spec.interestRate === undefined) return portfolioRates;
+  const anchor = portfolioRates[Math.max(0, spec.purchaseYear - 1)] ?? 0;
+  return portfolioRates.map(
+    (r) => Math.max(0, spec.interestRate! / 100 + r - anchor)
+  );
+}
+
+/** Scale a property's price, market value and loan by its purchase-month index */
+function indexProperty(spec: PropertySpec, index: number): PropertySpec {
+  if (index === 1) return spec;
+  return {
+    ...spec,
+    purchasePrice: spec.purchasePrice * index,
+    marketValue: spec.marketValue * index,
+    loanAmount: spec.loanAmount * index,
+  };
+}
+
+/** Nothing charged — used when acquisition costs are switched off */
+const NO_ACQUISITION_COSTS: AcquisitionCostBreakdown = {
+  motStampDuty: 0,
+  loanStampDuty: 0,
+  legalFees: 0,
+  valuationFee: 0,
+  total: 0,
+  firstHomeExempt: false,
+};
+
+function prepareProperty(
+  spec: PropertySpec,
+  portfolioRates: number[],
+  ageTenure: number,
   years: number,
-  _purchasePrice: number,
-  marketValue: number,
-  loanAmount: number,
-  monthlyPayment: number,
-  appreciationRate: number,
-  annualRentalIncome: number,
-  interestRate: number,
-  buyInterval: number,
-  maxProperties: number,
-  loanTenure: number,
-  annualExpensePerProperty: number
-): SimulationResult {
-  let propertiesOwned = 0;
-  let totalAssetValue = 0;
-  let totalLoanBalance = 0;
-  let cumulativeCashFlow = 0;
+  sellAfterYears = 0,
+  islamic: IslamicFinancingSettings | null = null,
+  leasehold: LeaseholdSettings = DEFAULT_LEASEHOLD
+): SimProperty | null {
+  const month = Math.min(12, Math.max(1, spec.purchaseMonth || 1));
+  const startMonth = (spec.purchaseYear - 1) * 12 + (month - 1);
+  if (startMonth < 0 || startMonth >= years * 12) return null;
+  // Off-plan, the loan is fully drawn and amortised from vacant possession
+  const handoverMonth = startMonth + Math.max(0, Math.round(spec.constructionMonths ?? 0));
+
+  // A bank lends only over the lease left at drawdown, and not at all on a short one
+  const leaseYears = spec.tenure === "leasehold" ? Math.max(0, spec.leaseYears ?? 0) : null;
+  const leaseAtDrawdown =
+    leaseYears === null ? null : leaseYears - (handoverMonth - startMonth) / 12;
+  const leaseTenure =
+    leaseAtDrawdown === null
+      ? ageTenure
+      : getLeaseholdLoanTenure(ageTenure, leaseAtDrawdown, leasehold);
+  // A lease used up by then, or one no bank will lend on when a loan is needed, is not bought
+  const shortLease: ShortLeasePurchase | null =
+    leaseAtDrawdown !== null && (leaseAtDrawdown <= 0 || (leaseTenure <= 0 && spec.loanAmount > 0))
+      ? {
+          id: spec.id,
+          name: spec.name,
+          year: spec.purchaseYear,
+          month,
+          leaseYears: Math.max(0, leaseAtDrawdown),
+          minFinanceableYears: leasehold.minFinanceableYears,
+        }
+      : null;
+  const loanTenure = leaseTenure > 0 ? leaseTenure : ageTenure;
+  // The unit reverts to the state at the end of the lease's last month
+  const reversionMonth =
+    leaseYears === null ? null : startMonth + Math.max(1, Math.round(leaseYears * 12)) - 1;
+
+  const interestRates = capAtCeiling(propertyRatePath(spec, portfolioRates), islamic);
+  const schedule = buildLoanSchedule(
+    spec.loanAmount,
+    loanTenure,
+    handoverMonth,
+    interestRates
+  );
+  const firstPayment = schedule.payments[0] ?? 0;
+  const contract =
+    islamic?.type === "bba" ? signBbaContract(spec.loanAmount, islamic.ceilingRate, loanTenure) : null;
+
+  // Sold at the end of the holding period, if that falls within the horizon
+  const holdYears = spec.sellAfterYears ?? sellAfterYears;
+  const plannedSale =
+    holdYears > 0 ? startMonth + Math.max(1, Math.round(holdYears * 12)) - 1 : null;
+  // Nothing is left to sell once the lease has run out
+  const saleMonth =
+    plannedSale !== null && (reversionMonth === null || plannedSale < reversionMonth)
+      ? plannedSale
+      : null;
 
-  for (let year = 1; year <= years; year++) {
-    if (year % buyInterval === 1 || buyInterval === 1) {
-      if (propertiesOwned < maxProperties) {
-        propertiesOwned++;
-      }
-    }
+  return {
+    spec,
+    requestedLoan: spec.loanAmount,
+    startMonth,
+    handoverMonth,
+    dibs: handoverMonth > startMonth && !!spec.dibs,
+    interestRates,
+    schedule,
+    loan: {
+      amount: spec.loanAmount,
+      schedule,
+      startMonth: handoverMonth,
+      interestRates,
+      contract,
+    },
+    sellingPrice: contract?.sellingPrice ?? null,
+    refinances: [],
+    monthlyExpense:
+      spec.expenseType === "fixed"
+        ? spec.expenseValue
+        : firstPayment * (spec.expenseValue / 100),
+    priceScale: 1,
+    loanTenure,
+    lease: leaseYears === null || reversionMonth === null ? null : { years: leaseYears, reversionMonth },
+    acquisitionCosts: NO_ACQUISITION_COSTS,
+    saleMonth: saleMonth !== null && saleMonth < years * 12 ? saleMonth : null,
+    sale: null,
+    blocked: null,
+    unfunded: null,
+    shortLease,
+    flexi: null,
+  };
+}
+
+/** Years left on a leasehold unit's lease at the end of `month` */
+function getLeaseLeft(p: SimProperty, month: number): number {
+  return (p.lease?.years ?? 0) - (month + 1 - p.startMonth) / 12;
+}
 
-    totalAssetValue = 0;
-    totalLoanBalance = 0;
-    let annualCashFlow = 0;
-
-    for (let i = 0; i < propertiesOwned; i++) {
-      const propertyAge = year - i * buyInterval;
-      if (propertyAge > 0) {
-        const propertyValue =
-          marketValue * Math.pow(1 + appreciationRate, propertyAge);
-        totalAssetValue += propertyValue;
-
-        const loanBalance = calculateLoanBalance(
-          loanAmount,
-          monthlyPayment,
-          interestRate,
-          Math.min(propertyAge, loanTenure),
-          loanTenure
+/** Value of a unit at the end of `month` relative to a freehold bought with it: 1 for freehold */
+function getLeaseDecay(p: SimProperty, month: number, leasehold: LeaseholdSettings): number {
+  if (!p.lease) return 1;
+  const atPurchase = getLeaseValueFactor(leasehold.curve, p.lease.years);
+  return atPurchase > 0
+    ? getLeaseValueFactor(leasehold.curve, getLeaseLeft(p, month)) / atPurchase
+    : 0;
+}
+
+/** Whether a scheduled purchase did not go ahead */
+function isSkipped(p: SimProperty): boolean {
+  return p.blocked !== null || p.unfunded !== null || p.shortLease !== null;
+}
+
+/** Per-property state for one month */
+interface PropertyMonth {
+  owned: boolean;
+  assetValue: number;
+  loanBalance: number;
+  rentalIncome: number;
+  mortgagePayment: number;
+  interest: number;
+  expense: number;
+  holdingCosts: HoldingCostBreakdown | null; // expense item by item, null on the single-expense model
+  acquisitionCost: number;
+  deposit: number; // own share of the price, at completion or with each billing off-plan
+  cashback: number; // loan above the price, received in the completion month
+  prepayment: number; // surplus parked against the loan at month end
+  redraw: number; // parked money taken back, including any released when the loan closes
+  interestSaved: number; // scheduled interest less the interest charged
+  ibra: number; // rebate when the financing is settled early this month
+  incomeTax: number; // this unit's share of the year's tax, in December
+  underConstruction: boolean; // bought off-plan, before vacant possession
+  developerInterest: number; // progressive interest the developer pays under DIBS
+  shortTermRental: ShortTermRentalBreakdown | null; // bookings and costs, null unless let short term
+  sale: SaleBreakdown | null; // set in the month the unit is sold
+  refinance: RefinanceEvent | null; // set in the month the unit is refinanced
+}
+
+/**
+ * Refinance a unit at the end of `month` if the plan calls for it. The new
+ * loan replaces the current one from the next month, borrowing the target
+ * LTV of today's value (never less than the balance it redeems).
+ */
+function maybeRefinance(
+  p: SimProperty,
+  month: number,
+  assetValue: number,
+  loanBalance: number,
+  plan: RefinancePlan,
+  age: number,
+  islamic: IslamicFinancingSettings | null,
+  leasehold: LeaseholdSettings
+): RefinanceEvent | null {
+  if (p.refinances.length >= plan.maxRefinances) return null;
+
+  const loanAgeMonths = month - p.loan.startMonth + 1;
+  const lockInMonths = plan.lockInYears * 12;
+  const due =
+    plan.trigger === "scheduled"
+      ? loanAgeMonths === Math.max(1, Math.round(plan.afterYears * 12))
+      : loanAgeMonths >= lockInMonths &&
+        assetValue > 0 &&
+        (loanBalance / assetValue) * 100 <= plan.ltvThreshold;
+  if (!due) return null;
+
+  const newLoan = Math.max(loanBalance, (assetValue * plan.targetLtv) / 100);
+  const fees = calculateRefinanceFees(newLoan, assetValue);
+  const lockInPenalty =
+    loanAgeMonths < lockInMonths
+      ? (loanBalance * plan.lockInPenaltyRate) / 100
+      : 0;
+
+  // Tenure restarts from the borrower's age at the time of refinancing, within the lease left
+  const yearsElapsed = Math.floor((month + 1) / 12);
+  const ageTenure = plan.tenureYears ?? calculateTenure(age + yearsElapsed);
+  const tenureYears = p.lease
+    ? getLeaseholdLoanTenure(ageTenure, getLeaseLeft(p, month), leasehold)
+    : ageTenure;
+  if (tenureYears <= 0) return null;
+  // A new rate is anchored at the first instalment and then follows the path's moves
+  const anchor = rateForMonth(p.loan.interestRates, month + 1);
+  const interestRates =
+    plan.interestRate === undefined
+      ? p.loan.interestRates
+      : capAtCeiling(
+          p.loan.interestRates.map((r) =>
+            Math.max(0, plan.interestRate! / 100 + r - anchor)
+          ),
+          islamic
         );
-        totalLoanBalance += loanBalance;
+  const ibra = getSettlementIbra(p.loan, month, loanBalance);
+
+  p.loan = {
+    amount: newLoan,
+    schedule: buildLoanSchedule(newLoan, tenureYears, month + 1, interestRates),
+    startMonth: month + 1,
+    interestRates,
+    contract:
+      islamic?.type === "bba" ? signBbaContract(newLoan, islamic.ceilingRate, tenureYears) : null,
+  };
 
-        // Cash flow = rental - mortgage - expense
-        const annualMortgagePayment = monthlyPayment * 12;
-        const propertyCashFlow =
-          annualRentalIncome - annualMortgagePayment - annualExpensePerProperty;
-        annualCashFlow += propertyCashFlow;
-      }
+  const event: RefinanceEvent = {
+    year: Math.floor(month / 12) + 1,
+    month: (month % 12) + 1,
+    marketValue: assetValue,
+    balanceRedeemed: loanBalance,
+    newLoan,
+    interestRate: rateForMonth(interestRates, month + 1) * 100,
+    tenureYears,
+    fees,
+    lockInPenalty,
+    cashOut: newLoan - loanBalance - fees - lockInPenalty,
+    ibra,
+  };
+  p.refinances.push(event);
+  return event;
+}
+
+/**
+ * One month of a flexi loan. Interest is only charged on the balance not
+ * covered by parked money, and the contractual instalment is paid until the
+ * parked money covers what is left; the loan is then closed and the excess
+ * released. A new loan (on completion or refinance) starts with nothing parked.
+ */
+function stepFlexiLoan(
+  p: SimProperty,
+  flexi: FlexiState,
+  month: number
+): { payment: number; interest: number; release: number; ibra: number } {
+  const n = month - p.loan.startMonth;
+  if (n === 0) {
+    flexi.balance = p.loan.amount;
+    flexi.parked = 0;
+    flexi.closedMonth = null;
+  }
+  if (flexi.closedMonth !== null) return { payment: 0, interest: 0, release: 0, ibra: 0 };
+
+  const rate = rateForMonth(p.loan.interestRates, month);
+  const interest = (Math.max(0, flexi.balance - flexi.parked) * rate) / 12;
+  let payment = p.loan.schedule.payments[n] ?? 0;
+  let balance = flexi.balance + interest - payment;
+  if (balance < 0) {
+    payment += balance;
+    balance = 0;
+  }
+  flexi.balance = balance;
+  if (balance > flexi.parked) return { payment, interest, release: 0, ibra: 0 };
+
+  // Settled from parked money
+  const release = flexi.parked - balance;
+  const ibra = getSettlementIbra(p.loan, month, balance);
+  flexi.balance = 0;
+  flexi.parked = 0;
+  flexi.closedMonth = month;
+  return { payment, interest, release, ibra };
+}
+
+/**
+ * Park part of a month's surplus against the open flexi loans, or redraw
+ * parked money to cover a shortfall. Surplus goes to the dearest loan
+ * first and redraws come from the cheapest. Returns the change in each
+ * unit's parked money and the redraw fee charged to it, in property order.
+ */
+function moveParkedCash(
+  properties: SimProperty[],
+  month: number,
+  cashFlow: number,
+  settings: FlexiLoanSettings
+): { moves: number[]; fees: number[] } {
+  const moves = properties.map(() => 0);
+  const fees = properties.map(() => 0);
+  const open = properties
+    .map((p, i) => ({ p, i, rate: rateForMonth(p.loan.interestRates, month) }))
+    .filter(
+      ({ p }) =>
+        p.flexi &&
+        p.flexi.closedMonth === null &&
+        !isSkipped(p) &&
+        p.loan.startMonth <= month &&
+        (p.saleMonth === null || p.saleMonth > month)
+    );
+
+  if (cashFlow > 0) {
+    let remaining = (cashFlow * settings.prepayShare) / 100;
+    for (const { p, i } of [...open].sort((a, b) => b.rate - a.rate)) {
+      const put = Math.min(remaining, Math.max(0, p.flexi!.balance - p.flexi!.parked));
+      p.flexi!.parked += put;
+      p.flexi!.prepaid += put;
+      moves[i] = put;
+      remaining -= put;
+    }
+  } else if (cashFlow < 0 && settings.redrawForShortfalls) {
+    const parked = open.reduce((sum, { p }) => sum + p.flexi!.parked, 0);
+    if (parked <= settings.redrawFee) return { moves, fees };
+    let remaining = Math.min(parked, -cashFlow + settings.redrawFee);
+    let fee = settings.redrawFee;
+    for (const { p, i } of [...open].sort((a, b) => a.rate - b.rate)) {
+      const take = Math.min(remaining, p.flexi!.parked);
+      if (take <= 0) continue;
+      p.flexi!.parked -= take;
+      moves[i] = -take;
+      fees[i] = fee;
+      fee = 0;
+      remaining -= take;
     }
+  }
+  return { moves, fees };
+}
 
-    cumulativeCashFlow += annualCashFlow;
+/**
+ * Cut a loan to the margin of financing for the housing loans already
+ * outstanding. A cut loan is re-amortised, and the costs and expenses that
+ * follow it are recalculated.
+ */
+function applyMarginOfFinance(
+  p: SimProperty,
+  outstandingLoans: number,
+  islamic: IslamicFinancingSettings | null
+): void {
+  const limit = (p.spec.marketValue * getMarginOfFinance(outstandingLoans)) / 100;
+  if (p.spec.loanAmount <= limit) return;
+
+  p.spec = { ...p.spec, loanAmount: limit };
+  p.schedule = buildLoanSchedule(limit, p.loanTenure, p.loan.startMonth, p.interestRates);
+  p.loan = {
+    ...p.loan,
+    amount: limit,
+    schedule: p.schedule,
+    contract: p.loan.contract && signBbaContract(limit, islamic!.ceilingRate, p.loanTenure),
+  };
+  p.sellingPrice = p.loan.contract?.sellingPrice ?? null;
+  if (p.spec.expenseType === "percentage") {
+    p.monthlyExpense = (p.schedule.payments[0] ?? 0) * (p.spec.expenseValue / 100);
+  }
+  if (p.acquisitionCosts !== NO_ACQUISITION_COSTS) {
+    p.acquisitionCosts = calculateAcquisitionCosts({
+      purchasePrice: p.spec.purchasePrice,
+      marketValue: p.spec.marketValue,
+      loanAmount: limit,
+      isFirstHome: p.acquisitionCosts.firstHomeExempt,
+    });
   }
+}
+
+/**
+ * Check a purchase against the cash the account has left this month. One
+ * whose deposit and acquisition costs exceed it is marked unfunded and never
+ * happens. Off-plan, the whole deposit must be in hand at the SPA though it
+ * is paid stage by stage. Returns the cash left for the next purchase.
+ */
+function fundPurchase(p: SimProperty, month: number, available: number): number {
+  const cashNeeded =
+    getDeposit(p.spec.purchasePrice, p.spec.loanAmount) + p.acquisitionCosts.total;
+  if (cashNeeded <= available) return available - cashNeeded;
+  p.unfunded = {
+    id: p.spec.id,
+    name: p.spec.name,
+    year: Math.floor(month / 12) + 1,
+    month: (month % 12) + 1,
+    cashNeeded,
+    cashAvailable: available,
+  };
+  return available;
+}
 
-  const netEquity = totalAssetValue - totalLoanBalance + cumulativeCashFlow;
+/** The bank's view of the borrower for the purchases completing in a month */
+interface DsrAssessment {
+  netIncome: number;
+  limit: number; // highest DSR the bank accepts, %
+  commitments: number; // monthly debt repayments, including loans approved this month
+  rentalIncome: number; // last month's rent; a new unit's own rent is not yet recognised
+  rentalRecognition: number;
+}
 
+/** Open the bank's assessment for `month` from last month's instalments and rent */
+function openDsrAssessment(
+  month: number,
+  previous: MonthlyData | undefined,
+  { settings, policy }: { settings: DsrSettings; policy: BankPolicy }
+): DsrAssessment {
+  const netIncome = getNetIncomeForMonth(settings, month);
   return {
-    netEquity,
-    totalAssetValue,
-    totalLoanBalance,
-    cumulativeCashFlow,
-    propertiesOwned,
+    netIncome,
+    limit: getDsrLimit(policy, netIncome),
+    commitments: settings.existingCommitments + (previous?.mortgagePayment ?? 0),
+    rentalIncome: previous?.rentalIncome ?? 0,
+    rentalRecognition: policy.rentalRecognition,
   };
 }
 
 /**
- * Generate year-by-year data for charts and tables.
+ * Put a purchase to the bank. An approved loan joins the commitments the
+ * next purchase is assessed with; a declined purchase is marked blocked and
+ * never happens. Returns whether it was approved.
  */
-function generateYearlyData(
-  years: number,
-  _purchasePrice: number,
-  marketValue: number,
-  loanAmount: number,
-  monthlyPayment: number,
-  appreciationRate: number,
-  annualRentalIncome: number,
-  interestRate: number,
-  buyInterval: number,
-  maxProperties: number,
-  startingYear: number,
-  loanTenure: number,
-  annualExpensePerProperty: number
-): YearlyData[] {
-  const data: YearlyData[] = [];
-  let propertiesOwned = 0;
+function approvePurchase(p: SimProperty, month: number, assessment: DsrAssessment): boolean {
+  const instalment = p.schedule.payments[0] ?? 0;
+  const dsr = calculateDsr({
+    commitments: assessment.commitments + instalment,
+    netIncome: assessment.netIncome,
+    rentalIncome: assessment.rentalIncome,
+    rentalRecognition: assessment.rentalRecognition,
+  });
+  if (dsr > assessment.limit) {
+    p.blocked = {
+      id: p.spec.id,
+      name: p.spec.name,
+      year: Math.floor(month / 12) + 1,
+      month: (month % 12) + 1,
+      loanAmount: p.spec.loanAmount,
+      dsr,
+      limit: assessment.limit,
+    };
+    return false;
+  }
+  assessment.commitments += instalment;
+  return true;
+}
+
+/**
+ * Simulate the portfolio month by month.
+ * - Instalments start in the completion month and stop once the tenure is paid
+ * - A unit bought off-plan is paid for under Schedule H from the SPA month:
+ *   the deposit goes to the first billings, then the loan is drawn stage by
+ *   stage and only interest on what is drawn is paid (by the developer
+ *   under DIBS). Full instalments, expenses and any
+ *   cashback start at vacant possession; rent follows after the fit-out.
+ *   Interest before handover is not deducted from rent
+ * - Each loan follows its own yearly rate path
+ * - Rent starts `rentStartDelayMonths` after completion and is re-set at each
+ *   review (every `reviewYears` from the first month let); vacancy is spread evenly
+ * - Expenses are charged from the completion month. Itemised, each item
+ *   grows every January, management takes its share of the rent collected
+ *   and MRTA stops once the loan is cleared; only deductible items reduce
+ *   the rent that is taxed
+ * - A unit let short term earns its bookings for the calendar month in place
+ *   of rent and vacancy, from the same start. Fees, cleaning, utilities and
+ *   furnishing are added to its expenses; furniture is deducted for tax
+ *   over its life, and no management fee is charged on the bookings
+ * - Acquisition costs are paid in the completion month
+ * - Value appreciates continuously with the market index; at a flat rate this
+ *   is marketValue × (1 + rate)^(monthsHeld / 12). A leasehold unit's value
+ *   is also scaled by the decay curve at the lease left, relative to its
+ *   lease at purchase; its rent is unaffected
+ * - A leasehold loan runs no longer than the lease left at drawdown less
+ *   what banks want remaining at maturity, and refinancing is limited the
+ *   same way. A purchase whose lease is used up by drawdown, or too short
+ *   to finance when it needs a loan, does not go ahead
+ * - When its lease runs out a leasehold unit reverts to the state at month
+ *   end: it leaves the portfolio without proceeds, and its rent and
+ *   expenses stop
+ * - A unit sold in a month still earns and pays for that month; at month end
+ *   it is sold at market value, the loan is redeemed and RPGT is paid
+ * - A refinance also happens at month end; the new loan's first instalment
+ *   is due the following month
+ * - Income tax on the year's net rental income is paid in December. Each
+ *   unit's net rent is pooled into a single rental source, so a loss on one
+ *   offsets profit on the others; the tax is shared among the profitable ones
+ * - With margin limits, each loan is cut on completion to 90% of market
+ *   value, or 70% once two housing loans are outstanding
+ * - With a DSR check, a purchase only completes if the bank would lend;
+ *   the borrower's DSR is tracked every month
+ * - With flexi loans, interest is charged net of the money parked against
+ *   each loan; at month end part of any surplus is parked and shortfalls
+ *   are redrawn. A loan the parked money covers is closed early
+ * - Under Islamic financing every rate is capped at the ceiling; a BBA
+ *   settled early by sale, refinance or parked money earns ibra' on the
+ *   unearned profit, so only the balance at the effective rate is paid
+ * - The deposit (price above the loan) is paid in the completion month, or
+ *   with the first billings off-plan. With a cash account, a purchase only
+ *   completes if the account can pay it and the acquisition costs
+ * - With a cash account, the month's cash flow, cashback, cash
+ *   kept from sales and refinancing, salary savings and FD interest on the
+ *   opening balance all pass through it
+ * Values and balances are end-of-month snapshots. Besides the portfolio
+ * totals, the month-by-month state of every property is returned.
+ */
+function simulateMonthly(params: PortfolioParams): {
+  monthlyData: MonthlyData[];
+  propertyMonths: PropertyMonth[][];
+} {
+  const {
+    years,
+    startingYear,
+    valueIndex,
+    rentIndex,
+    rentStartDelayMonths,
+    rentPolicy,
+    properties,
+    agentCommissionRate,
+    rpgtCategory,
+    proceedsToCash,
+    refinance,
+    age,
+    incomeTax,
+    dsr,
+    cashAccount,
+    ltvLimits,
+    flexiLoan,
+    islamic,
+    holdingCosts,
+    fitOutMonths,
+    shortTermRental,
+    leasehold,
+  } = params;
+
+  const notOwned: PropertyMonth = {
+    owned: false,
+    assetValue: 0,
+    loanBalance: 0,
+    rentalIncome: 0,
+    mortgagePayment: 0,
+    interest: 0,
+    expense: 0,
+    holdingCosts: holdingCosts ? NO_HOLDING_COSTS : null,
+    acquisitionCost: 0,
+    deposit: 0,
+    cashback: 0,
+    prepayment: 0,
+    redraw: 0,
+    interestSaved: 0,
+    ibra: 0,
+    incomeTax: 0,
+    underConstruction: false,
+    developerInterest: 0,
+    shortTermRental: null,
+    sale: null,
+    refinance: null,
+  };
+
+  const monthlyData: MonthlyData[] = [];
+  const propertyMonths: PropertyMonth[][] = properties.map(() => []);
   let cumulativeCashFlow = 0;
+  let propertiesSold = 0;
+  let cashBalance = cashAccount?.startingBalance ?? 0;
+  // Rent − interest − deductible expenses of each unit so far this year
+  let netRentThisYear = properties.map(() => 0);
 
-  for (let year = 0; year <= years; year++) {
-    if (year > 0 && (year % buyInterval === 1 || buyInterval === 1)) {
-      if (propertiesOwned < maxProperties) {
-        propertiesOwned++;
+  for (let month = 0; month < years * 12; month++) {
+    let propertiesOwned = 0;
+    let totalAssetValue = 0;
+    let totalLoanBalance = 0;
+    let rentalIncome = 0;
+    let mortgagePayment = 0;
+    let interest = 0;
+    let expense = 0;
+    let acquisitionCost = 0;
+    let saleProceeds = 0;
+    let retainedProceeds = 0;
+    let saleCosts = 0;
+    let rpgt = 0;
+    let realisedGain = 0;
+    let refinances = 0;
+    let refinanceCashOut = 0;
+    let refinanceCosts = 0;
+    let retainedCashOut = 0;
+
+    // Purchases completing this month, in list order: each loan is cut to the
+    // margin of financing, put to the bank and paid for from the cash account.
+    // Only one that goes ahead counts toward the next one's margin
+    const completing = properties.filter((p) => p.startMonth === month && !isSkipped(p));
+    // Loans still owed at the end of last month; an off-plan loan counts from signing
+    let outstanding =
+      ltvLimits && completing.length > 0
+        ? propertyMonths.filter((months, i) => {
+            const last = months[month - 1];
+            return (
+              last?.owned &&
+              (last.loanBalance > 0 || (last.underConstruction && properties[i].spec.loanAmount > 0))
+            );
+          }).length
+        : 0;
+    const assessment = dsr ? openDsrAssessment(month, monthlyData[month - 1], dsr) : null;
+    let cashAvailable = cashBalance;
+    let purchasesBlocked = 0;
+    for (const p of completing) {
+      if (ltvLimits) applyMarginOfFinance(p, outstanding, islamic);
+      if (assessment && !approvePurchase(p, month, assessment)) {
+        purchasesBlocked++;
+        continue;
+      }
+      if (cashAccount) {
+        cashAvailable = fundPurchase(p, month, cashAvailable);
+        if (p.unfunded) continue;
       }
+      if (p.spec.loanAmount > 0) outstanding++;
     }
 
-    let totalAssetValue = 0;
-    let totalLoanBalance = 0;
-    let annualCashFlow = 0;
-
-    for (let i = 0; i < propertiesOwned; i++) {
-      const propertyAge = year - i * buyInterval;
-      if (propertyAge >= 0) {
-        const propertyValue =
-          marketValue * Math.pow(1 + appreciationRate, propertyAge);
-        totalAssetValue += propertyValue;
-
-        const loanBalance = calculateLoanBalance(
-          loanAmount,
-          monthlyPayment,
-          interestRate,
-          Math.min(propertyAge, loanTenure),
-          loanTenure
-        );
-        totalLoanBalance += loanBalance;
-
-        if (propertyAge > 0) {
-          const annualMortgagePaymentVal = monthlyPayment * 12;
-          // Cash flow = rental - mortgage - expense
-          const propertyCashFlow =
-            annualRentalIncome - annualMortgagePaymentVal - annualExpensePerProperty;
-          annualCashFlow += propertyCashFlow;
+    let deposits = 0;
+    let cashback = 0;
+
+    properties.forEach((p, i) => {
+      if (
+        isSkipped(p) ||
+        p.startMonth > month ||
+        (p.saleMonth !== null && month > p.saleMonth) ||
+        (p.lease !== null && month > p.lease.reversionMonth)
+      ) {
+        propertyMonths[i].push(notOwned);
+        return;
+      }
+
+      // Months held including the completion month; instalments follow the current loan
+      const monthsHeld = month - p.startMonth + 1;
+      const building = month < p.handoverMonth;
+      // Letting is counted from handover, after the fit-out of an off-plan unit
+      const monthsLet =
+        month - p.handoverMonth + 1 -
+        (p.handoverMonth > p.startMonth ? fitOutMonths : 0) -
+        rentStartDelayMonths;
+      const paymentsMade = month - p.loan.startMonth + 1;
+      // Before handover only the amount drawn so far is owed, at interest only
+      const drawn = building
+        ? getDrawnLoan({
+            billedShare: getBilledShare(month - p.startMonth, p.handoverMonth - p.startMonth),
+            purchasePrice: p.spec.purchasePrice,
+            loanAmount: p.spec.loanAmount,
+          })
+        : 0;
+      const progressiveInterest = (drawn * rateForMonth(p.interestRates, month)) / 12;
+      // Rent is set in the first month let and re-set from the value and
+      // rent index at each review after it
+      const reviewMonth =
+        month - monthsLet + 1 +
+        12 * getLastReviewYear(rentPolicy, Math.floor((monthsLet - 1) / 12));
+      const state: PropertyMonth = {
+        owned: true,
+        assetValue:
+          ((p.spec.marketValue * valueIndex[month + 1]) / valueIndex[p.startMonth]) *
+          getLeaseDecay(p, month, leasehold),
+        loanBalance: building
+          ? drawn
+          : calculateLoanBalance(p.loan.amount, p.loan.schedule, paymentsMade),
+        rentalIncome:
+          monthsLet > 0
+            ? (getReviewedRent(
+                p.spec,
+                rentPolicy,
+                valueIndex[reviewMonth] / valueIndex[p.startMonth],
+                rentIndex[reviewMonth] / rentIndex[p.startMonth]
+              ) *
+                (1 - rentPolicy.vacancyRate)) /
+              12
+            : 0,
+        mortgagePayment: building
+          ? (p.dibs ? 0 : progressiveInterest)
+          : p.loan.schedule.payments[paymentsMade - 1] ?? 0,
+        interest: building
+          ? (p.dibs ? 0 : progressiveInterest)
+          : p.loan.schedule.interests[paymentsMade - 1] ?? 0,
+        expense: building ? 0 : p.monthlyExpense,
+        holdingCosts: null,
+        acquisitionCost: monthsHeld === 1 ? p.acquisitionCosts.total : 0,
+        deposit: getOwnPayment({
+          monthsSinceSpa: month - p.startMonth,
+          constructionMonths: p.handoverMonth - p.startMonth,
+          purchasePrice: p.spec.purchasePrice,
+          loanAmount: p.spec.loanAmount,
+        }),
+        // Loan above the price comes back to the buyer once it is fully drawn
+        cashback:
+          month === p.handoverMonth ? Math.max(0, p.spec.loanAmount - p.spec.purchasePrice) : 0,
+        prepayment: 0,
+        redraw: 0,
+        interestSaved: 0,
+        ibra: 0,
+        incomeTax: 0,
+        underConstruction: building,
+        developerInterest: building && p.dibs ? progressiveInterest : 0,
+        shortTermRental: null,
+        sale: null,
+        refinance: null,
+      };
+
+      // A flexi loan runs on its actual balance; the unit's debt is net of parked money
+      if (p.flexi && !building) {
+        const step = stepFlexiLoan(p, p.flexi, month);
+        Object.assign(state, {
+          loanBalance: Math.max(0, p.flexi.balance - p.flexi.parked),
+          mortgagePayment: step.payment,
+          interest: step.interest,
+          redraw: step.release,
+          interestSaved: state.interest - step.interest,
+          ibra: step.ibra,
+        });
+      }
+
+      // Let by the night, bookings replace the rent and the host pays the running costs
+      const letting =
+        p.spec.shortTermRental && monthsLet > 0
+          ? getMonthlyShortTermRental(shortTermRental, {
+              month,
+              monthsLet,
+              scale: p.priceScale,
+              rentIndex,
+            })
+          : null;
+      if (letting) {
+        state.shortTermRental = letting;
+        state.rentalIncome = letting.gross;
+      }
+
+      if (holdingCosts) {
+        const costs = building
+          ? NO_HOLDING_COSTS
+          : getMonthlyHoldingCosts(holdingCosts, {
+              month,
+              scale: p.priceScale,
+              // A short-let operator is paid from the bookings instead
+              rentalIncome: letting ? 0 : state.rentalIncome,
+              hasLoan: state.mortgagePayment > 0,
+            });
+        state.holdingCosts = costs;
+        state.expense = getTotalHoldingCost(costs);
+      }
+      // Furniture is deducted for tax over its life rather than when it is bought
+      const deductibleExpense =
+        (state.holdingCosts ? getDeductibleHoldingCosts(state.holdingCosts) : state.expense) +
+        (letting ? getDeductibleShortTermRentalCosts(letting) : 0);
+      if (letting) state.expense += getShortTermRentalCosts(letting);
+
+      if (month === p.saleMonth) {
+        const sale = calculateSale({
+          salePrice: state.assetValue,
+          purchasePrice: p.spec.purchasePrice,
+          acquisitionCosts: p.acquisitionCosts.total,
+          loanBalance: state.loanBalance,
+          monthsHeld,
+          agentCommissionRate,
+          category: rpgtCategory,
+        });
+        p.sale = sale;
+        // Before handover the financing is settled at what has been drawn
+        const ibra = building ? 0 : getSettlementIbra(p.loan, month, state.loanBalance);
+        Object.assign(state, { owned: false, assetValue: 0, loanBalance: 0, sale, ibra: state.ibra + ibra });
+
+        propertiesSold++;
+        saleProceeds += sale.netProceeds;
+        saleCosts += sale.agentCommission + sale.legalFees;
+        rpgt += sale.rpgt;
+        realisedGain += sale.realisedGain;
+        // A shortfall on an underwater sale always comes out of cash
+        retainedProceeds += proceedsToCash ? sale.netProceeds : Math.min(0, sale.netProceeds);
+      } else if (refinance && !building) {
+        const event = maybeRefinance(p, month, state.assetValue, state.loanBalance, refinance, age, islamic, leasehold);
+        if (event) {
+          state.refinance = event;
+          state.ibra += event.ibra;
+          state.loanBalance = event.newLoan;
+          refinances++;
+          refinanceCashOut += event.cashOut;
+          refinanceCosts += event.fees + event.lockInPenalty;
+          // Fees that exceed the cash released always come out of cash
+          retainedCashOut += refinance.cashOutTo === "cash" ? event.cashOut : Math.min(0, event.cashOut);
         }
       }
-    }
+      propertyMonths[i].push(state);
+
+      if (state.owned) propertiesOwned++;
+      totalAssetValue += state.assetValue;
+      totalLoanBalance += state.loanBalance;
+      rentalIncome += state.rentalIncome;
+      mortgagePayment += state.mortgagePayment;
+      interest += state.interest;
+      expense += state.expense;
+      acquisitionCost += state.acquisitionCost;
+      deposits += state.deposit;
+      cashback += state.cashback;
+      if (!building) {
+        netRentThisYear[i] += state.rentalIncome - state.interest - deductibleExpense;
+      }
+    });
 
-    if (year > 0) {
-      cumulativeCashFlow += annualCashFlow;
+    // Year end: rent from every unit is one source (PR 12/2018), so losses
+    // offset profits before tax; the tax is shared among the profitable units
+    let taxableRentalIncome = 0;
+    let tax = 0;
+    if (month % 12 === 11) {
+      taxableRentalIncome = Math.max(0, netRentThisYear.reduce((sum, n) => sum + n, 0));
+      const profits = netRentThisYear.reduce((sum, n) => sum + Math.max(0, n), 0);
+      if (incomeTax && taxableRentalIncome > 0) {
+        tax = calculateRentalIncomeTax({ rentalIncome: taxableRentalIncome, ...incomeTax });
+        netRentThisYear.forEach((n, i) => {
+          if (n > 0) {
+            const months = propertyMonths[i];
+            months[month] = { ...months[month], incomeTax: (tax * n) / profits };
+          }
+        });
+      }
+      netRentThisYear = properties.map(() => 0);
     }
 
-    const netEquity = totalAssetValue - totalLoanBalance + cumulativeCashFlow;
+    // Cash flow = rental - mortgage - expense - deposits - acquisition costs - income tax
+    const cashFlow = rentalIncome - mortgagePayment - expense - deposits - acquisitionCost - tax;
+
+    // Flexi loans: park surplus or redraw for a shortfall, moving debt and cash together
+    let prepayment = 0;
+    let redraw = 0;
+    let interestSaved = 0;
+    let ibra = 0;
+    const { moves, fees } = flexiLoan
+      ? moveParkedCash(properties, month, cashFlow, flexiLoan)
+      : { moves: [], fees: [] };
+    propertyMonths.forEach((months, i) => {
+      const state = months[month];
+      if (moves[i]) {
+        months[month] = {
+          ...state,
+          loanBalance: state.loanBalance - moves[i],
+          prepayment: Math.max(0, moves[i]),
+          redraw: state.redraw + Math.max(0, -moves[i]) - fees[i],
+        };
+        totalLoanBalance -= moves[i];
+      }
+      prepayment += months[month].prepayment;
+      redraw += months[month].redraw;
+      interestSaved += state.interestSaved;
+      ibra += state.ibra;
+    });
 
-    // Count active properties (those with propertyAge > 0) for expense display
-    let activeProperties = 0;
-    for (let i = 0; i < propertiesOwned; i++) {
-      const propertyAge = year - i * buyInterval;
-      if (propertyAge > 0) activeProperties++;
+    cumulativeCashFlow += cashFlow + retainedProceeds + retainedCashOut - prepayment + redraw;
+
+    const cashInterest = cashAccount ? getMonthlyInterest(cashBalance, cashAccount.fdRate) : 0;
+    if (cashAccount) {
+      cashBalance +=
+        cashInterest +
+        getMonthlySavings(cashAccount, month) +
+        cashFlow +
+        retainedProceeds +
+        retainedCashOut +
+        cashback -
+        prepayment +
+        redraw;
     }
 
-    data.push({
+    // Every instalment plus other commitments, over salary and recognised rent
+    const netIncome = dsr ? getNetIncomeForMonth(dsr.settings, month) : 0;
+    const dsrRatio = dsr
+      ? calculateDsr({
+          commitments: dsr.settings.existingCommitments + mortgagePayment,
+          netIncome,
+          rentalIncome,
+          rentalRecognition: dsr.policy.rentalRecognition,
+        })
+      : null;
+
+    const year = Math.floor(month / 12) + 1;
+    monthlyData.push({
+      month,
       year,
       calendarYear: startingYear + year,
+      calendarMonth: (month % 12) + 1,
       propertiesOwned,
       totalAssetValue,
       totalLoanBalance,
-      netEquity,
-      annualCashFlow,
+      netEquity: totalAssetValue - totalLoanBalance + cumulativeCashFlow,
+      rentalIncome,
+      mortgagePayment,
+      interest,
+      expense,
+      acquisitionCost,
+      taxableRentalIncome,
+      incomeTax: tax,
+      saleProceeds,
+      saleCosts,
+      rpgt,
+      realisedGain,
+      propertiesSold,
+      refinances,
+      refinanceCashOut,
+      refinanceCosts,
+      dsr: dsrRatio,
+      dsrLimit: dsr ? getDsrLimit(dsr.policy, netIncome) : null,
+      purchasesBlocked,
+      deposits,
+      cashback,
+      cashInjected: Math.max(0, -cashFlow),
+      prepayment,
+      redraw,
+      interestSaved,
+      ibra,
+      cashInterest,
+      cashBalance: cashAccount ? cashBalance : null,
+      cashFlow,
       cumulativeCashFlow,
-      annualRentalIncome: propertiesOwned * annualRentalIncome,
-      annualMortgagePayment: propertiesOwned * monthlyPayment * 12,
-      annualExpense: activeProperties * annualExpensePerProperty,
+    });
+  }
+
+  return { monthlyData, propertyMonths };
+}
+
+/**
+ * Simulation years in which a unit's current loan is cleared or the unit
+ * sold: as simulated, and by the instalment schedule alone
+ */
+function getPayoffYears(
+  p: SimProperty
+): { payoffYear: number | null; scheduledPayoffYear: number | null } {
+  if (isSkipped(p) || p.loan.amount <= 0) {
+    return { payoffYear: null, scheduledPayoffYear: null };
+  }
+  const sold = p.saleMonth ?? Infinity;
+  const scheduled = Math.min(sold, p.loan.startMonth + p.loan.schedule.payments.length - 1);
+  const actual = Math.min(scheduled, p.flexi?.closedMonth ?? Infinity);
+  return {
+    payoffYear: Math.floor(actual / 12) + 1,
+    scheduledPayoffYear: Math.floor(scheduled / 12) + 1,
+  };
+}
+
+/** A ledger line for a property not yet bought, or before the first year */
+function emptyLedgerEntry(year: number): PropertyLedgerEntry {
+  return {
+    year,
+    owned: false,
+    assetValue: 0,
+    loanBalance: 0,
+    rentalIncome: 0,
+    interest: 0,
+    principal: 0,
+    expense: 0,
+    holdingCosts: null,
+    acquisitionCost: 0,
+    deposit: 0,
+    cashback: 0,
+    incomeTax: 0,
+    cashFlow: 0,
+    cashReleased: 0,
+    investorCash: 0,
+    netEquity: 0,
+    underConstruction: false,
+    developerInterest: 0,
+    shortTermRental: null,
+  };
+}
+
+/** Roll one property's months up into its yearly ledger, from year 0 */
+function buildLedger(
+  months: PropertyMonth[],
+  years: number,
+  proceedsToCash: boolean,
+  cashOutToCash: boolean
+): PropertyLedgerEntry[] {
+  const ledger = [emptyLedgerEntry(0)];
+  let cumulative = 0;
+  for (let year = 1; year <= years; year++) {
+    const slice = months.slice((year - 1) * 12, year * 12);
+    const last = slice[slice.length - 1];
+    const sum = (pick: (m: PropertyMonth) => number) =>
+      slice.reduce((total, m) => total + pick(m), 0);
+
+    const rentalIncome = sum((m) => m.rentalIncome);
+    const mortgagePayment = sum((m) => m.mortgagePayment);
+    const interest = sum((m) => m.interest);
+    const expense = sum((m) => m.expense);
+    const acquisitionCost = sum((m) => m.acquisitionCost);
+    const deposit = sum((m) => m.deposit);
+    const incomeTax = sum((m) => m.incomeTax);
+    const cashFlow = rentalIncome - mortgagePayment - expense - deposit - acquisitionCost - incomeTax;
+    // Underwater sales and refinance fees beyond the cash-out always come out of cash
+    const cashReleased = sum(
+      (m) =>
+        (m.sale ? (proceedsToCash ? m.sale.netProceeds : Math.min(0, m.sale.netProceeds)) : 0) +
+        (m.refinance ? (cashOutToCash ? m.refinance.cashOut : Math.min(0, m.refinance.cashOut)) : 0) +
+        m.redraw -
+        m.prepayment
+    );
+    cumulative += cashFlow + cashReleased;
+    const cashback = sum((m) => m.cashback);
+
+    ledger.push({
+      year,
+      owned: last.owned,
+      assetValue: last.assetValue,
+      loanBalance: last.loanBalance,
+      rentalIncome,
+      interest,
+      principal: mortgagePayment - interest,
+      expense,
+      holdingCosts: sumHoldingCosts(slice.map((m) => m.holdingCosts)),
+      acquisitionCost,
+      deposit,
+      cashback,
+      incomeTax,
+      cashFlow,
+      cashReleased,
+      investorCash:
+        cashFlow +
+        cashback +
+        sum((m) => (m.sale?.netProceeds ?? 0) + (m.refinance?.cashOut ?? 0) + m.redraw - m.prepayment),
+      netEquity: last.assetValue - last.loanBalance + cumulative,
+      underConstruction: last.underConstruction,
+      developerInterest: sum((m) => m.developerInterest),
+      shortTermRental: sumShortTermRental(slice.map((m) => m.shortTermRental)),
+    });
+  }
+  return ledger;
+}
+
+/** Returns on the cash a ledger passes to the investor, plus the equity left at its end */
+function getLedgerReturns(ledger: PropertyLedgerEntry[], discountRate: number): ReturnMetrics {
+  const last = ledger[ledger.length - 1];
+  return calculateReturnMetrics(
+    ledger.map((e) => e.investorCash),
+    last.assetValue - last.loanBalance,
+    discountRate
+  );
+}
+
+/** A leasehold unit's lease at purchase and when it leaves the plan, against the bank's minimum */
+function summariseLease(
+  property: SimProperty,
+  years: number,
+  leasehold: LeaseholdSettings
+): PropertyLease | null {
+  const { lease } = property;
+  if (!lease) return null;
+  const endMonth = property.saleMonth ?? Math.min(years * 12 - 1, lease.reversionMonth);
+  // First month end with less lease left than banks will finance
+  const unfinanceableMonth =
+    property.startMonth + Math.max(0, Math.floor((lease.years - leasehold.minFinanceableYears) * 12));
+  return {
+    yearsAtPurchase: lease.years,
+    yearsAtEnd: Math.max(0, getLeaseLeft(property, endMonth)),
+    loanTenure: property.spec.loanAmount > 0 ? property.loanTenure : 0,
+    unfinanceableYear:
+      unfinanceableMonth <= endMonth ? Math.floor(unfinanceableMonth / 12) + 1 : null,
+    expiryYear:
+      lease.reversionMonth <= endMonth ? Math.floor(lease.reversionMonth / 12) + 1 : null,
+  };
+}
+
+/** One property's yearly contribution, read from its ledger */
+function rollUpProperty(
+  property: SimProperty,
+  months: PropertyMonth[],
+  ledger: PropertyLedgerEntry[],
+  discountRate: number,
+  leasehold: LeaseholdSettings
+): PropertyContribution {
+  const { spec } = property;
+  return {
+    id: spec.id,
+    name: spec.name,
+    purchaseYear: spec.purchaseYear,
+    purchaseMonth: (property.startMonth % 12) + 1,
+    purchasePrice: spec.purchasePrice,
+    loanAmount: spec.loanAmount,
+    requestedLoan: property.requestedLoan,
+    monthlyPayment: property.schedule.payments[0] ?? 0,
+    sellingPrice: property.sellingPrice,
+    ibra: months.reduce((total, m) => total + m.ibra, 0),
+    vacantPossession:
+      property.handoverMonth > property.startMonth
+        ? { year: Math.floor(property.handoverMonth / 12) + 1, month: (property.handoverMonth % 12) + 1 }
+        : null,
+    shortTermRental: !!spec.shortTermRental,
+    lease: summariseLease(property, ledger.length - 1, leasehold),
+    acquisitionCosts: property.acquisitionCosts,
+    saleYear:
+      property.saleMonth !== null ? Math.floor(property.saleMonth / 12) + 1 : null,
+    sale: property.sale,
+    refinances: property.refinances,
+    flexi: property.flexi
+      ? {
+          prepaid: property.flexi.prepaid,
+          interestSaved: months.reduce((total, m) => total + m.interestSaved, 0),
+          ...getPayoffYears(property),
+        }
+      : null,
+    returns: getLedgerReturns(ledger, discountRate),
+    ledger,
+    assetValue: ledger.map((e) => e.assetValue),
+    loanBalance: ledger.map((e) => e.loanBalance),
+    annualCashFlow: ledger.map((e) => e.cashFlow),
+    netEquity: ledger.map((e) => e.netEquity),
+  };
+}
+
+/**
+ * Roll the year up for charts and tables. Holdings, rent, instalments,
+ * expenses, purchase costs and tax are totalled across the property
+ * ledgers; portfolio-wide flows (sales, refinances, cash flow, the cash
+ * account) are summed over the year's months, and values and balances
+ * taken from its last month.
+ * Year 0 is the starting point before any purchase.
+ */
+function rollUpYearly(
+  ledgers: PropertyLedgerEntry[][],
+  monthlyData: MonthlyData[],
+  years: number,
+  startingYear: number,
+  interestRates: number[],
+  effectiveRates: number[] | null,
+  properties: SimProperty[],
+  dsr: { settings: DsrSettings; policy: BankPolicy } | null,
+  startingCash: number | null
+): YearlyData[] {
+  const purchasesIn = (year: number) =>
+    properties.filter((p) => p.spec.purchaseYear === year && !isSkipped(p));
+  // Before any purchase only the existing commitments count
+  const startingIncome = dsr ? getNetIncomeForMonth(dsr.settings, 0) : 0;
+
+  const data: YearlyData[] = [
+    {
+      year: 0,
+      calendarYear: startingYear,
+      interestRate: interestRates[0] * 100,
+      effectiveRate: effectiveRates ? effectiveRates[0] * 100 : null,
+      propertiesOwned: 0,
+      totalAssetValue: 0,
+      totalLoanBalance: 0,
+      netEquity: 0,
+      annualCashFlow: 0,
+      cumulativeCashFlow: 0,
+      annualRentalIncome: 0,
+      annualMortgagePayment: 0,
+      annualInterest: 0,
+      annualExpense: 0,
+      holdingCosts: null,
+      taxableRentalIncome: 0,
+      incomeTax: 0,
+      purchaseCost: 0,
+      purchaseLoan: 0,
+      acquisitionCost: 0,
+      propertiesSold: 0,
+      saleProceeds: 0,
+      saleCosts: 0,
+      rpgt: 0,
+      realisedGain: 0,
+      cumulativeRealisedGain: 0,
+      refinances: 0,
+      refinanceCashOut: 0,
+      refinanceCosts: 0,
+      dsr: dsr
+        ? calculateDsr({
+            commitments: dsr.settings.existingCommitments,
+            netIncome: startingIncome,
+            rentalIncome: 0,
+            rentalRecognition: dsr.policy.rentalRecognition,
+          })
+        : null,
+      dsrLimit: dsr ? getDsrLimit(dsr.policy, startingIncome) : null,
+      purchasesBlocked: 0,
+      deposits: 0,
+      cashback: 0,
+      cashInjected: 0,
+      prepayment: 0,
+      redraw: 0,
+      interestSaved: 0,
+      ibra: 0,
+      cashInterest: 0,
+      cashBalance: startingCash,
+      cashOnCash: null,
+      underConstruction: 0,
+      developerInterest: 0,
+      shortTermRental: null,
+    },
+  ];
+  let cumulativeRealisedGain = 0;
+  let cashInvested = 0;
+
+  for (let year = 1; year <= years; year++) {
+    const months = monthlyData.slice((year - 1) * 12, year * 12);
+    const last = months[months.length - 1];
+    const sum = (pick: (m: MonthlyData) => number) =>
+      months.reduce((total, m) => total + pick(m), 0);
+    const entries = ledgers.map((ledger) => ledger[year]);
+    const total = (pick: (e: PropertyLedgerEntry) => number) =>
+      entries.reduce((t, e) => t + pick(e), 0);
+    const realisedGain = sum((m) => m.realisedGain);
+    cumulativeRealisedGain += realisedGain;
+    cashInvested += Math.max(0, -total((e) => e.investorCash));
+    // Running yield, before one-off deposits and acquisition costs
+    const operatingCashFlow = total((e) => e.cashFlow + e.deposit + e.acquisitionCost);
+
+    data.push({
+      year,
+      calendarYear: startingYear + year,
+      interestRate: interestRates[year - 1] * 100,
+      effectiveRate: effectiveRates ? effectiveRates[year - 1] * 100 : null,
+      propertiesOwned: entries.filter((e) => e.owned).length,
+      totalAssetValue: total((e) => e.assetValue),
+      totalLoanBalance: total((e) => e.loanBalance),
+      netEquity: last.netEquity,
+      annualCashFlow: sum((m) => m.cashFlow),
+      cumulativeCashFlow: last.cumulativeCashFlow,
+      annualRentalIncome: total((e) => e.rentalIncome),
+      annualMortgagePayment: total((e) => e.interest + e.principal),
+      annualInterest: total((e) => e.interest),
+      annualExpense: total((e) => e.expense),
+      holdingCosts: sumHoldingCosts(entries.map((e) => e.holdingCosts)),
+      taxableRentalIncome: sum((m) => m.taxableRentalIncome),
+      incomeTax: total((e) => e.incomeTax),
+      purchaseCost: purchasesIn(year).reduce((t, p) => t + p.spec.purchasePrice, 0),
+      purchaseLoan: purchasesIn(year).reduce((t, p) => t + p.spec.loanAmount, 0),
+      acquisitionCost: total((e) => e.acquisitionCost),
+      propertiesSold: last.propertiesSold,
+      saleProceeds: sum((m) => m.saleProceeds),
+      saleCosts: sum((m) => m.saleCosts),
+      rpgt: sum((m) => m.rpgt),
+      realisedGain,
+      cumulativeRealisedGain,
+      refinances: sum((m) => m.refinances),
+      refinanceCashOut: sum((m) => m.refinanceCashOut),
+      refinanceCosts: sum((m) => m.refinanceCosts),
+      dsr: last.dsr,
+      dsrLimit: last.dsrLimit,
+      purchasesBlocked: sum((m) => m.purchasesBlocked),
+      deposits: total((e) => e.deposit),
+      cashback: total((e) => e.cashback),
+      cashInjected: sum((m) => m.cashInjected),
+      prepayment: sum((m) => m.prepayment),
+      redraw: sum((m) => m.redraw),
+      interestSaved: sum((m) => m.interestSaved),
+      ibra: sum((m) => m.ibra),
+      cashInterest: sum((m) => m.cashInterest),
+      cashBalance: last.cashBalance,
+      cashOnCash: cashInvested > 0 ? (operatingCashFlow / cashInvested) * 100 : null,
+      underConstruction: entries.filter((e) => e.underConstruction).length,
+      developerInterest: total((e) => e.developerInterest),
+      shortTermRental: sumShortTermRental(entries.map((e) => e.shortTermRental)),
     });
   }
 
   return data;
 }
 
+/** When the whole portfolio is debt-free, with prepayments and by instalments alone */
+function summariseFlexiLoans(
+  settings: FlexiLoanSettings,
+  properties: SimProperty[]
+): FlexiLoanSummary {
+  const years = properties.map(getPayoffYears);
+  const latest = (pick: (y: (typeof years)[number]) => number | null) =>
+    years.reduce<number | null>((max, y) => {
+      const year = pick(y);
+      return year === null ? max : Math.max(max ?? 0, year);
+    }, null);
+  return {
+    loanType: settings.loanType,
+    debtFreeYear: latest((y) => y.payoffYear),
+    scheduledDebtFreeYear: latest((y) => y.scheduledPayoffYear),
+  };
+}
+
+/**
+ * Portfolio position at the end of a given year.
+ * Net Equity = Total Asset Value - Total Loan Balance + Cumulative Cash Flow
+ */
+function summariseYear(yearlyData: YearlyData[], year: number): SimulationResult {
+  const d = yearlyData[Math.min(year, yearlyData.length - 1)];
+  return {
+    netEquity: d.netEquity,
+    totalAssetValue: d.totalAssetValue,
+    totalLoanBalance: d.totalLoanBalance,
+    cumulativeCashFlow: d.cumulativeCashFlow,
+    propertiesOwned: d.propertiesOwned,
+  };
+}
+
+/** Saved results from before milestones were configurable */
+interface LegacyMilestones {
+  results10?: SimulationResult;
+  results20?: SimulationResult;
+  results30?: SimulationResult;
+}
+
+/**
+ * Milestone results in year order. Results saved before the horizon was
+ * configurable fall back to their 10, 20 and 30-year summaries.
+ */
+export function getMilestones(
+  results: FullSimulationResult
+): { year: number; result: SimulationResult }[] {
+  const milestones =
+    results.milestones ??
+    (() => {
+      const legacy = results as FullSimulationResult & LegacyMilestones;
+      return { 10: legacy.results10, 20: legacy.results20, 30: legacy.results30 };
+    })();
+  return Object.entries(milestones)
+    .filter((entry): entry is [string, SimulationResult] => !!entry[1])
+    .map(([year, result]) => ({ year: Number(year), result }))
+    .sort((a, b) => a.year - b.year);
+}
+
+/** Years simulated, including results saved when it was always 30 */
+export function getHorizonYears(results: FullSimulationResult): number {
+  return results.horizonYears ?? results.yearlyData.length - 1;
+}
+
+/** Portfolio position at the horizon */
+export function getHorizonResult(results: FullSimulationResult): SimulationResult {
+  return summariseYear(results.yearlyData, getHorizonYears(results));
+}
+
 /**
  * Main calculation entry point.
- * Takes user inputs and returns all simulation results.
+ * Takes user inputs and returns all simulation results. A market path,
+ * when given, replaces the flat appreciation, rate and rent-growth inputs.
  */
 export function calculatePropertyPlan(
-  inputs: CalculatorInputs
+  inputs: CalculatorInputs,
+  path?: MarketPath
 ): FullSimulationResult {
-  const {
-    purchasePrice,
-    currentMarketValue,
-    loanAmount: userLoanAmount,
-    maxProperties,
-    appreciationRate: appreciationPct,
-    rentalYield: rentalYieldPct,
-    interestRate: interestPct,
-    buyInterval,
-    startingYear,
-    age,
-    expenseType,
-    expenseValue,
-  } = inputs;
+  const { appreciationRate: appreciationPct, startingYear, age } = inputs;
 
-  const appreciationRate = appreciationPct / 100;
-  const rentalYield = rentalYieldPct / 100;
-  const interestRate = interestPct / 100;
+  // Older saved scenarios predate monthly timing — default to January, rent from day one
+  const purchaseMonth = Math.min(12, Math.max(1, inputs.purchaseMonth ?? 1));
+  const rentStartDelayMonths = Math.max(0, inputs.rentStartDelayMonths ?? 0);
+  const rentPolicy = getRentPolicy(inputs);
 
-  // Market value is directly from user input
-  const marketValue = currentMarketValue;
-
-  // Loan amount is directly from user input
-  const loanAmount = userLoanAmount;
+  const appreciationRate = appreciationPct / 100;
+  const years = resolveHorizon(inputs);
+
+  // Rate path for every simulated year (decimal)
+  const interestRates =
+    path?.interestRates ??
+    Array.from({ length: years }, (_, i) => getInterestRateForYear(inputs, i + 1) / 100);
+
+  // Market value and rent indices, flat unless a path is given
+  const valueIndex = buildGrowthIndex(path?.appreciation ?? [appreciationRate], years);
+  const rentIndex = buildGrowthIndex(path?.rentGrowth ?? [rentPolicy.growthRate], years);
+  // On a market path, later purchases without their own growth rate follow the market
+  const priceIndex = (spec: PropertySpec) =>
+    path && inputs.indexFuturePurchases && inputs.priceGrowthRate === undefined
+      ? valueIndex[Math.min(getMonthsToPurchase(spec.purchaseYear, spec.purchaseMonth), years * 12)]
+      : getPurchasePriceIndex(inputs, spec.purchaseYear, spec.purchaseMonth);
 
   // Loan tenure derived from age
   const loanTenure = calculateTenure(age);
 
-  // Calculate monthly mortgage payment
-  const monthlyPayment = calculateMonthlyPayment(
-    loanAmount,
-    interestRate,
-    loanTenure
-  );
-
-  // Calculate FIXED annual rental income (based on purchase price)
-  const annualRentalIncome = purchasePrice * rentalYield;
+  // Flexi loans cost a premium over the term-loan rate path
+  const flexiLoan = isFlexiLoan(inputs.flexiLoan) ? inputs.flexiLoan : null;
+  const loanRates = flexiLoan
+    ? interestRates.map((r) => r + flexiLoan.ratePremium / 100)
+    : interestRates;
+  // Islamic financing never charges above its ceiling profit rate
+  const islamic = isIslamicFinancing(inputs.islamicFinancing) ? inputs.islamicFinancing : null;
+  const holdingCosts = isHoldingCostsEnabled(inputs.holdingCosts) ? inputs.holdingCosts : null;
+  const fitOutMonths = Math.max(0, inputs.construction?.fitOutMonths ?? DEFAULT_CONSTRUCTION.fitOutMonths);
+  const shortTermRental = inputs.shortTermRental ?? DEFAULT_SHORT_TERM_RENTAL;
+  // The decay curve is read in ascending years remaining
+  const leaseSettings = inputs.leasehold ?? DEFAULT_LEASEHOLD;
+  const leasehold = {
+    ...leaseSettings,
+    curve: [...leaseSettings.curve].sort((a, b) => a.years - b.years),
+  };
 
-  // Calculate monthly expense per property
-  const monthlyExpensePerProperty =
-    expenseType === "fixed"
-      ? expenseValue
-      : monthlyPayment * (expenseValue / 100);
+  // Explicit list if given, otherwise the interval model's identical units
+  const usesPropertyList = !!inputs.properties && inputs.properties.length > 0;
+  const specs = resolveProperties(inputs);
+  // Later interval purchases optionally priced at the market level of their purchase month;
+  // listed properties already carry their own prices
+  const properties = specs
+    .map((spec) =>
+      usesPropertyList ? spec : indexProperty(spec, priceIndex(spec))
+    )
+    .map((spec) =>
+      prepareProperty(spec, loanRates, loanTenure, years, inputs.sellAfterYears ?? 0, islamic, leasehold)
+    )
+    .filter((p): p is SimProperty => p !== null);
+  if (flexiLoan) {
+    for (const p of properties) {
+      p.flexi = { balance: p.spec.loanAmount, parked: 0, closedMonth: null, prepaid: 0 };
+    }
+  }
+  // Itemised costs and short-let amounts are entered for a unit at the plan's
+  // price and scale with each unit's own price as listed; indexing is covered
+  // by their growth
+  if (inputs.purchasePrice > 0) {
+    const listedPrices = new Map(specs.map((spec) => [spec.id, spec.purchasePrice]));
+    for (const p of properties) {
+      p.priceScale = (listedPrices.get(p.spec.id) ?? inputs.purchasePrice) / inputs.purchasePrice;
+    }
+  }
 
-  // Annual expense = monthly * 12
-  const annualExpensePerProperty = monthlyExpensePerProperty * 12;
+  // Stamp duty and fees on each purchase; only the earliest can be a first home
+  if (inputs.includeAcquisitionCosts) {
+    const firstStart = Math.min(...properties.filter((p) => !isSkipped(p)).map((p) => p.startMonth));
+    let firstHomeUsed = false;
+    for (const p of properties) {
+      const isFirstHome =
+        !!inputs.firstHomeExemption && !firstHomeUsed && p.startMonth === firstStart;
+      if (isFirstHome) firstHomeUsed = true;
+      p.acquisitionCosts = calculateAcquisitionCosts({
+        purchasePrice: p.spec.purchasePrice,
+        marketValue: p.spec.marketValue,
+        loanAmount: p.spec.loanAmount,
+        isFirstHome,
+      });
+    }
+  }
 
-  // Calculate net equity for 10, 20, and 30 years
-  const results10 = simulatePortfolio(
-    10, purchasePrice, marketValue, loanAmount, monthlyPayment,
-    appreciationRate, annualRentalIncome, interestRate, buyInterval,
-    maxProperties, loanTenure, annualExpensePerProperty
-  );
-  const results20 = simulatePortfolio(
-    20, purchasePrice, marketValue, loanAmount, monthlyPayment,
-    appreciationRate, annualRentalIncome, interestRate, buyInterval,
-    maxProperties, loanTenure, annualExpensePerProperty
+  // Simulate the horizon month by month, then roll up for charts and tables
+  const proceedsToCash = (inputs.saleProceedsTo ?? "cash") === "cash";
+  const refinance = isRefinanceEnabled(inputs.refinance) ? inputs.refinance : null;
+  const cashOutToCash = (refinance?.cashOutTo ?? "cash") === "cash";
+  const dsr = isDsrEnabled(inputs.dsr)
+    ? { settings: inputs.dsr, policy: getBankPolicy(inputs.dsr) }
+    : null;
+  const cashAccount = isCashAccountEnabled(inputs.cashAccount) ? inputs.cashAccount : null;
+  const { monthlyData, propertyMonths } = simulateMonthly({
+    years,
+    startingYear,
+    valueIndex,
+    rentIndex,
+    rentStartDelayMonths,
+    rentPolicy,
+    properties,
+    agentCommissionRate: (inputs.agentCommissionRate ?? 3) / 100,
+    rpgtCategory: inputs.rpgtCategory ?? "citizen",
+    proceedsToCash,
+    refinance,
+    age,
+    incomeTax: inputs.includeIncomeTax
+      ? {
+          employmentIncome: Math.max(0, inputs.employmentIncome ?? 0),
+          reliefs: Math.max(0, inputs.taxReliefs ?? DEFAULT_PERSONAL_RELIEF),
+        }
+      : null,
+    dsr,
+    cashAccount,
+    ltvLimits: !!inputs.applyLtvLimits,
+    flexiLoan,
+    islamic,
+    holdingCosts,
+    fitOutMonths,
+    shortTermRental,
+    leasehold,
+  });
+  const ledgers = propertyMonths.map((months) =>
+    buildLedger(months, years, proceedsToCash, cashOutToCash)
   );
-  const results30 = simulatePortfolio(
-    30, purchasePrice, marketValue, loanAmount, monthlyPayment,
-    appreciationRate, annualRentalIncome, interestRate, buyInterval,
-    maxProperties, loanTenure, annualExpensePerProperty
+  const discountRate = inputs.discountRate ?? DEFAULT_DISCOUNT_RATE;
+  const yearlyData = rollUpYearly(
+    ledgers,
+    monthlyData,
+    years,
+    startingYear,
+    interestRates,
+    islamic ? capAtCeiling(loanRates, islamic) : null,
+    properties,
+    dsr,
+    cashAccount ? cashAccount.startingBalance : null
   );
 
-  // Generate year-by-year data for charts and tables
-  const yearlyData = generateYearlyData(
-    30, purchasePrice, marketValue, loanAmount, monthlyPayment,
-    appreciationRate, annualRentalIncome, interestRate, buyInterval,
-    maxProperties, startingYear, loanTenure,
-    annualExpensePerProperty
-  );
+  // Headline per-property figures describe the first purchase as completed,
+  // after any margin cap (or the interval template when nothing is bought)
+  const first = properties.findIndex((p) => !isSkipped(p));
+  const headline =
+    properties[first] ??
+    prepareProperty(
+      generatePropertyList({ ...inputs, maxProperties: 1 })[0],
+      loanRates,
+      loanTenure,
+      years,
+      0,
+      islamic,
+      leasehold
+    )!;
+  const monthlyPayment = headline.schedule.payments[0] ?? 0;
+  // Rent and itemised costs over its first twelve months from handover, as simulated
+  const firstYearHeld = first >= 0
+    ? propertyMonths[first].slice(headline.handoverMonth, headline.handoverMonth + 12)
+    : [];
+  const annualRentalIncome =
+    first >= 0
+      ? firstYearHeld.reduce((total, m) => total + m.rentalIncome, 0)
+      : getCollectedAnnualRent(headline.spec, rentPolicy, appreciationRate, 0);
+  const monthlyExpensePerProperty = holdingCosts || headline.spec.shortTermRental
+    ? firstYearHeld.reduce((total, m) => total + m.expense, 0) / 12
+    : headline.monthlyExpense;
 
   return {
-    results10,
-    results20,
-    results30,
+    horizonYears: years,
+    milestones: Object.fromEntries(
+      resolveMilestoneYears(inputs).map((year) => [year, summariseYear(yearlyData, year)])
+    ),
     yearlyData,
+    monthlyData,
     monthlyPayment,
-    loanAmount,
-    marketValue,
+    loanAmount: headline.spec.loanAmount,
+    marketValue: headline.spec.marketValue,
     annualRentalIncome,
-    annualExpensePerProperty,
+    annualExpensePerProperty: monthlyExpensePerProperty * 12,
     loanTenure,
     monthlyExpensePerProperty,
+    purchaseMonth,
+    rentStartDelayMonths,
+    // Purchases the bank declined or the buyer couldn't fund never happened
+    properties: properties.flatMap((p, i) =>
+      isSkipped(p)
+        ? []
+        : [rollUpProperty(p, propertyMonths[i], ledgers[i], discountRate, leasehold)]
+    ),
+    usesPropertyList,
+    priceGrowthRate: inputs.indexFuturePurchases
+      ? inputs.priceGrowthRate ?? appreciationPct
+      : null,
+    saleProceedsTo: proceedsToCash ? "cash" : "stock",
+    refinanceCashOutTo: refinance ? refinance.cashOutTo : null,
+    rentPolicy,
+    blockedPurchases: properties.flatMap((p) => (p.blocked ? [p.blocked] : [])),
+    unfundedPurchases: properties.flatMap((p) => (p.unfunded ? [p.unfunded] : [])),
+    shortLeasePurchases: properties.flatMap((p) => (p.shortLease ? [p.shortLease] : [])),
+    flexiLoan: flexiLoan ? summariseFlexiLoans(flexiLoan, properties) : null,
+    islamicFinancing: islamic,
+    holdingCosts,
+    fitOutMonths: properties.some((p) => p.handoverMonth > p.startMonth && !isSkipped(p))
+      ? fitOutMonths
+      : null,
+    shortTermRental: properties.some((p) => p.spec.shortTermRental && !isSkipped(p))
+      ? shortTermRental
+      : null,
+    leasehold: properties.some((p) => p.lease && !isSkipped(p)) ? leasehold : null,
+    // Skipped purchases have empty ledgers, so every unit can be summed
+    returns: calculateReturnMetrics(
+      yearlyData.map(({ year }) => ledgers.reduce((total, l) => total + l[year].investorCash, 0)),
+      yearlyData[years].totalAssetValue - yearlyData[years].totalLoanBalance,
+      discountRate
+    ),
+    liquidity: cashAccount
+      ? summariseLiquidity(
+          monthlyData.map((m) => m.cashBalance ?? 0),
+          cashAccount.emergencyFloor
+        )
+      : null,
   };
 }
 
@@ -390,7 +2382,11 @@ export interface StockYearlyData {
   cashFlowInvested: number; // positive cash flow from property reinvested this year
   cumulativeCashFlowInvested: number;
   // Cashback lump sum
-  cashbackAmount: number; // cashback from new property purchases this year
+  cashbackAmount: number; // cashback from new property purchases invested this year
+  // Property sales
+  saleProceedsInvested: number; // net sale proceeds routed to stocks this year
+  // Refinancing
+  refinanceCashInvested: number; // cash released by refinancing routed to stocks this year
   // Dividend reinvestment
   dividendReinvested: number; // last year's dividend reinvested this year (DRIP)
   // Stock portfolio
@@ -401,17 +2397,46 @@ export interface StockYearlyData {
   cumulativeDividends: number;
   // Property reference
   propertyNetEquity: number; // property net equity for this year (for transparent combined calc)
+  cashBalance: number | null; // cash account at year end after stock purchases, null when not tracked
   // Combined
   combinedNetWorth: number; // property net equity + stock portfolio
 }
 
+export interface StockMilestone {
+  portfolioValue: number;
+  totalDividends: number;
+  totalInvested: number;
+}
+
 export interface StockSimulationResult {
   yearlyData: StockYearlyData[];
-  totalCashbackPerProperty: number; // cashback per property
+  totalCashbackPerProperty: number; // average cashback per property
   totalCashbackAllProperties: number; // total cashback across all properties
-  stock10Year: { portfolioValue: number; totalDividends: number; totalInvested: number };
-  stock20Year: { portfolioValue: number; totalDividends: number; totalInvested: number };
-  stock30Year: { portfolioValue: number; totalDividends: number; totalInvested: number };
+  milestones: Record<number, StockMilestone>; // the property plan's milestone years
+  timeWeightedReturn: number | null; // % p.a. over the years stock is held, null if none is bought
+}
+
+/** Saved stock results from before milestones were configurable */
+interface LegacyStockMilestones {
+  stock10Year?: StockMilestone;
+  stock20Year?: StockMilestone;
+  stock30Year?: StockMilestone;
+}
+
+/** Stock milestones in year order, falling back to 10/20/30 for older saved results */
+export function getStockMilestones(
+  results: StockSimulationResult
+): { year: number; milestone: StockMilestone }[] {
+  const milestones =
+    results.milestones ??
+    (() => {
+      const legacy = results as StockSimulationResult & LegacyStockMilestones;
+      return { 10: legacy.stock10Year, 20: legacy.stock20Year, 30: legacy.stock30Year };
+    })();
+  return Object.entries(milestones)
+    .filter((entry): entry is [string, StockMilestone] => !!entry[1])
+    .map(([year, milestone]) => ({ year: Number(year), milestone }))
+    .sort((a, b) => a.year - b.year);
 }
 
 /**
@@ -420,15 +2445,26 @@ export interface StockSimulationResult {
  * 1. Cashback = loanAmount - purchasePrice (per property, if positive)
  *    Invested as lump sum when each property is purchased
  * 2. Positive annual cash flow from property portfolio reinvested into stocks
+ * 3. Net proceeds of property sales, when the plan routes them to stocks
+ * 4. Cash released by refinancing, when the plan routes it to stocks
+ *
+ * With a cash account, cashback and cash-flow surplus are only invested
+ * from what the account can spare above its emergency floor, now and in
+ * every later month of the property plan, so money a later deposit or
+ * shortfall needs stays in cash. Each purchase then leaves the account,
+ * along with the FD interest it would have earned.
  *
  * Stock is bought at a discount (below market value).
  * Stocks appreciate annually and pay dividends.
  * Dividends can be reinvested (DRIP) or taken as cash.
+ * `stockReturns` (decimal, index 0 = year 1) replaces the flat appreciation
+ * with a year-by-year price path.
  */
 export function calculateStockReinvestment(
   stockInputs: StockInputs,
   propertyInputs: CalculatorInputs,
-  propertyResult: FullSimulationResult
+  propertyResult: FullSimulationResult,
+  stockReturns?: number[]
 ): StockSimulationResult {
   const {
     stockDividendYield: divYieldPct,
@@ -444,7 +2480,38 @@ export function calculateStockReinvestment(
   // Cashback per property = loanAmount - purchasePrice (only if positive)
   const cashbackPerProperty = Math.max(0, propertyInputs.loanAmount - propertyInputs.purchasePrice);
 
-  const years = 30;
+  // Each purchase brings the cashback its ledger records; results saved
+  // before the ledger use its loan and price, and those before the property
+  // list fall back to identical units
+  const purchases = propertyResult.properties;
+  const cashbackForYear = (year: number, newProperties: number) =>
+    purchases
+      ? purchases.reduce(
+          (sum, p) =>
+            sum +
+            (p.ledger
+              ? p.ledger[year]?.cashback ?? 0
+              : p.purchaseYear === year
+                ? Math.max(0, p.loanAmount - p.purchasePrice)
+                : 0),
+          0
+        )
+      : newProperties * cashbackPerProperty;
+
+  const proceedsToStock = propertyInputs.saleProceedsTo === "stock";
+  const cashOutToStock = propertyResult.refinanceCashOutTo === "stock";
+
+  const account =
+    isCashAccountEnabled(propertyInputs.cashAccount) && propertyResult.liquidity
+      ? propertyInputs.cashAccount
+      : null;
+  const fdGrowth = account ? Math.pow(1 + account.fdRate / 100 / 12, 12) : 1;
+  let drawn = 0; // taken from the account for stocks so far, with forgone interest
+  // Month-end balances of the property plan, which knows nothing of stock buys.
+  // Deposits and shortfalls the plan has yet to pay are never put in stocks.
+  const balances = account ? (propertyResult.monthlyData ?? []).map((m) => m.cashBalance ?? 0) : [];
+
+  const years = getHorizonYears(propertyResult);
   const yearlyData: StockYearlyData[] = [];
   let stockPortfolioValue = 0; // current market value of stock holdings
   let totalSharesOwned = 0; // track shares for accurate valuation
@@ -452,6 +2519,7 @@ export function calculateStockReinvestment(
   let cumulativeDividends = 0;
   let cumulativeCashFlowInvested = 0;
   let currentStockPrice = 1; // normalized starting price
+  const periodReturns: number[] = []; // each year's growth on the opening value, new money aside
 
   // Track how many properties have been purchased so far
   // to know when new cashback lump sums come in
@@ -464,18 +2532,43 @@ export function calculateStockReinvestment(
     // Stock price appreciates starting from Year 2
     // Year 1: buy at discount only, no capital growth yet
     if (year > 1) {
-      currentStockPrice *= (1 + appreciation);
+      currentStockPrice *= (1 + (stockReturns?.[year - 1] ?? appreciation));
     }
 
     let cashFlowInvestedThisYear = 0;
     let cashbackThisYear = 0;
+    let saleProceedsThisYear = 0;
+    let refinanceCashThisYear = 0;
     let dividendReinvestedThisYear = 0;
+    let dividendPaidOut = 0;
+    const openingValue = stockPortfolioValue;
 
     if (year > 0) {
-      // 1. Cashback from newly purchased properties this year
+      drawn *= fdGrowth;
       const newProperties = propYearData.propertiesOwned - prevPropertiesOwned;
-      if (newProperties > 0 && cashbackPerProperty > 0) {
-        cashbackThisYear = newProperties * cashbackPerProperty;
+      cashbackThisYear = cashbackForYear(year, newProperties);
+      // Surplus parked in flexi loans stays there; redrawn money is cash again
+      let surplus = Math.max(
+        0,
+        propYearData.annualCashFlow - (propYearData.prepayment ?? 0) + (propYearData.redraw ?? 0)
+      );
+      // Only what the account can spare above its floor, cashback first
+      if (account) {
+        const spare = getSpareCash(
+          balances,
+          year * 12,
+          propYearData.cashBalance ?? 0,
+          drawn,
+          account.emergencyFloor,
+          account.fdRate
+        );
+        cashbackThisYear = Math.min(cashbackThisYear, spare);
+        surplus = Math.min(surplus, spare - cashbackThisYear);
+        drawn += cashbackThisYear + surplus;
+      }
+
+      // 1. Cashback from newly purchased properties this year
+      if (cashbackThisYear > 0) {
         // Buy stocks with cashback at current discounted price
         const currentBuyPrice = currentStockPrice * (1 - discount);
         const sharesBought = cashbackThisYear / currentBuyPrice;
@@ -484,9 +2577,8 @@ export function calculateStockReinvestment(
       }
 
       // 2. Positive cash flow reinvested into stocks
-      const annualCashFlow = propYearData.annualCashFlow;
-      if (annualCashFlow > 0) {
-        cashFlowInvestedThisYear = annualCashFlow;
+      if (surplus > 0) {
+        cashFlowInvestedThisYear = surplus;
         const currentBuyPrice = currentStockPrice * (1 - discount);
         const sharesBought = cashFlowInvestedThisYear / currentBuyPrice;
         totalSharesOwned += sharesBought;
@@ -494,10 +2586,36 @@ export function calculateStockReinvestment(
         cumulativeCashFlowInvested += cashFlowInvestedThisYear;
       }
 
-      // 3. Dividends (based on previous year's portfolio value)
+      // 3. Net sale proceeds routed to stocks (underwater sales stay in cash)
+      if (proceedsToStock && propertyResult.properties) {
+        saleProceedsThisYear = propertyResult.properties
+          .filter((p) => p.saleYear === year && p.sale)
+          .reduce((sum, p) => sum + Math.max(0, p.sale!.netProceeds), 0);
+        if (saleProceedsThisYear > 0) {
+          const currentBuyPrice = currentStockPrice * (1 - discount);
+          totalSharesOwned += saleProceedsThisYear / currentBuyPrice;
+          stockCostBasis += saleProceedsThisYear;
+        }
+      }
+
+      // 4. Cash-out refinancing routed to stocks (fees beyond the cash-out stay in cash)
+      if (cashOutToStock && propertyResult.properties) {
+        refinanceCashThisYear = propertyResult.properties
+          .flatMap((p) => p.refinances ?? [])
+          .filter((r) => r.year === year)
+          .reduce((sum, r) => sum + Math.max(0, r.cashOut), 0);
+        if (refinanceCashThisYear > 0) {
+          const currentBuyPrice = currentStockPrice * (1 - discount);
+          totalSharesOwned += refinanceCashThisYear / currentBuyPrice;
+          stockCostBasis += refinanceCashThisYear;
+        }
+      }
+
+      // 5. Dividends (based on previous year's portfolio value)
       const annualDividend = stockPortfolioValue * divYield;
       cumulativeDividends += annualDividend;
 
+      if (!reinvestDividends) dividendPaidOut = annualDividend;
       if (reinvestDividends && annualDividend > 0) {
         // DRIP — reinvest last year's dividends at current discounted price
         dividendReinvestedThisYear = annualDividend;
@@ -512,6 +2630,14 @@ export function calculateStockReinvestment(
 
     // Update portfolio value
     stockPortfolioValue = totalSharesOwned * currentStockPrice;
+    if (openingValue > 0) {
+      // New money buys below market; taking it out at market value keeps the
+      // discount from counting as growth
+      const newMoney =
+        cashbackThisYear + cashFlowInvestedThisYear + saleProceedsThisYear + refinanceCashThisYear;
+      const newMoneyValue = newMoney / (1 - discount);
+      periodReturns.push((stockPortfolioValue - newMoneyValue + dividendPaidOut) / openingValue - 1);
+    }
 
     const combinedNetWorth = propYearData.netEquity + stockPortfolioValue;
 
@@ -521,6 +2647,8 @@ export function calculateStockReinvestment(
       cashFlowInvested: cashFlowInvestedThisYear,
       cumulativeCashFlowInvested,
       cashbackAmount: cashbackThisYear,
+      saleProceedsInvested: saleProceedsThisYear,
+      refinanceCashInvested: refinanceCashThisYear,
       dividendReinvested: dividendReinvestedThisYear,
       stockPortfolioValue,
       stockCostBasis,
@@ -528,27 +2656,33 @@ export function calculateStockReinvestment(
       annualDividendIncome: year > 0 ? stockPortfolioValue * divYield : 0,
       cumulativeDividends,
       propertyNetEquity: propYearData.netEquity,
+      cashBalance: account ? (propYearData.cashBalance ?? 0) - drawn : null,
       combinedNetWorth,
     });
   }
 
-  const getYearMetrics = (y: number) => {
+  const getYearMetrics = (y: number): StockMilestone => {
     const d = yearlyData[y];
     return d
       ? { portfolioValue: d.stockPortfolioValue, totalDividends: d.cumulativeDividends, totalInvested: d.stockCostBasis }
       : { portfolioValue: 0, totalDividends: 0, totalInvested: 0 };
   };
 
-  // Count total properties ever purchased for total cashback
-  const totalProperties = propertyResult.yearlyData[years]?.propertiesOwned ?? 0;
+  // Every purchase that completed, including units since sold
+  const totalProperties =
+    purchases?.length ?? propertyResult.yearlyData[years]?.propertiesOwned ?? 0;
+  const totalCashback = yearlyData.reduce((sum, d) => sum + d.cashbackAmount, 0);
 
   return {
     yearlyData,
-    totalCashbackPerProperty: cashbackPerProperty,
-    totalCashbackAllProperties: cashbackPerProperty * totalProperties,
-    stock10Year: getYearMetrics(10),
-    stock20Year: getYearMetrics(20),
-    stock30Year: getYearMetrics(30),
+    // Average across purchases — equals the per-unit figure for identical properties
+    totalCashbackPerProperty:
+      totalProperties > 0 ? totalCashback / totalProperties : cashbackPerProperty,
+    totalCashbackAllProperties: totalCashback,
+    milestones: Object.fromEntries(
+      getMilestones(propertyResult).map(({ year }) => [year, getYearMetrics(year)])
+    ),
+    timeWeightedReturn: calculateTimeWeightedReturn(periodReturns),
   };
 }
 
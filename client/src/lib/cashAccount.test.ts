@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CASH_ACCOUNT,
+  getMonthlyInterest,
+  getMonthlySavings,
+  getSpareCash,
+  summariseLiquidity,
+} from "./cashAccount";
+
+describe("getMonthlySavings", () => {
+  it("raises salary savings each January", () => {
+    const settings = { ...DEFAULT_CASH_ACCOUNT, monthlySavings: 2_000, savingsGrowthRate: 5 };
+    expect(getMonthlySavings(settings, 11)).toBe(2_000);
+    expect(getMonthlySavings(settings, 12)).toBeCloseTo(2_100);
+    expect(getMonthlySavings(settings, 35)).toBeCloseTo(2_205);
+  });
+});
+
+describe("getMonthlyInterest", () => {
+  it("credits a month of FD interest on a positive balance only", () => {
+    expect(getMonthlyInterest(120_000, 2.5)).toBeCloseTo(250);
+    expect(getMonthlyInterest(-10_000, 2.5)).toBe(0);
+  });
+});
+
+describe("getSpareCash", () => {
+  it("keeps the emergency floor when nothing falls due later", () => {
+    expect(getSpareCash([], 0, 80_000, 0, 30_000, 0)).toBe(50_000);
+  });
+
+  it("holds back what a later dip in the balance needs", () => {
+    const balances = [80_000, 80_000, 40_000, 90_000];
+    expect(getSpareCash(balances, 1, 80_000, 0, 30_000, 0)).toBe(10_000);
+    // Once the dip has passed it no longer limits the draw
+    expect(getSpareCash(balances, 3, 80_000, 0, 30_000, 0)).toBe(50_000);
+  });
+
+  it("allows for the FD interest a draw forgoes before the dip", () => {
+    // 12% p.a. is 1% a month: RM x drawn now is RM 1.01x less in the account a month later
+    const spare = getSpareCash([50_000], 0, 60_000, 0, 30_000, 12);
+    expect(spare).toBeCloseTo(20_000 / 1.01, 6);
+    expect(50_000 - spare * 1.01).toBeCloseTo(30_000, 6);
+  });
+
+  it("counts earlier draws, grown by the interest they forgo", () => {
+    expect(getSpareCash([70_000], 0, 80_000, 5_000, 30_000, 0)).toBe(35_000);
+    expect(getSpareCash([70_000], 0, 80_000, 5_000, 30_000, 12)).toBeCloseTo((70_000 - 5_000 * 1.01 - 30_000) / 1.01, 6);
+  });
+
+  it("never draws from an account already under its floor", () => {
+    expect(getSpareCash([50_000], 0, 20_000, 0, 30_000, 0)).toBe(0);
+    expect(getSpareCash([10_000], 0, 80_000, 0, 30_000, 0)).toBe(0);
+  });
+});
+
+describe("summariseLiquidity", () => {
+  it("reports the first months under the floor and overdrawn, and the low point", () => {
+    const balances = [...Array(12).fill(50_000), 20_000, -5_000, 10_000];
+    const summary = summariseLiquidity(balances, 30_000);
+    expect(summary.emergencyFloor).toBe(30_000);
+    expect(summary.firstBelowFloor).toEqual({ year: 2, month: 1, balance: 20_000 });
+    expect(summary.firstInsolvency).toEqual({ year: 2, month: 2, balance: -5_000 });
+    expect(summary.lowestBalance).toEqual({ year: 2, month: 2, balance: -5_000 });
+  });
+
+  it("reports no breach while the balance stays at or above the floor", () => {
+    const summary = summariseLiquidity([30_000, 45_000, 60_000], 30_000);
+    expect(summary.firstBelowFloor).toBeNull();
+    expect(summary.firstInsolvency).toBeNull();
+    expect(summary.lowestBalance).toEqual({ year: 1, month: 1, balance: 30_000 });
+  });
+});
@@ -0,0 +1,105 @@
+// ============================================================
+// PropertyLab - Cash Account
+// The investor's own cash: a starting balance topped up by
+// monthly salary savings and fixed-deposit interest. It pays
+// deposits and any shortfall in the portfolio's cash flow, and
+// receives its surpluses, cashback and cash kept from sales and
+// refinancing.
+// ============================================================
+
+export interface CashAccountSettings {
+  enabled: boolean;
+  startingBalance: number; // RM
+  monthlySavings: number; // RM saved from salary each month
+  savingsGrowthRate: number; // % p.a., applied each January
+  fdRate: number; // % p.a. earned on a positive balance, credited monthly
+  emergencyFloor: number; // RM the investor never wants to dip below
+}
+
+export const DEFAULT_CASH_ACCOUNT: CashAccountSettings = {
+  enabled: false,
+  startingBalance: 100000,
+  monthlySavings: 2000,
+  savingsGrowthRate: 3,
+  fdRate: 2.5, // typical 12-month FD board rate
+  emergencyFloor: 30000,
+};
+
+/** A month in which the balance crosses a threshold */
+export interface CashShortfall {
+  year: number; // simulation year
+  month: number; // 1–12
+  balance: number; // RM at month end
+}
+
+export interface LiquiditySummary {
+  emergencyFloor: number;
+  firstBelowFloor: CashShortfall | null; // first month under the emergency floor
+  firstInsolvency: CashShortfall | null; // first month the balance is negative
+  lowestBalance: CashShortfall;
+}
+
+/** Whether the plan tracks a cash account (older scenarios have no settings) */
+export function isCashAccountEnabled(
+  settings?: CashAccountSettings
+): settings is CashAccountSettings {
+  return !!settings && settings.enabled;
+}
+
+/** Salary savings paid in during a 0-based month, after the yearly raises so far */
+export function getMonthlySavings(settings: CashAccountSettings, month: number): number {
+  return (
+    settings.monthlySavings *
+    Math.pow(1 + settings.savingsGrowthRate / 100, Math.floor(month / 12))
+  );
+}
+
+/** FD interest for one month on the opening balance; an overdrawn account earns nothing */
+export function getMonthlyInterest(balance: number, fdRate: number): number {
+  return balance > 0 ? (balance * fdRate) / 100 / 12 : 0;
+}
+
+/**
+ * What can leave the account at the end of month `fromMonth - 1` and still
+ * keep it at `floor` in every later month, with the FD interest the money
+ * forgoes. `balances` are the month-end balances with nothing taken out;
+ * `withdrawn` has left already and carries its forgone interest to date.
+ */
+export function getSpareCash(
+  balances: number[],
+  fromMonth: number,
+  balance: number,
+  withdrawn: number,
+  floor: number,
+  fdRate: number
+): number {
+  const fdMonthly = 1 + fdRate / 100 / 12;
+  let spare = balance - withdrawn - floor;
+  let growth = 1;
+  for (let month = fromMonth; month < balances.length; month++) {
+    growth *= fdMonthly;
+    spare = Math.min(spare, (balances[month] - withdrawn * growth - floor) / growth);
+  }
+  return Math.max(0, spare);
+}
+
+/** First-breach months and the low point of a month-end balance series */
+export function summariseLiquidity(
+  balances: number[],
+  emergencyFloor: number
+): LiquiditySummary {
+  const at = (month: number): CashShortfall => ({
+    year: Math.floor(month / 12) + 1,
+    month: (month % 12) + 1,
+    balance: balances[month],
+  });
+  const belowFloor = balances.findIndex((b) => b < emergencyFloor);
+  const negative = balances.findIndex((b) => b < 0);
+  const lowest = balances.reduce((min, b, m) => (b < balances[min] ? m : min), 0);
+  return {
+    emergencyFloor,
+    firstBelowFloor: belowFloor >= 0 ? at(belowFloor) : null,
+    firstInsolvency: negative >= 0 ? at(negative) : null,
+    lowestBalance: at(lowest),
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { getBilledShare, getDrawnLoan, getOwnPayment, SCHEDULE_H } from "./construction";
+
+describe("getBilledShare", () => {
+  it("bills 10% at the SPA and the whole price by vacant possession", () => {
+    expect(SCHEDULE_H.reduce((sum, stage) => sum + stage.share, 0)).toBe(100);
+    expect(getBilledShare(0, 40)).toBeCloseTo(0.1);
+    expect(getBilledShare(6, 40)).toBeCloseTo(0.2);
+    expect(getBilledShare(39, 40)).toBeCloseTo(0.8);
+    expect(getBilledShare(40, 40)).toBeCloseTo(1);
+  });
+
+  it("bills a completed unit in full", () => {
+    expect(getBilledShare(0, 0)).toBe(1);
+  });
+});
+
+describe("getDrawnLoan", () => {
+  const unit = { purchasePrice: 500_000, loanAmount: 400_000 };
+
+  it("draws nothing until the buyer's share is paid", () => {
+    expect(getDrawnLoan({ ...unit, billedShare: 0.2 })).toBe(0);
+    expect(getDrawnLoan({ ...unit, billedShare: 0.35 })).toBeCloseTo(75_000);
+  });
+
+  it("releases a loan above the price in full at handover", () => {
+    expect(getDrawnLoan({ purchasePrice: 500_000, loanAmount: 550_000, billedShare: 0.95 })).toBeCloseTo(475_000);
+    expect(getDrawnLoan({ purchasePrice: 500_000, loanAmount: 550_000, billedShare: 1 })).toBe(550_000);
+  });
+});
+
+describe("getOwnPayment", () => {
+  const unit = { constructionMonths: 40, purchasePrice: 500_000, loanAmount: 400_000 };
+  const payments = Array.from({ length: 48 }, (_, m) => getOwnPayment({ ...unit, monthsSinceSpa: m }));
+
+  it("pays the buyer's share with the first billings", () => {
+    expect(payments[0]).toBeCloseTo(50_000);
+    expect(payments[6]).toBeCloseTo(50_000);
+    expect(payments.reduce((sum, p) => sum + p, 0)).toBeCloseTo(100_000);
+    expect(payments.slice(7).every((p) => p === 0)).toBe(true);
+  });
+
+  it("pays a completed unit's deposit at once", () => {
+    expect(getOwnPayment({ ...unit, constructionMonths: 0, monthsSinceSpa: 0 })).toBe(100_000);
+    expect(getOwnPayment({ ...unit, constructionMonths: 0, monthsSinceSpa: 1 })).toBe(0);
+  });
+});
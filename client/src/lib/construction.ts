@@ -0,0 +1,100 @@
+// ============================================================
+// PropertyLab - Under-Construction Purchases
+// New launches are bought off-plan and handed over 3–4 years
+// later. The developer bills the price in stages under Schedule H
+// of the Housing Development Regulations; the buyer pays the
+// stages until their own share is paid, and the bank disburses
+// the rest. Until vacant possession only interest on what has
+// been drawn is paid (none under a developer-interest-bearing
+// scheme, DIBS), and the unit earns no rent until it is fitted out.
+// ============================================================
+
+export interface ConstructionSettings {
+  enabled: boolean; // the interval model's units are bought under construction
+  constructionMonths: number; // SPA to vacant possession
+  dibs: boolean; // the developer bears the progressive interest
+  fitOutMonths: number; // after vacant possession, before the unit can be let; applies to every off-plan unit
+}
+
+export const DEFAULT_CONSTRUCTION: ConstructionSettings = {
+  enabled: false,
+  constructionMonths: 42, // the 36 months Schedule H allows, plus typical extensions
+  dibs: false,
+  fitOutMonths: 3,
+};
+
+/** A Schedule H progress billing */
+export interface BillingStage {
+  label: string;
+  share: number; // % of the purchase price
+  progress: number; // share of the build period elapsed when it is billed
+}
+
+/** Schedule H billing for strata units, spread over the build as works typically progress */
+export const SCHEDULE_H: BillingStage[] = [
+  { label: "Signing of SPA", share: 10, progress: 0 },
+  { label: "Foundation", share: 10, progress: 0.15 },
+  { label: "Structural framework", share: 15, progress: 0.35 },
+  { label: "Walls, doors and windows", share: 10, progress: 0.5 },
+  { label: "Ceiling, wiring and plumbing", share: 10, progress: 0.65 },
+  { label: "Internal and external finishes", share: 10, progress: 0.8 },
+  { label: "Sewerage", share: 5, progress: 0.85 },
+  { label: "Drains", share: 5, progress: 0.9 },
+  { label: "Roads", share: 5, progress: 0.95 },
+  { label: "Vacant possession", share: 17.5, progress: 1 },
+  { label: "Common property", share: 2.5, progress: 1 },
+];
+
+/** Share of the price (0–1) billed by `monthsSinceSpa`, 0 = the signing month */
+export function getBilledShare(monthsSinceSpa: number, constructionMonths: number): number {
+  const elapsed = constructionMonths > 0 ? monthsSinceSpa / constructionMonths : 1;
+  return (
+    SCHEDULE_H.filter((stage) => stage.progress <= elapsed).reduce(
+      (sum, stage) => sum + stage.share,
+      0
+    ) / 100
+  );
+}
+
+/**
+ * Loan disbursed once `billedShare` of the price has been billed. The
+ * buyer's own part of the price is paid first, then the bank pays each
+ * stage; a loan above the price is released in full at handover.
+ */
+export function getDrawnLoan(params: {
+  billedShare: number;
+  purchasePrice: number;
+  loanAmount: number;
+}): number {
+  const { billedShare, purchasePrice, loanAmount } = params;
+  if (billedShare >= 1) return loanAmount;
+  const ownShare = Math.max(0, purchasePrice - loanAmount);
+  return Math.min(loanAmount, Math.max(0, billedShare * purchasePrice - ownShare));
+}
+
+/**
+ * The buyer's own payment toward the price in the `monthsSinceSpa`-th
+ * month: the stages billed that month, until their share of the price is
+ * paid and the bank takes over. A completed unit is paid for at once.
+ */
+export function getOwnPayment(params: {
+  monthsSinceSpa: number;
+  constructionMonths: number;
+  purchasePrice: number;
+  loanAmount: number;
+}): number {
+  const { monthsSinceSpa, constructionMonths, purchasePrice, loanAmount } = params;
+  const ownShare = Math.max(0, purchasePrice - loanAmount);
+  const paidBy = (months: number) =>
+    months < 0
+      ? 0
+      : Math.min(ownShare, getBilledShare(months, constructionMonths) * purchasePrice);
+  return paidBy(monthsSinceSpa) - paidBy(monthsSinceSpa - 1);
+}
+
+/** Whether the interval model's units are bought off-plan (older scenarios have no settings) */
+export function isConstructionEnabled(
+  settings?: ConstructionSettings
+): settings is ConstructionSettings {
+  return !!settings && settings.enabled && settings.constructionMonths > 0;
+}
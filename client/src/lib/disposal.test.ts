@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { calculateSale, getRpgtRate } from "./disposal";
+import { calculateLegalFees } from "./acquisitionCosts";
+
+describe("getRpgtRate", () => {
+  it("follows the citizen schedule by year of disposal", () => {
+    expect(getRpgtRate("citizen", 1)).toBe(0.3);
+    expect(getRpgtRate("citizen", 36)).toBe(0.3);
+    expect(getRpgtRate("citizen", 37)).toBe(0.2);
+    expect(getRpgtRate("citizen", 60)).toBe(0.15);
+    expect(getRpgtRate("citizen", 61)).toBe(0);
+  });
+
+  it("keeps 10% from the 6th year for non-citizens and companies", () => {
+    expect(getRpgtRate("nonCitizen", 60)).toBe(0.3);
+    expect(getRpgtRate("nonCitizen", 240)).toBe(0.1);
+    expect(getRpgtRate("company", 48)).toBe(0.2);
+    expect(getRpgtRate("company", 240)).toBe(0.1);
+  });
+});
+
+describe("calculateSale", () => {
+  const params = {
+    salePrice: 800_000,
+    purchasePrice: 500_000,
+    acquisitionCosts: 20_000,
+    loanBalance: 300_000,
+    monthsHeld: 40,
+    agentCommissionRate: 0.03,
+    category: "citizen" as const,
+  };
+
+  it("taxes the gain after sale costs, acquisition costs and the individual exemption", () => {
+    const sale = calculateSale(params);
+    const saleCosts = 24_000 + calculateLegalFees(800_000);
+    const gain = 800_000 - saleCosts - 520_000;
+    expect(sale.chargeableGain).toBeCloseTo(gain - gain * 0.1);
+    expect(sale.rpgtRate).toBe(0.2);
+    expect(sale.rpgt).toBeCloseTo(sale.chargeableGain * 0.2);
+    expect(sale.netProceeds).toBeCloseTo(800_000 - saleCosts - sale.rpgt - 300_000);
+  });
+
+  it("exempts at least RM 10,000 of an individual's gain", () => {
+    const sale = calculateSale({ ...params, salePrice: 560_000 });
+    const gain = 560_000 - (16_800 + calculateLegalFees(560_000)) - 520_000;
+    expect(sale.chargeableGain).toBeCloseTo(Math.max(0, gain - 10_000));
+  });
+
+  it("gives companies no exemption", () => {
+    const sale = calculateSale({ ...params, category: "company" });
+    const gain = 800_000 - (24_000 + calculateLegalFees(800_000)) - 520_000;
+    expect(sale.chargeableGain).toBeCloseTo(gain);
+  });
+
+  it("charges no RPGT on a loss", () => {
+    const sale = calculateSale({ ...params, salePrice: 450_000 });
+    expect(sale.rpgt).toBe(0);
+    expect(sale.realisedGain).toBeLessThan(0);
+  });
+});
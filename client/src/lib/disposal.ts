@@ -0,0 +1,104 @@
+// ============================================================
+// PropertyLab - Property Disposal
+// Sale costs and Real Property Gains Tax (RPGT) on disposal,
+// following the Malaysian holding-period schedule (from 2022).
+// ============================================================
+
+import { calculateLegalFees } from "./acquisitionCosts";
+
+export type RpgtCategory = "citizen" | "nonCitizen" | "company";
+
+/**
+ * RPGT rates by year of disposal (1 = disposed within the first year of
+ * ownership). The last entry applies to every later year.
+ */
+const RPGT_SCHEDULE: Record<RpgtCategory, number[]> = {
+  citizen: [0.3, 0.3, 0.3, 0.2, 0.15, 0],
+  nonCitizen: [0.3, 0.3, 0.3, 0.3, 0.3, 0.1],
+  company: [0.3, 0.3, 0.3, 0.2, 0.15, 0.1],
+};
+
+/** Individuals are exempt on RM 10,000 or 10% of the chargeable gain, whichever is higher */
+const INDIVIDUAL_EXEMPTION_MIN = 10_000;
+const INDIVIDUAL_EXEMPTION_RATE = 0.1;
+
+export const RPGT_CATEGORY_LABELS: Record<RpgtCategory, string> = {
+  citizen: "Citizen / PR",
+  nonCitizen: "Non-citizen",
+  company: "Company",
+};
+
+/**
+ * RPGT rate for a disposal after `monthsHeld` months of ownership.
+ * A disposal within the 5th year (49–60 months) is taxed at the 5th-year
+ * rate; anything after 60 months falls in the 6th year onwards.
+ */
+export function getRpgtRate(category: RpgtCategory, monthsHeld: number): number {
+  const schedule = RPGT_SCHEDULE[category];
+  const disposalYear = Math.max(1, Math.ceil(monthsHeld / 12));
+  return schedule[Math.min(disposalYear, schedule.length) - 1];
+}
+
+export interface SaleBreakdown {
+  salePrice: number; // market value at sale
+  agentCommission: number;
+  legalFees: number;
+  chargeableGain: number; // after permitted costs and the individual exemption
+  rpgtRate: number; // decimal
+  rpgt: number;
+  loanRedeemed: number;
+  netProceeds: number; // cash released after costs, tax and redemption
+  realisedGain: number; // sale price - purchase price - all costs - RPGT
+}
+
+export interface SaleParams {
+  salePrice: number;
+  purchasePrice: number;
+  acquisitionCosts: number; // permitted as part of the acquisition price
+  loanBalance: number;
+  monthsHeld: number;
+  agentCommissionRate: number; // decimal
+  category: RpgtCategory;
+}
+
+export function calculateSale(params: SaleParams): SaleBreakdown {
+  const {
+    salePrice,
+    purchasePrice,
+    acquisitionCosts,
+    loanBalance,
+    monthsHeld,
+    agentCommissionRate,
+    category,
+  } = params;
+
+  const agentCommission = salePrice * agentCommissionRate;
+  const legalFees = calculateLegalFees(salePrice);
+  const saleCosts = agentCommission + legalFees;
+
+  // Gain = disposal price (net of sale costs) - acquisition price (incl. costs)
+  const gain = Math.max(
+    0,
+    salePrice - saleCosts - (purchasePrice + acquisitionCosts)
+  );
+  const exemption =
+    category === "company"
+      ? 0
+      : Math.max(INDIVIDUAL_EXEMPTION_MIN, gain * INDIVIDUAL_EXEMPTION_RATE);
+  const chargeableGain = Math.max(0, gain - exemption);
+  const rpgtRate = getRpgtRate(category, monthsHeld);
+  const rpgt = chargeableGain * rpgtRate;
+
+  return {
+    salePrice,
+    agentCommission,
+    legalFees,
+    chargeableGain,
+    rpgtRate,
+    rpgt,
+    loanRedeemed: loanBalance,
+    netProceeds: salePrice - saleCosts - rpgt - loanBalance,
+    realisedGain:
+      salePrice - saleCosts - rpgt - purchasePrice - acquisitionCosts,
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  BANK_POLICIES,
+  calculateDsr,
+  DEFAULT_DSR_SETTINGS,
+  getBankPolicy,
+  getDsrLimit,
+  getNetIncomeForMonth,
+} from "./dsr";
+
+describe("getDsrLimit", () => {
+  it("reads the tier for the income", () => {
+    expect(getDsrLimit(BANK_POLICIES.maybank, 2_500)).toBe(40);
+    expect(getDsrLimit(BANK_POLICIES.maybank, 3_000)).toBe(40);
+    expect(getDsrLimit(BANK_POLICIES.maybank, 3_001)).toBe(70);
+    expect(getDsrLimit(BANK_POLICIES.hongLeong, 8_000)).toBe(75);
+  });
+});
+
+describe("getBankPolicy", () => {
+  it("uses the user's own limit and haircut for a custom bank", () => {
+    const policy = getBankPolicy({ ...DEFAULT_DSR_SETTINGS, bank: "custom", customLimit: 65, customRentalRecognition: 50 });
+    expect(getDsrLimit(policy, 1_000_000)).toBe(65);
+    expect(policy.rentalRecognition).toBe(50);
+  });
+});
+
+describe("getNetIncomeForMonth", () => {
+  it("raises income each January", () => {
+    const settings = { ...DEFAULT_DSR_SETTINGS, netMonthlyIncome: 10_000, incomeGrowthRate: 5 };
+    expect(getNetIncomeForMonth(settings, 11)).toBe(10_000);
+    expect(getNetIncomeForMonth(settings, 12)).toBeCloseTo(10_500);
+    expect(getNetIncomeForMonth(settings, 30)).toBeCloseTo(11_025);
+  });
+});
+
+describe("calculateDsr", () => {
+  it("divides commitments by income plus the recognised rent", () => {
+    expect(calculateDsr({ commitments: 4_000, netIncome: 8_000, rentalIncome: 2_500, rentalRecognition: 80 })).toBeCloseTo(40);
+  });
+
+  it("is infinite with commitments and no income", () => {
+    expect(calculateDsr({ commitments: 1, netIncome: 0, rentalIncome: 0, rentalRecognition: 80 })).toBe(Infinity);
+    expect(calculateDsr({ commitments: 0, netIncome: 0, rentalIncome: 0, rentalRecognition: 80 })).toBe(0);
+  });
+});
@@ -0,0 +1,137 @@
+// ============================================================
+// PropertyLab - Loan Eligibility (DSR)
+// Debt service ratio as Malaysian banks assess it: monthly
+// commitments over net income plus the recognised share of
+// rent. Each bank sets its own limit, usually higher for
+// higher earners, and its own rental haircut.
+// ============================================================
+
+export type BankKey = "maybank" | "cimb" | "publicBank" | "hongLeong" | "custom";
+
+/** Limit that applies up to a net monthly income; null = no upper bound */
+export interface DsrTier {
+  maxIncome: number | null; // RM net per month
+  limit: number; // % of recognised income
+}
+
+export interface BankPolicy {
+  label: string;
+  tiers: DsrTier[]; // ascending income
+  rentalRecognition: number; // % of rent counted as income
+}
+
+// Typical published thresholds; banks vary them by product and profile
+export const BANK_POLICIES: Record<Exclude<BankKey, "custom">, BankPolicy> = {
+  maybank: {
+    label: "Maybank",
+    tiers: [
+      { maxIncome: 3000, limit: 40 },
+      { maxIncome: null, limit: 70 },
+    ],
+    rentalRecognition: 80,
+  },
+  cimb: {
+    label: "CIMB",
+    tiers: [
+      { maxIncome: 3000, limit: 60 },
+      { maxIncome: null, limit: 70 },
+    ],
+    rentalRecognition: 80,
+  },
+  publicBank: {
+    label: "Public Bank",
+    tiers: [
+      { maxIncome: 3500, limit: 60 },
+      { maxIncome: null, limit: 70 },
+    ],
+    rentalRecognition: 70,
+  },
+  hongLeong: {
+    label: "Hong Leong",
+    tiers: [
+      { maxIncome: 5000, limit: 60 },
+      { maxIncome: null, limit: 75 },
+    ],
+    rentalRecognition: 80,
+  },
+};
+
+/** The borrower and the bank each purchase is financed with */
+export interface DsrSettings {
+  enabled: boolean;
+  netMonthlyIncome: number; // RM, after EPF, SOCSO and PCB
+  incomeGrowthRate: number; // % p.a., applied each January
+  existingCommitments: number; // RM per month: car loan, PTPTN, cards…
+  bank: BankKey;
+  customLimit: number; // %, used with "custom"
+  customRentalRecognition: number; // %, used with "custom"
+}
+
+export const DEFAULT_DSR_SETTINGS: DsrSettings = {
+  enabled: false,
+  netMonthlyIncome: 10000,
+  incomeGrowthRate: 3,
+  existingCommitments: 1000,
+  bank: "maybank",
+  customLimit: 70,
+  customRentalRecognition: 80,
+};
+
+/** A scheduled purchase the bank would have declined */
+export interface BlockedPurchase {
+  id: string;
+  name: string;
+  year: number; // simulation year
+  month: number; // 1–12
+  loanAmount: number;
+  dsr: number; // % the borrower would have reached with this loan
+  limit: number; // % the bank allows at that income
+}
+
+/** Whether purchases are checked against DSR (older scenarios have no settings) */
+export function isDsrEnabled(settings?: DsrSettings): settings is DsrSettings {
+  return !!settings && settings.enabled;
+}
+
+/** The bank's policy, or the user's own limit and haircut for "custom" */
+export function getBankPolicy(settings: DsrSettings): BankPolicy {
+  if (settings.bank === "custom") {
+    return {
+      label: "Custom",
+      tiers: [{ maxIncome: null, limit: settings.customLimit }],
+      rentalRecognition: settings.customRentalRecognition,
+    };
+  }
+  return BANK_POLICIES[settings.bank];
+}
+
+/** DSR limit (%) for a net monthly income */
+export function getDsrLimit(policy: BankPolicy, netMonthlyIncome: number): number {
+  const tier = policy.tiers.find(
+    (t) => t.maxIncome === null || netMonthlyIncome <= t.maxIncome
+  );
+  return (tier ?? policy.tiers[policy.tiers.length - 1]).limit;
+}
+
+/** Net monthly income in a 0-based month, after the yearly raises so far */
+export function getNetIncomeForMonth(settings: DsrSettings, month: number): number {
+  return (
+    settings.netMonthlyIncome *
+    Math.pow(1 + settings.incomeGrowthRate / 100, Math.floor(month / 12))
+  );
+}
+
+/**
+ * DSR in %: monthly commitments over net income plus the recognised share
+ * of monthly rent. Infinite when there is no income to assess.
+ */
+export function calculateDsr(params: {
+  commitments: number; // RM per month, including every instalment
+  netIncome: number; // RM per month
+  rentalIncome: number; // RM per month
+  rentalRecognition: number; // %
+}): number {
+  const income = params.netIncome + (params.rentalIncome * params.rentalRecognition) / 100;
+  if (income <= 0) return params.commitments > 0 ? Infinity : 0;
+  return (params.commitments / income) * 100;
+}
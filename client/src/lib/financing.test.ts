@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDeposit,
+  getLoanFromLtv,
+  getMarginOfFinance,
+  STANDARD_MARGIN,
+  THIRD_LOAN_MARGIN,
+} from "./financing";
+
+describe("getMarginOfFinance", () => {
+  it("lends 90% on the first two housing loans and 70% from the third", () => {
+    expect(getMarginOfFinance(0)).toBe(STANDARD_MARGIN);
+    expect(getMarginOfFinance(1)).toBe(STANDARD_MARGIN);
+    expect(getMarginOfFinance(2)).toBe(THIRD_LOAN_MARGIN);
+    expect(getMarginOfFinance(5)).toBe(THIRD_LOAN_MARGIN);
+  });
+});
+
+describe("getLoanFromLtv", () => {
+  it("lends a share of market value, to the ringgit", () => {
+    expect(getLoanFromLtv(550_000, 90)).toBe(495_000);
+    expect(getLoanFromLtv(333_333, 70)).toBe(233_333);
+  });
+});
+
+describe("getDeposit", () => {
+  it("is the price the loan does not cover, never negative", () => {
+    expect(getDeposit(500_000, 450_000)).toBe(50_000);
+    expect(getDeposit(500_000, 550_000)).toBe(0);
+  });
+});
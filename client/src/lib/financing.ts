@@ -0,0 +1,39 @@
+// ============================================================
+// PropertyLab - Financing
+// Margin of financing on residential property under Bank Negara
+// Malaysia's macroprudential rules: banks lend up to 90% of value
+// on a borrower's first two outstanding housing loans and at most
+// 70% from the third. The rest of the price is the buyer's deposit.
+// ============================================================
+
+/** How the loan is entered: as an amount, or as a % of market value */
+export type LoanInputMode = "amount" | "ltv";
+
+export const DEFAULT_LTV = 90; // % of market value
+export const STANDARD_MARGIN = 90; // % on the first and second housing loans
+export const THIRD_LOAN_MARGIN = 70; // % from the third outstanding housing loan
+
+/** A scheduled purchase the buyer had too little cash to complete */
+export interface UnfundedPurchase {
+  id: string;
+  name: string;
+  year: number; // simulation year
+  month: number; // 1–12
+  cashNeeded: number; // deposit plus acquisition costs
+  cashAvailable: number; // cash account balance at the start of the month
+}
+
+/** Loan for a market value at a margin of financing (%) */
+export function getLoanFromLtv(marketValue: number, ltv: number): number {
+  return Math.round((marketValue * ltv) / 100);
+}
+
+/** Highest margin (%) a bank may offer given the housing loans already outstanding */
+export function getMarginOfFinance(outstandingLoans: number): number {
+  return outstandingLoans >= 2 ? THIRD_LOAN_MARGIN : STANDARD_MARGIN;
+}
+
+/** Price not covered by the loan, paid from the buyer's own cash */
+export function getDeposit(purchasePrice: number, loanAmount: number): number {
+  return Math.max(0, purchasePrice - loanAmount);
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { calculatePropertyPlan, type CalculatorInputs } from "./calculator";
+import { DEFAULT_FLEXI_LOAN, isFlexiLoan, LOAN_TYPE_DEFAULTS, type FlexiLoanSettings } from "./flexiLoan";
+
+// A high yield leaves a surplus to park from the first year
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 1,
+  appreciationRate: 3,
+  rentalYield: 8,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+};
+
+const FLEXI: FlexiLoanSettings = {
+  loanType: "flexi",
+  prepayShare: 100,
+  redrawForShortfalls: false,
+  redrawFee: 0,
+  ratePremium: 0,
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+describe("isFlexiLoan", () => {
+  it("treats term loans and older scenarios as no flexi loan", () => {
+    expect(isFlexiLoan(undefined)).toBe(false);
+    expect(isFlexiLoan(DEFAULT_FLEXI_LOAN)).toBe(false);
+    expect(isFlexiLoan({ ...DEFAULT_FLEXI_LOAN, loanType: "semiFlexi", ...LOAN_TYPE_DEFAULTS.semiFlexi })).toBe(true);
+  });
+});
+
+describe("flexi loans in the plan", () => {
+  const term = calculatePropertyPlan(BASE).properties[0];
+  const flexi = calculatePropertyPlan({ ...BASE, flexiLoan: FLEXI }).properties[0];
+
+  it("charges interest only on the balance not offset by parked money", () => {
+    expect(flexi.ledger[2].interest).toBeLessThan(term.ledger[2].interest);
+    expect(flexi.flexi!.prepaid).toBeGreaterThan(0);
+    const interest = (p: typeof term) => sum(p.ledger.map((e) => e.interest));
+    expect(interest(term) - interest(flexi)).toBeCloseTo(flexi.flexi!.interestSaved, 2);
+  });
+
+  it("clears the loan before the instalments alone would", () => {
+    const { payoffYear, scheduledPayoffYear } = flexi.flexi!;
+    expect(payoffYear).not.toBeNull();
+    expect(payoffYear!).toBeLessThan(scheduledPayoffYear!);
+    expect(flexi.ledger[payoffYear!].loanBalance).toBe(0);
+  });
+
+  it("parks nothing when the whole surplus is kept as cash", () => {
+    const kept = calculatePropertyPlan({ ...BASE, flexiLoan: { ...FLEXI, prepayShare: 0 } }).properties[0];
+    expect(kept.flexi!.prepaid).toBe(0);
+    expect(kept.flexi!.interestSaved).toBeCloseTo(0, 6);
+    expect(kept.ledger.map((e) => e.interest)).toEqual(term.ledger.map((e) => e.interest));
+  });
+
+  it("charges the rate premium on every instalment", () => {
+    const dearer = calculatePropertyPlan({ ...BASE, flexiLoan: { ...FLEXI, prepayShare: 0, ratePremium: 0.25 } });
+    expect(dearer.properties[0].ledger[1].interest).toBeGreaterThan(term.ledger[1].interest);
+    expect(dearer.properties[0].monthlyPayment).toBeGreaterThan(term.monthlyPayment);
+  });
+});
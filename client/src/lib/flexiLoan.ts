@@ -0,0 +1,54 @@
+// ============================================================
+// PropertyLab - Flexi Loans
+// Semi-flexi and full-flexi housing loans let the borrower pay in
+// more than the instalment and take it back later. Money parked
+// in the loan is not charged interest, so the contractual
+// instalment clears the debt sooner. Banks price the flexibility
+// with a small rate premium, and semi-flexi loans charge for each
+// redraw.
+// ============================================================
+
+export type LoanType = "term" | "semiFlexi" | "flexi";
+
+export interface FlexiLoanSettings {
+  loanType: LoanType;
+  prepayShare: number; // % of each month's surplus cash flow parked in the loans; the rest stays as cash
+  redrawForShortfalls: boolean; // take parked money back to cover months the portfolio runs short
+  redrawFee: number; // RM per month in which money is redrawn
+  ratePremium: number; // % p.a. over the term-loan rate
+}
+
+/** Typical fee and premium for each loan type, applied when the type is picked */
+export const LOAN_TYPE_DEFAULTS: Record<LoanType, Pick<FlexiLoanSettings, "redrawFee" | "ratePremium">> = {
+  term: { redrawFee: 0, ratePremium: 0 },
+  semiFlexi: { redrawFee: 50, ratePremium: 0.1 },
+  flexi: { redrawFee: 0, ratePremium: 0.25 },
+};
+
+export const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  term: "Term",
+  semiFlexi: "Semi-Flexi",
+  flexi: "Full Flexi",
+};
+
+export const DEFAULT_FLEXI_LOAN: FlexiLoanSettings = {
+  loanType: "term",
+  prepayShare: 50,
+  redrawForShortfalls: true,
+  ...LOAN_TYPE_DEFAULTS.term,
+};
+
+/**
+ * Loan payoff with prepayments against the contractual schedule. Years are
+ * simulation years and may fall beyond the horizon; null when nothing is borrowed.
+ */
+export interface FlexiLoanSummary {
+  loanType: LoanType;
+  debtFreeYear: number | null; // last loan cleared or sold, with prepayments
+  scheduledDebtFreeYear: number | null; // the same loans paid by instalments alone
+}
+
+/** Whether loans take prepayments (older scenarios have no settings) */
+export function isFlexiLoan(settings?: FlexiLoanSettings): settings is FlexiLoanSettings {
+  return !!settings && settings.loanType !== "term";
+}
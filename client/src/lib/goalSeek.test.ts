@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { calculatePropertyPlan, type CalculatorInputs } from "./calculator";
+import { getDefaultBounds, runGoalSeek, type GoalSpec } from "./goalSeek";
+
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 3,
+  appreciationRate: 3,
+  rentalYield: 7,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+  horizonYears: 15,
+};
+
+const goal: GoalSpec = {
+  metric: "netEquity",
+  target: 1_000_000,
+  byYear: 2036,
+  neverNegativeCashFlow: true,
+  bounds: getDefaultBounds(BASE),
+};
+
+describe("runGoalSeek", () => {
+  const result = runGoalSeek(BASE, null, goal);
+
+  it("returns plans that reach the target when the engine re-runs them", () => {
+    expect(result.feasible.length).toBeGreaterThan(0);
+    for (const candidate of result.feasible) {
+      const plan = calculatePropertyPlan(candidate.inputs);
+      expect(plan.yearlyData[result.targetYear].calendarYear).toBe(goal.byYear);
+      expect(plan.yearlyData[result.targetYear].netEquity).toBeGreaterThanOrEqual(goal.target);
+      expect(plan.yearlyData[result.targetYear].netEquity).toBeCloseTo(candidate.achieved, 2);
+    }
+  });
+
+  it("stays within the unit and price bounds", () => {
+    for (const candidate of result.feasible) {
+      expect(candidate.inputs.maxProperties).toBeLessThanOrEqual(goal.bounds.maxProperties);
+      expect(calculatePropertyPlan(candidate.inputs).properties.length).toBeLessThanOrEqual(goal.bounds.maxProperties);
+      expect(candidate.inputs.purchasePrice).toBeGreaterThanOrEqual(goal.bounds.minPrice);
+      expect(candidate.inputs.purchasePrice).toBeLessThanOrEqual(goal.bounds.maxPrice);
+    }
+  });
+
+  it("never lets recurring cash flow go negative when asked not to", () => {
+    for (const candidate of result.feasible) {
+      const plan = calculatePropertyPlan(candidate.inputs);
+      for (const m of plan.monthlyData) {
+        expect(m.cashFlow + m.deposits + m.acquisitionCost).toBeGreaterThanOrEqual(0);
+      }
+    }
+  });
+
+  it("ranks the least borrowing first", () => {
+    const borrowed = result.feasible.map((c) => c.totalBorrowed);
+    expect(borrowed).toEqual([...borrowed].sort((a, b) => a - b));
+  });
+
+  it("reports the closest plan when none reaches the target", () => {
+    const out = runGoalSeek(BASE, null, { ...goal, target: 50_000_000 });
+    expect(out.feasible).toHaveLength(0);
+    expect(out.closest?.achieved).toBeLessThan(50_000_000);
+  });
+
+  it("rejects a target year outside the horizon", () => {
+    expect(() => runGoalSeek(BASE, null, { ...goal, byYear: 2026 })).toThrow();
+    expect(() => runGoalSeek(BASE, null, { ...goal, byYear: 2042 })).toThrow();
+  });
+});
@@ -0,0 +1,223 @@
+// ============================================================
+// PropertyLab - Goal Seek
+// Searches the plan inputs the owner controls (price, number of
+// units, buying pace) within bounds for plans that reach a
+// net-worth target by a given year. Every candidate is run
+// through the calculator, so the reported outcome is the one the
+// results panels will show once it is loaded.
+// ============================================================
+
+import {
+  calculatePropertyPlan,
+  calculateStockReinvestment,
+  resolveHorizon,
+  type CalculatorInputs,
+  type StockInputs,
+} from "./calculator";
+
+export type GoalMetric = "netEquity" | "combinedNetWorth";
+
+/** Range the solver may move each lever in */
+export interface GoalSeekBounds {
+  minPrice: number; // RM
+  maxPrice: number; // RM
+  maxProperties: number; // at most this many units
+  minBuyInterval: number; // years
+  maxBuyInterval: number; // years
+}
+
+export interface GoalSpec {
+  metric: GoalMetric; // combinedNetWorth needs stock inputs
+  target: number; // RM
+  byYear: number; // calendar year
+  neverNegativeCashFlow: boolean; // no month with recurring cash flow below zero
+  bounds: GoalSeekBounds;
+}
+
+/** A plan the solver tried, with its outcome as the calculator reports it */
+export interface GoalCandidate {
+  inputs: CalculatorInputs;
+  stockInputs: StockInputs | null;
+  achieved: number; // goal metric in the target year
+  propertiesBought: number;
+  totalBorrowed: number; // sum of every unit's loan
+  // Lowest monthly cash flow over the horizon, before one-off deposits and
+  // acquisition costs and with each year's tax spread over its months
+  lowestMonthlyCashFlow: number;
+}
+
+export interface GoalSeekResult {
+  targetYear: number; // simulation year the goal is measured in
+  evaluated: number;
+  feasible: GoalCandidate[]; // least borrowing first, one pace per price and unit count
+  // Plan that gets nearest the target while meeting the constraints,
+  // reported when none reaches it
+  closest: GoalCandidate | null;
+}
+
+const PRICE_STEPS = 5;
+const PRICE_ROUNDING = 10_000; // RM
+const MAX_CANDIDATES = 5;
+
+/** Bounds around the current plan: half to double today's price, up to its unit count */
+export function getDefaultBounds(inputs: CalculatorInputs): GoalSeekBounds {
+  const round = (v: number) => Math.max(PRICE_ROUNDING, Math.round(v / PRICE_ROUNDING) * PRICE_ROUNDING);
+  return {
+    minPrice: round(inputs.purchasePrice * 0.5),
+    maxPrice: round(inputs.purchasePrice * 2),
+    maxProperties: Math.max(1, inputs.maxProperties),
+    minBuyInterval: 1,
+    maxBuyInterval: 5,
+  };
+}
+
+/** Evenly spaced prices across the bounds, rounded to RM 10k */
+function getPriceGrid({ minPrice, maxPrice }: GoalSeekBounds): number[] {
+  if (maxPrice <= minPrice) return [minPrice];
+  const prices = Array.from({ length: PRICE_STEPS }, (_, i) =>
+    Math.round((minPrice + ((maxPrice - minPrice) * i) / (PRICE_STEPS - 1)) / PRICE_ROUNDING) * PRICE_ROUNDING
+  );
+  return Array.from(new Set(prices));
+}
+
+/** Whole numbers from `from` to `to`, inclusive */
+function range(from: number, to: number): number[] {
+  const lo = Math.max(1, Math.round(from));
+  const hi = Math.max(lo, Math.round(to));
+  return Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+}
+
+/**
+ * The current plan at another price, unit count and pace. Market value and
+ * loan keep their ratio to the price; a custom property list is replaced by
+ * the interval model so the levers apply.
+ */
+function buildCandidateInputs(
+  inputs: CalculatorInputs,
+  price: number,
+  maxProperties: number,
+  buyInterval: number
+): CalculatorInputs {
+  const scale = price / inputs.purchasePrice;
+  return {
+    ...inputs,
+    purchasePrice: price,
+    currentMarketValue: Math.round(inputs.currentMarketValue * scale),
+    loanAmount: Math.round(inputs.loanAmount * scale),
+    maxProperties,
+    buyInterval,
+    properties: undefined,
+  };
+}
+
+/** Run one candidate and measure it against the goal */
+export function evaluateCandidate(
+  inputs: CalculatorInputs,
+  stockInputs: StockInputs | null,
+  metric: GoalMetric,
+  targetYear: number
+): GoalCandidate {
+  const result = calculatePropertyPlan(inputs);
+  const months = result.monthlyData ?? [];
+  // Tax on rent is settled in instalments through the year (CP500), not as
+  // one December bill
+  const taxByYear = new Map<number, number>();
+  for (const m of months) taxByYear.set(m.year, (taxByYear.get(m.year) ?? 0) + m.incomeTax);
+  const stock = metric === "combinedNetWorth" && stockInputs
+    ? calculateStockReinvestment(stockInputs, inputs, result)
+    : null;
+  const achieved = stock
+    ? stock.yearlyData[targetYear].combinedNetWorth
+    : result.yearlyData[targetYear].netEquity;
+
+  return {
+    inputs,
+    stockInputs,
+    achieved,
+    propertiesBought: result.properties.length,
+    totalBorrowed: result.properties.reduce((sum, p) => sum + p.loanAmount, 0),
+    lowestMonthlyCashFlow: months.reduce(
+      (min, m) =>
+        Math.min(min, m.cashFlow + m.deposits + m.acquisitionCost + m.incomeTax - (taxByYear.get(m.year) ?? 0) / 12),
+      Infinity
+    ),
+  };
+}
+
+/**
+ * Try every combination of price, unit count and buy interval within the
+ * bounds. Plans that reach the target and respect the constraints come back
+ * ranked by total borrowing, then by how far they overshoot.
+ */
+export function runGoalSeek(
+  inputs: CalculatorInputs,
+  stockInputs: StockInputs | null,
+  goal: GoalSpec,
+  onProgress?: (done: number, total: number) => void
+): GoalSeekResult {
+  if (goal.metric === "combinedNetWorth" && !stockInputs) {
+    throw new Error("Set up stock reinvestment before targeting combined net worth.");
+  }
+  if (inputs.purchasePrice <= 0) {
+    throw new Error("The current plan needs a purchase price to scale from.");
+  }
+  const targetYear = goal.byYear - inputs.startingYear;
+  const horizon = resolveHorizon(inputs);
+  if (targetYear < 1 || targetYear > horizon) {
+    throw new Error(
+      `Pick a target year between ${inputs.startingYear + 1} and ${inputs.startingYear + horizon}.`
+    );
+  }
+
+  const { bounds } = goal;
+  const prices = getPriceGrid(bounds);
+  // Units that would be bought after the horizon only repeat a smaller plan
+  const paces = range(1, Math.min(bounds.maxProperties, horizon)).flatMap((units) =>
+    range(bounds.minBuyInterval, Math.min(bounds.maxBuyInterval, horizon))
+      .filter((interval) => units === 1 || (units - 1) * interval < horizon)
+      .map((interval) => ({ units, interval }))
+  );
+  const total = prices.length * paces.length;
+
+  const feasible: GoalCandidate[] = [];
+  let closest: GoalCandidate | null = null;
+  let done = 0;
+
+  for (const price of prices) {
+    for (const { units, interval } of paces) {
+      const candidate = evaluateCandidate(
+        buildCandidateInputs(inputs, price, units, interval),
+        stockInputs,
+        goal.metric,
+        targetYear
+      );
+      done++;
+      if (onProgress && done % 25 === 0) onProgress(done, total);
+
+      if (goal.neverNegativeCashFlow && candidate.lowestMonthlyCashFlow < 0) continue;
+      if (candidate.achieved >= goal.target) {
+        feasible.push(candidate);
+      } else if (!closest || candidate.achieved > closest.achieved) {
+        closest = candidate;
+      }
+    }
+  }
+
+  feasible.sort(
+    (a, b) => a.totalBorrowed - b.totalBorrowed || b.achieved - a.achieved
+  );
+  // Of the paces that buy the same units, keep the one that gets furthest
+  const seen = new Set<string>();
+  const ranked = feasible.filter((c) => {
+    const key = `${c.inputs.purchasePrice}:${c.propertiesBought}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return {
+    targetYear,
+    evaluated: total,
+    feasible: ranked.slice(0, MAX_CANDIDATES),
+    closest: feasible.length > 0 ? null : closest,
+  };
+}
@@ -0,0 +1,32 @@
+// ============================================================
+// PropertyLab - Goal Seek Worker
+// Runs the search off the main thread and reports progress.
+// ============================================================
+
+import type { CalculatorInputs, StockInputs } from "./calculator";
+import { runGoalSeek, type GoalSeekResult, type GoalSpec } from "./goalSeek";
+
+export interface GoalSeekRequest {
+  inputs: CalculatorInputs;
+  stockInputs: StockInputs | null;
+  goal: GoalSpec;
+}
+
+export type GoalSeekMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "result"; result: GoalSeekResult }
+  | { type: "error"; message: string };
+
+const post = (message: GoalSeekMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<GoalSeekRequest>) => {
+  const { inputs, stockInputs, goal } = event.data;
+  try {
+    const result = runGoalSeek(inputs, stockInputs, goal, (done, total) =>
+      post({ type: "progress", done, total })
+    );
+    post({ type: "result", result });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
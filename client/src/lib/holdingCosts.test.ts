@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { calculatePropertyPlan, type CalculatorInputs } from "./calculator";
+import {
+  DEFAULT_HOLDING_COSTS,
+  getMonthlyHoldingCosts,
+  getTotalHoldingCost,
+  isHoldingCostsEnabled,
+  NO_HOLDING_COSTS,
+  sumHoldingCosts,
+  type HoldingCostSettings,
+} from "./holdingCosts";
+
+const SETTINGS: HoldingCostSettings = {
+  enabled: true,
+  maintenance: { amount: 300, growth: 3 },
+  quitRent: { amount: 600, growth: 2 },
+  insurance: { amount: 240, growth: 0 },
+  mrta: { amount: 1_200, growth: 0 },
+  managementRate: 10,
+  repairs: { amount: 1_200, growth: 5 },
+};
+
+describe("isHoldingCostsEnabled", () => {
+  it("keeps older scenarios on the single expense", () => {
+    expect(isHoldingCostsEnabled(undefined)).toBe(false);
+    expect(isHoldingCostsEnabled(DEFAULT_HOLDING_COSTS)).toBe(false);
+    expect(isHoldingCostsEnabled(SETTINGS)).toBe(true);
+  });
+});
+
+describe("getMonthlyHoldingCosts", () => {
+  it("charges maintenance by the month and the yearly items a twelfth each month", () => {
+    expect(getMonthlyHoldingCosts(SETTINGS, { month: 0, scale: 1, rentalIncome: 2_000, hasLoan: true })).toEqual({
+      maintenance: 300,
+      quitRent: 50,
+      insurance: 20,
+      mrta: 100,
+      management: 200,
+      repairs: 100,
+    });
+  });
+
+  it("grows each item at its own rate every January", () => {
+    const december = getMonthlyHoldingCosts(SETTINGS, { month: 11, scale: 1, rentalIncome: 0, hasLoan: true });
+    const january = getMonthlyHoldingCosts(SETTINGS, { month: 24, scale: 1, rentalIncome: 0, hasLoan: true });
+    expect(december.maintenance).toBe(300);
+    expect(january.maintenance).toBeCloseTo(300 * 1.03 ** 2, 6);
+    expect(january.quitRent).toBeCloseTo(50 * 1.02 ** 2, 6);
+    expect(january.insurance).toBe(20);
+    expect(january.repairs).toBeCloseTo(100 * 1.05 ** 2, 6);
+  });
+
+  it("sizes fixed items to the unit's price and management to the rent", () => {
+    const costs = getMonthlyHoldingCosts(SETTINGS, { month: 0, scale: 2, rentalIncome: 2_000, hasLoan: true });
+    expect(costs.maintenance).toBe(600);
+    expect(costs.mrta).toBe(200);
+    expect(costs.management).toBe(200);
+  });
+
+  it("stops MRTA once nothing is owed", () => {
+    expect(getMonthlyHoldingCosts(SETTINGS, { month: 0, scale: 1, rentalIncome: 0, hasLoan: false }).mrta).toBe(0);
+  });
+});
+
+describe("getTotalHoldingCost", () => {
+  it("adds up every item", () => {
+    expect(getTotalHoldingCost(NO_HOLDING_COSTS)).toBe(0);
+    expect(getTotalHoldingCost({ ...NO_HOLDING_COSTS, maintenance: 300, repairs: 100 })).toBe(400);
+  });
+});
+
+describe("sumHoldingCosts", () => {
+  it("sums item by item, skipping units on the single expense", () => {
+    const a = { ...NO_HOLDING_COSTS, maintenance: 300, quitRent: 50 };
+    const b = { ...NO_HOLDING_COSTS, maintenance: 200, insurance: 20 };
+    expect(sumHoldingCosts([a, null, b])).toEqual({ ...NO_HOLDING_COSTS, maintenance: 500, quitRent: 50, insurance: 20 });
+  });
+
+  it("is null when nothing is itemised", () => {
+    expect(sumHoldingCosts([])).toBeNull();
+    expect(sumHoldingCosts([null, null])).toBeNull();
+  });
+});
+
+describe("itemised costs in the plan", () => {
+  const inputs: CalculatorInputs = {
+    purchasePrice: 500_000,
+    currentMarketValue: 500_000,
+    loanAmount: 450_000,
+    maxProperties: 1,
+    appreciationRate: 3,
+    rentalYield: 5,
+    interestRate: 4,
+    buyInterval: 3,
+    startingYear: 2026,
+    age: 30,
+    expenseType: "fixed",
+    expenseValue: 300,
+    purchaseMonth: 1,
+    holdingCosts: SETTINGS,
+  };
+
+  it("replaces the single expense with the year's items", () => {
+    const { ledger } = calculatePropertyPlan(inputs).properties[0];
+    const year = ledger[2];
+    expect(year.holdingCosts).not.toBeNull();
+    expect(year.expense).toBeCloseTo(getTotalHoldingCost(year.holdingCosts!), 6);
+    expect(year.holdingCosts!.maintenance).toBeCloseTo(300 * 1.03 * 12, 6);
+    expect(year.holdingCosts!.management).toBeCloseTo(year.rentalIncome * 0.1, 6);
+  });
+});
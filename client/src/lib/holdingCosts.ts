@@ -0,0 +1,120 @@
+// ============================================================
+// PropertyLab - Holding Costs
+// The running costs of owning a unit, item by item: strata
+// maintenance and sinking fund, quit rent and assessment, fire
+// or houseowner insurance, MRTA, a property manager's cut of the
+// rent and a reserve for repairs. Amounts are entered in today's
+// ringgit for a unit at the plan's purchase price and each grows
+// at its own rate every January. Scenarios saved before costs
+// were itemised keep the single expense figure instead.
+// ============================================================
+
+export type HoldingCostCategory =
+  | "maintenance"
+  | "quitRent"
+  | "insurance"
+  | "mrta"
+  | "management"
+  | "repairs";
+
+export interface HoldingCostItem {
+  amount: number; // RM, a month for maintenance and a year for the rest
+  growth: number; // % p.a.
+}
+
+export interface HoldingCostSettings {
+  enabled: boolean;
+  maintenance: HoldingCostItem; // strata maintenance and sinking fund, RM per month
+  quitRent: HoldingCostItem; // quit rent and assessment, RM per year
+  insurance: HoldingCostItem; // fire / houseowner policy, RM per year
+  mrta: HoldingCostItem; // mortgage reducing term assurance, RM per year while a loan is owed
+  managementRate: number; // % of the rent collected
+  repairs: HoldingCostItem; // repair reserve, RM per year
+}
+
+/** Ringgit spent on each item over a month or a year */
+export type HoldingCostBreakdown = Record<HoldingCostCategory, number>;
+
+export const HOLDING_COST_CATEGORIES: HoldingCostCategory[] = [
+  "maintenance",
+  "quitRent",
+  "insurance",
+  "mrta",
+  "management",
+  "repairs",
+];
+
+export const HOLDING_COST_LABELS: Record<HoldingCostCategory, string> = {
+  maintenance: "Maintenance",
+  quitRent: "Quit Rent",
+  insurance: "Insurance",
+  mrta: "MRTA",
+  management: "Management",
+  repairs: "Repairs",
+};
+
+export const NO_HOLDING_COSTS: HoldingCostBreakdown = {
+  maintenance: 0,
+  quitRent: 0,
+  insurance: 0,
+  mrta: 0,
+  management: 0,
+  repairs: 0,
+};
+
+export const DEFAULT_HOLDING_COSTS: HoldingCostSettings = {
+  enabled: false,
+  maintenance: { amount: 300, growth: 3 }, // a mid-market condo's charges and sinking fund
+  quitRent: { amount: 600, growth: 2 },
+  insurance: { amount: 250, growth: 0 },
+  mrta: { amount: 0, growth: 0 }, // most buyers finance a single premium into the loan
+  managementRate: 0, // self-managed
+  repairs: { amount: 1_000, growth: 3 },
+};
+
+/** Whether running costs are itemised (older scenarios have no settings) */
+export function isHoldingCostsEnabled(
+  settings?: HoldingCostSettings
+): settings is HoldingCostSettings {
+  return !!settings && settings.enabled;
+}
+
+/**
+ * Each item's cost for one unit in a month. `month` is the 0-based
+ * simulation month, so amounts step up each January from the start;
+ * `scale` sizes the fixed items to the unit's price. Management follows
+ * the rent actually collected, and MRTA is only paid while a loan is owed.
+ */
+export function getMonthlyHoldingCosts(
+  settings: HoldingCostSettings,
+  params: { month: number; scale: number; rentalIncome: number; hasLoan: boolean }
+): HoldingCostBreakdown {
+  const { month, scale, rentalIncome, hasLoan } = params;
+  const grown = (item: HoldingCostItem, perYear: boolean) =>
+    ((item.amount * scale) / (perYear ? 12 : 1)) *
+    Math.pow(1 + item.growth / 100, Math.floor(month / 12));
+  return {
+    maintenance: grown(settings.maintenance, false),
+    quitRent: grown(settings.quitRent, true),
+    insurance: grown(settings.insurance, true),
+    mrta: hasLoan ? grown(settings.mrta, true) : 0,
+    management: rentalIncome * (settings.managementRate / 100),
+    repairs: grown(settings.repairs, true),
+  };
+}
+
+/** Total of every item */
+export function getTotalHoldingCost(costs: HoldingCostBreakdown): number {
+  return HOLDING_COST_CATEGORIES.reduce((sum, key) => sum + costs[key], 0);
+}
+
+/** Item-by-item sum, or null when none of the inputs is itemised */
+export function sumHoldingCosts(
+  costs: (HoldingCostBreakdown | null)[]
+): HoldingCostBreakdown | null {
+  const itemised = costs.filter((c): c is HoldingCostBreakdown => c !== null);
+  if (itemised.length === 0) return null;
+  return Object.fromEntries(
+    HOLDING_COST_CATEGORIES.map((key) => [key, itemised.reduce((sum, c) => sum + c[key], 0)])
+  ) as HoldingCostBreakdown;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { calculateRentalIncomeTax, calculateResidentTax, getMarginalRate } from "./incomeTax";
+
+describe("calculateResidentTax", () => {
+  it("charges nothing on the first RM 5,000", () => {
+    expect(calculateResidentTax(5_000)).toBe(0);
+  });
+
+  it("applies each resident band to its own slice", () => {
+    expect(calculateResidentTax(20_000)).toBeCloseTo(150);
+    expect(calculateResidentTax(35_000)).toBeCloseTo(600);
+    expect(calculateResidentTax(50_000)).toBeCloseTo(1_500);
+    expect(calculateResidentTax(70_000)).toBeCloseTo(3_700);
+    expect(calculateResidentTax(100_000)).toBeCloseTo(9_400);
+    expect(calculateResidentTax(400_000)).toBeCloseTo(84_400);
+  });
+});
+
+describe("getMarginalRate", () => {
+  it("reads the band the next ringgit falls in", () => {
+    expect(getMarginalRate(0)).toBe(0);
+    expect(getMarginalRate(60_000)).toBe(0.11);
+    expect(getMarginalRate(100_000)).toBe(0.25);
+    expect(getMarginalRate(5_000_000)).toBe(0.3);
+  });
+});
+
+describe("calculateRentalIncomeTax", () => {
+  it("taxes rent at the owner's marginal rates on top of employment income", () => {
+    const tax = calculateRentalIncomeTax({ rentalIncome: 10_000, employmentIncome: 69_000, reliefs: 9_000 });
+    expect(tax).toBeCloseTo(calculateResidentTax(70_000) - calculateResidentTax(60_000));
+  });
+
+  it("neither taxes nor refunds a rental loss", () => {
+    expect(calculateRentalIncomeTax({ rentalIncome: -5_000, employmentIncome: 100_000, reliefs: 9_000 })).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+// ============================================================
+// PropertyLab - Malaysian Personal Income Tax
+// Resident progressive rates (YA 2023 onwards) applied to net
+// rental income. Rent is taxed at the owner's marginal rate on
+// top of any employment income.
+// ============================================================
+
+import type { HoldingCostBreakdown } from "./holdingCosts";
+
+/** A chargeable-income band: `rate` applies to the slice up to `upTo` */
+interface Band {
+  upTo: number; // upper bound in RM (Infinity for the top band)
+  rate: number; // decimal
+}
+
+const RESIDENT_BANDS: Band[] = [
+  { upTo: 5_000, rate: 0 },
+  { upTo: 20_000, rate: 0.01 },
+  { upTo: 35_000, rate: 0.03 },
+  { upTo: 50_000, rate: 0.06 },
+  { upTo: 70_000, rate: 0.11 },
+  { upTo: 100_000, rate: 0.19 },
+  { upTo: 400_000, rate: 0.25 },
+  { upTo: 600_000, rate: 0.26 },
+  { upTo: 2_000_000, rate: 0.28 },
+  { upTo: Infinity, rate: 0.3 },
+];
+
+/** Individual relief every resident can claim */
+export const DEFAULT_PERSONAL_RELIEF = 9_000;
+
+/** Tax payable by a resident individual on a year's chargeable income */
+export function calculateResidentTax(chargeableIncome: number): number {
+  let tax = 0;
+  let lower = 0;
+  for (const band of RESIDENT_BANDS) {
+    if (chargeableIncome <= lower) break;
+    tax += (Math.min(chargeableIncome, band.upTo) - lower) * band.rate;
+    lower = band.upTo;
+  }
+  return tax;
+}
+
+/** Marginal rate on the next ringgit of chargeable income */
+export function getMarginalRate(chargeableIncome: number): number {
+  const band = RESIDENT_BANDS.find((b) => chargeableIncome < b.upTo);
+  return (band ?? RESIDENT_BANDS[RESIDENT_BANDS.length - 1]).rate;
+}
+
+export interface RentalTaxParams {
+  rentalIncome: number; // net rental income after deductions, summed over units
+  employmentIncome: number; // other income taxed in the same year
+  reliefs: number; // personal and other reliefs
+}
+
+/**
+ * Extra tax caused by adding net rental income to the owner's other
+ * income: tax(employment + rent − reliefs) − tax(employment − reliefs).
+ * A rental loss cannot be set against employment income, so a loss
+ * here produces no tax and no refund.
+ */
+export function calculateRentalIncomeTax(params: RentalTaxParams): number {
+  const { rentalIncome, employmentIncome, reliefs } = params;
+  if (rentalIncome <= 0) return 0;
+  const base = Math.max(0, employmentIncome - reliefs);
+  const withRent = Math.max(0, employmentIncome + rentalIncome - reliefs);
+  return calculateResidentTax(withRent) - calculateResidentTax(base);
+}
+
+/**
+ * Holding costs allowed against rent. Quit rent, assessment, fire
+ * insurance, maintenance, repairs and collection fees all keep the unit
+ * let; MRTA insures the borrower's life, not the property, so it is not.
+ */
+export function getDeductibleHoldingCosts(costs: HoldingCostBreakdown): number {
+  return costs.maintenance + costs.quitRent + costs.insurance + costs.management + costs.repairs;
+}
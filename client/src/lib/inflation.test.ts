@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePropertyPlan,
+  calculateStockReinvestment,
+  getMilestones,
+  type CalculatorInputs,
+  type StockInputs,
+} from "./calculator";
+import { DEFAULT_CASH_ACCOUNT } from "./cashAccount";
+import { DEFAULT_DSR_SETTINGS } from "./dsr";
+import { getDeflator, toRealResults, toRealStockResults } from "./inflation";
+import { DEFAULT_REFINANCE_PLAN } from "./refinance";
+
+// Sales, refinancing, DSR, a cash account and MM financing fill in the counts and rates
+const INPUTS: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 3,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+  horizonYears: 20,
+  milestoneYears: [5, 12],
+  sellAfterYears: 8,
+  refinance: { ...DEFAULT_REFINANCE_PLAN, trigger: "scheduled", afterYears: 4 },
+  dsr: { ...DEFAULT_DSR_SETTINGS, enabled: true },
+  cashAccount: { ...DEFAULT_CASH_ACCOUNT, enabled: true },
+  islamicFinancing: { type: "mm", ceilingRate: 10 },
+};
+const STOCK: StockInputs = {
+  enableStockReinvestment: true,
+  stockDividendYield: 4,
+  stockDiscount: 10,
+  stockAppreciation: 5,
+  reinvestDividends: true,
+};
+const INFLATION = 3;
+
+const nominal = calculatePropertyPlan(INPUTS);
+const real = toRealResults(nominal, INFLATION);
+
+/** Every number in `record` outside `keep` is the nominal one times `factor`; those in it are untouched */
+function expectDeflated<T extends object>(actual: T, expected: T, factor: number, keep: (keyof T)[]) {
+  for (const key of Object.keys(expected) as (keyof T)[]) {
+    const value = expected[key];
+    if (typeof value !== "number") continue;
+    if (keep.includes(key)) expect(actual[key], String(key)).toBe(value);
+    else expect(actual[key] as number, String(key)).toBeCloseTo(value * factor, 6);
+  }
+}
+
+describe("getDeflator", () => {
+  it("leaves today's money alone and discounts later years", () => {
+    expect(getDeflator(INFLATION, 0)).toBe(1);
+    expect(getDeflator(INFLATION, 2)).toBeCloseTo(1 / 1.03 ** 2, 12);
+  });
+});
+
+describe("toRealResults", () => {
+  it("deflates the yearly data but not its years, counts and rates", () => {
+    expect(nominal.yearlyData.some((d) => d.dsr !== null && d.refinances > 0 && d.propertiesSold > 0)).toBe(true);
+    nominal.yearlyData.forEach((d, i) =>
+      expectDeflated(real.yearlyData[i], d, getDeflator(INFLATION, d.year), [
+        "year",
+        "calendarYear",
+        "interestRate",
+        "effectiveRate",
+        "propertiesOwned",
+        "propertiesSold",
+        "refinances",
+        "dsr",
+        "dsrLimit",
+        "purchasesBlocked",
+        "cashOnCash",
+        "underConstruction",
+      ])
+    );
+  });
+
+  it("deflates the monthly data by the month, keeping its calendar and counts", () => {
+    nominal.monthlyData!.forEach((m, i) =>
+      expectDeflated(real.monthlyData![i], m, getDeflator(INFLATION, (m.month + 1) / 12), [
+        "month",
+        "year",
+        "calendarYear",
+        "calendarMonth",
+        "propertiesOwned",
+        "propertiesSold",
+        "refinances",
+        "dsr",
+        "dsrLimit",
+        "purchasesBlocked",
+      ])
+    );
+  });
+
+  it("keeps the milestone years and the units owned at each", () => {
+    const milestones = getMilestones(nominal);
+    expect(milestones.map((m) => m.year)).toEqual([5, 12, 20]);
+    expect(getMilestones(real).map((m) => m.year)).toEqual([5, 12, 20]);
+    for (const { year, result } of milestones) {
+      expectDeflated(real.milestones[year], result, getDeflator(INFLATION, year), ["propertiesOwned"]);
+    }
+    expect(real.horizonYears).toBe(nominal.horizonYears);
+  });
+
+  it("keeps per-purchase figures and returns, and deflates each ledger year", () => {
+    nominal.properties.forEach((p, i) => {
+      const r = real.properties[i];
+      expect(r.purchaseYear).toBe(p.purchaseYear);
+      expect(r.purchasePrice).toBe(p.purchasePrice);
+      expect(r.loanAmount).toBe(p.loanAmount);
+      expect(r.monthlyPayment).toBe(p.monthlyPayment);
+      expect(r.saleYear).toBe(p.saleYear);
+      expect(r.returns).toEqual(p.returns);
+      p.ledger.forEach((e, year) => expectDeflated(r.ledger[year], e, getDeflator(INFLATION, year), ["year"]));
+    });
+  });
+
+  it("keeps the emergency floor and the dates of the cash account's low points", () => {
+    const nominalLow = nominal.liquidity!.lowestBalance;
+    const realLow = real.liquidity!.lowestBalance;
+    expect(real.liquidity!.emergencyFloor).toBe(nominal.liquidity!.emergencyFloor);
+    expect(realLow.year).toBe(nominalLow.year);
+    expect(realLow.month).toBe(nominalLow.month);
+    expect(realLow.balance).toBeCloseTo(
+      nominalLow.balance * getDeflator(INFLATION, nominalLow.year - 1 + nominalLow.month / 12),
+      6
+    );
+  });
+});
+
+describe("toRealStockResults", () => {
+  it("deflates the stock data but not its years", () => {
+    const stock = calculateStockReinvestment(STOCK, INPUTS, nominal);
+    const realStock = toRealStockResults(stock, INFLATION);
+    stock.yearlyData.forEach((d, i) =>
+      expectDeflated(realStock.yearlyData[i], d, getDeflator(INFLATION, d.year), ["year", "calendarYear"])
+    );
+    expect(realStock.timeWeightedReturn).toBe(stock.timeWeightedReturn);
+  });
+});
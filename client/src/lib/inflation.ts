@@ -0,0 +1,210 @@
+// ============================================================
+// PropertyLab - Real Terms
+// Deflates simulation results into today's ringgit. A value at
+// the end of year y is divided by (1 + inflation)^y, so year 0
+// (the starting year) is unchanged.
+// ============================================================
+
+import {
+  getMilestones,
+  getStockMilestones,
+  type FullSimulationResult,
+  type MonthlyData,
+  type PropertyContribution,
+  type PropertyLedgerEntry,
+  type SimulationResult,
+  type StockSimulationResult,
+  type StockYearlyData,
+  type YearlyData,
+} from "./calculator";
+import type { MonteCarloResult, PercentileBand } from "./monteCarlo";
+import type { CashShortfall, LiquiditySummary } from "./cashAccount";
+import type { HoldingCostBreakdown } from "./holdingCosts";
+import type { ShortTermRentalBreakdown } from "./shortTermRental";
+
+export type MoneyBasis = "nominal" | "real";
+
+export const DEFAULT_INFLATION_RATE = 2.5; // % p.a., close to Malaysia's long-run CPI
+
+/** Multiplier taking a value `years` from now into today's money */
+export function getDeflator(inflationRate: number, years: number): number {
+  return Math.pow(1 + inflationRate / 100, -years);
+}
+
+/**
+ * Scale every numeric field of a record except the listed ones, which are
+ * counts, rates or calendar fields rather than ringgit amounts.
+ */
+function deflateRecord<T extends object>(
+  record: T,
+  factor: number,
+  keep: readonly (keyof T)[]
+): T {
+  const result = { ...record };
+  for (const key of Object.keys(result) as (keyof T)[]) {
+    const value = result[key];
+    if (typeof value === "number" && !keep.includes(key)) {
+      result[key] = (value * factor) as T[keyof T];
+    }
+  }
+  return result;
+}
+
+// Fields that are not ringgit amounts; every other number is deflated
+const YEARLY_NON_MONEY: readonly (keyof YearlyData)[] = [
+  "year",
+  "calendarYear",
+  "interestRate",
+  "effectiveRate",
+  "propertiesOwned",
+  "propertiesSold",
+  "refinances",
+  "dsr",
+  "dsrLimit",
+  "purchasesBlocked",
+  "cashOnCash",
+  "underConstruction",
+];
+const MONTHLY_NON_MONEY: readonly (keyof MonthlyData)[] = [
+  "month",
+  "year",
+  "calendarYear",
+  "calendarMonth",
+  "propertiesOwned",
+  "propertiesSold",
+  "refinances",
+  "dsr",
+  "dsrLimit",
+  "purchasesBlocked",
+];
+const SUMMARY_NON_MONEY: readonly (keyof SimulationResult)[] = ["propertiesOwned"];
+const STOCK_NON_MONEY: readonly (keyof StockYearlyData)[] = ["year", "calendarYear"];
+const LEDGER_NON_MONEY: readonly (keyof PropertyLedgerEntry)[] = ["year"];
+
+/** As deflateRecord, with the itemised costs and short-let figures nested in the record deflated too */
+function deflateWithCosts<
+  T extends {
+    holdingCosts?: HoldingCostBreakdown | null;
+    shortTermRental?: ShortTermRentalBreakdown | null;
+  },
+>(record: T, factor: number, keep: readonly (keyof T)[]): T {
+  const result = deflateRecord(record, factor, keep);
+  return {
+    ...result,
+    ...(record.holdingCosts ? { holdingCosts: deflateRecord(record.holdingCosts, factor, []) } : {}),
+    ...(record.shortTermRental
+      ? { shortTermRental: deflateRecord(record.shortTermRental, factor, []) }
+      : {}),
+  };
+}
+
+/** One property's ledger and per-year series, indexed by year */
+function deflateContribution(
+  property: PropertyContribution,
+  inflationRate: number
+): PropertyContribution {
+  const series = (values: number[]) =>
+    values.map((v, year) => v * getDeflator(inflationRate, year));
+  return {
+    ...property,
+    ledger: property.ledger?.map((e) =>
+      deflateWithCosts(e, getDeflator(inflationRate, e.year), LEDGER_NON_MONEY)
+    ),
+    assetValue: series(property.assetValue),
+    loanBalance: series(property.loanBalance),
+    annualCashFlow: series(property.annualCashFlow),
+    netEquity: series(property.netEquity),
+  };
+}
+
+/** Cash-account low points in today's ringgit; the floor stays as entered */
+function deflateLiquidity(
+  liquidity: LiquiditySummary,
+  inflationRate: number
+): LiquiditySummary {
+  const point = (p: CashShortfall): CashShortfall => ({
+    ...p,
+    balance: p.balance * getDeflator(inflationRate, p.year - 1 + p.month / 12),
+  });
+  return {
+    ...liquidity,
+    firstBelowFloor: liquidity.firstBelowFloor && point(liquidity.firstBelowFloor),
+    firstInsolvency: liquidity.firstInsolvency && point(liquidity.firstInsolvency),
+    lowestBalance: point(liquidity.lowestBalance),
+  };
+}
+
+/**
+ * Property results in today's ringgit. Year-by-year data, milestone
+ * summaries and per-property series are deflated; per-purchase figures
+ * (price, loan, first instalment) stay as entered, and return metrics
+ * stay on the nominal cash stream they were measured on.
+ */
+export function toRealResults(
+  results: FullSimulationResult,
+  inflationRate: number
+): FullSimulationResult {
+  const at = (years: number) => getDeflator(inflationRate, years);
+  return {
+    ...results,
+    milestones: Object.fromEntries(
+      getMilestones(results).map(({ year, result }) => [
+        year,
+        deflateRecord(result, at(year), SUMMARY_NON_MONEY),
+      ])
+    ),
+    yearlyData: results.yearlyData.map((d) =>
+      deflateWithCosts(d, at(d.year), YEARLY_NON_MONEY)
+    ),
+    monthlyData: (results.monthlyData ?? []).map((m) =>
+      deflateRecord(m, at((m.month + 1) / 12), MONTHLY_NON_MONEY)
+    ),
+    properties: results.properties?.map((p) =>
+      deflateContribution(p, inflationRate)
+    ),
+    liquidity: results.liquidity && deflateLiquidity(results.liquidity, inflationRate),
+  };
+}
+
+/** Stock results in today's ringgit */
+export function toRealStockResults(
+  results: StockSimulationResult,
+  inflationRate: number
+): StockSimulationResult {
+  const at = (years: number) => getDeflator(inflationRate, years);
+  return {
+    ...results,
+    yearlyData: results.yearlyData.map((d) =>
+      deflateRecord(d, at(d.year), STOCK_NON_MONEY)
+    ),
+    milestones: Object.fromEntries(
+      getStockMilestones(results).map(({ year, milestone: m }) => [
+        year,
+        {
+          portfolioValue: m.portfolioValue * at(year),
+          totalDividends: m.totalDividends * at(year),
+          totalInvested: m.totalInvested * at(year),
+        },
+      ])
+    ),
+  };
+}
+
+/** Monte Carlo bands in today's ringgit; probabilities are unchanged */
+export function toRealMonteCarlo(
+  result: MonteCarloResult,
+  inflationRate: number
+): MonteCarloResult {
+  const bands = (series: PercentileBand[]) =>
+    series.map((b) => {
+      const factor = getDeflator(inflationRate, b.year);
+      return { year: b.year, p10: b.p10 * factor, p50: b.p50 * factor, p90: b.p90 * factor };
+    });
+  return {
+    ...result,
+    netEquity: bands(result.netEquity),
+    annualCashFlow: bands(result.annualCashFlow),
+    cumulativeCashFlow: bands(result.cumulativeCashFlow),
+    combinedNetWorth: result.combinedNetWorth && bands(result.combinedNetWorth),
+  };
+}
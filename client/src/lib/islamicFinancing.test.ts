@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { calculatePropertyPlan, type CalculatorInputs } from "./calculator";
+import { DEFAULT_REFINANCE_PLAN } from "./refinance";
+import {
+  calculateIbra,
+  getEffectiveProfitRate,
+  isIslamicFinancing,
+  type IslamicFinancingSettings,
+} from "./islamicFinancing";
+
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 1,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+};
+
+const BBA: IslamicFinancingSettings = { type: "bba", ceilingRate: 10 };
+const MM: IslamicFinancingSettings = { type: "mm", ceilingRate: 10 };
+// Settles the first financing early, at the end of year 5
+const REFINANCE = { ...DEFAULT_REFINANCE_PLAN, trigger: "scheduled" as const, afterYears: 5 };
+
+describe("isIslamicFinancing", () => {
+  it("treats conventional loans and older scenarios as conventional", () => {
+    expect(isIslamicFinancing(undefined)).toBe(false);
+    expect(isIslamicFinancing({ type: "conventional", ceilingRate: 10 })).toBe(false);
+    expect(isIslamicFinancing(BBA)).toBe(true);
+    expect(isIslamicFinancing(MM)).toBe(true);
+  });
+});
+
+describe("getEffectiveProfitRate", () => {
+  it("follows the floating rate up to the ceiling", () => {
+    expect(getEffectiveProfitRate(0.045, 10)).toBe(0.045);
+    expect(getEffectiveProfitRate(0.12, 10)).toBe(0.1);
+  });
+});
+
+describe("calculateIbra", () => {
+  it("rebates the outstanding selling price above what is owed", () => {
+    expect(calculateIbra({ sellingPrice: 1_000_000, ceilingPayment: 4_000, paymentsMade: 60, balance: 400_000 })).toBe(360_000);
+  });
+
+  it("never rebates a negative amount", () => {
+    expect(calculateIbra({ sellingPrice: 500_000, ceilingPayment: 4_000, paymentsMade: 60, balance: 400_000 })).toBe(0);
+  });
+});
+
+describe("Islamic financing in the plan", () => {
+  it("charges no more than the ceiling profit rate", () => {
+    const capped = calculatePropertyPlan({ ...BASE, interestRate: 12, islamicFinancing: MM }).properties[0];
+    const atCeiling = calculatePropertyPlan({ ...BASE, interestRate: 10 }).properties[0];
+    expect(capped.monthlyPayment).toBeCloseTo(atCeiling.monthlyPayment, 6);
+    expect(capped.ledger[3].interest).toBeCloseTo(atCeiling.ledger[3].interest, 6);
+  });
+
+  it("fixes a BBA selling price at the ceiling rate over the full tenure", () => {
+    const unit = calculatePropertyPlan({ ...BASE, islamicFinancing: BBA }).properties[0];
+    const ceilingPayment = calculatePropertyPlan({ ...BASE, interestRate: 10 }).properties[0].monthlyPayment;
+    // Tenure at 30 is the 35-year maximum
+    expect(unit.sellingPrice).toBeCloseTo(ceilingPayment * 35 * 12, 2);
+    expect(unit.ibra).toBe(0);
+  });
+
+  it("rebates a BBA's unearned profit when it is settled early", () => {
+    const unit = calculatePropertyPlan({ ...BASE, islamicFinancing: BBA, refinance: REFINANCE }).properties[0];
+    const [event] = unit.refinances;
+    expect(event.year).toBe(5);
+    const ceilingPayment = unit.sellingPrice! / (35 * 12);
+    const ibra = calculateIbra({ sellingPrice: unit.sellingPrice!, ceilingPayment, paymentsMade: 60, balance: event.balanceRedeemed });
+    expect(ibra).toBeGreaterThan(0);
+    expect(event.ibra).toBeCloseTo(ibra, 2);
+    expect(unit.ibra).toBeCloseTo(ibra, 2);
+  });
+
+  it("rebates a BBA's unearned profit when the unit is sold", () => {
+    const held = calculatePropertyPlan({ ...BASE, islamicFinancing: BBA, refinance: REFINANCE }).properties[0];
+    const sold = calculatePropertyPlan({ ...BASE, islamicFinancing: BBA, sellAfterYears: 5 }).properties[0];
+    // Sold at the end of year 5, when the refinance would settle the same balance
+    expect(sold.saleYear).toBe(5);
+    expect(sold.ibra).toBeGreaterThan(0);
+    expect(sold.ibra).toBeCloseTo(held.refinances[0].ibra, 2);
+  });
+
+  it("rebates nothing on settling an MM, which has no deferred profit", () => {
+    const unit = calculatePropertyPlan({ ...BASE, islamicFinancing: MM, refinance: REFINANCE }).properties[0];
+    expect(unit.sellingPrice).toBeNull();
+    expect(unit.refinances[0].ibra).toBe(0);
+    expect(unit.ibra).toBe(0);
+  });
+});
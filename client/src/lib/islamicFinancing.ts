@@ -0,0 +1,58 @@
+// ============================================================
+// PropertyLab - Islamic Home Financing
+// Bai' Bithaman Ajil (BBA): the bank sells the property to the
+// customer at a selling price fixed at signing, worked out at the
+// ceiling profit rate over the full tenure. Instalments follow the
+// effective rate; the gap is rebated (ibra') each month, and on
+// early settlement the unearned profit is rebated too, as BNM's
+// ibra' guidelines require.
+// Musharakah Mutanaqisah (MM): customer and bank co-own the
+// property; the customer rents the bank's share and buys it out
+// unit by unit. Settlement buys the remaining units, so there is
+// no deferred profit to rebate.
+// Both charge the effective profit rate, capped at the ceiling.
+// ============================================================
+
+export type FinancingType = "conventional" | "bba" | "mm";
+
+export interface IslamicFinancingSettings {
+  type: FinancingType;
+  ceilingRate: number; // % p.a., fixed at signing; the effective rate never exceeds it
+}
+
+export const FINANCING_TYPE_LABELS: Record<FinancingType, string> = {
+  conventional: "Conventional",
+  bba: "BBA",
+  mm: "MM",
+};
+
+export const DEFAULT_ISLAMIC_FINANCING: IslamicFinancingSettings = {
+  type: "conventional",
+  ceilingRate: 10, // typical ceiling profit rate on variable-rate home financing
+};
+
+/** Whether loans are Islamic financing (older scenarios have no settings) */
+export function isIslamicFinancing(
+  settings?: IslamicFinancingSettings
+): settings is IslamicFinancingSettings {
+  return !!settings && settings.type !== "conventional";
+}
+
+/** Effective profit rate (decimal): the floating rate, capped at the ceiling */
+export function getEffectiveProfitRate(rate: number, ceilingRate: number): number {
+  return Math.min(rate, ceilingRate / 100);
+}
+
+/**
+ * Ibra' on settling a BBA: the outstanding selling price less what is
+ * actually owed. `paymentsMade` counts instalments paid on the contract.
+ */
+export function calculateIbra(params: {
+  sellingPrice: number;
+  ceilingPayment: number; // instalment at the ceiling rate
+  paymentsMade: number;
+  balance: number; // owed at the effective rate
+}): number {
+  const outstanding = params.sellingPrice - params.ceilingPayment * params.paymentsMade;
+  return Math.max(0, outstanding - params.balance);
+}
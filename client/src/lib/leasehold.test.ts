@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_LEASE_DECAY_CURVE,
+  DEFAULT_LEASEHOLD,
+  getLeaseholdLoanTenure,
+  getLeaseValueFactor,
+} from "./leasehold";
+
+describe("getLeaseValueFactor", () => {
+  it("reads the curve at its points", () => {
+    expect(getLeaseValueFactor(DEFAULT_LEASE_DECAY_CURVE, 99)).toBeCloseTo(0.96);
+    expect(getLeaseValueFactor(DEFAULT_LEASE_DECAY_CURVE, 30)).toBeCloseTo(0.53);
+    expect(getLeaseValueFactor(DEFAULT_LEASE_DECAY_CURVE, 0)).toBe(0);
+  });
+
+  it("interpolates between points and holds the last beyond the curve", () => {
+    expect(getLeaseValueFactor(DEFAULT_LEASE_DECAY_CURVE, 45)).toBeCloseTo(0.685);
+    expect(getLeaseValueFactor(DEFAULT_LEASE_DECAY_CURVE, 999)).toBeCloseTo(0.96);
+  });
+
+  it("treats an empty curve as no decay", () => {
+    expect(getLeaseValueFactor([], 10)).toBe(1);
+  });
+});
+
+describe("getLeaseholdLoanTenure", () => {
+  it("leaves the lease banks want at maturity", () => {
+    expect(getLeaseholdLoanTenure(35, 99, DEFAULT_LEASEHOLD)).toBe(35);
+    expect(getLeaseholdLoanTenure(35, 40.5, DEFAULT_LEASEHOLD)).toBe(30);
+  });
+
+  it("lends nothing under the financeable minimum", () => {
+    expect(getLeaseholdLoanTenure(35, 29, DEFAULT_LEASEHOLD)).toBe(0);
+  });
+});
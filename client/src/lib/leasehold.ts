@@ -0,0 +1,100 @@
+// ============================================================
+// PropertyLab - Leasehold Tenure
+// A leasehold unit is worth a share of the same unit held
+// freehold, and that share shrinks as the lease runs down: slowly
+// while decades remain, then steeply. Values follow the market
+// as a freehold would, scaled by the lease-decay curve. Banks
+// also lend only over the lease that is left, and not at all on
+// a short one, which limits both the buyer's loan and resale.
+// ============================================================
+
+export type TenureType = "freehold" | "leasehold";
+
+/** Value of a lease with `years` remaining, as % of the freehold value */
+export interface LeaseDecayPoint {
+  years: number;
+  value: number;
+}
+
+export interface LeaseholdSettings {
+  enabled: boolean; // the interval model's units are leasehold
+  leaseYears: number; // remaining on each interval unit's lease at purchase
+  curve: LeaseDecayPoint[]; // value by years remaining, in ascending years
+  minFinanceableYears: number; // banks will not lend on a shorter remaining lease
+  leaseAtMaturityYears: number; // lease banks want left when the loan matures
+}
+
+/** A leasehold purchase that did not go ahead because its lease was too short */
+export interface ShortLeasePurchase {
+  id: string;
+  name: string;
+  year: number; // simulation year
+  month: number; // 1–12
+  leaseYears: number; // left at drawdown
+  minFinanceableYears: number; // what banks would have needed
+}
+
+/** Roughly Bala's table, the standard relativity curve for leases in Singapore */
+export const DEFAULT_LEASE_DECAY_CURVE: LeaseDecayPoint[] = [
+  { years: 0, value: 0 },
+  { years: 10, value: 24 },
+  { years: 20, value: 40 },
+  { years: 30, value: 53 },
+  { years: 40, value: 64 },
+  { years: 50, value: 73 },
+  { years: 60, value: 80 },
+  { years: 70, value: 86 },
+  { years: 80, value: 91 },
+  { years: 90, value: 94 },
+  { years: 99, value: 96 },
+];
+
+export const DEFAULT_LEASEHOLD: LeaseholdSettings = {
+  enabled: false,
+  leaseYears: 99, // a new leasehold title
+  curve: DEFAULT_LEASE_DECAY_CURVE,
+  minFinanceableYears: 30,
+  leaseAtMaturityYears: 10,
+};
+
+/** Whether the interval model's units are leasehold (older scenarios have no settings) */
+export function isLeaseholdEnabled(
+  settings?: LeaseholdSettings
+): settings is LeaseholdSettings {
+  return !!settings && settings.enabled;
+}
+
+/**
+ * Share (0–1) of the freehold value a lease with `years` remaining is
+ * worth, interpolated along the curve. Longer leases than the curve
+ * covers keep its last value.
+ */
+export function getLeaseValueFactor(curve: LeaseDecayPoint[], years: number): number {
+  const points = [...curve].sort((a, b) => a.years - b.years);
+  if (points.length === 0) return 1;
+  if (years <= points[0].years) return points[0].value / 100;
+  for (let i = 1; i < points.length; i++) {
+    const lo = points[i - 1];
+    const hi = points[i];
+    if (years <= hi.years) {
+      const t = (years - lo.years) / (hi.years - lo.years);
+      return (lo.value + t * (hi.value - lo.value)) / 100;
+    }
+  }
+  return points[points.length - 1].value / 100;
+}
+
+/**
+ * Whole years a bank will lend over on a lease with `years` remaining at
+ * drawdown: the age-based tenure, cut so the lease still has
+ * `leaseAtMaturityYears` left when the loan matures. 0 when the lease is
+ * too short to finance at all.
+ */
+export function getLeaseholdLoanTenure(
+  tenureYears: number,
+  years: number,
+  settings: LeaseholdSettings
+): number {
+  if (years < settings.minFinanceableYears) return 0;
+  return Math.max(0, Math.min(tenureYears, Math.floor(years - settings.leaseAtMaturityYears)));
+}
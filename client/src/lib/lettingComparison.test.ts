@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { calculatePropertyPlan, generatePropertyList, type CalculatorInputs } from "./calculator";
+import { compareLetting, summariseLetting } from "./lettingComparison";
+import { DEFAULT_SHORT_TERM_RENTAL } from "./shortTermRental";
+
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 3,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+};
+
+describe("compareLetting", () => {
+  it("runs the first unit on its own, let each way", () => {
+    const comparison = compareLetting(BASE)!;
+    expect(comparison.unit).toEqual(generatePropertyList(BASE)[0]);
+    for (const run of [comparison.longTerm, comparison.shortTerm]) {
+      expect(run.properties).toHaveLength(1);
+      expect(run.properties[0].purchasePrice).toBe(BASE.purchasePrice);
+    }
+    expect(comparison.longTerm.properties[0].shortTermRental).toBe(false);
+    expect(comparison.shortTerm.properties[0].shortTermRental).toBe(true);
+  });
+
+  it("lets the long-term run exactly as a one-unit plan would", () => {
+    const { longTerm } = compareLetting(BASE)!;
+    const alone = calculatePropertyPlan({ ...BASE, maxProperties: 1 });
+    expect(longTerm.yearlyData.map((d) => d.netEquity)).toEqual(alone.yearlyData.map((d) => d.netEquity));
+  });
+
+  it("uses the plan's short-let settings for the bookings", () => {
+    const dearer = { ...BASE, shortTermRental: { ...DEFAULT_SHORT_TERM_RENTAL, nightlyRate: 360 } };
+    const cheap = summariseLetting(compareLetting(BASE)!.shortTerm)!;
+    const dear = summariseLetting(compareLetting(dearer)!.shortTerm)!;
+    expect(dear.grossIncome).toBeCloseTo(cheap.grossIncome * 2, 2);
+  });
+
+  it("has nothing to compare when no unit fits in the horizon", () => {
+    expect(compareLetting({ ...BASE, maxProperties: 0 })).toBeNull();
+  });
+});
+
+describe("summariseLetting", () => {
+  it("totals the unit's ledger over the horizon", () => {
+    const { longTerm } = compareLetting(BASE)!;
+    const outcome = summariseLetting(longTerm)!;
+    const ledger = longTerm.properties[0].ledger;
+    const total = (values: number[]) => values.reduce((sum, v) => sum + v, 0);
+    expect(outcome.grossIncome).toBeCloseTo(total(ledger.map((e) => e.rentalIncome)), 6);
+    expect(outcome.netIncome).toBeCloseTo(outcome.grossIncome - outcome.expense - outcome.incomeTax, 6);
+    expect(outcome.cashFlow).toBeCloseTo(total(ledger.map((e) => e.cashFlow)), 6);
+    expect(outcome.netEquity).toBe(ledger[ledger.length - 1].netEquity);
+    expect(outcome.irr).toBe(longTerm.properties[0].returns.irr);
+  });
+
+  it("is null when the purchase did not go ahead", () => {
+    expect(summariseLetting(calculatePropertyPlan({ ...BASE, maxProperties: 0 }))).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+// ============================================================
+// PropertyLab - Long- vs Short-Term Letting
+// Runs the plan's first unit on its own twice: let to a tenant
+// at its rental yield, and let by the night on the short-term
+// rental settings. Financing, costs, tax and the horizon are the
+// plan's own, so the two runs differ only in how the unit is let.
+// ============================================================
+
+import {
+  calculatePropertyPlan,
+  resolveProperties,
+  type CalculatorInputs,
+  type FullSimulationResult,
+  type PropertyLedgerEntry,
+  type PropertySpec,
+} from "./calculator";
+import { DEFAULT_SHORT_TERM_RENTAL } from "./shortTermRental";
+
+export interface LettingComparison {
+  unit: PropertySpec; // as listed, before any indexing or margin cap
+  longTerm: FullSimulationResult;
+  shortTerm: FullSimulationResult;
+}
+
+/** One way of letting the unit, over the horizon */
+export interface LettingOutcome {
+  firstYearIncome: number; // over the first 12 months from handover
+  firstYearExpense: number;
+  grossIncome: number; // rent or bookings over the horizon
+  expense: number; // holding and letting costs, furnishing included
+  incomeTax: number;
+  netIncome: number; // income less expenses and tax, before the loan
+  cashFlow: number; // after instalments, the deposit and acquisition costs
+  netEquity: number; // at the horizon
+  irr: number | null; // % p.a. on the unit's own cash stream
+}
+
+/** The first unit let both ways, or null when the plan has no unit to let */
+export function compareLetting(inputs: CalculatorInputs): LettingComparison | null {
+  const unit = resolveProperties(inputs)[0];
+  if (!unit) return null;
+  const run = (shortTermRental: boolean) =>
+    calculatePropertyPlan({
+      ...inputs,
+      properties: [{ ...unit, shortTermRental }],
+      shortTermRental: inputs.shortTermRental ?? DEFAULT_SHORT_TERM_RENTAL,
+    });
+  return { unit, longTerm: run(false), shortTerm: run(true) };
+}
+
+/** Headline figures of one run; null when the purchase did not go ahead */
+export function summariseLetting(result: FullSimulationResult): LettingOutcome | null {
+  const property = result.properties[0];
+  if (!property) return null;
+  const total = (pick: (e: PropertyLedgerEntry) => number) =>
+    property.ledger.reduce((sum, e) => sum + pick(e), 0);
+  const last = property.ledger[property.ledger.length - 1];
+  const grossIncome = total((e) => e.rentalIncome);
+  const expense = total((e) => e.expense);
+  const incomeTax = total((e) => e.incomeTax);
+  return {
+    firstYearIncome: result.annualRentalIncome,
+    firstYearExpense: result.annualExpensePerProperty,
+    grossIncome,
+    expense,
+    incomeTax,
+    netIncome: grossIncome - expense - incomeTax,
+    cashFlow: total((e) => e.cashFlow),
+    netEquity: last.netEquity,
+    irr: property.returns.irr,
+  };
+}
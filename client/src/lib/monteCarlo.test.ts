@@ -0,0 +1,110 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { calculatePropertyPlan, type CalculatorInputs } from "./calculator";
+import {
+  DEFAULT_MONTE_CARLO,
+  getTrialCount,
+  MAX_TRIALS,
+  runMonteCarlo,
+  type MonteCarloSettings,
+} from "./monteCarlo";
+
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 2,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+  horizonYears: 8,
+};
+
+const settings: MonteCarloSettings = { ...DEFAULT_MONTE_CARLO, enabled: true, trials: 60 };
+const calm: MonteCarloSettings = {
+  ...settings,
+  appreciationVolatility: 0,
+  rateVolatility: 0,
+  rentGrowthVolatility: 0,
+  stockVolatility: 0,
+};
+
+describe("getTrialCount", () => {
+  it("runs a whole number of trials within the limit", () => {
+    expect(getTrialCount(250.4)).toBe(250);
+    expect(getTrialCount(0)).toBe(1);
+    expect(getTrialCount(MAX_TRIALS * 2)).toBe(MAX_TRIALS);
+  });
+});
+
+describe("runMonteCarlo", () => {
+  it("repeats the same trials for the same seed", () => {
+    const a = runMonteCarlo(BASE, null, settings);
+    const b = runMonteCarlo(BASE, null, settings);
+    expect(a).toEqual(b);
+    expect(runMonteCarlo(BASE, null, { ...settings, seed: 2 }).netEquity).not.toEqual(a.netEquity);
+  });
+
+  it("collapses onto the plan when nothing is volatile", () => {
+    const plan = calculatePropertyPlan(BASE);
+    const result = runMonteCarlo(BASE, null, calm);
+    for (const band of result.netEquity) {
+      const expected = plan.yearlyData[band.year].netEquity;
+      expect(band.p10).toBeCloseTo(expected, 2);
+      expect(band.p90).toBeCloseTo(expected, 2);
+    }
+  });
+
+  it("orders the percentile bands and spreads them with volatility", () => {
+    const result = runMonteCarlo(BASE, null, settings);
+    expect(result.trials).toBe(60);
+    expect(result.netEquity).toHaveLength(9);
+    for (const band of [...result.netEquity, ...result.cumulativeCashFlow]) {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    }
+    const horizon = result.netEquity[8];
+    expect(horizon.p90).toBeGreaterThan(horizon.p10);
+    expect(result.probabilityNegativeCash).toBeGreaterThanOrEqual(0);
+    expect(result.probabilityNegativeCash).toBeLessThanOrEqual(1);
+  });
+
+  it("keeps shocks normal when the tails round down to two degrees of freedom", () => {
+    for (const degreesOfFreedom of [0, 2.4, 2.6]) {
+      const horizon = runMonteCarlo(BASE, null, { ...settings, degreesOfFreedom }).netEquity[8];
+      expect(horizon.p90 - horizon.p10).toBeGreaterThan(10_000);
+    }
+  });
+
+  it("rejects correlations that cannot occur together", () => {
+    const correlations = {
+      ...settings.correlations,
+      appreciationRate: 0.99,
+      appreciationRent: 0.99,
+      rateRent: -0.99,
+    };
+    expect(() => runMonteCarlo(BASE, null, { ...settings, correlations })).toThrow(/inconsistent/);
+  });
+});
+
+describe("Monte Carlo worker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it("reports progress against the trials actually run", async () => {
+    const postMessage = vi.fn();
+    vi.stubGlobal("self", { postMessage });
+    await import("./monteCarlo.worker");
+    const worker = self as unknown as { onmessage: (event: { data: unknown }) => void };
+    worker.onmessage({ data: { inputs: BASE, stockInputs: null, settings: { ...calm, trials: 50.4 } } });
+    expect(postMessage).toHaveBeenCalledWith({ type: "progress", done: 50, total: 50 });
+    expect(postMessage.mock.calls.at(-1)?.[0]).toMatchObject({ type: "result", result: { trials: 50 } });
+  });
+});
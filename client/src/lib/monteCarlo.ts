@@ -0,0 +1,267 @@
+// ============================================================
+// PropertyLab - Monte Carlo Simulation
+// Runs the deterministic engine over many random market paths.
+// Each year draws correlated shocks to appreciation, interest
+// rates, rent growth and stock returns (optionally fat-tailed),
+// and the trials are summarised as P10 / P50 / P90 bands.
+// ============================================================
+
+import {
+  calculatePropertyPlan,
+  calculateStockReinvestment,
+  getInterestRateForYear,
+  getRentPolicy,
+  resolveHorizon,
+  type CalculatorInputs,
+  type MarketPath,
+  type StockInputs,
+} from "./calculator";
+
+/** Correlation between the yearly shocks of each pair of drivers (−1 to 1) */
+export interface MarketCorrelations {
+  appreciationRate: number; // appreciation vs interest rate
+  appreciationRent: number; // appreciation vs rent growth
+  appreciationStock: number; // appreciation vs stock return
+  rateRent: number;
+  rateStock: number;
+  rentStock: number;
+}
+
+/** Spread of each driver around the deterministic inputs, in % p.a. */
+export interface MonteCarloSettings {
+  enabled: boolean;
+  trials: number;
+  seed: number; // same seed, same trials
+  appreciationVolatility: number; // std dev of yearly appreciation
+  rateVolatility: number; // std dev of the yearly rate shock, in percentage points
+  rentGrowthVolatility: number; // std dev of yearly rent growth
+  stockVolatility: number; // std dev of yearly stock price return
+  correlations: MarketCorrelations;
+  degreesOfFreedom: number; // Student-t tails; 0 = normal
+}
+
+export const DEFAULT_MONTE_CARLO: MonteCarloSettings = {
+  enabled: false,
+  trials: 1000,
+  seed: 1,
+  appreciationVolatility: 4,
+  rateVolatility: 0.5,
+  rentGrowthVolatility: 2,
+  stockVolatility: 15,
+  correlations: {
+    appreciationRate: -0.3,
+    appreciationRent: 0.5,
+    appreciationStock: 0.3,
+    rateRent: 0,
+    rateStock: -0.2,
+    rentStock: 0.1,
+  },
+  degreesOfFreedom: 5,
+};
+
+export const MAX_TRIALS = 10_000;
+
+/** Share of each year's rate shock that carries into the next year */
+const RATE_PERSISTENCE = 0.8;
+/** Yearly returns are floored here so a price can never go negative */
+const MIN_RETURN = -0.95;
+
+/** Percentiles of one measure at a given year */
+export interface PercentileBand {
+  year: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  trials: number;
+  netEquity: PercentileBand[]; // index = year, 0 to the horizon
+  annualCashFlow: PercentileBand[];
+  cumulativeCashFlow: PercentileBand[];
+  combinedNetWorth: PercentileBand[] | null; // only when stocks are simulated
+  // Share of trials whose cumulative cash flow is below zero at any month
+  probabilityNegativeCash: number;
+  // Share of trials below zero at each year end
+  negativeCashByYear: number[];
+}
+
+/** Small, fast seeded generator (mulberry32) so runs are repeatable */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box–Muller) */
+function normal(random: () => number): number {
+  const u = 1 - random(); // (0, 1]
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Lower-triangular Cholesky factor of a correlation matrix. Throws when
+ * the correlations cannot occur together (matrix not positive definite).
+ */
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum <= 1e-10) {
+          throw new Error("These correlations are inconsistent with each other — reduce some of them");
+        }
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+/** Correlation matrix in driver order: appreciation, rate, rent growth, stock */
+function correlationMatrix(c: MarketCorrelations): number[][] {
+  const clamp = (x: number) => Math.max(-0.99, Math.min(0.99, x));
+  return [
+    [1, clamp(c.appreciationRate), clamp(c.appreciationRent), clamp(c.appreciationStock)],
+    [clamp(c.appreciationRate), 1, clamp(c.rateRent), clamp(c.rateStock)],
+    [clamp(c.appreciationRent), clamp(c.rateRent), 1, clamp(c.rentStock)],
+    [clamp(c.appreciationStock), clamp(c.rateStock), clamp(c.rentStock), 1],
+  ];
+}
+
+/**
+ * One year of correlated unit-variance shocks. With fat tails the whole
+ * vector is scaled by a shared chi-square draw (multivariate Student-t), so
+ * bad years tend to be bad for every driver at once.
+ */
+function drawShocks(random: () => number, lower: number[][], df: number): number[] {
+  const z = lower.map(() => normal(random));
+  const shocks = lower.map((row) => row.reduce((sum, l, k) => sum + l * z[k], 0));
+  // Whole degrees only; below 3 the variance is infinite, so stay normal
+  const degrees = Math.round(df);
+  if (degrees <= 2) return shocks;
+  let chiSquare = 0;
+  for (let k = 0; k < degrees; k++) chiSquare += normal(random) ** 2;
+  const scale = Math.sqrt((degrees - 2) / Math.max(chiSquare, 1e-12));
+  return shocks.map((s) => s * scale);
+}
+
+/** One random market path plus the matching stock returns */
+function drawPath(
+  inputs: CalculatorInputs,
+  settings: MonteCarloSettings,
+  random: () => number,
+  lower: number[][],
+  stockMean: number
+): { path: MarketPath; stockReturns: number[] } {
+  const appreciationMean = inputs.appreciationRate / 100;
+  const rentMean = getRentPolicy(inputs).growthRate;
+  const path: MarketPath = { appreciation: [], interestRates: [], rentGrowth: [] };
+  const stockReturns: number[] = [];
+  // The rate drifts away from the planned path and slowly reverts to it;
+  // year 1 is the rate known at the start
+  let rateShock = 0;
+
+  for (let year = 1; year <= resolveHorizon(inputs); year++) {
+    const [a, r, g, s] = drawShocks(random, lower, settings.degreesOfFreedom);
+    if (year > 1) {
+      rateShock = RATE_PERSISTENCE * rateShock + (settings.rateVolatility / 100) * r;
+    }
+    path.appreciation.push(Math.max(MIN_RETURN, appreciationMean + (settings.appreciationVolatility / 100) * a));
+    path.interestRates.push(Math.max(0, getInterestRateForYear(inputs, year) / 100 + rateShock));
+    path.rentGrowth.push(Math.max(MIN_RETURN, rentMean + (settings.rentGrowthVolatility / 100) * g));
+    stockReturns.push(Math.max(MIN_RETURN, stockMean + (settings.stockVolatility / 100) * s));
+  }
+  return { path, stockReturns };
+}
+
+/** Linear-interpolated percentile of sorted values */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+/** P10 / P50 / P90 for each year from per-trial series (trial × year) */
+function toBands(series: number[][]): PercentileBand[] {
+  const years = series[0]?.length ?? 0;
+  return Array.from({ length: years }, (_, year) => {
+    const values = series.map((s) => s[year]).sort((x, y) => x - y);
+    return {
+      year,
+      p10: percentile(values, 0.1),
+      p50: percentile(values, 0.5),
+      p90: percentile(values, 0.9),
+    };
+  });
+}
+
+/** Trials actually run for a requested count: whole, at least one and at most MAX_TRIALS */
+export function getTrialCount(trials: number): number {
+  return Math.max(1, Math.min(MAX_TRIALS, Math.round(trials) || 1));
+}
+
+/**
+ * Run the plan over `settings.trials` random paths. Stock returns are only
+ * drawn into results when stock inputs are given. `onProgress` is called
+ * every 50 trials with the number completed.
+ */
+export function runMonteCarlo(
+  inputs: CalculatorInputs,
+  stockInputs: StockInputs | null,
+  settings: MonteCarloSettings,
+  onProgress?: (done: number) => void
+): MonteCarloResult {
+  const trials = getTrialCount(settings.trials);
+  const random = createRandom(settings.seed);
+  const lower = cholesky(correlationMatrix(settings.correlations));
+  const stockMean = (stockInputs?.stockAppreciation ?? 0) / 100;
+
+  const netEquity: number[][] = [];
+  const annualCashFlow: number[][] = [];
+  const cumulativeCashFlow: number[][] = [];
+  const combinedNetWorth: number[][] = [];
+  let trialsWithNegativeCash = 0;
+
+  for (let trial = 0; trial < trials; trial++) {
+    const { path, stockReturns } = drawPath(inputs, settings, random, lower, stockMean);
+    const result = calculatePropertyPlan(inputs, path);
+
+    netEquity.push(result.yearlyData.map((d) => d.netEquity));
+    annualCashFlow.push(result.yearlyData.map((d) => d.annualCashFlow));
+    cumulativeCashFlow.push(result.yearlyData.map((d) => d.cumulativeCashFlow));
+    if ((result.monthlyData ?? []).some((m) => m.cumulativeCashFlow < 0)) trialsWithNegativeCash++;
+
+    if (stockInputs) {
+      const stock = calculateStockReinvestment(stockInputs, inputs, result, stockReturns);
+      combinedNetWorth.push(stock.yearlyData.map((d) => d.combinedNetWorth));
+    }
+
+    if (onProgress && (trial + 1) % 50 === 0) onProgress(trial + 1);
+  }
+
+  return {
+    trials,
+    netEquity: toBands(netEquity),
+    annualCashFlow: toBands(annualCashFlow),
+    cumulativeCashFlow: toBands(cumulativeCashFlow),
+    combinedNetWorth: stockInputs ? toBands(combinedNetWorth) : null,
+    probabilityNegativeCash: trialsWithNegativeCash / trials,
+    negativeCashByYear: cumulativeCashFlow[0].map(
+      (_, year) => cumulativeCashFlow.filter((s) => s[year] < 0).length / trials
+    ),
+  };
+}
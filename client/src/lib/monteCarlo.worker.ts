@@ -0,0 +1,39 @@
+// ============================================================
+// PropertyLab - Monte Carlo Worker
+// Runs the trials off the main thread and reports progress.
+// ============================================================
+
+import type { CalculatorInputs, StockInputs } from "./calculator";
+import {
+  getTrialCount,
+  runMonteCarlo,
+  type MonteCarloResult,
+  type MonteCarloSettings,
+} from "./monteCarlo";
+
+export interface MonteCarloRequest {
+  inputs: CalculatorInputs;
+  stockInputs: StockInputs | null;
+  settings: MonteCarloSettings;
+}
+
+export type MonteCarloMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "result"; result: MonteCarloResult }
+  | { type: "error"; message: string };
+
+const post = (message: MonteCarloMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { inputs, stockInputs, settings } = event.data;
+  // The bar fills to the trials actually run, not the count asked for
+  const total = getTrialCount(settings.trials);
+  try {
+    const result = runMonteCarlo(inputs, stockInputs, settings, (done) =>
+      post({ type: "progress", done, total })
+    );
+    post({ type: "result", result });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePropertyPlan,
+  calculateStockReinvestment,
+  type CalculatorInputs,
+  type StockInputs,
+} from "./calculator";
+import { getDeflator, toRealResults, toRealStockResults } from "./inflation";
+import { buildPortfolioSummary, readPortfolioSummary } from "./portfolioSummary";
+
+const INPUTS: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 3,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+  horizonYears: 25,
+  milestoneYears: [7, 15],
+};
+const STOCK: StockInputs = {
+  enableStockReinvestment: true,
+  stockDividendYield: 4,
+  stockDiscount: 10,
+  stockAppreciation: 5,
+  reinvestDividends: true,
+};
+
+const results = calculatePropertyPlan(INPUTS);
+const stockResults = calculateStockReinvestment(STOCK, INPUTS, results);
+
+describe("buildPortfolioSummary", () => {
+  it("records each requested milestone and the horizon", () => {
+    const summary = buildPortfolioSummary(INPUTS.purchasePrice, results, stockResults);
+    expect(summary.horizonYears).toBe(25);
+    expect(summary.properties).toBe(3);
+    expect(Object.keys(summary.milestones).map(Number)).toEqual([7, 15, 25]);
+    const horizon = summary.milestones[25];
+    expect(horizon.equity).toBeCloseTo(results.yearlyData[25].netEquity, 6);
+    expect(horizon.combined).toBeCloseTo(horizon.equity + horizon.stockValue!, 6);
+    expect(summary.stockReturn).toBe(stockResults.timeWeightedReturn);
+  });
+
+  it("leaves out stock figures when stocks are not simulated", () => {
+    const summary = buildPortfolioSummary(INPUTS.purchasePrice, results, null);
+    expect(summary.milestones[7]).toEqual({ equity: results.yearlyData[7].netEquity });
+    expect("stockReturn" in summary).toBe(false);
+  });
+
+  it("deflates only the ringgit amounts of a summary in today's money", () => {
+    const nominal = buildPortfolioSummary(INPUTS.purchasePrice, results, stockResults);
+    const real = buildPortfolioSummary(
+      INPUTS.purchasePrice,
+      toRealResults(results, 3),
+      toRealStockResults(stockResults, 3)
+    );
+    expect(real.purchasePrice).toBe(nominal.purchasePrice);
+    expect(real.horizonYears).toBe(nominal.horizonYears);
+    expect(real.properties).toBe(nominal.properties);
+    expect(real.irr).toBe(nominal.irr);
+    expect(real.npv).toBe(nominal.npv);
+    expect(real.equityMultiple).toBe(nominal.equityMultiple);
+    expect(real.stockReturn).toBe(nominal.stockReturn);
+    expect(Object.keys(real.milestones)).toEqual(Object.keys(nominal.milestones));
+    for (const [year, m] of Object.entries(nominal.milestones)) {
+      const factor = getDeflator(3, Number(year));
+      expect(real.milestones[Number(year)].equity).toBeCloseTo(m.equity * factor, 6);
+      expect(real.milestones[Number(year)].stockValue!).toBeCloseTo(m.stockValue! * factor, 6);
+    }
+  });
+});
+
+describe("readPortfolioSummary", () => {
+  it("reads a current summary as saved", () => {
+    const summary = buildPortfolioSummary(INPUTS.purchasePrice, results, null);
+    expect(readPortfolioSummary(JSON.parse(JSON.stringify(summary)))).toEqual(summary);
+  });
+
+  it("reads fixed 10, 20 and 30-year fields into milestones", () => {
+    expect(
+      readPortfolioSummary({ purchasePrice: 400_000, properties: 4, equity10: 1, equity20: 2, equity30: 3, stockValue30: 4, combined30: 7 })
+    ).toEqual({
+      purchasePrice: 400_000,
+      horizonYears: 30,
+      properties: 4,
+      milestones: { 10: { equity: 1 }, 20: { equity: 2 }, 30: { equity: 3, stockValue: 4, combined: 7 } },
+    });
+  });
+
+  it("is null when nothing was saved", () => {
+    expect(readPortfolioSummary(null)).toBeNull();
+    expect(readPortfolioSummary("summary")).toBeNull();
+  });
+});
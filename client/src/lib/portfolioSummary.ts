@@ -0,0 +1,98 @@
+// ============================================================
+// PropertyLab - Portfolio Summary
+// The small record saved beside each portfolio for the list
+// page: equity, stock value and combined net worth at every
+// milestone the plan reports, ending at its horizon, and the
+// plan's returns on the investor's own cash. Summaries
+// saved before milestones were configurable carry fixed 10, 20
+// and 30-year fields instead and are read into the same shape.
+// ============================================================
+
+import {
+  getHorizonResult,
+  getHorizonYears,
+  getMilestones,
+  getStockMilestones,
+  type FullSimulationResult,
+  type StockSimulationResult,
+} from "./calculator";
+
+export interface MilestoneSummary {
+  equity: number; // property net equity
+  stockValue?: number; // only when stocks are simulated
+  combined?: number;
+}
+
+export interface PortfolioSummary {
+  purchasePrice: number;
+  horizonYears: number;
+  properties: number; // owned at the horizon
+  milestones: Record<number, MilestoneSummary>; // keyed by simulation year, the horizon last
+  // Missing from summaries saved before returns were measured
+  irr?: number | null; // % p.a.
+  npv?: number;
+  equityMultiple?: number | null;
+  stockReturn?: number | null; // time-weighted, % p.a.; only when stocks are simulated
+}
+
+/** Summary of a plan as it is about to be saved */
+export function buildPortfolioSummary(
+  purchasePrice: number,
+  results: FullSimulationResult,
+  stockResults: StockSimulationResult | null
+): PortfolioSummary {
+  const stock = new Map(
+    (stockResults ? getStockMilestones(stockResults) : []).map((m) => [m.year, m.milestone])
+  );
+  return {
+    purchasePrice,
+    horizonYears: getHorizonYears(results),
+    properties: getHorizonResult(results).propertiesOwned,
+    irr: results.returns.irr,
+    npv: results.returns.npv,
+    equityMultiple: results.returns.equityMultiple,
+    ...(stockResults ? { stockReturn: stockResults.timeWeightedReturn } : {}),
+    milestones: Object.fromEntries(
+      getMilestones(results).map(({ year, result }) => {
+        const stockValue = stock.get(year)?.portfolioValue;
+        return [
+          year,
+          stockValue === undefined
+            ? { equity: result.netEquity }
+            : { equity: result.netEquity, stockValue, combined: result.netEquity + stockValue },
+        ];
+      })
+    ),
+  };
+}
+
+/** Fields of summaries saved before milestones were configurable */
+interface LegacySummary {
+  purchasePrice?: number;
+  properties?: number;
+  equity10?: number;
+  equity20?: number;
+  equity30?: number;
+  stockValue30?: number; // with stocks only
+  combined30?: number;
+}
+
+/** A saved summary in the current shape, or null when there is none */
+export function readPortfolioSummary(saved: unknown): PortfolioSummary | null {
+  if (!saved || typeof saved !== "object") return null;
+  if ("milestones" in saved) return saved as PortfolioSummary;
+
+  const legacy = saved as LegacySummary;
+  const milestones: Record<number, MilestoneSummary> = {};
+  if (legacy.equity10 !== undefined) milestones[10] = { equity: legacy.equity10 };
+  if (legacy.equity20 !== undefined) milestones[20] = { equity: legacy.equity20 };
+  if (legacy.equity30 !== undefined) {
+    milestones[30] = { equity: legacy.equity30, stockValue: legacy.stockValue30, combined: legacy.combined30 };
+  }
+  return {
+    purchasePrice: legacy.purchasePrice ?? 0,
+    horizonYears: 30,
+    properties: legacy.properties ?? 0,
+    milestones,
+  };
+}
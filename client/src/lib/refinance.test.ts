@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateLegalFees,
+  calculateLoanStampDuty,
+  calculateValuationFee,
+} from "./acquisitionCosts";
+import { calculatePropertyPlan, type CalculatorInputs } from "./calculator";
+import {
+  calculateRefinanceFees,
+  DEFAULT_REFINANCE_PLAN,
+  isRefinanceEnabled,
+  type RefinancePlan,
+} from "./refinance";
+
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 1,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+};
+
+const refinances = (plan: Partial<RefinancePlan>, inputs: Partial<CalculatorInputs> = {}) =>
+  calculatePropertyPlan({ ...BASE, ...inputs, refinance: { ...DEFAULT_REFINANCE_PLAN, ...plan } }).properties[0]
+    .refinances;
+
+describe("isRefinanceEnabled", () => {
+  it("needs a trigger and at least one refinance", () => {
+    expect(isRefinanceEnabled(undefined)).toBe(false);
+    expect(isRefinanceEnabled(DEFAULT_REFINANCE_PLAN)).toBe(false);
+    expect(isRefinanceEnabled({ ...DEFAULT_REFINANCE_PLAN, trigger: "ltv", maxRefinances: 0 })).toBe(false);
+    expect(isRefinanceEnabled({ ...DEFAULT_REFINANCE_PLAN, trigger: "scheduled" })).toBe(true);
+  });
+});
+
+describe("calculateRefinanceFees", () => {
+  it("charges stamp duty and legal fees on the new loan and valuation on the value", () => {
+    expect(calculateRefinanceFees(400_000, 600_000)).toBeCloseTo(
+      calculateLoanStampDuty(400_000) + calculateLegalFees(400_000) + calculateValuationFee(600_000),
+      6
+    );
+  });
+});
+
+describe("refinancing in the plan", () => {
+  it("refinances on schedule, borrowing the target LTV of today's value", () => {
+    const [event] = refinances({ trigger: "scheduled", afterYears: 5, targetLtv: 80 });
+    expect(event).toMatchObject({ year: 5, month: 12, lockInPenalty: 0 });
+    expect(event.newLoan).toBeCloseTo(event.marketValue * 0.8, 6);
+    expect(event.fees).toBeCloseTo(calculateRefinanceFees(event.newLoan, event.marketValue), 6);
+    expect(event.cashOut).toBeCloseTo(event.newLoan - event.balanceRedeemed - event.fees, 6);
+  });
+
+  it("charges the lock-in penalty on a loan redeemed within its lock-in", () => {
+    const [event] = refinances({ trigger: "scheduled", afterYears: 2, lockInYears: 3, lockInPenaltyRate: 2 });
+    expect(event.year).toBe(2);
+    expect(event.lockInPenalty).toBeCloseTo(event.balanceRedeemed * 0.02, 6);
+    expect(event.cashOut).toBeCloseTo(event.newLoan - event.balanceRedeemed - event.fees - event.lockInPenalty, 6);
+  });
+
+  it("never borrows less than the balance it redeems", () => {
+    const [event] = refinances({ trigger: "scheduled", afterYears: 5, targetLtv: 50 });
+    expect(event.newLoan).toBe(event.balanceRedeemed);
+    expect(event.cashOut).toBeCloseTo(-event.fees, 6);
+  });
+
+  it("waits out the lock-in before an LTV trigger fires", () => {
+    // Bought at 50% LTV, the loan is under the threshold from the start
+    const [event] = refinances({ trigger: "ltv", ltvThreshold: 60, lockInYears: 3 }, { loanAmount: 250_000 });
+    expect(event).toMatchObject({ year: 3, month: 12, lockInPenalty: 0 });
+  });
+
+  it("fires the LTV trigger once the loan falls to the threshold", () => {
+    const [event] = refinances({ trigger: "ltv", ltvThreshold: 60, lockInYears: 3 });
+    expect(event.year).toBeGreaterThan(3);
+    expect((event.balanceRedeemed / event.marketValue) * 100).toBeLessThanOrEqual(60);
+    const [later] = refinances({ trigger: "ltv", ltvThreshold: 50, lockInYears: 3 });
+    expect(later.year).toBeGreaterThan(event.year);
+  });
+
+  it("refinances each unit at most maxRefinances times", () => {
+    expect(refinances({ trigger: "scheduled", afterYears: 5, maxRefinances: 1 })).toHaveLength(1);
+    const events = refinances({ trigger: "scheduled", afterYears: 5, maxRefinances: 3 });
+    expect(events.map((e) => e.year)).toEqual([5, 10, 15]);
+  });
+});
@@ -0,0 +1,74 @@
+// ============================================================
+// PropertyLab - Refinancing
+// Scheduled or LTV-triggered refinance of each unit, with the
+// new loan's stamp duty, legal and valuation fees and any
+// lock-in penalty on the loan being redeemed.
+// ============================================================
+
+import {
+  calculateLegalFees,
+  calculateLoanStampDuty,
+  calculateValuationFee,
+} from "./acquisitionCosts";
+
+/**
+ * How units are refinanced.
+ * - "scheduled": every `afterYears` years of a loan's life
+ * - "ltv": once the loan-to-value ratio falls to `ltvThreshold` and the
+ *   loan is out of its lock-in period
+ */
+export interface RefinancePlan {
+  trigger: "none" | "scheduled" | "ltv";
+  afterYears: number;
+  ltvThreshold: number; // % of current market value
+  targetLtv: number; // % of current market value borrowed by the new loan
+  interestRate?: number; // % p.a. in the refinance year; omitted = keep the unit's rate path
+  tenureYears?: number; // omitted = age-based tenure at the time of refinancing
+  lockInYears: number; // lock-in period of every loan
+  lockInPenaltyRate: number; // % of the redeemed balance within the lock-in period
+  maxRefinances: number; // per unit
+  cashOutTo: "cash" | "stock";
+}
+
+export const DEFAULT_REFINANCE_PLAN: RefinancePlan = {
+  trigger: "none",
+  afterYears: 5,
+  ltvThreshold: 60,
+  targetLtv: 80,
+  lockInYears: 3,
+  lockInPenaltyRate: 2,
+  maxRefinances: 1,
+  cashOutTo: "cash",
+};
+
+/** One refinance of one unit */
+export interface RefinanceEvent {
+  year: number; // simulation year
+  month: number; // 1–12
+  marketValue: number;
+  balanceRedeemed: number;
+  newLoan: number;
+  interestRate: number; // % p.a. at the start of the new loan
+  tenureYears: number;
+  fees: number; // stamp duty, legal and valuation fees on the new loan
+  lockInPenalty: number;
+  cashOut: number; // new loan - redeemed balance - fees - penalty
+  ibra: number; // rebate on settling a BBA financing early, 0 otherwise
+}
+
+/** Stamp duty, legal fees and valuation fee charged on a new refinance loan */
+export function calculateRefinanceFees(
+  newLoan: number,
+  marketValue: number
+): number {
+  return (
+    calculateLoanStampDuty(newLoan) +
+    calculateLegalFees(newLoan) +
+    calculateValuationFee(marketValue)
+  );
+}
+
+/** Whether a plan refinances anything at all (older scenarios have no plan) */
+export function isRefinanceEnabled(plan?: RefinancePlan): plan is RefinancePlan {
+  return !!plan && plan.trigger !== "none" && plan.maxRefinances > 0;
+}
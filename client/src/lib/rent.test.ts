@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { calculatePropertyPlan, type CalculatorInputs } from "./calculator";
+import {
+  getCollectedAnnualRent,
+  getEffectiveYield,
+  getLastReviewYear,
+  getVacancyRate,
+  type RentPolicy,
+} from "./rent";
+
+const unit = { purchasePrice: 500_000, marketValue: 550_000, rentalYield: 5 };
+const policy: RentPolicy = { growthRate: 0.02, vacancyRate: 0, basis: "purchasePrice", reviewYears: 3 };
+
+describe("getVacancyRate", () => {
+  it("reads months a year or a percentage, within 0–100%", () => {
+    expect(getVacancyRate("months", 1)).toBeCloseTo(1 / 12);
+    expect(getVacancyRate("percentage", 5)).toBeCloseTo(0.05);
+    expect(getVacancyRate("months", 18)).toBe(1);
+  });
+});
+
+describe("getLastReviewYear", () => {
+  it("holds rent until the next review falls due", () => {
+    expect(getLastReviewYear(policy, 0)).toBe(0);
+    expect(getLastReviewYear(policy, 2.9)).toBe(0);
+    expect(getLastReviewYear(policy, 3)).toBe(3);
+    expect(getLastReviewYear(policy, 7)).toBe(6);
+  });
+});
+
+describe("getCollectedAnnualRent", () => {
+  it("escalates the purchase-price rent only at reviews", () => {
+    expect(getCollectedAnnualRent(unit, policy, 0.03, 2)).toBeCloseTo(25_000);
+    expect(getCollectedAnnualRent(unit, policy, 0.03, 3)).toBeCloseTo(25_000 * 1.02 ** 3);
+  });
+
+  it("sets market-value rent from the value at the last review", () => {
+    const market = { ...policy, basis: "marketValue" as const };
+    expect(getCollectedAnnualRent(unit, market, 0.03, 4)).toBeCloseTo(550_000 * 1.03 ** 3 * 0.05);
+  });
+
+  it("takes vacancy off the gross rent", () => {
+    expect(getCollectedAnnualRent(unit, { ...policy, vacancyRate: 0.1 }, 0, 0)).toBeCloseTo(22_500);
+  });
+});
+
+describe("getEffectiveYield", () => {
+  it("is the year's collected rent over the value at its start when let from completion", () => {
+    expect(getEffectiveYield(unit, policy, 0.03, 4)).toBeCloseTo(
+      (getCollectedAnnualRent(unit, policy, 0.03, 3) / (550_000 * 1.03 ** 3)) * 100
+    );
+  });
+
+  it("leaves the unlet months out of the first year", () => {
+    const flat = { ...policy, growthRate: 0 };
+    expect(getEffectiveYield(unit, flat, 0, 1, 3)).toBeCloseTo(getEffectiveYield(unit, flat, 0, 1) * 0.75);
+    expect(getEffectiveYield(unit, flat, 0, 1, 12)).toBe(0);
+  });
+
+  it("matches the rent the ledger collects after a delayed start", () => {
+    const inputs: CalculatorInputs = {
+      purchasePrice: 500_000,
+      currentMarketValue: 550_000,
+      loanAmount: 450_000,
+      maxProperties: 1,
+      appreciationRate: 3,
+      rentalYield: 5,
+      interestRate: 4,
+      buyInterval: 3,
+      startingYear: 2026,
+      age: 30,
+      expenseType: "fixed",
+      expenseValue: 300,
+      purchaseMonth: 1,
+      rentStartDelayMonths: 5,
+      rentGrowthRate: 2,
+      rentReviewYears: 2,
+      vacancyType: "percentage",
+      vacancyValue: 5,
+    };
+    const ledger = calculatePropertyPlan(inputs).properties[0].ledger;
+    const letPolicy: RentPolicy = { growthRate: 0.02, vacancyRate: 0.05, basis: "purchasePrice", reviewYears: 2 };
+    for (const year of [1, 2, 3, 4]) {
+      const value = 550_000 * 1.03 ** (year - 1);
+      expect(getEffectiveYield(unit, letPolicy, 0.03, year, 5)).toBeCloseTo((ledger[year].rentalIncome / value) * 100, 6);
+    }
+  });
+});
@@ -0,0 +1,124 @@
+// ============================================================
+// PropertyLab - Rental Income
+// Rent escalation, vacancy allowance and rent reviews. Rent is set
+// from the yield on either the purchase price or the current market
+// value, and only changes when a review falls due.
+// ============================================================
+
+export type RentBasis = "purchasePrice" | "marketValue";
+export type VacancyType = "months" | "percentage";
+
+/** How rent evolves over a tenancy, with rates in decimal form */
+export interface RentPolicy {
+  growthRate: number; // escalation p.a. on the purchase-price basis
+  vacancyRate: number; // share of the year's rent lost to vacancy
+  basis: RentBasis;
+  reviewYears: number; // rent is re-set every this many years of letting
+}
+
+/** One unit's rent drivers */
+export interface RentUnit {
+  purchasePrice: number;
+  marketValue: number; // at completion
+  rentalYield: number; // %
+}
+
+/** Share of rent lost, from vacant months per year or a percentage */
+export function getVacancyRate(type: VacancyType, value: number): number {
+  const rate = type === "months" ? value / 12 : value / 100;
+  return Math.min(1, Math.max(0, rate));
+}
+
+/** Whole years of letting at the most recent rent review */
+export function getLastReviewYear(policy: RentPolicy, yearsLet: number): number {
+  const review = Math.max(1, policy.reviewYears);
+  return Math.floor(Math.max(0, yearsLet) / review) * review;
+}
+
+/**
+ * Gross annual rent (before vacancy) set at a review, given how much the
+ * unit's value and the rent index had grown since completion by then
+ * (1 = no growth).
+ * - purchasePrice basis: price × yield, escalated by the rent index
+ * - marketValue basis: yield × the market value at the review, so the
+ *   rent index is not used
+ */
+export function getReviewedRent(
+  unit: RentUnit,
+  policy: RentPolicy,
+  valueGrowth: number,
+  rentGrowth: number
+): number {
+  const base =
+    policy.basis === "marketValue"
+      ? unit.marketValue * valueGrowth
+      : unit.purchasePrice * rentGrowth;
+  return (base * unit.rentalYield) / 100;
+}
+
+/**
+ * Gross annual rent (before vacancy) in a year of letting at constant
+ * rates. `yearsLet` is the number of whole years the unit has been let
+ * (0 in the first year).
+ */
+export function getGrossAnnualRent(
+  unit: RentUnit,
+  policy: RentPolicy,
+  appreciationRate: number,
+  yearsLet: number
+): number {
+  const lastReview = getLastReviewYear(policy, yearsLet);
+  return getReviewedRent(
+    unit,
+    policy,
+    Math.pow(1 + appreciationRate, lastReview),
+    Math.pow(1 + policy.growthRate, lastReview)
+  );
+}
+
+/** Rent actually collected in a year of letting, after vacancy */
+export function getCollectedAnnualRent(
+  unit: RentUnit,
+  policy: RentPolicy,
+  appreciationRate: number,
+  yearsLet: number
+): number {
+  return (
+    getGrossAnnualRent(unit, policy, appreciationRate, yearsLet) *
+    (1 - policy.vacancyRate)
+  );
+}
+
+/**
+ * Collected rent in the `year`-th year after completion as a % of the unit's
+ * market value at the start of that year. Letting starts `delayMonths` after
+ * completion and rent is reviewed from then, as in the monthly ledger.
+ */
+export function getEffectiveYield(
+  unit: RentUnit,
+  policy: RentPolicy,
+  appreciationRate: number,
+  year: number,
+  delayMonths = 0
+): number {
+  const value = unit.marketValue * Math.pow(1 + appreciationRate, year - 1);
+  if (value <= 0) return 0;
+  let collected = 0;
+  for (let month = 12 * (year - 1); month < 12 * year; month++) {
+    const monthsLet = month + 1 - delayMonths;
+    if (monthsLet <= 0) continue;
+    // Years from completion to the review that set this month's rent
+    const reviewedAt =
+      (delayMonths + 12 * getLastReviewYear(policy, Math.floor((monthsLet - 1) / 12))) / 12;
+    collected +=
+      (getReviewedRent(
+        unit,
+        policy,
+        Math.pow(1 + appreciationRate, reviewedAt),
+        Math.pow(1 + policy.growthRate, reviewedAt)
+      ) *
+        (1 - policy.vacancyRate)) /
+      12;
+  }
+  return (collected / value) * 100;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateIrr,
+  calculateNpv,
+  calculateReturnMetrics,
+  calculateTimeWeightedReturn,
+} from "./returns";
+
+describe("calculateNpv", () => {
+  it("discounts each year's flow", () => {
+    expect(calculateNpv(0.1, [-100, 110])).toBeCloseTo(0);
+    expect(calculateNpv(0, [-100, 30, 80])).toBeCloseTo(10);
+  });
+});
+
+describe("calculateIrr", () => {
+  it("finds the rate at which NPV is zero", () => {
+    expect(calculateIrr([-100, 110])).toBeCloseTo(0.1, 6);
+    expect(calculateIrr([-1000, 0, 0, 1331])).toBeCloseTo(0.1, 6);
+  });
+
+  it("is null when every flow is an inflow", () => {
+    expect(calculateIrr([100, 50])).toBeNull();
+  });
+});
+
+describe("calculateReturnMetrics", () => {
+  it("adds the equity still held to the last year", () => {
+    const metrics = calculateReturnMetrics([-100, 10, 10], 100, 6);
+    expect(metrics.irr).toBeCloseTo(10, 4);
+    expect(metrics.cashInvested).toBe(100);
+    expect(metrics.cashReturned).toBe(120);
+    expect(metrics.equityMultiple).toBeCloseTo(1.2);
+  });
+});
+
+describe("calculateTimeWeightedReturn", () => {
+  it("chains yearly returns into an annual rate", () => {
+    expect(calculateTimeWeightedReturn([0.1, 0.1])).toBeCloseTo(10);
+    expect(calculateTimeWeightedReturn([0.21, 0])).toBeCloseTo(10);
+    expect(calculateTimeWeightedReturn([])).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+// ============================================================
+// PropertyLab - Investment Returns
+// Returns measured on the investor's own cash stream: deposits,
+// costs and shortfalls going in; surpluses, cashback, sale
+// proceeds and cash-out coming back. Whatever equity is still
+// held at the horizon is counted as if it were cashed in then.
+// Leveraged plans often put in little or no cash of their own,
+// so ratios on cash invested can be undefined (null).
+// ============================================================
+
+export const DEFAULT_DISCOUNT_RATE = 6; // % p.a., roughly what EPF has paid
+
+export interface ReturnMetrics {
+  irr: number | null; // % p.a., null when the cash never changes direction
+  npv: number; // at the discount rate, in ringgit of the starting year
+  discountRate: number; // % p.a.
+  cashInvested: number; // own cash put in over the horizon
+  cashReturned: number; // cash received plus equity at the horizon
+  equityMultiple: number | null; // cash returned over cash invested
+  returnOnCash: number | null; // % profit over cash invested, for the whole horizon
+}
+
+/** Net present value of yearly cash flows, index 0 = today */
+export function calculateNpv(rate: number, cashFlows: number[]): number {
+  return cashFlows.reduce((sum, cf, year) => sum + cf / Math.pow(1 + rate, year), 0);
+}
+
+/**
+ * Internal rate of return (decimal) of yearly cash flows, by bisection
+ * between -99% and 1,000% a year. Null when there is no root in that range,
+ * e.g. when every flow is an inflow.
+ */
+export function calculateIrr(cashFlows: number[]): number | null {
+  let lo = -0.99;
+  let hi = 10;
+  let npvLo = calculateNpv(lo, cashFlows);
+  if (npvLo * calculateNpv(hi, cashFlows) > 0) return null;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    const npvMid = calculateNpv(mid, cashFlows);
+    if (npvLo * npvMid <= 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      npvLo = npvMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Returns on a stream of yearly cash to (+) and from (-) the investor,
+ * index 0 = the start, with the equity still held added in the last year.
+ */
+export function calculateReturnMetrics(
+  cashFlows: number[],
+  terminalEquity: number,
+  discountRate: number
+): ReturnMetrics {
+  const flows = cashFlows.map((cf, year) =>
+    year === cashFlows.length - 1 ? cf + terminalEquity : cf
+  );
+  const cashInvested = cashFlows.reduce((sum, cf) => sum + Math.max(0, -cf), 0);
+  const cashReturned =
+    cashFlows.reduce((sum, cf) => sum + Math.max(0, cf), 0) + terminalEquity;
+  const irr = cashInvested > 0 ? calculateIrr(flows) : null;
+  return {
+    irr: irr === null ? null : irr * 100,
+    npv: calculateNpv(discountRate / 100, flows),
+    discountRate,
+    cashInvested,
+    cashReturned,
+    equityMultiple: cashInvested > 0 ? cashReturned / cashInvested : null,
+    returnOnCash: cashInvested > 0 ? ((cashReturned - cashInvested) / cashInvested) * 100 : null,
+  };
+}
+
+/**
+ * Annualised time-weighted return (%) from each year's return (decimal),
+ * so money added along the way does not count as growth. Null with no years.
+ */
+export function calculateTimeWeightedReturn(yearlyReturns: number[]): number | null {
+  if (yearlyReturns.length === 0) return null;
+  const growth = yearlyReturns.reduce((g, r) => g * (1 + r), 1);
+  return (Math.pow(Math.max(0, growth), 1 / yearlyReturns.length) - 1) * 100;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { generatePropertyList, getInterestRateForYear, type CalculatorInputs } from "./calculator";
+import {
+  evaluatePlan,
+  getActiveDrivers,
+  getDriverValue,
+  getGridValues,
+  runTornado,
+  withDriverValue,
+} from "./sensitivity";
+
+const BASE: CalculatorInputs = {
+  purchasePrice: 500_000,
+  currentMarketValue: 500_000,
+  loanAmount: 450_000,
+  maxProperties: 3,
+  appreciationRate: 3,
+  rentalYield: 5,
+  interestRate: 4,
+  buyInterval: 3,
+  startingYear: 2026,
+  age: 30,
+  expenseType: "fixed",
+  expenseValue: 300,
+  purchaseMonth: 1,
+};
+
+const keys = (inputs: CalculatorInputs) => getActiveDrivers(inputs, null).map((d) => d.key);
+
+describe("getActiveDrivers", () => {
+  it("flexes the buy interval of a plan built from it", () => {
+    expect(keys(BASE)).toContain("buyInterval");
+    expect(keys({ ...BASE, properties: [] })).toContain("buyInterval");
+  });
+
+  it("leaves out the buy interval when the units are listed with their own years", () => {
+    expect(keys({ ...BASE, properties: generatePropertyList(BASE) })).not.toContain("buyInterval");
+  });
+
+  it("leaves out stock drivers without stocks", () => {
+    expect(keys(BASE).some((k) => k.startsWith("stock"))).toBe(false);
+  });
+});
+
+describe("evaluatePlan", () => {
+  it("does not count a purchase deposit as negative cash flow", () => {
+    const inputs = { ...BASE, rentalYield: 8, applyLtvLimits: true };
+    expect(evaluatePlan({ inputs, stockInputs: null }).firstNegativeCashFlowYear).toBeNull();
+  });
+
+  it("finds the first year rent falls short of the instalments", () => {
+    expect(evaluatePlan({ inputs: BASE, stockInputs: null }).firstNegativeCashFlowYear).toBe(1);
+  });
+});
+
+describe("drivers at zero", () => {
+  it("flexes a zero driver by a grid step either way", () => {
+    const row = runTornado({ ...BASE, appreciationRate: 0 }, null, 10).rows.find((r) => r.driver === "appreciationRate")!;
+    expect(row.lowValue).toBe(-1);
+    expect(row.highValue).toBe(1);
+    expect(row.high.netEquity).toBeGreaterThan(row.low.netEquity);
+  });
+
+  it("moves a zero rate path up to the value", () => {
+    const plan = { inputs: { ...BASE, interestRate: 0 }, stockInputs: null };
+    expect(getInterestRateForYear(withDriverValue(plan, "interestRate", 0.5).inputs, 1)).toBeCloseTo(0.5);
+    const spread = {
+      inputs: { ...BASE, rateSchedule: { type: "baseSpread" as const, baseRate: 0, steps: [{ year: 1, rate: 0 }] } },
+      stockInputs: null,
+    };
+    expect(getInterestRateForYear(withDriverValue(spread, "interestRate", 0.5).inputs, 1)).toBeCloseTo(0.5);
+  });
+});
+
+describe("listed properties", () => {
+  const listed = generatePropertyList(BASE).map((p, i) => ({ ...p, rentalYield: 6 + 2 * (i % 2) }));
+  const plan = { inputs: { ...BASE, properties: listed }, stockInputs: null };
+
+  it("reads the yield the listed units earn", () => {
+    expect(getDriverValue(plan, "rentalYield")).toBeCloseTo(listed.reduce((sum, p) => sum + p.rentalYield, 0) / listed.length);
+  });
+
+  it("moves every listed yield in proportion", () => {
+    const base = getDriverValue(plan, "rentalYield");
+    const flexed = withDriverValue(plan, "rentalYield", base * 1.5).inputs.properties!;
+    flexed.forEach((p, i) => expect(p.rentalYield).toBeCloseTo(listed[i].rentalYield * 1.5));
+    const row = runTornado(plan.inputs, null, 10).rows.find((r) => r.driver === "rentalYield")!;
+    expect(row.lowValue).toBeCloseTo(base * 0.9);
+    expect(row.high.netEquity).toBeGreaterThan(row.low.netEquity);
+  });
+
+  it("steps a listed fixed expense in RM", () => {
+    const fixed = { inputs: { ...BASE, expenseType: "percentage" as const, properties: generatePropertyList(BASE) }, stockInputs: null };
+    expect(getGridValues(fixed, "expenseValue")).toEqual([100, 200, 300, 400, 500]);
+  });
+
+  it("leaves out the expense when listed units mix RM and %", () => {
+    const mixed = listed.map((p, i) => (i === 0 ? { ...p, expenseType: "percentage" as const, expenseValue: 10 } : p));
+    expect(keys({ ...BASE, properties: mixed })).not.toContain("expenseValue");
+  });
+});
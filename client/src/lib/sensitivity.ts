@@ -0,0 +1,304 @@
+// ============================================================
+// PropertyLab - Sensitivity Analysis
+// Re-runs the plan with one or two assumptions changed to show
+// which of them drive the result at the horizon: a one-at-a-time
+// tornado and a two-input grid.
+// ============================================================
+
+import {
+  calculatePropertyPlan,
+  calculateStockReinvestment,
+  getHorizonResult,
+  getInterestRateForYear,
+  resolveProperties,
+  type CalculatorInputs,
+  type PropertySpec,
+  type RateSchedule,
+  type StockInputs,
+} from "./calculator";
+import { isHoldingCostsEnabled } from "./holdingCosts";
+
+export type SensitivityDriver =
+  | "appreciationRate"
+  | "rentalYield"
+  | "interestRate"
+  | "buyInterval"
+  | "expenseValue"
+  | "stockDividendYield"
+  | "stockDiscount";
+
+export interface DriverInfo {
+  key: SensitivityDriver;
+  label: string;
+  stock: boolean; // only matters when stocks are simulated
+  gridStep: number; // spacing of the two-input grid, in the input's own unit (% expense)
+  min: number;
+}
+
+export const SENSITIVITY_DRIVERS: DriverInfo[] = [
+  { key: "appreciationRate", label: "Appreciation", stock: false, gridStep: 1, min: -5 },
+  { key: "rentalYield", label: "Rental Yield", stock: false, gridStep: 1, min: 0 },
+  { key: "interestRate", label: "Interest Rate", stock: false, gridStep: 0.5, min: 0 },
+  { key: "buyInterval", label: "Buy Interval", stock: false, gridStep: 1, min: 1 },
+  { key: "expenseValue", label: "Expense", stock: false, gridStep: 5, min: 0 },
+  { key: "stockDividendYield", label: "Stock Dividend", stock: true, gridStep: 1, min: 0 },
+  { key: "stockDiscount", label: "Stock Discount", stock: true, gridStep: 5, min: 0 },
+];
+
+const FIXED_EXPENSE_GRID_STEP = 100; // RM a month
+
+/** Results at the horizon of one variant of the plan */
+export interface PlanOutcome {
+  netEquity: number;
+  combinedNetWorth: number | null; // null without stocks
+  // First year in which recurring cash flow (before one-off deposits and
+  // acquisition costs) is negative; null if it never is
+  firstNegativeCashFlowYear: number | null;
+}
+
+export interface TornadoRow {
+  driver: SensitivityDriver;
+  label: string;
+  lowValue: number;
+  highValue: number;
+  low: PlanOutcome;
+  high: PlanOutcome;
+}
+
+export interface TornadoResult {
+  base: PlanOutcome;
+  rows: TornadoRow[]; // widest swing in net equity first
+}
+
+export interface HeatmapResult {
+  xDriver: SensitivityDriver;
+  yDriver: SensitivityDriver;
+  xValues: number[];
+  yValues: number[];
+  cells: PlanOutcome[][]; // cells[y][x]
+}
+
+type PlanInputs = { inputs: CalculatorInputs; stockInputs: StockInputs | null };
+
+/** The custom property list the plan runs from, or null on the interval model */
+function getListedProperties(inputs: CalculatorInputs): PropertySpec[] | null {
+  return inputs.properties && inputs.properties.length > 0 ? inputs.properties : null;
+}
+
+/** Whether the expense is RM a month or % of the instalment for the units the plan runs */
+export function getExpenseType(inputs: CalculatorInputs): CalculatorInputs["expenseType"] {
+  return getListedProperties(inputs)?.[0].expenseType ?? inputs.expenseType;
+}
+
+/**
+ * Current value of a driver; the interest rate is the year-1 rate, and the
+ * yield and expense of a custom list are the average across its units
+ */
+export function getDriverValue(
+  { inputs, stockInputs }: PlanInputs,
+  driver: SensitivityDriver
+): number {
+  switch (driver) {
+    case "interestRate":
+      return getInterestRateForYear(inputs, 1);
+    case "stockDividendYield":
+      return stockInputs?.stockDividendYield ?? 0;
+    case "stockDiscount":
+      return stockInputs?.stockDiscount ?? 0;
+    case "rentalYield":
+    case "expenseValue": {
+      const listed = getListedProperties(inputs);
+      return listed
+        ? listed.reduce((sum, p) => sum + p[driver], 0) / listed.length
+        : inputs[driver];
+    }
+    default:
+      return inputs[driver];
+  }
+}
+
+/** Every rate in a schedule multiplied by `factor` */
+function scaleRateSchedule(schedule: RateSchedule, factor: number): RateSchedule {
+  return {
+    ...schedule,
+    baseRate: schedule.baseRate === undefined ? undefined : schedule.baseRate * factor,
+    steps: schedule.steps.map((s) => ({ ...s, rate: s.rate * factor })),
+  };
+}
+
+/** A rate path moved up by `delta` points: the base of a base-plus-spread path, otherwise every step */
+function shiftRateSchedule(schedule: RateSchedule, delta: number): RateSchedule {
+  return schedule.type === "baseSpread"
+    ? { ...schedule, baseRate: (schedule.baseRate ?? 0) + delta }
+    : { ...schedule, steps: schedule.steps.map((s) => ({ ...s, rate: s.rate + delta })) };
+}
+
+/**
+ * The plan with one driver set to `value`. Per-property yields, expenses and
+ * rates in a custom list move in proportion; the rate path is scaled so its
+ * year-1 rate equals `value`. From a base of zero nothing can be scaled, so
+ * every value is shifted by `value` instead.
+ */
+export function withDriverValue(
+  plan: PlanInputs,
+  driver: SensitivityDriver,
+  value: number
+): PlanInputs {
+  const { inputs, stockInputs } = plan;
+  const base = getDriverValue(plan, driver);
+  const move = (x: number) => (base !== 0 ? (x * value) / base : x + value);
+
+  switch (driver) {
+    case "stockDividendYield":
+    case "stockDiscount":
+      return { inputs, stockInputs: stockInputs && { ...stockInputs, [driver]: value } };
+    case "buyInterval":
+      return { inputs: { ...inputs, buyInterval: Math.max(1, Math.round(value)) }, stockInputs };
+    case "appreciationRate":
+      return { inputs: { ...inputs, appreciationRate: value }, stockInputs };
+    case "interestRate":
+      return {
+        inputs: {
+          ...inputs,
+          interestRate: move(inputs.interestRate),
+          rateSchedule:
+            inputs.rateSchedule &&
+            (base !== 0
+              ? scaleRateSchedule(inputs.rateSchedule, value / base)
+              : shiftRateSchedule(inputs.rateSchedule, value)),
+          properties: inputs.properties?.map((p) => ({
+            ...p,
+            interestRate: p.interestRate === undefined ? undefined : move(p.interestRate),
+          })),
+        },
+        stockInputs,
+      };
+    case "rentalYield":
+    case "expenseValue":
+      return {
+        inputs: {
+          ...inputs,
+          [driver]: value,
+          properties: inputs.properties?.map((p) => ({ ...p, [driver]: move(p[driver]) })),
+        },
+        stockInputs,
+      };
+  }
+}
+
+/** Run the plan and pick out the figures at the horizon */
+export function evaluatePlan({ inputs, stockInputs }: PlanInputs): PlanOutcome {
+  const result = calculatePropertyPlan(inputs);
+  const stock = stockInputs
+    ? calculateStockReinvestment(stockInputs, inputs, result)
+    : null;
+  return {
+    netEquity: getHorizonResult(result).netEquity,
+    combinedNetWorth: stock ? stock.yearlyData[stock.yearlyData.length - 1].combinedNetWorth : null,
+    firstNegativeCashFlowYear:
+      result.yearlyData.find(
+        (d) => d.year > 0 && d.annualCashFlow + (d.deposits ?? 0) + (d.acquisitionCost ?? 0) < 0
+      )?.year ?? null,
+  };
+}
+
+/**
+ * Drivers that affect this plan: stock drivers only when stocks are
+ * simulated, the single expense only when costs are not itemised (nor
+ * listed in both RM and %), the
+ * yield only when some unit is let to a tenant, and the buy interval only
+ * when the units are not listed one by one with their own purchase years
+ */
+export function getActiveDrivers(
+  inputs: CalculatorInputs,
+  stockInputs: StockInputs | null
+): DriverInfo[] {
+  const specs = resolveProperties(inputs);
+  const shortLetOnly = specs.length > 0 && specs.every((p) => p.shortTermRental);
+  const listed = getListedProperties(inputs);
+  // RM a month and % of the instalment cannot be averaged together
+  const mixedExpenses = !!listed && listed.some((p) => p.expenseType !== listed[0].expenseType);
+  return SENSITIVITY_DRIVERS.filter(
+    (d) =>
+      (!d.stock || !!stockInputs) &&
+      (d.key !== "expenseValue" || (!isHoldingCostsEnabled(inputs.holdingCosts) && !mixedExpenses)) &&
+      (d.key !== "rentalYield" || !shortLetOnly) &&
+      (d.key !== "buyInterval" || !listed)
+  );
+}
+
+/**
+ * Flex each driver down and up by `flexPct` % of its value, one at a time.
+ * The buy interval moves by at least a year, as it must stay whole, and a
+ * driver at zero moves by one grid step either way.
+ */
+export function runTornado(
+  inputs: CalculatorInputs,
+  stockInputs: StockInputs | null,
+  flexPct: number
+): TornadoResult {
+  const plan = { inputs, stockInputs };
+  const rows = getActiveDrivers(inputs, stockInputs).map((info) => {
+    const base = getDriverValue(plan, info.key);
+    let lowValue = Math.max(info.min, base * (1 - flexPct / 100));
+    let highValue = base * (1 + flexPct / 100);
+    if (base === 0) {
+      const step = getGridStep(plan, info.key);
+      lowValue = Math.max(info.min, -step);
+      highValue = step;
+    }
+    if (info.key === "buyInterval") {
+      lowValue = Math.max(1, Math.min(base - 1, Math.round(lowValue)));
+      highValue = Math.max(base + 1, Math.round(highValue));
+    }
+    return {
+      driver: info.key,
+      label: info.label,
+      lowValue,
+      highValue,
+      low: evaluatePlan(withDriverValue(plan, info.key, lowValue)),
+      high: evaluatePlan(withDriverValue(plan, info.key, highValue)),
+    };
+  });
+
+  const swing = (r: TornadoRow) => Math.abs(r.high.netEquity - r.low.netEquity);
+  return { base: evaluatePlan(plan), rows: rows.sort((a, b) => swing(b) - swing(a)) };
+}
+
+/** Spacing of a driver's grid in its own unit; a fixed expense is in RM a month */
+function getGridStep(plan: PlanInputs, driver: SensitivityDriver): number {
+  return driver === "expenseValue" && getExpenseType(plan.inputs) === "fixed"
+    ? FIXED_EXPENSE_GRID_STEP
+    : SENSITIVITY_DRIVERS.find((d) => d.key === driver)!.gridStep;
+}
+
+/** Grid values for a driver: two steps either side of today's value */
+export function getGridValues(
+  plan: PlanInputs,
+  driver: SensitivityDriver
+): number[] {
+  const info = SENSITIVITY_DRIVERS.find((d) => d.key === driver)!;
+  const base = getDriverValue(plan, driver);
+  const step = getGridStep(plan, driver);
+  const values = [-2, -1, 0, 1, 2]
+    .map((k) => base + k * step)
+    .filter((v) => v >= info.min);
+  return Array.from(new Set(values));
+}
+
+/** Evaluate every combination of two drivers on their grids */
+export function runHeatmap(
+  inputs: CalculatorInputs,
+  stockInputs: StockInputs | null,
+  xDriver: SensitivityDriver,
+  yDriver: SensitivityDriver
+): HeatmapResult {
+  const plan = { inputs, stockInputs };
+  const xValues = getGridValues(plan, xDriver);
+  const yValues = getGridValues(plan, yDriver);
+  const cells = yValues.map((y) => {
+    const row = withDriverValue(plan, yDriver, y);
+    return xValues.map((x) => evaluatePlan(withDriverValue(row, xDriver, x)));
+  });
+  return { xDriver, yDriver, xValues, yValues, cells };
+}
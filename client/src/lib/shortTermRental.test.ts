@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SHORT_TERM_RENTAL,
+  getMonthlyShortTermRental,
+  getShortTermRentalErrors,
+} from "./shortTermRental";
+
+const rentIndex = Array.from({ length: 400 }, () => 1);
+
+describe("getShortTermRentalErrors", () => {
+  it("accepts the defaults", () => {
+    expect(getShortTermRentalErrors(DEFAULT_SHORT_TERM_RENTAL)).toEqual([]);
+  });
+
+  it("needs a furniture life of at least a year", () => {
+    expect(getShortTermRentalErrors({ ...DEFAULT_SHORT_TERM_RENTAL, furnitureLifeYears: 0 })).toHaveLength(1);
+    expect(getShortTermRentalErrors({ ...DEFAULT_SHORT_TERM_RENTAL, furnitureLifeYears: 0.5 })).toHaveLength(1);
+  });
+
+  it("needs occupancy from 0–100% for each of the 12 months", () => {
+    expect(getShortTermRentalErrors({ ...DEFAULT_SHORT_TERM_RENTAL, occupancy: [] })).toHaveLength(1);
+    expect(getShortTermRentalErrors({ ...DEFAULT_SHORT_TERM_RENTAL, occupancy: Array(11).fill(60) })).toHaveLength(1);
+    expect(getShortTermRentalErrors({ ...DEFAULT_SHORT_TERM_RENTAL, occupancy: [...Array(11).fill(60), 120] })).toHaveLength(1);
+  });
+});
+
+describe("getMonthlyShortTermRental", () => {
+  const settings = { ...DEFAULT_SHORT_TERM_RENTAL, occupancy: Array(12).fill(50), furnitureLifeYears: 5 };
+
+  it("earns the nightly rate on the nights booked", () => {
+    const letting = getMonthlyShortTermRental(settings, { month: 0, monthsLet: 1, scale: 1, rentIndex });
+    expect(letting.gross).toBeCloseTo(settings.nightlyRate * 31 * 0.5);
+    expect(letting.platformFees).toBeCloseTo(letting.gross * (settings.platformFeeRate / 100));
+  });
+
+  it("furnishes in the first month let and at the end of each furniture life", () => {
+    const at = (monthsLet: number) =>
+      getMonthlyShortTermRental(settings, { month: monthsLet - 1, monthsLet, scale: 1, rentIndex });
+    expect(at(1).furnishing).toBe(settings.furnishingCost);
+    expect(at(2).furnishing).toBe(0);
+    expect(at(61).furnishing).toBe(settings.furnishingCost);
+    expect(at(2).depreciation).toBeCloseTo(settings.furnishingCost / 60);
+  });
+});
@@ -0,0 +1,153 @@
+// ============================================================
+// PropertyLab - Short-Term Rental
+// Letting a unit by the night on Airbnb-style platforms instead
+// of to a tenant: income is the nightly rate times the nights
+// booked, which swing with the season, less the platform's and
+// an operator's cut, cleaning between stays and the utilities
+// the host now pays. The unit must be furnished before the
+// first guest and refurnished at the end of each furniture life.
+// Ringgit amounts are in today's money for a unit at the plan's
+// purchase price and follow the rent escalation index.
+// ============================================================
+
+export interface ShortTermRentalSettings {
+  enabled: boolean; // the interval model's units are let short term
+  nightlyRate: number; // RM per night booked
+  occupancy: number[]; // % of nights booked in each calendar month, January first
+  averageStayNights: number; // nights per booking, for the cleaning count
+  cleaningPerStay: number; // RM per turnover
+  utilities: number; // RM per month: electricity, water, internet and streaming
+  platformFeeRate: number; // % of gross bookings kept by the platform
+  operatorFeeRate: number; // % of gross bookings kept by a co-host or operator; 0 = self-managed
+  furnishingCost: number; // RM to furnish before the first stay, and again each furniture life
+  furnitureLifeYears: number; // years before furniture is replaced; written off over this life for tax
+}
+
+/** One unit's short-term letting for a month or a year, in RM */
+export interface ShortTermRentalBreakdown {
+  gross: number; // bookings collected
+  platformFees: number;
+  operatorFees: number;
+  cleaning: number;
+  utilities: number;
+  furnishing: number; // cash spent furnishing or refurnishing
+  depreciation: number; // furniture written off, for tax only
+}
+
+export const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+export const DEFAULT_SHORT_TERM_RENTAL: ShortTermRentalSettings = {
+  enabled: false,
+  nightlyRate: 180,
+  // School holidays, Chinese New Year and year-end peaks; quieter after festive seasons
+  occupancy: [70, 65, 55, 55, 60, 70, 65, 65, 55, 55, 65, 80],
+  averageStayNights: 2.5,
+  cleaningPerStay: 60,
+  utilities: 350,
+  platformFeeRate: 15, // host-only fee on Airbnb's simplified pricing
+  operatorFeeRate: 0,
+  furnishingCost: 30_000,
+  furnitureLifeYears: 5,
+};
+
+export const NO_SHORT_TERM_RENTAL: ShortTermRentalBreakdown = {
+  gross: 0,
+  platformFees: 0,
+  operatorFees: 0,
+  cleaning: 0,
+  utilities: 0,
+  furnishing: 0,
+  depreciation: 0,
+};
+
+/** Whether the interval model's units are let short term (older scenarios have no settings) */
+export function isShortTermRentalEnabled(
+  settings?: ShortTermRentalSettings
+): settings is ShortTermRentalSettings {
+  return !!settings && settings.enabled;
+}
+
+/**
+ * Problems that would make the letting meaningless, e.g. furniture
+ * replaced every month or a year without twelve months of occupancy.
+ * Empty when the settings can be simulated.
+ */
+export function getShortTermRentalErrors(settings: ShortTermRentalSettings): string[] {
+  const errors: string[] = [];
+  if (
+    settings.occupancy.length !== 12 ||
+    settings.occupancy.some((o) => !Number.isFinite(o) || o < 0 || o > 100)
+  ) {
+    errors.push("Occupancy needs a value from 0% to 100% for each of the 12 months.");
+  }
+  if (!(settings.furnitureLifeYears >= 1)) {
+    errors.push("Furniture life must be at least 1 year.");
+  }
+  if (!(settings.averageStayNights >= 1)) {
+    errors.push("Average stay must be at least 1 night.");
+  }
+  return errors;
+}
+
+/**
+ * One unit's short-term letting in a month. `month` is the 0-based
+ * simulation month, so its calendar month sets the occupancy, and
+ * `monthsLet` counts months of letting including this one. `scale` sizes
+ * the amounts to the unit's price and `rentIndex` grows them from today.
+ */
+export function getMonthlyShortTermRental(
+  settings: ShortTermRentalSettings,
+  params: { month: number; monthsLet: number; scale: number; rentIndex: number[] }
+): ShortTermRentalBreakdown {
+  const { month, monthsLet, scale, rentIndex } = params;
+  const grown = (amount: number, at: number) => amount * scale * rentIndex[at];
+  const nights =
+    DAYS_IN_MONTH[month % 12] * (Math.min(100, Math.max(0, settings.occupancy[month % 12] ?? 0)) / 100);
+  const gross = grown(settings.nightlyRate, month) * nights;
+  const stays = settings.averageStayNights > 0 ? nights / settings.averageStayNights : 0;
+
+  // Furniture is bought in the first month let and replaced at the end of each life
+  const lifeMonths = Math.max(1, Math.round(settings.furnitureLifeYears * 12));
+  const monthsIntoLife = (monthsLet - 1) % lifeMonths;
+  const furnishedCost = grown(settings.furnishingCost, month - monthsIntoLife);
+
+  return {
+    gross,
+    platformFees: gross * (settings.platformFeeRate / 100),
+    operatorFees: gross * (settings.operatorFeeRate / 100),
+    cleaning: grown(settings.cleaningPerStay, month) * stays,
+    utilities: grown(settings.utilities, month),
+    furnishing: monthsIntoLife === 0 ? furnishedCost : 0,
+    depreciation: furnishedCost / lifeMonths,
+  };
+}
+
+/** Fees, cleaning and utilities: what it costs to run the unit as a rental */
+export function getOperatingCosts(letting: ShortTermRentalBreakdown): number {
+  return letting.platformFees + letting.operatorFees + letting.cleaning + letting.utilities;
+}
+
+/** Cash spent: the operating costs and any furnishing */
+export function getShortTermRentalCosts(letting: ShortTermRentalBreakdown): number {
+  return getOperatingCosts(letting) + letting.furnishing;
+}
+
+/** Deducted from rent for tax: the operating costs and the furniture written off */
+export function getDeductibleShortTermRentalCosts(letting: ShortTermRentalBreakdown): number {
+  return getOperatingCosts(letting) + letting.depreciation;
+}
+
+/** Field-by-field sum, or null when none of the inputs is let short term */
+export function sumShortTermRental(
+  lettings: (ShortTermRentalBreakdown | null)[]
+): ShortTermRentalBreakdown | null {
+  const shortLets = lettings.filter((l): l is ShortTermRentalBreakdown => l !== null);
+  if (shortLets.length === 0) return null;
+  const total = { ...NO_SHORT_TERM_RENTAL };
+  for (const letting of shortLets) {
+    for (const key of Object.keys(total) as (keyof ShortTermRentalBreakdown)[]) {
+      total[key] += letting[key];
+    }
+  }
+  return total;
+}
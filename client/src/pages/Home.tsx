@@ -21,6 +21,8 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import InputPanel, { type InputPanelRef } from "@/components/InputPanel";
 import ResultsPanel from "@/components/ResultsPanel";
+import MoneyBasisToggle, { MoneyBasisNote } from "@/components/MoneyBasisToggle";
+import { useDisplayResults, useDisplayStockResults } from "@/contexts/MoneyBasisContext";
 import StockInputPanel from "@/components/StockInputPanel";
 import StockResultsPanel from "@/components/StockResultsPanel";
 import SavedScenarios from "@/components/SavedScenarios";
@@ -29,11 +31,16 @@ import AIChatPanel, { type AIChatPanelRef, type AIStatus } from "@/components/AI
 import {
   calculatePropertyPlan,
   calculateStockReinvestment,
+  getHorizonResult,
+  getHorizonYears,
+  getInputErrors,
+  getStockMilestones,
   type CalculatorInputs,
   type FullSimulationResult,
   type StockInputs,
   type StockSimulationResult,
 } from "@/lib/calculator";
+import { buildPortfolioSummary } from "@/lib/portfolioSummary";
 import { useScenarios, type SavedScenario } from "@/hooks/useScenarios";
 import { toast } from "sonner";
 import { Bookmark, Sparkles, X, Home as HomeIcon, TrendingUp, PieChart, Save, ArrowLeft } from "lucide-react";
@@ -64,6 +71,7 @@ export default function Home() {
   // Stock reinvestment state
   const [stockResults, setStockResults] = useState<StockSimulationResult | null>(null);
   const [lastStockInputs, setLastStockInputs] = useState<StockInputs | null>(null);
+  const [externalStockInputs, setExternalStockInputs] = useState<StockInputs | null>(null);
 
   const { scenarios, saveScenario, deleteScenario, renameScenario } = useScenarios();
 
@@ -82,6 +90,10 @@ export default function Home() {
       age: 30,
       expenseType: "percentage" as const,
       expenseValue: 0,
+      purchaseMonth: 1,
+      rentStartDelayMonths: 0,
+      includeAcquisitionCosts: true,
+      includeIncomeTax: true,
     };
     const result = calculatePropertyPlan(defaultInputs);
     setResults(result);
@@ -121,6 +133,11 @@ export default function Home() {
 
   const handleLoadScenario = useCallback((inputs: CalculatorInputs) => {
     setExternalInputs({ ...inputs });
+    const [inputError] = getInputErrors(inputs);
+    if (inputError) {
+      toast.error(`Scenario loaded, but it cannot be calculated: ${inputError}`);
+      return;
+    }
     const result = calculatePropertyPlan(inputs);
     setResults(result);
     setLastInputs(inputs);
@@ -137,6 +154,28 @@ export default function Home() {
     }, 100);
   }, []);
 
+  // Plan picked in the goal planner: load both input panels and recalculate
+  const handleLoadGoalPlan = useCallback((inputs: CalculatorInputs, stockInputs: StockInputs | null) => {
+    setExternalInputs({ ...inputs });
+    const result = calculatePropertyPlan(inputs);
+    const stockResult = stockInputs ? calculateStockReinvestment(stockInputs, inputs, result) : null;
+    setResults(result);
+    setLastInputs(inputs);
+    setHasUserCalculated(true);
+    if (stockInputs) setExternalStockInputs({ ...stockInputs });
+    setStockResults(stockResult);
+    setLastStockInputs(stockInputs);
+    setActiveMainTab("property");
+    toast.success("Goal plan loaded — inputs updated and recalculated.");
+    window.scrollTo({ top: 0, behavior: "smooth" });
+
+    setTimeout(() => {
+      aiChatRef.current?.triggerAnalysis(inputs, result, stockInputs, stockResult);
+      setAiGlowPulse(true);
+      setTimeout(() => setAiGlowPulse(false), 4000);
+    }, 100);
+  }, []);
+
   const handleSave = useCallback(() => {
     if (!scenarioName.trim() || !lastInputs || !results) return;
     saveScenario(scenarioName, lastInputs, results);
@@ -193,17 +232,7 @@ export default function Home() {
 
   const handleSaveAsPortfolio = useCallback(() => {
     if (!portfolioName.trim() || !lastInputs || !results) return;
-    const summary: Record<string, number> = {
-      purchasePrice: lastInputs.purchasePrice,
-      equity10: results.results10.netEquity,
-      equity20: results.results20.netEquity,
-      equity30: results.results30.netEquity,
-      properties: results.results30.propertiesOwned,
-    };
-    if (stockResults) {
-      summary.stockValue30 = stockResults.stock30Year.portfolioValue;
-      summary.combined30 = results.results30.netEquity + stockResults.stock30Year.portfolioValue;
-    }
+    const summary = buildPortfolioSummary(lastInputs.purchasePrice, results, stockResults);
     savePortfolioMutation.mutate({
       name: portfolioName.trim(),
       propertyInputs: lastInputs,
@@ -315,7 +344,7 @@ export default function Home() {
 
       {/* ===== Top-Level Tab Navigation ===== */}
       <div className="bg-white border-b border-[#e5e5ea] sticky top-0 z-30">
-        <div className="container">
+        <div className="container flex items-center justify-between gap-4">
           <nav className="flex gap-0 -mb-px">
             {MAIN_TABS.map((tab) => {
               const Icon = tab.icon;
@@ -350,6 +379,7 @@ export default function Home() {
               );
             })}
           </nav>
+          <MoneyBasisToggle />
         </div>
       </div>
 
@@ -431,6 +461,7 @@ export default function Home() {
             {results && (
               <ResultsPanel
                 results={results}
+                inputs={lastInputs ?? undefined}
                 purchasePrice={lastInputs?.purchasePrice}
                 loanAmount={lastInputs?.loanAmount}
                 onReinvestToStock={hasUserCalculated ? handleReinvestToStock : undefined}
@@ -466,6 +497,7 @@ export default function Home() {
               purchasePrice={lastInputs.purchasePrice}
               loanAmount={lastInputs.loanAmount}
               onCalculate={handleStockCalculate}
+              externalInputs={externalStockInputs}
             />
 
             {stockResults && lastStockInputs && (
@@ -473,6 +505,7 @@ export default function Home() {
                 stockResults={stockResults}
                 propertyResults={results}
                 stockInputs={lastStockInputs}
+                propertyInputs={lastInputs}
                 purchasePrice={lastInputs.purchasePrice}
                 loanAmount={lastInputs.loanAmount}
               />
@@ -558,6 +591,7 @@ export default function Home() {
             stockResults={stockResults}
             stockInputs={lastStockInputs}
             onStatusChange={setAiStatus}
+            onLoadInputs={handleLoadGoalPlan}
             isSlideIn={true}
           />
         </div>
@@ -592,9 +626,9 @@ export default function Home() {
             autoFocus
           />
           <div className="mt-2 p-3 bg-[#f5f5f7] rounded-lg text-[12px] text-[#86868b] space-y-1">
-            <p>Property: <strong className="text-[#1d1d1f]">RM {results ? Math.round(results.results30.netEquity).toLocaleString() : 0}</strong> equity at 30 years</p>
-            {stockResults && (
-              <p>Stock: <strong className="text-[#34c759]">RM {Math.round(stockResults.stock30Year.portfolioValue).toLocaleString()}</strong> portfolio at 30 years</p>
+            <p>Property: <strong className="text-[#1d1d1f]">RM {results ? Math.round(getHorizonResult(results).netEquity).toLocaleString() : 0}</strong> equity at {results ? getHorizonYears(results) : 30} years</p>
+            {results && stockResults && (
+              <p>Stock: <strong className="text-[#34c759]">RM {Math.round(getStockMilestones(stockResults).at(-1)?.milestone.portfolioValue ?? 0).toLocaleString()}</strong> portfolio at {getHorizonYears(results)} years</p>
             )}
           </div>
           <DialogFooter className="mt-4">
@@ -616,7 +650,7 @@ export default function Home() {
 }
 
 /* ========== Combined Portfolio View ========== */
-import { formatNumber } from "@/lib/calculator";
+import { formatNumber, getMilestones } from "@/lib/calculator";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -636,8 +670,8 @@ ChartJS.register(
 );
 
 function CombinedPortfolioView({
-  propertyResults,
-  stockResults,
+  propertyResults: nominalPropertyResults,
+  stockResults: nominalStockResults,
   stockInputs,
   propertyInputs,
 }: {
@@ -646,16 +680,20 @@ function CombinedPortfolioView({
   stockInputs: StockInputs;
   propertyInputs: CalculatorInputs;
 }) {
-  const s10 = stockResults.stock10Year;
-  const s20 = stockResults.stock20Year;
-  const s30 = stockResults.stock30Year;
-  const p10 = propertyResults.results10;
-  const p20 = propertyResults.results20;
-  const p30 = propertyResults.results30;
-
-  const combined10 = p10.netEquity + s10.portfolioValue;
-  const combined20 = p20.netEquity + s20.portfolioValue;
-  const combined30 = p30.netEquity + s30.portfolioValue;
+  const propertyResults = useDisplayResults(nominalPropertyResults);
+  const stockResults = useDisplayStockResults(nominalStockResults);
+  // Property equity and stock value at each milestone, the horizon last
+  const stockByYear = new Map(
+    getStockMilestones(stockResults).map((m) => [m.year, m.milestone.portfolioValue])
+  );
+  const milestones = getMilestones(propertyResults).map(({ year, result }) => {
+    const stock = stockByYear.get(year) ?? 0;
+    return { year, property: result.netEquity, stock, combined: result.netEquity + stock };
+  });
+  const horizon = getHorizonYears(propertyResults);
+  const atHorizon = getHorizonResult(propertyResults);
+  const stockAtHorizon = stockByYear.get(horizon) ?? 0;
+  const combinedAtHorizon = atHorizon.netEquity + stockAtHorizon;
 
   const lastStock = stockResults.yearlyData[stockResults.yearlyData.length - 1];
 
@@ -669,15 +707,12 @@ function CombinedPortfolioView({
         <p className="text-[14px] text-[#86868b] mt-1">
           Your total wealth from property investment and stock reinvestment combined.
         </p>
+        <MoneyBasisNote startingYear={propertyInputs.startingYear} />
       </div>
 
       {/* Combined Net Worth Cards */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-        {[
-          { label: "10-Year Combined", combined: combined10, property: p10.netEquity, stock: s10.portfolioValue },
-          { label: "20-Year Combined", combined: combined20, property: p20.netEquity, stock: s20.portfolioValue },
-          { label: "30-Year Combined", combined: combined30, property: p30.netEquity, stock: s30.portfolioValue },
-        ].map((m) => (
+        {milestones.map((m) => ({ ...m, label: `${m.year}-Year Combined` })).map((m) => (
           <div key={m.label} className="apple-card p-5 md:p-6 border-t-[3px] border-t-[#5856d6]">
             <p className="text-[12px] font-medium text-[#86868b] uppercase tracking-wider mb-2">
               {m.label}
@@ -702,17 +737,17 @@ function CombinedPortfolioView({
 
       {/* Allocation Breakdown */}
       <div className="apple-card p-5 md:p-6">
-        <h3 className="text-[16px] font-semibold text-[#1d1d1f] mb-4">30-Year Wealth Breakdown</h3>
+        <h3 className="text-[16px] font-semibold text-[#1d1d1f] mb-4">{horizon}-Year Wealth Breakdown</h3>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="text-center p-4 bg-[#0071e3]/5 rounded-[12px]">
             <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">Property Equity</p>
-            <p className="text-[20px] font-semibold text-[#0071e3]">RM {formatNumber(Math.round(p30.netEquity))}</p>
-            <p className="text-[12px] text-[#86868b] mt-1">{combined30 > 0 ? ((p30.netEquity / combined30) * 100).toFixed(1) : 0}% of total</p>
+            <p className="text-[20px] font-semibold text-[#0071e3]">RM {formatNumber(Math.round(atHorizon.netEquity))}</p>
+            <p className="text-[12px] text-[#86868b] mt-1">{combinedAtHorizon > 0 ? ((atHorizon.netEquity / combinedAtHorizon) * 100).toFixed(1) : 0}% of total</p>
           </div>
           <div className="text-center p-4 bg-[#34c759]/5 rounded-[12px]">
             <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">Stock Portfolio</p>
-            <p className="text-[20px] font-semibold text-[#34c759]">RM {formatNumber(Math.round(s30.portfolioValue))}</p>
-            <p className="text-[12px] text-[#86868b] mt-1">{combined30 > 0 ? ((s30.portfolioValue / combined30) * 100).toFixed(1) : 0}% of total</p>
+            <p className="text-[20px] font-semibold text-[#34c759]">RM {formatNumber(Math.round(stockAtHorizon))}</p>
+            <p className="text-[12px] text-[#86868b] mt-1">{combinedAtHorizon > 0 ? ((stockAtHorizon / combinedAtHorizon) * 100).toFixed(1) : 0}% of total</p>
           </div>
           <div className="text-center p-4 bg-[#ff9500]/5 rounded-[12px]">
             <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">Total Dividends</p>
@@ -721,8 +756,8 @@ function CombinedPortfolioView({
           </div>
           <div className="text-center p-4 bg-[#5856d6]/5 rounded-[12px]">
             <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">Properties Owned</p>
-            <p className="text-[20px] font-semibold text-[#5856d6]">{p30.propertiesOwned}</p>
-            <p className="text-[12px] text-[#86868b] mt-1">Total assets: RM {formatNumber(Math.round(p30.totalAssetValue))}</p>
+            <p className="text-[20px] font-semibold text-[#5856d6]">{atHorizon.propertiesOwned}</p>
+            <p className="text-[12px] text-[#86868b] mt-1">Total assets: RM {formatNumber(Math.round(atHorizon.totalAssetValue))}</p>
           </div>
         </div>
       </div>
@@ -730,7 +765,7 @@ function CombinedPortfolioView({
       {/* Combined Growth Chart */}
       <div className="apple-card p-5 md:p-6">
         <h3 className="text-[16px] font-semibold text-[#1d1d1f] mb-1">Portfolio Growth Over Time</h3>
-        <p className="text-[13px] text-[#86868b] mb-4">Property equity, stock value, and combined net worth across 30 years.</p>
+        <p className="text-[13px] text-[#86868b] mb-4">Property equity, stock value, and combined net worth across {horizon} years.</p>
         <div className="h-[360px] md:h-[420px]">
           <Line
             data={{
@@ -8,9 +8,15 @@ import { trpc } from "@/lib/trpc";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import ResultsPanel from "@/components/ResultsPanel";
+import MoneyBasisToggle, { MoneyBasisNote } from "@/components/MoneyBasisToggle";
+import { useDisplayResults, useDisplayStockResults } from "@/contexts/MoneyBasisContext";
 import StockResultsPanel from "@/components/StockResultsPanel";
 import {
   formatNumber,
+  getHorizonResult,
+  getHorizonYears,
+  getMilestones,
+  getStockMilestones,
   type CalculatorInputs,
   type FullSimulationResult,
   type StockInputs,
@@ -85,6 +91,8 @@ export default function PortfolioDetail() {
   const stockInputs = portfolio?.stockInputs as StockInputs | null;
   const stockResults = portfolio?.stockResults as StockSimulationResult | null;
 
+  const displayPropertyResults = useDisplayResults(propertyResults);
+
   const hasStock = !!stockResults;
 
   const TABS: { key: DetailTab; label: string; icon: typeof HomeIcon; disabled?: boolean }[] = [
@@ -146,7 +154,7 @@ export default function PortfolioDetail() {
 
       {/* Tab Navigation */}
       <div className="bg-white border-b border-[#e5e5ea] sticky top-0 z-30">
-        <div className="container">
+        <div className="container flex items-center justify-between gap-4">
           <nav className="flex gap-0 -mb-px">
             {TABS.map((tab) => {
               const Icon = tab.icon;
@@ -180,6 +188,7 @@ export default function PortfolioDetail() {
               );
             })}
           </nav>
+          <MoneyBasisToggle />
         </div>
       </div>
 
@@ -196,11 +205,11 @@ export default function PortfolioDetail() {
               </div>
               <div className="apple-card p-4">
                 <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">Properties</p>
-                <p className="text-[18px] font-semibold text-[#1d1d1f]">{propertyResults.results30.propertiesOwned}</p>
+                <p className="text-[18px] font-semibold text-[#1d1d1f]">{getHorizonResult(propertyResults).propertiesOwned}</p>
               </div>
               <div className="apple-card p-4">
-                <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">30-Year Equity</p>
-                <p className="text-[18px] font-semibold text-[#0071e3]">RM {formatNumber(Math.round(propertyResults.results30.netEquity))}</p>
+                <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">{getHorizonYears(propertyResults)}-Year Equity</p>
+                <p className="text-[18px] font-semibold text-[#0071e3]">RM {formatNumber(Math.round(getHorizonResult(displayPropertyResults!).netEquity))}</p>
               </div>
               <div className="apple-card p-4">
                 <p className="text-[11px] font-medium text-[#86868b] uppercase tracking-wider mb-1">Loan Tenure</p>
@@ -210,6 +219,7 @@ export default function PortfolioDetail() {
 
             <ResultsPanel
               results={propertyResults}
+              inputs={propertyInputs}
               purchasePrice={propertyInputs.purchasePrice}
               loanAmount={propertyInputs.loanAmount}
             />
@@ -234,6 +244,7 @@ export default function PortfolioDetail() {
               stockResults={stockResults}
               propertyResults={propertyResults}
               stockInputs={stockInputs}
+              propertyInputs={propertyInputs}
               purchasePrice={propertyInputs.purchasePrice}
               loanAmount={propertyInputs.loanAmount}
             />
@@ -311,8 +322,8 @@ export default function PortfolioDetail() {
 
 /* ========== Combined View (reused from Home.tsx pattern) ========== */
 function CombinedView({
-  propertyResults,
-  stockResults,
+  propertyResults: nominalPropertyResults,
+  stockResults: nominalStockResults,
   stockInputs,
   propertyInputs,
 }: {
@@ -321,16 +332,20 @@ function CombinedView({
   stockInputs: StockInputs;
   propertyInputs: CalculatorInputs;
 }) {
-  const s10 = stockResults.stock10Year;
-  const s20 = stockResults.stock20Year;
-  const s30 = stockResults.stock30Year;
-  const p10 = propertyResults.results10;
-  const p20 = propertyResults.results20;
-  const p30 = propertyResults.results30;
-
-  const combined10 = p10.netEquity + s10.portfolioValue;
-  const combined20 = p20.netEquity + s20.portfolioValue;
-  const combined30 = p30.netEquity + s30.portfolioValue;
+  const propertyResults = useDisplayResults(nominalPropertyResults);
+  const stockResults = useDisplayStockResults(nominalStockResults);
+  // Property equity and stock value at each milestone, the horizon last
+  const stockByYear = new Map(
+    getStockMilestones(stockResults).map((m) => [m.year, m.milestone.portfolioValue])
+  );
+  const milestones = getMilestones(propertyResults).map(({ year, result }) => {
+    const stock = stockByYear.get(year) ?? 0;
+    return { year, property: result.netEquity, stock, combined: result.netEquity + stock };
+  });
+  const horizon = getHorizonYears(propertyResults);
+  const atHorizon = getHorizonResult(propertyResults);
+  const stockAtHorizon = stockByYear.get(horizon) ?? 0;
+  const combinedAtHorizon = atHorizon.netEquity + stockAtHorizon;
 
   const lastStock = stockResults.yearlyData[stockResults.yearlyData.length - 1];
 
@@ -343,15 +358,12 @@ function CombinedView({
         <p className="text-[14px] text-[#86868b] mt-1">
           Your total wealth from property investment and stock reinvestment combined.
         </p>
+        <MoneyBasisNote startingYear={propertyInputs.startingYear} />
       </div>
 
       {/* Combined Net Worth Cards */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-        {[
-          { label: "10-Year Combined", combined: combined10, property: p10.netEquity, stock: s10.portfolioValue },
-          { label: "20-Year Combined", combined: combined20, property: p20.netEquity, stock: s20.portfolioValue },
-          { label: "30-Year Combined", combined: combined30, property: p30.netEquity, stock: s30.portfolioValue },
-        ].map((m) => (
+        {milestones.map((m) => ({ ...m, label: `${m.year}-Year Combined` })).map((m) => (
           <div key={m.label} className="apple-card p-5 md:p-6 border-t-[3px] border-t-[#5856d6]">
             <p className="text-[12px] font-medium text-[#86868b] uppercase tracking-wider mb-2">{m.label}</p>
             <p className="text-[26px] md:text-[30px] font-semibold text-[#5856d6] tracking-tight leading-none">
@@ -375,7 +387,7 @@ function CombinedView({
       {/* Portfolio Growth Chart */}
       <div className="apple-card p-5 md:p-6">
         <h3 className="text-[16px] font-semibold text-[#1d1d1f] mb-1">Portfolio Growth Over Time</h3>
-        <p className="text-[13px] text-[#86868b] mb-4">Property equity, stock value, and combined net worth across 30 years.</p>
+        <p className="text-[13px] text-[#86868b] mb-4">Property equity, stock value, and combined net worth across {horizon} years.</p>
         <div className="h-[360px] md:h-[420px]">
           <Line
             data={{
@@ -1,5 +1,6 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
+import { readPortfolioSummary } from "@/lib/portfolioSummary";
 import { getLoginUrl } from "@/const";
 import { Button } from "@/components/ui/button";
 import {
@@ -193,16 +194,19 @@ export default function Portfolios() {
                       Portfolio Name
                     </th>
                     <th className="text-right px-5 py-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider">
-                      10-Year Equity
+                      First Milestone
                     </th>
                     <th className="text-right px-5 py-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider">
-                      30-Year Equity
+                      Equity at Horizon
                     </th>
                     <th className="text-right px-5 py-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider">
                       Stock Value
                     </th>
                     <th className="text-right px-5 py-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider">
-                      Combined 30Y
+                      Combined
+                    </th>
+                    <th className="text-right px-5 py-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider">
+                      IRR
                     </th>
                     <th className="text-center px-5 py-3 text-[11px] font-semibold text-[#86868b] uppercase tracking-wider">
                       Properties
@@ -217,7 +221,14 @@ export default function Portfolios() {
                 </thead>
                 <tbody>
                   {portfolioList.map((p: any) => {
-                    const summary = p.summary as any;
+                    const summary = readPortfolioSummary(p.summary);
+                    const years = summary
+                      ? Object.keys(summary.milestones).map(Number).sort((a, b) => a - b)
+                      : [];
+                    const first = years.length > 1 ? years[0] : undefined;
+                    const firstSummary = first !== undefined ? summary?.milestones[first] : undefined;
+                    const horizon = years.at(-1);
+                    const atHorizon = horizon !== undefined ? summary?.milestones[horizon] : undefined;
                     return (
                       <tr
                         key={p.id}
@@ -241,34 +252,44 @@ export default function Portfolios() {
                         </td>
                         <td className="px-5 py-4 text-right">
                           <span className="text-[14px] font-medium text-[#1d1d1f]">
-                            {summary?.equity10 ? formatRM(summary.equity10) : "—"}
+                            {firstSummary ? formatRM(firstSummary.equity) : "—"}
                           </span>
+                          {first !== undefined && <p className="text-[11px] text-[#86868b]">Year {first}</p>}
                         </td>
                         <td className="px-5 py-4 text-right">
                           <span className="text-[14px] font-medium text-[#1d1d1f]">
-                            {summary?.equity30 ? formatRM(summary.equity30) : "—"}
+                            {atHorizon ? formatRM(atHorizon.equity) : "—"}
                           </span>
+                          {horizon !== undefined && <p className="text-[11px] text-[#86868b]">Year {horizon}</p>}
                         </td>
                         <td className="px-5 py-4 text-right">
-                          {summary?.stockValue30 ? (
+                          {atHorizon?.stockValue ? (
                             <span className="text-[14px] font-medium text-[#34c759]">
-                              {formatRM(summary.stockValue30)}
+                              {formatRM(atHorizon.stockValue)}
                             </span>
                           ) : (
                             <span className="text-[13px] text-[#86868b]">—</span>
                           )}
                         </td>
                         <td className="px-5 py-4 text-right">
-                          {summary?.combined30 ? (
+                          {atHorizon?.combined ? (
                             <span className="text-[14px] font-bold text-[#5856d6]">
-                              {formatRM(summary.combined30)}
+                              {formatRM(atHorizon.combined)}
                             </span>
                           ) : (
                             <span className="text-[14px] font-medium text-[#1d1d1f]">
-                              {summary?.equity30 ? formatRM(summary.equity30) : "—"}
+                              {atHorizon ? formatRM(atHorizon.equity) : "—"}
                             </span>
                           )}
                         </td>
+                        <td className="px-5 py-4 text-right">
+                          <span className="text-[14px] font-medium text-[#1d1d1f]">
+                            {summary?.irr != null ? `${summary.irr.toFixed(1)}%` : "—"}
+                          </span>
+                          {summary?.equityMultiple != null && (
+                            <p className="text-[11px] text-[#86868b]">{summary.equityMultiple.toFixed(2)}× cash</p>
+                          )}
+                        </td>
                         <td className="px-5 py-4 text-center">
                           <span className="inline-flex items-center gap-1 text-[13px] font-medium text-[#1d1d1f]">
                             <Building2 className="w-3.5 h-3.5 text-[#86868b]" />
@@ -99,10 +99,12 @@ const samplePropertyResults = {
 
 const sampleSummary = {
   purchasePrice: 500000,
-  equity10: 1000000,
-  equity20: 3000000,
-  equity30: 8000000,
+  horizonYears: 30,
   properties: 10,
+  milestones: { 10: { equity: 1000000 }, 20: { equity: 3000000 }, 30: { equity: 8000000 } },
+  irr: 12.5,
+  npv: 250000,
+  equityMultiple: null,
 };
 
 describe("portfolio router", () => {
@@ -167,11 +169,66 @@ describe("portfolio router", () => {
         stockInputs: { enableStockReinvestment: true, stockDividendYield: 6, stockDiscount: 20, stockAppreciation: 5, reinvestDividends: true },
         propertyResults: samplePropertyResults,
         stockResults: { yearlyData: [], totalCashbackPerProperty: 100000, totalCashbackAllProperties: 1000000, stock10Year: { portfolioValue: 500000, totalDividends: 50000, totalInvested: 400000 }, stock20Year: { portfolioValue: 1500000, totalDividends: 200000, totalInvested: 800000 }, stock30Year: { portfolioValue: 4000000, totalDividends: 500000, totalInvested: 1200000 } },
-        summary: { ...sampleSummary, stockValue30: 4000000, combined30: 12000000 },
+        summary: {
+          ...sampleSummary,
+          milestones: { ...sampleSummary.milestones, 30: { equity: 8000000, stockValue: 4000000, combined: 12000000 } },
+          stockReturn: 7.2,
+        },
       });
 
       expect(result).toHaveProperty("id");
     });
+
+    it("should reject a summary without milestones", async () => {
+      const ctx = createAuthContext();
+      const trpc = caller(ctx);
+
+      await expect(
+        trpc.portfolio.create({
+          name: "Test Portfolio",
+          propertyInputs: samplePropertyInputs,
+          propertyResults: samplePropertyResults,
+          summary: { purchasePrice: 500000, equity10: 1000000, equity20: 3000000, equity30: 8000000, properties: 10 } as any,
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should reject a milestone that is not a simulation year", async () => {
+      const ctx = createAuthContext();
+      const trpc = caller(ctx);
+
+      await expect(
+        trpc.portfolio.create({
+          name: "Test Portfolio",
+          propertyInputs: samplePropertyInputs,
+          propertyResults: samplePropertyResults,
+          summary: { ...sampleSummary, milestones: { horizon: { equity: 8000000 } } },
+        })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("portfolio.update", () => {
+    it("should accept a summary in the saved shape", async () => {
+      mockPortfolios.push({ id: 1, userId: 1 });
+      const ctx = createAuthContext();
+      const trpc = caller(ctx);
+
+      await expect(trpc.portfolio.update({ id: 1, summary: sampleSummary })).resolves.toEqual({ success: true });
+    });
+
+    it("should reject a summary with non-numeric equity", async () => {
+      mockPortfolios.push({ id: 1, userId: 1 });
+      const ctx = createAuthContext();
+      const trpc = caller(ctx);
+
+      await expect(
+        trpc.portfolio.update({
+          id: 1,
+          summary: { ...sampleSummary, milestones: { 30: { equity: "8000000" } } } as any,
+        })
+      ).rejects.toThrow();
+    });
   });
 
   describe("portfolio.list", () => {
@@ -5,6 +5,25 @@ import { portfolios } from "../../drizzle/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
 
+// Saved beside each portfolio for the list page, as built by buildPortfolioSummary
+const milestoneSummarySchema = z.object({
+  equity: z.number(),
+  stockValue: z.number().optional(),
+  combined: z.number().optional(),
+});
+
+const portfolioSummarySchema = z.object({
+  purchasePrice: z.number().nonnegative(),
+  horizonYears: z.number().int().positive(),
+  properties: z.number().int().nonnegative(),
+  // Keyed by simulation year
+  milestones: z.record(z.string().regex(/^\d+$/), milestoneSummarySchema),
+  irr: z.number().nullable().optional(),
+  npv: z.number().optional(),
+  equityMultiple: z.number().nullable().optional(),
+  stockReturn: z.number().nullable().optional(),
+});
+
 export const portfolioRouter = router({
   /** List all portfolios for the current user, newest first */
   list: protectedProcedure.query(async ({ ctx }) => {
@@ -49,7 +68,7 @@ export const portfolioRouter = router({
         stockInputs: z.any().optional(),
         propertyResults: z.any(),
         stockResults: z.any().optional(),
-        summary: z.any(),
+        summary: portfolioSummarySchema,
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -80,7 +99,7 @@ export const portfolioRouter = router({
         stockInputs: z.any().optional(),
         propertyResults: z.any().optional(),
         stockResults: z.any().optional(),
-        summary: z.any().optional(),
+        summary: portfolioSummarySchema.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {